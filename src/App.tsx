@@ -1,14 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import AuthScreen from './components/auth/AuthScreen';
+import ResetPasswordForm from './components/auth/ResetPasswordForm';
 import ProtectedRoute from './components/ProtectedRoute';
 import SessionManager from './components/SessionManager';
+import LanguageProvider from './components/LanguageProvider';
+import RouterProvider from './components/RouterProvider';
 import ErrorBoundary from './components/ErrorBoundary';
 import { LogOut, Loader2 } from 'lucide-react';
 import ParentDashboard from './components/dashboard/ParentDashboard';
+import KidMode from './components/kid/KidMode';
+import { clearKidMode, useKidMode } from './lib/kidMode';
+import { useI18n } from './lib/i18n';
+
+// Drops the Supabase auth tokens and kid mode that can leave the app stuck loading.
+// Sessions waiting in the offline queue, the language and the family device stay.
+const clearStuckSession = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('sb-'))
+    .forEach(key => localStorage.removeItem(key));
+  clearKidMode();
+  sessionStorage.clear();
+};
 
 const AppContent: React.FC = () => {
-  const { user, profile, loading, signOut } = useAuth();
+  const { user, profile, childSession, passwordRecovery, loading, signOut } = useAuth();
+  const { kidModeChildId } = useKidMode();
+  const { t } = useI18n();
   const [showForceLogout, setShowForceLogout] = useState(false);
 
   // Debug logging for loading states
@@ -34,16 +52,13 @@ const AppContent: React.FC = () => {
     console.log('🔴 Force logout initiated by user');
     try {
       await signOut();
-      // Clear any cached data
-      localStorage.clear();
-      sessionStorage.clear();
+      clearStuckSession();
       // Don't force reload - let React handle state cleanup
       setShowForceLogout(false);
     } catch (error) {
       console.error('🔴 Force logout failed:', error);
       // Clear storage and reset state instead of force reload
-      localStorage.clear();
-      sessionStorage.clear();
+      clearStuckSession();
       setShowForceLogout(false);
     }
   };
@@ -54,19 +69,19 @@ const AppContent: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center max-w-md mx-auto p-6">
           <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
-          <p className="text-gray-600 mb-4">Loading KidsFit...</p>
+          <p className="text-gray-600 mb-4">{t('app.loading')}</p>
           
           {showForceLogout && (
             <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
               <p className="text-sm text-yellow-800 mb-3">
-                Taking longer than usual? You can force logout and try again.
+                {t('app.slowLoading')}
               </p>
               <button
                 onClick={handleForceLogout}
                 className="flex items-center justify-center gap-2 mx-auto px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
               >
                 <LogOut className="w-4 h-4" />
-                Force Logout & Reset
+                {t('app.forceLogout')}
               </button>
             </div>
           )}
@@ -75,13 +90,29 @@ const AppContent: React.FC = () => {
     );
   }
 
+  // A password reset link signs the parent in; the new password comes first
+  if (user && passwordRecovery) {
+    return <ResetPasswordForm />;
+  }
+
+  // A child signed in on the family device only ever sees their own screen
+  if (user && childSession) {
+    return (
+      <KidMode
+        childProfileId={childSession.child_id}
+        childName={childSession.display_name}
+        signedInAsChild
+      />
+    );
+  }
+
   if (!user || !profile) {
     return <AuthScreen />;
   }
 
   return (
     <ProtectedRoute>
-      <ParentDashboard />
+      {kidModeChildId ? <KidMode childProfileId={kidModeChildId} /> : <ParentDashboard />}
     </ProtectedRoute>
   );
 };
@@ -90,9 +121,13 @@ function App() {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <SessionManager>
-          <AppContent />
-        </SessionManager>
+        <LanguageProvider>
+          <RouterProvider>
+            <SessionManager>
+              <AppContent />
+            </SessionManager>
+          </RouterProvider>
+        </LanguageProvider>
       </AuthProvider>
     </ErrorBoundary>
   );
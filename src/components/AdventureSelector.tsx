@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { getAdventureEmoji } from '../lib/adventures';
+import { useI18n, type MessageKey } from '../lib/i18n';
 import { ChevronDown } from 'lucide-react';
 
 interface Adventure {
   id: string;
   title: string;
+  title_ru: string | null;
   description: string;
+  description_ru: string | null;
   story_theme: string;
   total_exercises: number;
   difficulty_level: string;
@@ -15,6 +19,12 @@ interface Adventure {
   display_order: number;
 }
 
+const LEVEL_LABEL_KEYS: Record<string, MessageKey> = {
+  Beginner: 'level.Beginner',
+  Intermediate: 'level.Intermediate',
+  Advanced: 'level.Advanced',
+};
+
 interface AdventureSelectorProps {
   selectedAdventure: string;
   onAdventureChange: (adventureTheme: string) => void;
@@ -26,6 +36,7 @@ const AdventureSelector: React.FC<AdventureSelectorProps> = ({
   onAdventureChange,
   className = ''
 }) => {
+  const { t, localize } = useI18n();
   const [adventures, setAdventures] = useState<Adventure[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -56,16 +67,6 @@ const AdventureSelector: React.FC<AdventureSelectorProps> = ({
     }
   };
 
-  const getAdventureEmoji = (theme: string) => {
-    const emojis = {
-      jungle: '🌴',
-      space: '🚀',
-      ocean: '🌊',
-      superhero: '🦸',
-    };
-    return emojis[theme as keyof typeof emojis] || '⭐';
-  };
-
   const getDifficultyColor = (difficulty: string) => {
     const colors = {
       'Beginner': 'text-green-600 bg-green-50',
@@ -97,9 +98,9 @@ const AdventureSelector: React.FC<AdventureSelectorProps> = ({
             <>
               <span className="text-xl">{getAdventureEmoji(selectedAdventureData.story_theme)}</span>
               <div className="text-left">
-                <span className="font-medium text-gray-900">{selectedAdventureData.title}</span>
+                <span className="font-medium text-gray-900">{localize({ en: selectedAdventureData.title, ru: selectedAdventureData.title_ru })}</span>
                 <p className="text-xs text-gray-500 mt-0.5">
-                  {selectedAdventureData.total_exercises} упражнений • {selectedAdventureData.estimated_days} дней
+                  {t('adventure.exercises', { count: selectedAdventureData.total_exercises })} • {t('adventure.days', { count: selectedAdventureData.estimated_days })}
                 </p>
               </div>
             </>
@@ -107,8 +108,8 @@ const AdventureSelector: React.FC<AdventureSelectorProps> = ({
             <>
               <span className="text-xl">🎯</span>
               <div className="text-left">
-                <span className="font-medium text-gray-900">Все приключения</span>
-                <p className="text-xs text-gray-500 mt-0.5">Показать все упражнения</p>
+                <span className="font-medium text-gray-900">{t('adventureSelector.all')}</span>
+                <p className="text-xs text-gray-500 mt-0.5">{t('adventureSelector.allHint')}</p>
               </div>
             </>
           )}
@@ -132,8 +133,8 @@ const AdventureSelector: React.FC<AdventureSelectorProps> = ({
               <div className="flex items-center gap-3">
                 <span className="text-xl">🎯</span>
                 <div>
-                  <div className="font-medium text-gray-900">Все приключения</div>
-                  <div className="text-xs text-gray-500">Показать все упражнения</div>
+                  <div className="font-medium text-gray-900">{t('adventureSelector.all')}</div>
+                  <div className="text-xs text-gray-500">{t('adventureSelector.allHint')}</div>
                 </div>
               </div>
             </button>
@@ -157,16 +158,16 @@ const AdventureSelector: React.FC<AdventureSelectorProps> = ({
                     <span className="text-xl mt-0.5">{getAdventureEmoji(adventure.story_theme)}</span>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
-                        <span className="font-medium text-gray-900 truncate">{adventure.title}</span>
+                        <span className="font-medium text-gray-900 truncate">{localize({ en: adventure.title, ru: adventure.title_ru })}</span>
                         <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${getDifficultyColor(adventure.difficulty_level)}`}>
-                          {adventure.difficulty_level}
+                          {LEVEL_LABEL_KEYS[adventure.difficulty_level] ? t(LEVEL_LABEL_KEYS[adventure.difficulty_level]) : adventure.difficulty_level}
                         </span>
                       </div>
-                      <p className="text-xs text-gray-600 line-clamp-2 mb-2">{adventure.description}</p>
+                      <p className="text-xs text-gray-600 line-clamp-2 mb-2">{localize({ en: adventure.description, ru: adventure.description_ru })}</p>
                       <div className="flex items-center gap-4 text-xs text-gray-500">
-                        <span>📋 {adventure.total_exercises} упражнений</span>
-                        <span>⏱️ {adventure.estimated_days} дней</span>
-                        <span>⭐ {adventure.reward_points} очков</span>
+                        <span>📋 {t('adventure.exercises', { count: adventure.total_exercises })}</span>
+                        <span>⏱️ {t('adventure.days', { count: adventure.estimated_days })}</span>
+                        <span>⭐ {t('common.points', { count: adventure.reward_points })}</span>
                       </div>
                     </div>
                   </div>
@@ -1,4 +1,5 @@
 import React, { Component, ReactNode } from 'react';
+import { loadStoredLanguage, translate, type MessageKey } from '../lib/i18n';
 
 interface Props {
   children: ReactNode;
@@ -25,33 +26,37 @@ class ErrorBoundary extends Component<Props, State> {
 
   render() {
     if (this.state.hasError) {
+      // Rendered outside the language provider, so it reads the device's language directly
+      const language = loadStoredLanguage();
+      const t = (key: MessageKey) => translate(language, key);
+
       return (
         <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
           <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-6 text-center">
             <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <span className="text-red-600 text-2xl">⚠️</span>
             </div>
-            <h2 className="text-xl font-bold text-gray-900 mb-2">Oops! Something went wrong</h2>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">{t('error.title')}</h2>
             <p className="text-gray-600 mb-4">
-              We encountered an error while loading the application. Please try refreshing the page.
+              {t('error.message')}
             </p>
             <div className="space-y-2">
               <button
                 onClick={() => window.location.reload()}
                 className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
               >
-                Refresh Page
+                {t('error.refresh')}
               </button>
               <button
                 onClick={() => this.setState({ hasError: false })}
                 className="w-full bg-gray-100 text-gray-700 py-2 px-4 rounded-lg font-medium hover:bg-gray-200 transition-colors"
               >
-                Try Again
+                {t('error.tryAgain')}
               </button>
             </div>
             {process.env.NODE_ENV === 'development' && this.state.error && (
               <details className="mt-4 text-left">
-                <summary className="text-sm text-gray-500 cursor-pointer">Error Details</summary>
+                <summary className="text-sm text-gray-500 cursor-pointer">{t('error.details')}</summary>
                 <pre className="mt-2 text-xs text-red-600 bg-red-50 p-2 rounded overflow-auto">
                   {this.state.error.toString()}
                 </pre>
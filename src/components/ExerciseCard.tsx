@@ -1,5 +1,7 @@
 import React from 'react';
-import { Clock, Star, Zap, Users, Target } from 'lucide-react';
+import { Clock, Star, Zap, Users, Target, Lock } from 'lucide-react';
+import { describePrerequisite, type UnmetPrerequisite } from '../lib/prerequisites';
+import { useI18n, type MessageKey } from '../lib/i18n';
 
 interface Exercise {
   id: string;
@@ -34,19 +36,39 @@ interface Exercise {
   is_balance_focused: boolean;
 }
 
+const DIFFICULTY_LABEL_KEYS: Record<Exercise['difficulty'], MessageKey> = {
+  Easy: 'difficulty.Easy',
+  Medium: 'difficulty.Medium',
+  Hard: 'difficulty.Hard',
+};
+
 interface ExerciseCardProps {
   exercise: Exercise;
   onStart?: (exercise: Exercise) => void;
   onViewDetails?: (exercise: Exercise) => void;
   compact?: boolean;
+  // Prerequisites the selected child still has to meet; empty or missing means unlocked
+  lockedBy?: UnmetPrerequisite[];
+  // Set while the lock state is unknown, so nothing starts before it is checked
+  startDisabled?: boolean;
 }
 
 const ExerciseCard: React.FC<ExerciseCardProps> = ({ 
   exercise, 
   onStart, 
   onViewDetails, 
-  compact = false 
+  compact = false,
+  lockedBy = [],
+  startDisabled = false
 }) => {
+  const { t, localize } = useI18n();
+  const isLocked = lockedBy.length > 0;
+  const canStart = !isLocked && !startDisabled;
+  const name = localize({ en: exercise.name_en, ru: exercise.name_ru });
+  const categoryName = exercise.category
+    ? localize({ en: exercise.category.name_en, ru: exercise.category.name_ru })
+    : t('category.general');
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'Easy': return '#10B981';
@@ -56,14 +78,10 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
     }
   };
 
-  const getDifficultyName = (difficulty: string) => {
-    switch (difficulty) {
-      case 'Easy': return 'Легко';
-      case 'Medium': return 'Средне';
-      case 'Hard': return 'Сложно';
-      default: return difficulty;
-    }
-  };
+  const getDifficultyName = (difficulty: string) =>
+    difficulty in DIFFICULTY_LABEL_KEYS
+      ? t(DIFFICULTY_LABEL_KEYS[difficulty as Exercise['difficulty']])
+      : difficulty;
 
   const getCategoryIcon = (iconName: string) => {
     switch (iconName) {
@@ -76,7 +94,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
   };
 
   const handleStart = () => {
-    if (onStart) {
+    if (onStart && canStart) {
       onStart(exercise);
     }
   };
@@ -88,7 +106,9 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-all duration-200 hover:border-blue-300 group">
+    <div className={`rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-all duration-200 group ${
+      isLocked ? 'bg-gray-50' : 'bg-white hover:border-blue-300'
+    }`}>
       {/* Header with Category and Difficulty */}
       <div className="p-4 pb-0">
         <div className="flex items-center justify-between mb-3">
@@ -99,7 +119,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
             <span className="mr-1">
               {getCategoryIcon(exercise.category?.icon || '')}
             </span>
-            {exercise.category?.name_ru || 'Общее'}
+            {categoryName}
           </div>
           <div
             className="px-2 py-1 rounded text-xs font-medium text-white shadow-sm"
@@ -113,13 +133,28 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
         {exercise.is_balance_focused && (
           <div className="inline-flex items-center bg-purple-100 text-purple-700 px-2 py-1 rounded text-xs font-medium mb-3">
             <Target className="w-3 h-3 mr-1" />
-            Упражнение на баланс
+            {t('exercise.balance')}
+          </div>
+        )}
+
+        {/* Prerequisites still to complete */}
+        {isLocked && (
+          <div className="bg-gray-100 border border-gray-200 rounded-lg p-3 mb-3">
+            <div className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              <Lock className="w-4 h-4 mr-2 text-gray-500" />
+              {t('exercise.locked')}
+            </div>
+            {lockedBy.map(prerequisite => (
+              <p key={prerequisite.prerequisiteExerciseId} className="text-xs text-gray-600">
+                {describePrerequisite(prerequisite, { t, localize })}
+              </p>
+            ))}
           </div>
         )}
 
         {/* Exercise Title */}
         <h3 className="text-lg font-semibold text-gray-900 mb-2 group-hover:text-blue-600 transition-colors">
-          {exercise.name_ru || exercise.name_en}
+          {name}
         </h3>
 
         {/* Fun Variation */}
@@ -155,7 +190,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
             <div className="flex items-center text-sm text-gray-600 bg-yellow-50 p-2 rounded">
               <Star className="w-4 h-4 mr-2 text-yellow-500" />
               <span className="text-xs leading-tight">
-                {exercise.adventure_points} очков
+                {t('common.points', { count: exercise.adventure_points })}
               </span>
             </div>
           )}
@@ -164,7 +199,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
             <div className="flex items-center text-sm text-gray-600 bg-green-50 p-2 rounded">
               <Zap className="w-4 h-4 mr-2 text-green-500" />
               <span className="text-xs leading-tight">
-                {exercise.estimated_duration_minutes} мин
+                {t('common.minutes', { count: exercise.estimated_duration_minutes })}
               </span>
             </div>
           )}
@@ -175,7 +210,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
       {!compact && exercise.muscles && exercise.muscles.length > 0 && (
         <div className="px-4 pb-0">
           <div className="mb-4">
-            <p className="text-xs font-medium text-gray-500 mb-2">Основные мышцы:</p>
+            <p className="text-xs font-medium text-gray-500 mb-2">{t('exercise.primaryMuscles')}</p>
             <div className="flex flex-wrap gap-1">
               {exercise.muscles
                 .filter(muscle => muscle.is_primary)
@@ -185,7 +220,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
                     key={muscle.id}
                     className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded font-medium"
                   >
-                    {muscle.name_ru || muscle.name_en}
+                    {localize({ en: muscle.name_en, ru: muscle.name_ru })}
                   </span>
                 ))}
               {exercise.muscles.filter(m => m.is_primary).length > 3 && (
@@ -202,7 +237,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
       {!compact && exercise.equipment && exercise.equipment.length > 0 && (
         <div className="px-4 pb-0">
           <div className="mb-4">
-            <p className="text-xs font-medium text-gray-500 mb-2">Оборудование:</p>
+            <p className="text-xs font-medium text-gray-500 mb-2">{t('exercise.equipment')}</p>
             <div className="flex flex-wrap gap-1">
               {exercise.equipment.slice(0, 3).map((eq) => (
                 <span
@@ -213,7 +248,7 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
                       : 'bg-gray-100 text-gray-700'
                   }`}
                 >
-                  {eq.name_ru || eq.name_en}
+                  {localize({ en: eq.name_en, ru: eq.name_ru })}
                   {eq.required && ' *'}
                 </span>
               ))}
@@ -232,12 +267,13 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
         <div className={`flex gap-2 ${compact ? 'flex-col' : 'flex-row'}`}>
           <button
             onClick={handleStart}
-            className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 active:bg-blue-800 transition-colors shadow-sm hover:shadow-md flex items-center justify-center"
+            disabled={!canStart}
+            className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:text-gray-500 disabled:shadow-none transition-colors shadow-sm hover:shadow-md flex items-center justify-center"
             style={{ minHeight: '44px' }}
-            aria-label={`Начать упражнение ${exercise.name_ru || exercise.name_en}`}
+            aria-label={t('exercise.startLabel', { name })}
           >
-            <span className="mr-2">🚀</span>
-            Начать
+            {isLocked ? <Lock className="w-4 h-4 mr-2" /> : <span className="mr-2">🚀</span>}
+            {isLocked ? t('exercise.closed') : t('common.start')}
           </button>
           
           {onViewDetails && (
@@ -245,10 +281,10 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
               onClick={handleViewDetails}
               className="flex-1 bg-gray-100 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-200 active:bg-gray-300 transition-colors shadow-sm hover:shadow-md flex items-center justify-center"
               style={{ minHeight: '44px' }}
-              aria-label={`Подробнее о упражнении ${exercise.name_ru || exercise.name_en}`}
+              aria-label={t('exercise.detailsLabel', { name })}
             >
               <span className="mr-2">📋</span>
-              Подробнее
+              {t('exercise.details')}
             </button>
           )}
         </div>
@@ -256,11 +292,13 @@ const ExerciseCard: React.FC<ExerciseCardProps> = ({
 
       {/* Accessibility Enhancement */}
       <div className="sr-only">
-        Упражнение {exercise.name_ru || exercise.name_en}, 
-        категория {exercise.category?.name_ru}, 
-        сложность {getDifficultyName(exercise.difficulty)}, 
-        продолжительность {exercise.estimated_duration_minutes} минут, 
-        {exercise.adventure_points} очков приключений
+        {t('exercise.summary', {
+          name,
+          category: categoryName,
+          difficulty: getDifficultyName(exercise.difficulty),
+          minutes: exercise.estimated_duration_minutes,
+          points: exercise.adventure_points,
+        })}
       </div>
     </div>
   );
@@ -3,6 +3,8 @@ import { supabase } from '../lib/supabase';
 import { Loader2 } from 'lucide-react';
 import ExerciseCard from './ExerciseCard';
 import FilterBar from './FilterBar';
+import { fetchExerciseLocks, type ExerciseLocks } from '../lib/prerequisites';
+import { useI18n, type MessageKey } from '../lib/i18n';
 
 interface Exercise {
   id: string;
@@ -46,6 +48,7 @@ interface ExerciseCatalogProps {
 const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onStartExercise }) => {
   console.log('🔵 ExerciseCatalog mounted with childProfileId:', childProfileId);
   
+  const { t, localize } = useI18n();
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,23 +58,29 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
   const [selectedEquipment, setSelectedEquipment] = useState<string | null>(null);
   const [selectedAdventure, setSelectedAdventure] = useState<string>('all');
   const [showFilters, setShowFilters] = useState(false);
-  const [equipmentList, setEquipmentList] = useState<Array<{ id: string; name: string; icon?: string }>>([]);
-
-  // Categories with Russian names and colors
-  const categories = [
-    { id: 'all', name: 'Все упражнения', color: '#6B7280', icon: '🏃‍♂️' },
-    { id: 'warm-up', name: 'Разминка', color: '#F97316', icon: '⚡' },
-    { id: 'main', name: 'Основная часть', color: '#3B82F6', icon: '💪' },
-    { id: 'cool-down', name: 'Заминка', color: '#10B981', icon: '🍃' },
-    { id: 'posture', name: 'Осанка', color: '#8B5CF6', icon: '👤' },
-  ];
-
-  const difficulties = [
-    { id: 'all', name: 'Все уровни', color: '#6B7280' },
-    { id: 'Easy', name: 'Легко', color: '#10B981' },
-    { id: 'Medium', name: 'Средне', color: '#F59E0B' },
-    { id: 'Hard', name: 'Сложно', color: '#EF4444' },
-  ];
+  const [equipmentList, setEquipmentList] = useState<Array<{ id: string; name_en: string; name_ru: string | null; icon?: string }>>([]);
+  const [exerciseLocks, setExerciseLocks] = useState<ExerciseLocks>(new Map());
+  // Exercises only start once the child's locks are known; a failed check keeps everything closed
+  const [locksStatus, setLocksStatus] = useState<'loading' | 'ready' | 'failed'>('loading');
+  const [locksAttempt, setLocksAttempt] = useState(0);
+
+  // Categories with translated names and colors
+  const categories = ([
+    { id: 'all', nameKey: 'category.all', color: '#6B7280', icon: '🏃‍♂️' },
+    { id: 'warm-up', nameKey: 'category.warm-up', color: '#F97316', icon: '⚡' },
+    { id: 'main', nameKey: 'category.main', color: '#3B82F6', icon: '💪' },
+    { id: 'cool-down', nameKey: 'category.cool-down', color: '#10B981', icon: '🍃' },
+    { id: 'posture', nameKey: 'category.posture', color: '#8B5CF6', icon: '👤' },
+  ] satisfies Array<{ id: string; nameKey: MessageKey; color: string; icon: string }>)
+    .map(({ nameKey, ...category }) => ({ ...category, name: t(nameKey) }));
+
+  const difficulties = ([
+    { id: 'all', nameKey: 'difficulty.all', color: '#6B7280' },
+    { id: 'Easy', nameKey: 'difficulty.Easy', color: '#10B981' },
+    { id: 'Medium', nameKey: 'difficulty.Medium', color: '#F59E0B' },
+    { id: 'Hard', nameKey: 'difficulty.Hard', color: '#EF4444' },
+  ] satisfies Array<{ id: string; nameKey: MessageKey; color: string }>)
+    .map(({ nameKey, ...difficulty }) => ({ ...difficulty, name: t(nameKey) }));
 
   useEffect(() => {
     fetchEquipment();
@@ -81,6 +90,32 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
     fetchExercises();
   }, [fetchExercises]);
 
+  // Prerequisite locks only apply when browsing for a specific child
+  useEffect(() => {
+    if (!childProfileId) {
+      setExerciseLocks(new Map());
+      setLocksStatus('ready');
+      return;
+    }
+
+    let cancelled = false;
+    setLocksStatus('loading');
+    fetchExerciseLocks(childProfileId)
+      .then(locks => {
+        if (cancelled) return;
+        setExerciseLocks(locks);
+        setLocksStatus('ready');
+      })
+      .catch(err => {
+        console.error('🔴 Exercise prerequisites unavailable:', err);
+        if (!cancelled) setLocksStatus('failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childProfileId, locksAttempt]);
+
   const fetchEquipment = async () => {
     try {
       const { data, error } = await supabase
@@ -95,7 +130,8 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
 
       const transformedEquipment = data?.map(eq => ({
         id: eq.id,
-        name: eq.name_ru || eq.name_en,
+        name_en: eq.name_en,
+        name_ru: eq.name_ru,
         icon: eq.icon === 'square' ? '📦' : eq.icon === 'circle' ? '⭕' : eq.icon === 'dumbbell' ? '🏋️' : '🔧',
       })) || [];
 
@@ -215,14 +251,14 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
       setExercises(transformedExercises);
     } catch (err) {
       console.error('Error fetching exercises:', err);
-      setError('Ошибка загрузки упражнений');
+      setError(t('catalog.loadFailed'));
     } finally {
       setLoading(false);
     }
-  }, [selectedCategory, selectedDifficulty, selectedEquipment, selectedAdventure]);
+  }, [selectedCategory, selectedDifficulty, selectedEquipment, selectedAdventure, t]);
 
   const filteredExercises = exercises.filter(exercise =>
-    exercise.name_ru.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    localize({ en: exercise.name_en, ru: exercise.name_ru }).toLowerCase().includes(searchTerm.toLowerCase()) ||
     exercise.description?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
@@ -232,7 +268,7 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
       <div className="flex items-center justify-center min-h-screen bg-gray-50">
         <div className="text-center">
           <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
-          <p className="text-gray-600">Загрузка упражнений...</p>
+          <p className="text-gray-600">{t('catalog.loading')}</p>
         </div>
       </div>
     );
@@ -250,7 +286,7 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
             onClick={fetchExercises}
             className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
           >
-            Попробовать снова
+            {t('common.retry')}
           </button>
         </div>
       </div>
@@ -265,7 +301,7 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center">
               <h1 className="text-2xl font-bold text-gray-900">
-                🏃‍♂️ Упражнения для детей
+                🏃‍♂️ {t('catalog.title')}
               </h1>
             </div>
           </div>
@@ -289,7 +325,7 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
               onAdventureChange={setSelectedAdventure}
               categories={categories}
               difficulties={difficulties}
-              equipment={equipmentList}
+              equipment={equipmentList.map(({ name_en, name_ru, ...eq }) => ({ ...eq, name: localize({ en: name_en, ru: name_ru }) }))}
               isVisible={showFilters}
               onToggleVisibility={() => setShowFilters(!showFilters)}
             />
@@ -299,16 +335,45 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
           <div className="flex-1">
             <div className="mb-6">
               <p className="text-gray-600">
-                Найдено упражнений: <span className="font-semibold">{filteredExercises.length}</span>
+                {t('catalog.found')} <span className="font-semibold">{filteredExercises.length}</span>
               </p>
             </div>
 
+            {locksStatus === 'loading' && (
+              <div className="mb-6 flex items-center gap-2 text-sm text-gray-600">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {t('catalog.locksLoading')}
+              </div>
+            )}
+
+            {locksStatus === 'failed' && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <p className="text-sm text-red-800">{t('catalog.locksFailed')}</p>
+                <button
+                  onClick={() => setLocksAttempt(attempt => attempt + 1)}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors"
+                >
+                  {t('common.retry')}
+                </button>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
               {filteredExercises.map((exercise) => (
                 <ExerciseCard
                   key={exercise.id}
                   exercise={exercise}
+                  lockedBy={exerciseLocks.get(exercise.id)}
+                  startDisabled={locksStatus !== 'ready'}
                   onStart={(exercise) => {
+                    if (locksStatus !== 'ready') {
+                      console.warn('⚠️ Exercise locks not loaded yet, not starting:', exercise.name_ru || exercise.name_en);
+                      return;
+                    }
+                    if (exerciseLocks.has(exercise.id)) {
+                      console.warn('⚠️ Exercise is locked until its prerequisites are met:', exercise.name_ru || exercise.name_en);
+                      return;
+                    }
                     console.log('🔵 Starting exercise:', exercise.name_ru || exercise.name_en, 'for childProfileId:', childProfileId);
                     if (onStartExercise) {
                       onStartExercise(exercise);
@@ -327,9 +392,9 @@ const ExerciseCatalog: React.FC<ExerciseCatalogProps> = ({ childProfileId, onSta
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <span className="text-gray-400 text-2xl">🔍</span>
                 </div>
-                <p className="text-gray-500 text-lg">Упражнения не найдены</p>
+                <p className="text-gray-500 text-lg">{t('catalog.empty')}</p>
                 <p className="text-gray-400 text-sm mt-2">
-                  Попробуйте изменить фильтры или поисковый запрос
+                  {t('catalog.emptyHint')}
                 </p>
               </div>
             )}
@@ -1,27 +1,22 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
+import type { Exercise } from '../types/Exercise';
+import { buildSessionPlan, summarizeSets, type SetResult } from '../lib/sessionPlan';
+import { toDurationMinutes } from '../lib/exerciseSessions';
+import {
+  queueLocalSession,
+  queueSessionUpdate,
+  queueProgressUpdate,
+  discardLocalSession,
+  isLocalSessionId,
+  isNetworkError,
+  syncOfflineQueue
+} from '../lib/offlineQueue';
+import { evaluateRewards, type Reward } from '../lib/rewards';
+import SetRunner from './session/SetRunner';
+import RewardCelebration from './rewards/RewardCelebration';
 import { ArrowLeft, Play, Pause, Square, Star, Trophy, Clock, Zap } from 'lucide-react';
 
-interface Exercise {
-  id: string;
-  name_en: string;
-  name_ru: string;
-  description: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  category: {
-    id: string;
-    name_ru: string;
-    name_en: string;
-    color_hex: string;
-    icon: string;
-  };
-  sets_reps_duration: string;
-  fun_variation: string;
-  adventure_points: number;
-  estimated_duration_minutes: number;
-  is_balance_focused: boolean;
-}
-
 interface ExerciseSessionProps {
   exercise: Exercise;
   childProfileId: string;
@@ -34,6 +29,8 @@ interface ExerciseSessionResult {
   duration: number;
   funRating: number;
   pointsEarned: number;
+  setsCompleted: number;
+  repsCompleted: number;
   completed: boolean;
 }
 
@@ -46,12 +43,17 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
   // Add error boundary within component
   const [componentError, setComponentError] = useState<string | null>(null);
   
-  const [sessionState, setSessionState] = useState<'preparing' | 'active' | 'paused' | 'completed'>('preparing');
+  const [sessionState, setSessionState] = useState<'preparing' | 'active' | 'paused' | 'rating' | 'completed'>('preparing');
   const [timer, setTimer] = useState(0);
   const [funRating, setFunRating] = useState(0);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [setResults, setSetResults] = useState<SetResult[]>([]);
+  const [newRewards, setNewRewards] = useState<Reward[]>([]);
+
+  const plan = useMemo(() => buildSessionPlan(exercise), [exercise]);
+  const { setsCompleted, repsCompleted } = summarizeSets(setResults);
 
   // Component error handling
   useEffect(() => {
@@ -87,47 +89,50 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
   };
 
   const createSession = useCallback(async () => {
+    const newSession = {
+      user_id: childProfileId,
+      exercise_id: exercise.id
+    };
+
     try {
       const { data, error } = await supabase
         .from('exercise_sessions')
-        .insert({
-          user_id: childProfileId,
-          exercise_id: exercise.id,
-          started_at: new Date().toISOString(),
-          is_completed: false
-        })
+        .insert(newSession)
         .select('id')
         .single();
 
       if (error) {
-        // Check if table doesn't exist
-        if (error.code === 'PGRST116' || error.message.includes('relation') || error.message.includes('does not exist')) {
-          console.warn('Exercise sessions table not yet created, using local session tracking');
-          const localSessionId = `local-${Date.now()}`;
-          setSessionId(localSessionId);
-          return localSessionId;
-        }
         throw error;
       }
       setSessionId(data.id);
       return data.id;
     } catch (err) {
+      if (isNetworkError(err)) {
+        // Track the session on the device and replay it once we are back online
+        const localSessionId = queueLocalSession({
+          ...newSession,
+          created_at: new Date().toISOString()
+        });
+        setSessionId(localSessionId);
+        console.warn('Connection lost, session queued for offline sync');
+        return localSessionId;
+      }
+      // The server refused the session (RLS, constraint); retrying later would fail the same way
       console.error('Error creating exercise session:', err);
-      // Fallback to local session tracking
-      const localSessionId = `local-${Date.now()}`;
-      setSessionId(localSessionId);
-      console.warn('Using local session tracking as fallback');
-      return localSessionId;
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setError(message || 'Не удалось начать упражнение');
+      return null;
     }
   }, [childProfileId, exercise.id]);
 
+  // Returns the id later writes should use, which turns local if the
+  // connection drops in the middle of a session
   const updateSession = useCallback(async (updates: Record<string, unknown>) => {
-    if (!sessionId) return;
+    if (!sessionId) return null;
 
-    // Skip database updates for local sessions
-    if (sessionId.startsWith('local-')) {
-      console.log('Local session update:', updates);
-      return;
+    if (isLocalSessionId(sessionId)) {
+      queueSessionUpdate(sessionId, updates);
+      return sessionId;
     }
 
     try {
@@ -137,18 +142,26 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
         .eq('id', sessionId);
 
       if (error) {
-        if (error.code === 'PGRST116' || error.message.includes('relation') || error.message.includes('does not exist')) {
-          console.warn('Exercise sessions table not available, skipping update');
-          return;
-        }
         throw error;
       }
+      return sessionId;
     } catch (err) {
+      if (isNetworkError(err)) {
+        const localSessionId = queueLocalSession(
+          { user_id: childProfileId, exercise_id: exercise.id },
+          sessionId
+        );
+        queueSessionUpdate(localSessionId, updates);
+        setSessionId(localSessionId);
+        console.warn('Connection lost, session update queued for offline sync');
+        return localSessionId;
+      }
       console.error('Error updating exercise session:', err);
       // Don't set error state for update failures - just log them
       console.warn('Session update failed, continuing without database tracking');
+      return sessionId;
     }
-  }, [sessionId]);
+  }, [sessionId, childProfileId, exercise.id]);
 
   const startExercise = async () => {
     if (!sessionId) {
@@ -157,17 +170,19 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
     }
 
     setSessionState('active');
-    await updateSession({ started_at: new Date().toISOString() });
   };
 
-  const pauseExercise = async () => {
+  const pauseExercise = () => {
     setSessionState('paused');
-    await updateSession({ paused_at: new Date().toISOString() });
   };
 
-  const resumeExercise = async () => {
+  const resumeExercise = () => {
     setSessionState('active');
-    await updateSession({ resumed_at: new Date().toISOString() });
+  };
+
+  const handleSetsFinished = (results: SetResult[]) => {
+    setSetResults(results);
+    setSessionState('rating');
   };
 
   const completeExercise = async () => {
@@ -180,49 +195,42 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
       const completedAt = new Date().toISOString();
       const pointsEarned = Math.round(exercise.adventure_points * (funRating / 5));
 
-      // Update exercise session (with fallback)
-      await updateSession({
+      const activeSessionId = await updateSession({
         completed_at: completedAt,
-        duration_seconds: timer,
+        duration_minutes: toDurationMinutes(timer),
+        sets_completed: setsCompleted,
+        reps_completed: repsCompleted || null,
         fun_rating: funRating,
-        points_earned: pointsEarned,
-        is_completed: true
+        points_earned: pointsEarned
       });
 
-      // Try to update user progress with multiple fallbacks
+      const progress = {
+        p_user_id: childProfileId,
+        p_exercise_id: exercise.id,
+        p_points_earned: pointsEarned,
+        p_fun_rating: funRating,
+        p_duration_seconds: timer,
+        p_completed_at: completedAt
+      };
       let progressUpdated = false;
-      
-      // First try: RPC function
-      try {
-        await supabase.rpc('update_user_progress', {
-          p_user_id: childProfileId,
-          p_exercise_id: exercise.id,
-          p_points_earned: pointsEarned,
-          p_fun_rating: funRating,
-          p_duration_seconds: timer
-        });
-        progressUpdated = true;
-        console.log('Progress updated via RPC function');
-      } catch {
-        console.warn('RPC function not available, trying direct table update');
-        
-        // Second try: Direct table update
-        try {
-          await supabase
-            .from('user_progress')
-            .upsert({
-              user_id: childProfileId,
-              total_points: pointsEarned,
-              total_exercises_completed: 1,
-              last_activity_date: new Date().toISOString().split('T')[0]
-            }, {
-              onConflict: 'user_id'
-            });
+
+      if (activeSessionId && isLocalSessionId(activeSessionId)) {
+        // Progress rides along with the queued session so both sync together
+        queueProgressUpdate(activeSessionId, progress);
+        syncOfflineQueue();
+      } else if (activeSessionId) {
+        const { error: progressError } = await supabase.rpc('apply_session_progress', { p_session_id: activeSessionId });
+        if (progressError) {
+          console.warn('Progress update failed:', progressError.message);
+        } else {
           progressUpdated = true;
-          console.log('Progress updated via direct table update');
-        } catch {
-          console.warn('Progress table not available, continuing without progress tracking');
-          // Don't throw error - allow completion without progress tracking
+          console.log('Progress updated via RPC function');
+        }
+
+        try {
+          setNewRewards(await evaluateRewards(childProfileId, activeSessionId));
+        } catch (err) {
+          console.warn('Reward evaluation failed:', err);
         }
       }
 
@@ -234,6 +242,8 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
         duration: timer,
         funRating,
         pointsEarned,
+        setsCompleted,
+        repsCompleted,
         completed: true
       });
 
@@ -249,6 +259,8 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
         duration: timer,
         funRating,
         pointsEarned: Math.round(exercise.adventure_points * (funRating / 5)),
+        setsCompleted,
+        repsCompleted,
         completed: true
       });
     } finally {
@@ -257,8 +269,18 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
   };
 
   const cancelExercise = async () => {
-    if (sessionId) {
-      await updateSession({ cancelled_at: new Date().toISOString() });
+    // An abandoned session must not count as a completion
+    if (sessionId && isLocalSessionId(sessionId)) {
+      discardLocalSession(sessionId);
+    } else if (sessionId) {
+      const { error } = await supabase
+        .from('exercise_sessions')
+        .delete()
+        .eq('id', sessionId);
+
+      if (error) {
+        console.warn('Failed to discard cancelled session:', error.message);
+      }
     }
     onCancel();
   };
@@ -323,6 +345,13 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
               <span className="text-sm font-medium text-yellow-900">Очки:</span>
               <span className="text-sm text-yellow-700">{Math.round(exercise.adventure_points * (funRating / 5))}</span>
             </div>
+            <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
+              <span className="text-sm font-medium text-green-900">Подходы:</span>
+              <span className="text-sm text-green-700">
+                {setsCompleted}
+                {repsCompleted > 0 && ` • ${repsCompleted} повторений`}
+              </span>
+            </div>
             <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
               <span className="text-sm font-medium text-purple-900">Рейтинг веселья:</span>
               <div className="flex space-x-1">
@@ -336,6 +365,8 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
             </div>
           </div>
 
+          <RewardCelebration rewards={newRewards} />
+
           <button
             onClick={onCancel}
             className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700 transition-colors"
@@ -364,7 +395,8 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
               <div className="text-2xl font-bold text-gray-900">{formatTime(timer)}</div>
               <div className="text-sm text-gray-500">
                 {sessionState === 'active' ? 'Выполняется' : 
-                 sessionState === 'paused' ? 'Пауза' : 'Готов к началу'}
+                 sessionState === 'paused' ? 'Пауза' :
+                 sessionState === 'rating' ? 'Все подходы готовы' : 'Готов к началу'}
               </div>
             </div>
             <div className="w-16" /> {/* Spacer */}
@@ -414,8 +446,15 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
           </div>
         </div>
 
-        {/* Fun Rating (only show during/after exercise) */}
-        {sessionState !== 'preparing' && (
+        {/* Set Runner */}
+        {(sessionState === 'active' || sessionState === 'paused') && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+            <SetRunner plan={plan} paused={sessionState === 'paused'} onFinish={handleSetsFinished} onProgress={setSetResults} />
+          </div>
+        )}
+
+        {/* Fun Rating (only show once the sets are done) */}
+        {sessionState === 'rating' && (
           <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
               Насколько весело было упражнение?
@@ -478,13 +517,12 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
                   Пауза
                 </button>
                 <button
-                  onClick={completeExercise}
-                  disabled={funRating === 0 || saving}
-                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  onClick={() => handleSetsFinished(setResults)}
+                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
                   style={{ minHeight: '60px' }}
                 >
                   <Square className="w-6 h-6 mr-2" />
-                  {saving ? 'Сохранение...' : 'Завершить'}
+                  Завершить
                 </button>
               </>
             )}
@@ -500,22 +538,34 @@ const ExerciseSession: React.FC<ExerciseSessionProps> = ({
                   Продолжить
                 </button>
                 <button
-                  onClick={completeExercise}
-                  disabled={funRating === 0 || saving}
-                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  onClick={() => handleSetsFinished(setResults)}
+                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
                   style={{ minHeight: '60px' }}
                 >
                   <Square className="w-6 h-6 mr-2" />
-                  {saving ? 'Сохранение...' : 'Завершить'}
+                  Завершить
                 </button>
               </>
             )}
+
+            {sessionState === 'rating' && (
+              <button
+                onClick={completeExercise}
+                disabled={funRating === 0 || saving}
+                className="flex items-center justify-center bg-blue-600 text-white px-8 py-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                style={{ minHeight: '60px' }}
+              >
+                <Trophy className="w-6 h-6 mr-2" />
+                {saving ? 'Сохранение...' : 'Завершить'}
+              </button>
+            )}
           </div>
 
           <div className="mt-4 text-center text-sm text-gray-500">
             {sessionState === 'preparing' && 'Нажми "Начать упражнение" когда будешь готов'}
-            {sessionState === 'active' && 'Упражнение выполняется. Не забудь оценить, как весело было!'}
+            {sessionState === 'active' && 'Выполняй подходы по одному. Отдых между подходами начнётся сам!'}
             {sessionState === 'paused' && 'Упражнение на паузе. Продолжи когда будешь готов'}
+            {sessionState === 'rating' && 'Оцени, как весело было, и заверши упражнение'}
           </div>
         </div>
       </div>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Search, X, Filter } from 'lucide-react';
 import AdventureSelector from './AdventureSelector';
+import { useI18n } from '../lib/i18n';
 
 interface FilterCategory {
   id: string;
@@ -52,6 +53,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
   onToggleVisibility,
   compact = false,
 }) => {
+  const { t } = useI18n();
   const hasActiveFilters = selectedCategory || selectedDifficulty || selectedEquipment || searchTerm || (selectedAdventure && selectedAdventure !== 'all');
 
   const clearAllFilters = () => {
@@ -73,7 +75,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
             style={{ minHeight: '44px' }}
           >
             <Filter className="w-5 h-5 mr-2" />
-            Фильтры
+            {t('filter.title')}
             {hasActiveFilters && (
               <span className="ml-2 bg-blue-800 text-white text-xs px-2 py-1 rounded-full">
                 !
@@ -88,7 +90,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
               style={{ minHeight: '44px' }}
             >
               <X className="w-4 h-4 mr-1" />
-              Очистить
+              {t('filter.clear')}
             </button>
           )}
         </div>
@@ -99,7 +101,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
         <div className={`bg-white rounded-lg shadow-sm border border-gray-200 ${compact ? 'p-4' : 'p-6'} ${!compact && 'sticky top-24'}`}>
           <div className="flex items-center justify-between mb-4">
             <h2 className={`${compact ? 'text-base' : 'text-lg'} font-semibold text-gray-900`}>
-              🎯 Фильтры
+              🎯 {t('filter.title')}
             </h2>
             
             {hasActiveFilters && (
@@ -107,7 +109,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 onClick={clearAllFilters}
                 className="text-sm text-blue-600 hover:text-blue-800 font-medium"
               >
-                Сбросить все
+                {t('filter.resetAll')}
               </button>
             )}
           </div>
@@ -115,24 +117,24 @@ const FilterBar: React.FC<FilterBarProps> = ({
           {/* Search */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              🔍 Поиск упражнений
+              🔍 {t('filter.search')}
             </label>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
               <input
                 type="text"
-                placeholder="Найти упражнение..."
+                placeholder={t('filter.searchPlaceholder')}
                 value={searchTerm}
                 onChange={(e) => onSearchChange(e.target.value)}
                 className="w-full pl-10 pr-10 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                 style={{ minHeight: '44px' }}
-                aria-label="Поиск упражнений"
+                aria-label={t('filter.search')}
               />
               {searchTerm && (
                 <button
                   onClick={() => onSearchChange('')}
                   className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                  aria-label="Очистить поиск"
+                  aria-label={t('filter.clearSearch')}
                 >
                   <X className="w-4 h-4" />
                 </button>
@@ -143,7 +145,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
           {/* Adventure Filter */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-3">
-              🗺️ Приключение
+              🗺️ {t('filter.adventure')}
             </label>
             <AdventureSelector
               selectedAdventure={selectedAdventure}
@@ -155,7 +157,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
           {/* Category Filter */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-3">
-              📂 Категория упражнений
+              📂 {t('filter.category')}
             </label>
             <div className={`grid gap-2 ${compact ? 'grid-cols-2' : 'grid-cols-1'}`}>
               {categories.map((category) => (
@@ -184,7 +186,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
           {/* Difficulty Filter */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-3">
-              ⚡ Уровень сложности
+              ⚡ {t('filter.difficulty')}
             </label>
             <div className={`grid gap-2 ${compact ? 'grid-cols-2' : 'grid-cols-1'}`}>
               {difficulties.map((difficulty) => (
@@ -216,7 +218,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
           {equipment && equipment.length > 0 && (
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                🏋️‍♂️ Оборудование
+                🏋️‍♂️ {t('filter.equipment')}
               </label>
               <div className={`grid gap-2 ${compact ? 'grid-cols-2' : 'grid-cols-1'}`}>
                 <button
@@ -231,7 +233,7 @@ const FilterBar: React.FC<FilterBarProps> = ({
                 >
                   <span className="text-lg mr-3" role="img" aria-hidden="true">🏃‍♂️</span>
                   <span className={`font-medium text-gray-900 ${compact && 'text-sm'}`}>
-                    Любое оборудование
+                    {t('filter.anyEquipment')}
                   </span>
                 </button>
                 
@@ -262,11 +264,11 @@ const FilterBar: React.FC<FilterBarProps> = ({
           {/* Active Filters Summary */}
           {hasActiveFilters && (
             <div className="pt-4 border-t border-gray-200">
-              <p className="text-sm text-gray-600 mb-2">Активные фильтры:</p>
+              <p className="text-sm text-gray-600 mb-2">{t('filter.active')}</p>
               <div className="flex flex-wrap gap-2">
                 {searchTerm && (
                   <span className="inline-flex items-center bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs font-medium">
-                    Поиск: "{searchTerm}"
+                    {t('filter.searchTerm', { term: searchTerm })}
                     <button
                       onClick={() => onSearchChange('')}
                       className="ml-1 text-blue-600 hover:text-blue-800"
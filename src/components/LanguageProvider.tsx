@@ -0,0 +1,71 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  I18nContext,
+  LANGUAGES,
+  isLanguage,
+  loadStoredLanguage,
+  localize,
+  saveProfileLanguage,
+  storeLanguage,
+  translate,
+  type I18nContextType,
+  type Language,
+} from '../lib/i18n';
+
+interface LanguageProviderProps {
+  children: React.ReactNode;
+}
+
+const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+  const { profile, refreshProfile } = useAuth();
+  const [language, setLanguageState] = useState<Language>(loadStoredLanguage);
+  const profileId = profile?.profile_id ?? null;
+  const profileLanguage = profile?.preferred_language;
+
+  // A signed-in parent's profile decides; the device keeps it for the next sign-in screen
+  useEffect(() => {
+    if (isLanguage(profileLanguage)) {
+      setLanguageState(profileLanguage);
+      storeLanguage(profileLanguage);
+    }
+  }, [profileLanguage]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    setLanguageState(next);
+    storeLanguage(next);
+
+    if (profileId) {
+      try {
+        await saveProfileLanguage(profileId, next);
+        await refreshProfile();
+      } catch (err) {
+        console.error('🔴 Failed to save language:', err);
+      }
+    }
+  }, [profileId, refreshProfile]);
+
+  const value = useMemo<I18nContextType>(() => {
+    const locale = LANGUAGES[language].locale;
+    return {
+      language,
+      setLanguage,
+      t: (key, params) => translate(language, key, params),
+      localize: (texts) => localize(language, texts),
+      formatDate: (date, options) => new Date(date).toLocaleDateString(locale, options),
+      formatNumber: (number, options) => number.toLocaleString(locale, options),
+    };
+  }, [language, setLanguage]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export default LanguageProvider;
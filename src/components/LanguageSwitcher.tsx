@@ -0,0 +1,28 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LANGUAGES, useI18n, type Language } from '../lib/i18n';
+
+const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-1" role="group" aria-label={t('language.switcher')}>
+      <Languages className="w-4 h-4 text-gray-400" aria-hidden="true" />
+      {(Object.keys(LANGUAGES) as Language[]).map(code => (
+        <button
+          key={code}
+          onClick={() => setLanguage(code)}
+          className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+            language === code ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+          }`}
+          aria-pressed={language === code}
+          title={LANGUAGES[code].label}
+        >
+          {LANGUAGES[code].shortLabel}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -1,5 +1,7 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useI18n } from '../lib/i18n';
+import { getRouteChildId, routeRecordsActivity, useRouter } from '../lib/router';
 import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
@@ -7,14 +9,29 @@ interface ProtectedRouteProps {
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, profile, loading } = useAuth();
+  const { user, profile, children: childrenList, childrenLoaded, loading } = useAuth();
+  const { route, navigate } = useRouter();
+  const { t } = useI18n();
 
-  if (loading) {
+  // Links to a child screen only open for children linked to this account, and recording screens need full access
+  const routeChildId = getRouteChildId(route);
+  const routeChild = routeChildId ? childrenList.find(child => child.profile_id === routeChildId) : undefined;
+  const waitingForChildren = routeChildId !== null && !childrenLoaded;
+  const allowed = routeChildId === null
+    || (routeChild !== undefined && (routeChild.access_level === 'full' || !routeRecordsActivity(route)));
+
+  useEffect(() => {
+    if (user && profile && !loading && !waitingForChildren && !allowed) {
+      navigate({ name: 'dashboard' }, { replace: true });
+    }
+  }, [user, profile, loading, waitingForChildren, allowed, navigate]);
+
+  if (loading || waitingForChildren) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
-          <p className="text-gray-600">Loading your account...</p>
+          <p className="text-gray-600">{t('app.loadingAccount')}</p>
         </div>
       </div>
     );
@@ -25,7 +42,12 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return null;
   }
 
+  if (!allowed) {
+    // Redirected to the dashboard by the effect above
+    return null;
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,84 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  RouterContext,
+  parseRoute,
+  routePath,
+  type AppRoute,
+  type NavigateOptions,
+  type RouterContextType,
+} from '../lib/router';
+
+interface RouterProviderProps {
+  children: React.ReactNode;
+}
+
+interface HistoryState {
+  // Position in this tab's app history, so goBack knows whether there is an app screen to return to
+  index?: number;
+}
+
+const readHistoryIndex = () => {
+  const state = window.history.state as HistoryState | null;
+  return typeof state?.index === 'number' ? state.index : 0;
+};
+
+const RouterProvider: React.FC<RouterProviderProps> = ({ children }) => {
+  const [pathname, setPathname] = useState(() => window.location.pathname);
+  const historyIndex = useRef(readHistoryIndex());
+
+  useEffect(() => {
+    const handlePopState = () => {
+      historyIndex.current = readHistoryIndex();
+      setPathname(window.location.pathname);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const route = useMemo(() => parseRoute(pathname), [pathname]);
+
+  // Unknown or shortened paths are rewritten to the screen actually shown; query and hash are kept for the auth and invite handlers
+  useEffect(() => {
+    const canonical = routePath(route);
+    if (canonical !== pathname) {
+      window.history.replaceState(
+        { index: historyIndex.current },
+        '',
+        `${canonical}${window.location.search}${window.location.hash}`
+      );
+      setPathname(canonical);
+    }
+  }, [route, pathname]);
+
+  const navigate = useCallback((next: AppRoute, { replace = false }: NavigateOptions = {}) => {
+    const path = routePath(next);
+
+    if (replace) {
+      window.history.replaceState({ index: historyIndex.current }, '', path);
+    } else if (path !== window.location.pathname) {
+      historyIndex.current += 1;
+      window.history.pushState({ index: historyIndex.current }, '', path);
+    }
+
+    setPathname(path);
+  }, []);
+
+  const goBack = useCallback((fallback: AppRoute) => {
+    if (historyIndex.current > 0) {
+      window.history.back();
+    } else {
+      navigate(fallback, { replace: true });
+    }
+  }, [navigate]);
+
+  const value = useMemo<RouterContextType>(() => ({ route, navigate, goBack }), [route, navigate, goBack]);
+
+  return (
+    <RouterContext.Provider value={value}>
+      {children}
+    </RouterContext.Provider>
+  );
+};
+
+export default RouterProvider;
@@ -1,13 +1,33 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { KidModeContext, loadKidMode, saveKidMode, verifyParentPin } from '../lib/kidMode';
 
 interface SessionManagerProps {
   children: React.ReactNode;
 }
 
 const SessionManager: React.FC<SessionManagerProps> = ({ children }) => {
-  const { user, signOut } = useAuth();
+  const { user, childSession, signOut } = useAuth();
+  // Read synchronously so a reload never flashes the parent dashboard
+  const [kidMode, setKidMode] = useState(loadKidMode);
+  const userId = user?.id ?? null;
+  const kidModeChildId = kidMode && kidMode.userId === userId ? kidMode.childId : null;
+
+  const enterKidMode = useCallback((childProfileId: string) => {
+    if (!userId) return;
+    setKidMode(saveKidMode(userId, childProfileId));
+  }, [userId]);
+
+  // Kid mode outlives reloads; it is only left through the parent's PIN
+  const exitKidMode = useCallback(async (pin: string) => {
+    if (!userId) return false;
+    const valid = await verifyParentPin(pin);
+    if (valid) {
+      setKidMode(saveKidMode(userId, null));
+    }
+    return valid;
+  }, [userId]);
 
   useEffect(() => {
     if (!user) return;
@@ -83,6 +103,19 @@ const SessionManager: React.FC<SessionManagerProps> = ({ children }) => {
     };
   }, [user, signOut]);
 
+  // A child's session ends on schedule, even on a device that stays busy
+  useEffect(() => {
+    if (!childSession) return;
+
+    const remaining = new Date(childSession.expires_at).getTime() - Date.now();
+    const expiryTimeout = setTimeout(async () => {
+      console.log('Child session expired - logging out');
+      await signOut();
+    }, Math.max(remaining, 0));
+
+    return () => clearTimeout(expiryTimeout);
+  }, [childSession, signOut]);
+
   // Handle visibility change (tab switching)
   useEffect(() => {
     if (!user) return;
@@ -110,7 +143,11 @@ const SessionManager: React.FC<SessionManagerProps> = ({ children }) => {
     };
   }, [user, signOut]);
 
-  return <>{children}</>;
+  return (
+    <KidModeContext.Provider value={{ kidModeChildId, enterKidMode, exitKidMode }}>
+      {children}
+    </KidModeContext.Provider>
+  );
 };
 
 export default SessionManager;
\ No newline at end of file
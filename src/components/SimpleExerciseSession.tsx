@@ -1,46 +1,50 @@
-import React, { useState, useEffect } from 'react';
-
-interface Exercise {
-  id: string;
-  name_en: string;
-  name_ru: string;
-  description: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  category: {
-    id: string;
-    name_ru: string;
-    name_en: string;
-    color_hex: string;
-    icon: string;
-  };
-  equipment?: Array<{
-    id: string;
-    name_ru: string;
-    name_en: string;
-    required: boolean;
-    icon: string;
-  }>;
-  muscles?: Array<{
-    id: string;
-    name_ru: string;
-    name_en: string;
-    is_primary: boolean;
-  }>;
-  sets_reps_duration: string;
-  fun_variation: string;
-  adventure_points: number;
-  estimated_duration_minutes: number;
-  is_balance_focused: boolean;
-}
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Exercise } from '../types/Exercise';
+import { buildSessionPlan, summarizeSets, type SetResult } from '../lib/sessionPlan';
+import { recordCompletedSession } from '../lib/exerciseSessions';
+import { isLocalSessionId } from '../lib/offlineQueue';
+import { evaluateRewards, type Reward } from '../lib/rewards';
+import RewardCelebration from './rewards/RewardCelebration';
+import SetRunner from './session/SetRunner';
+import { useI18n, type MessageKey } from '../lib/i18n';
+
+const DIFFICULTY_LABEL_KEYS: Record<Exercise['difficulty'], MessageKey> = {
+  Easy: 'difficulty.Easy',
+  Medium: 'difficulty.Medium',
+  Hard: 'difficulty.Hard',
+};
+
+const RATING_LABEL_KEYS: MessageKey[] = [
+  'session.rate.0',
+  'session.rate.1',
+  'session.rate.2',
+  'session.rate.3',
+  'session.rate.4',
+  'session.rate.5',
+];
+
+const EFFORT_LABEL_KEYS: MessageKey[] = [
+  'session.effort.0',
+  'session.effort.1',
+  'session.effort.2',
+  'session.effort.3',
+  'session.effort.4',
+  'session.effort.5',
+];
 
 interface SimpleExerciseSessionProps {
   exercise: Exercise;
   childProfileId: string;
+  workoutId?: string | null;
   onComplete: (result: {
     exerciseId: string;
     duration: number;
     funRating: number;
     pointsEarned: number;
+    setsCompleted: number;
+    repsCompleted: number;
+    sessionId: string | null;
+    newRewards: Reward[];
     completed: boolean;
   }) => void;
   onCancel: () => void;
@@ -49,6 +53,7 @@ interface SimpleExerciseSessionProps {
 const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
   exercise,
   childProfileId,
+  workoutId = null,
   onComplete,
   onCancel
 }) => {
@@ -58,18 +63,47 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
     exerciseId: exercise?.id 
   });
 
+  const { t, localize } = useI18n();
+  const [sessionState, setSessionState] = useState<'preparing' | 'active' | 'paused' | 'rating' | 'completed'>('preparing');
+  const [timer, setTimer] = useState(0);
+  const [funRating, setFunRating] = useState(0);
+  const [effortRating, setEffortRating] = useState(0);
+  const [setResults, setSetResults] = useState<SetResult[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedOffline, setSavedOffline] = useState(false);
+  const [newRewards, setNewRewards] = useState<Reward[]>([]);
+
+  const plan = useMemo(() => (exercise ? buildSessionPlan(exercise) : null), [exercise]);
+  const { setsCompleted, repsCompleted } = summarizeSets(setResults);
+
+  // Timer effect
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    
+    if (sessionState === 'active') {
+      interval = setInterval(() => {
+        setTimer(prevTimer => prevTimer + 1);
+      }, 1000);
+    }
+    
+    return () => {
+      if (interval) clearInterval(interval);
+    };
+  }, [sessionState]);
+
   // Early return with loading state if exercise is not provided
   if (!exercise) {
     console.warn('⚠️ SimpleExerciseSession: No exercise provided');
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
-          <div className="text-xl font-semibold text-gray-700 mb-4">Загрузка упражнения...</div>
+          <div className="text-xl font-semibold text-gray-700 mb-4">{t('session.loading')}</div>
           <button
             onClick={onCancel}
             className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600"
           >
-            Назад
+            {t('common.back')}
           </button>
         </div>
       </div>
@@ -82,43 +116,26 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
-          <div className="text-xl font-semibold text-red-600 mb-4">Ошибка загрузки упражнения</div>
+          <div className="text-xl font-semibold text-red-600 mb-4">{t('session.loadFailed')}</div>
           <button
             onClick={onCancel}
             className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600"
           >
-            Назад
+            {t('common.back')}
           </button>
         </div>
       </div>
     );
   }
 
-  const [sessionState, setSessionState] = useState<'preparing' | 'active' | 'paused' | 'completed'>('preparing');
-  const [timer, setTimer] = useState(0);
-  const [funRating, setFunRating] = useState(0);
-
-  // Timer effect
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (sessionState === 'active') {
-      interval = setInterval(() => {
-        setTimer(prevTimer => prevTimer + 1);
-      }, 1000);
-    }
-    
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [sessionState]);
-
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const pointsEarned = Math.round((exercise.adventure_points || 0) * (funRating / 5));
+
   const startExercise = () => {
     setSessionState('active');
   };
@@ -131,16 +148,57 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
     setSessionState('active');
   };
 
-  const completeExercise = () => {
-    const pointsEarned = Math.round((exercise.adventure_points || 0) * (funRating / 5));
-    
+  const handleSetsFinished = (results: SetResult[]) => {
+    setSetResults(results);
+    setSessionState('rating');
+  };
+
+  const completeExercise = async () => {
+    setSaving(true);
+    setSaveError(null);
+
+    let sessionId: string | null = null;
+    try {
+      sessionId = await recordCompletedSession({
+        childProfileId,
+        exerciseId: exercise.id,
+        durationSeconds: timer,
+        setsCompleted,
+        repsCompleted,
+        funRating,
+        effortRating,
+        pointsEarned,
+        workoutId,
+      });
+      setSavedOffline(isLocalSessionId(sessionId));
+    } catch (err) {
+      console.error('🔴 Failed to save exercise session:', err);
+      setSaveError(t('session.saveFailed'));
+    }
+
+    // Offline sessions are evaluated when the sync queue replays them
+    let earned: Reward[] = [];
+    if (sessionId && !isLocalSessionId(sessionId)) {
+      try {
+        earned = await evaluateRewards(childProfileId, sessionId);
+        setNewRewards(earned);
+      } catch (err) {
+        console.warn('⚠️ Reward evaluation failed:', err);
+      }
+    }
+    setSaving(false);
+
     setSessionState('completed');
-    
+
     onComplete({
       exerciseId: exercise.id,
       duration: timer,
       funRating,
       pointsEarned,
+      setsCompleted,
+      repsCompleted,
+      sessionId,
+      newRewards: earned,
       completed: true
     });
   };
@@ -154,14 +212,10 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
     }
   };
 
-  const getDifficultyName = (difficulty: string) => {
-    switch (difficulty) {
-      case 'Easy': return 'Легко';
-      case 'Medium': return 'Средне';
-      case 'Hard': return 'Сложно';
-      default: return difficulty;
-    }
-  };
+  const getDifficultyName = (difficulty: string) =>
+    difficulty in DIFFICULTY_LABEL_KEYS
+      ? t(DIFFICULTY_LABEL_KEYS[difficulty as Exercise['difficulty']])
+      : difficulty;
 
   if (sessionState === 'completed') {
     return (
@@ -171,21 +225,28 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
             <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <span className="text-4xl">🏆</span>
             </div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Отлично!</h2>
-            <p className="text-gray-600">Упражнение завершено!</p>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('session.great')}</h2>
+            <p className="text-gray-600">{t('session.completed')}</p>
           </div>
 
           <div className="space-y-4 mb-6">
             <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
-              <span className="text-sm font-medium text-blue-900">Время:</span>
+              <span className="text-sm font-medium text-blue-900">{t('session.time')}</span>
               <span className="text-sm text-blue-700">{formatTime(timer)}</span>
             </div>
             <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
-              <span className="text-sm font-medium text-yellow-900">Очки:</span>
-              <span className="text-sm text-yellow-700">{Math.round((exercise.adventure_points || 0) * (funRating / 5))}</span>
+              <span className="text-sm font-medium text-yellow-900">{t('session.points')}</span>
+              <span className="text-sm text-yellow-700">{pointsEarned}</span>
+            </div>
+            <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
+              <span className="text-sm font-medium text-green-900">{t('session.sets')}</span>
+              <span className="text-sm text-green-700">
+                {setsCompleted}
+                {repsCompleted > 0 && t('session.reps', { count: repsCompleted })}
+              </span>
             </div>
             <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
-              <span className="text-sm font-medium text-purple-900">Рейтинг веселья:</span>
+              <span className="text-sm font-medium text-purple-900">{t('session.funRating')}</span>
               <div className="flex space-x-1">
                 {[1, 2, 3, 4, 5].map((star) => (
                   <span
@@ -199,11 +260,23 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
             </div>
           </div>
 
+          <RewardCelebration rewards={newRewards} />
+
+          {savedOffline && (
+            <p className="text-sm text-blue-700 bg-blue-50 rounded-lg p-3 mb-4">
+              {t('session.savedOffline')}
+            </p>
+          )}
+
+          {saveError && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3 mb-4">{saveError}</p>
+          )}
+
           <button
             onClick={onCancel}
             className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700 transition-colors"
           >
-            Вернуться к упражнениям
+            {t('session.backToExercises')}
           </button>
         </div>
       </div>
@@ -221,13 +294,14 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
               className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
             >
               <span className="mr-2">←</span>
-              Назад
+              {t('common.back')}
             </button>
             <div className="text-center">
               <div className="text-2xl font-bold text-gray-900">{formatTime(timer)}</div>
               <div className="text-sm text-gray-500">
-                {sessionState === 'active' ? 'Выполняется' : 
-                 sessionState === 'paused' ? 'Пауза' : 'Готов к началу'}
+                {t(sessionState === 'active' ? 'session.state.active' :
+                   sessionState === 'paused' ? 'session.state.paused' :
+                   sessionState === 'rating' ? 'session.state.rating' : 'session.state.preparing')}
               </div>
             </div>
             <div className="w-16" />
@@ -243,7 +317,9 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
               className="px-3 py-1 rounded-full text-sm font-medium text-white"
               style={{ backgroundColor: exercise.category?.color_hex || '#6B7280' }}
             >
-              {exercise.category?.name_ru || 'Общее'}
+              {exercise.category
+                ? localize({ en: exercise.category.name_en, ru: exercise.category.name_ru })
+                : t('category.general')}
             </div>
             <div
               className="px-2 py-1 rounded text-xs font-medium text-white"
@@ -254,7 +330,7 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
           </div>
 
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
-            {exercise.name_ru || exercise.name_en}
+            {localize({ en: exercise.name_en, ru: exercise.name_ru })}
           </h1>
 
           {exercise.fun_variation && (
@@ -263,25 +339,32 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
             </p>
           )}
 
-          <p className="text-gray-600 mb-4">{exercise.description || 'Описание упражнения'}</p>
+          <p className="text-gray-600 mb-4">{exercise.description || t('session.noDescription')}</p>
 
           <div className="grid grid-cols-2 gap-4">
             <div className="flex items-center text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
               <span className="mr-2">⏰</span>
-              <span>{exercise.sets_reps_duration || 'Не указано'}</span>
+              <span>{exercise.sets_reps_duration || t('session.notSpecified')}</span>
             </div>
             <div className="flex items-center text-sm text-gray-600 bg-yellow-50 p-3 rounded-lg">
               <span className="mr-2">⚡</span>
-              <span>{exercise.adventure_points || 0} очков</span>
+              <span>{t('common.points', { count: exercise.adventure_points || 0 })}</span>
             </div>
           </div>
         </div>
 
-        {/* Fun Rating */}
-        {sessionState !== 'preparing' && (
+        {/* Set Runner */}
+        {plan && (sessionState === 'active' || sessionState === 'paused') && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+            <SetRunner plan={plan} paused={sessionState === 'paused'} onFinish={handleSetsFinished} onProgress={setSetResults} />
+          </div>
+        )}
+
+        {/* Fun and effort ratings */}
+        {sessionState === 'rating' && (
           <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              Насколько весело было упражнение?
+              {t('session.ratePrompt')}
             </h3>
             <div className="flex justify-center space-x-2">
               {[1, 2, 3, 4, 5].map((star) => (
@@ -299,12 +382,29 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
               ))}
             </div>
             <div className="text-center mt-2 text-sm text-gray-500">
-              {funRating === 0 ? 'Оцени упражнение' : 
-               funRating === 1 ? 'Не очень' :
-               funRating === 2 ? 'Нормально' :
-               funRating === 3 ? 'Хорошо' :
-               funRating === 4 ? 'Отлично' :
-               'Супер!'}
+              {t(RATING_LABEL_KEYS[funRating])}
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-900 mt-6 mb-4">
+              {t('session.effortPrompt')}
+            </h3>
+            <div className="flex justify-center space-x-2">
+              {[1, 2, 3, 4, 5].map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setEffortRating(level)}
+                  className={`w-12 h-12 rounded-full flex items-center justify-center transition-all text-2xl ${
+                    level <= effortRating
+                      ? 'bg-orange-100 text-orange-600 scale-110'
+                      : 'bg-gray-100 text-gray-400 hover:bg-gray-200'
+                  }`}
+                >
+                  💪
+                </button>
+              ))}
+            </div>
+            <div className="text-center mt-2 text-sm text-gray-500">
+              {t(EFFORT_LABEL_KEYS[effortRating])}
             </div>
           </div>
         )}
@@ -319,7 +419,7 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
                 style={{ minHeight: '60px' }}
               >
                 <span className="mr-2">▶️</span>
-                Начать упражнение
+                {t('session.start')}
               </button>
             )}
 
@@ -331,16 +431,15 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
                   style={{ minHeight: '60px' }}
                 >
                   <span className="mr-2">⏸️</span>
-                  Пауза
+                  {t('session.pause')}
                 </button>
                 <button
-                  onClick={completeExercise}
-                  disabled={funRating === 0}
-                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  onClick={() => handleSetsFinished(setResults)}
+                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
                   style={{ minHeight: '60px' }}
                 >
                   <span className="mr-2">⏹️</span>
-                  Завершить
+                  {t('session.finish')}
                 </button>
               </>
             )}
@@ -353,25 +452,34 @@ const SimpleExerciseSession: React.FC<SimpleExerciseSessionProps> = ({
                   style={{ minHeight: '60px' }}
                 >
                   <span className="mr-2">▶️</span>
-                  Продолжить
+                  {t('session.resume')}
                 </button>
                 <button
-                  onClick={completeExercise}
-                  disabled={funRating === 0}
-                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  onClick={() => handleSetsFinished(setResults)}
+                  className="flex items-center justify-center bg-blue-600 text-white px-6 py-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
                   style={{ minHeight: '60px' }}
                 >
                   <span className="mr-2">⏹️</span>
-                  Завершить
+                  {t('session.finish')}
                 </button>
               </>
             )}
+
+            {sessionState === 'rating' && (
+              <button
+                onClick={completeExercise}
+                disabled={funRating === 0 || effortRating === 0 || saving}
+                className="flex items-center justify-center bg-blue-600 text-white px-8 py-4 rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                style={{ minHeight: '60px' }}
+              >
+                <span className="mr-2">🏁</span>
+                {saving ? t('common.saving') : t('session.finish')}
+              </button>
+            )}
           </div>
 
           <div className="mt-4 text-center text-sm text-gray-500">
-            {sessionState === 'preparing' && 'Нажми "Начать упражнение" когда будешь готов'}
-            {sessionState === 'active' && 'Упражнение выполняется. Не забудь оценить, как весело было!'}
-            {sessionState === 'paused' && 'Упражнение на паузе. Продолжи когда будешь готов'}
+            {t(`session.hint.${sessionState}`)}
           </div>
         </div>
       </div>
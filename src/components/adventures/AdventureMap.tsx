@@ -0,0 +1,378 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, ArrowLeft, Check, Lock, Play, Star, Trophy, MapPin } from 'lucide-react';
+import type { Exercise } from '../../types/Exercise';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+import {
+  fetchChildAdventures,
+  fetchAdventureMap,
+  startAdventure,
+  getAdventureEmoji,
+  describeUnlockRequirement,
+  type AdventureWithProgress,
+  type AdventureMapStep,
+  type AdventureStatus,
+} from '../../lib/adventures';
+import { fetchExerciseLocks, describePrerequisite, type ExerciseLocks } from '../../lib/prerequisites';
+
+interface AdventureMapProps {
+  childProfileId: string;
+  childName: string;
+  // Kept by the parent so returning from an exercise reopens the same map
+  selectedAdventureId: string | null;
+  onSelectAdventure: (adventureId: string | null) => void;
+  onStartExercise: (exercise: Exercise) => void;
+}
+
+const STATUS_LABEL_KEYS: Record<AdventureStatus, MessageKey> = {
+  not_started: 'adventure.status.not_started',
+  in_progress: 'adventure.status.in_progress',
+  paused: 'adventure.status.paused',
+  completed: 'adventure.status.completed',
+};
+
+const AdventureMap: React.FC<AdventureMapProps> = ({
+  childProfileId,
+  childName,
+  selectedAdventureId: selectedId,
+  onSelectAdventure: setSelectedId,
+  onStartExercise
+}) => {
+  const { t, localize } = useI18n();
+  const [adventures, setAdventures] = useState<AdventureWithProgress[]>([]);
+  const [steps, setSteps] = useState<AdventureMapStep[]>([]);
+  const [exerciseLocks, setExerciseLocks] = useState<ExerciseLocks>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [mapLoading, setMapLoading] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAdventures = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setAdventures(await fetchChildAdventures(childProfileId));
+    } catch (err) {
+      console.error('Error loading adventures:', err);
+      setError(t('adventure.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, t]);
+
+  useEffect(() => {
+    loadAdventures();
+  }, [loadAdventures]);
+
+  const selected = adventures.find(adventure => adventure.id === selectedId) || null;
+  const startedAt = selected?.enrollment?.started_at ?? null;
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    let cancelled = false;
+    const loadMap = async () => {
+      try {
+        setMapLoading(true);
+        const [mapSteps, locks] = await Promise.all([
+          fetchAdventureMap(childProfileId, selectedId, startedAt),
+          fetchExerciseLocks(childProfileId),
+        ]);
+        if (!cancelled) {
+          setSteps(mapSteps);
+          setExerciseLocks(locks);
+        }
+      } catch (err) {
+        console.error('Error loading adventure map:', err);
+        if (!cancelled) setError(t('adventure.mapFailed'));
+      } finally {
+        if (!cancelled) setMapLoading(false);
+      }
+    };
+
+    loadMap();
+    return () => {
+      cancelled = true;
+    };
+  }, [childProfileId, selectedId, startedAt, t]);
+
+  const handleStart = async (adventureId: string) => {
+    try {
+      setStarting(true);
+      const enrollment = await startAdventure(childProfileId, adventureId);
+      setAdventures(prev => prev.map(adventure =>
+        adventure.id === adventureId ? { ...adventure, enrollment } : adventure
+      ));
+      setSelectedId(adventureId);
+    } catch (err) {
+      console.error('🔴 Failed to start adventure:', err);
+      setError(err instanceof Error && err.message.includes('locked')
+        ? t('adventure.locked')
+        : t('adventure.startFailed'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">{t('adventure.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={() => {
+              setSelectedId(null);
+              loadAdventures();
+            }}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Adventure map
+  if (selected) {
+    const status = selected.enrollment?.status ?? 'not_started';
+    const percent = Math.round(Number(selected.enrollment?.progress_percentage ?? 0));
+    const locked = status === 'not_started' && selected.unlock?.unlocked === false;
+
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => setSelectedId(null)}
+          className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-6 transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {t('adventure.all')}
+        </button>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+          <div className="flex items-start gap-4">
+            <span className="text-5xl">{getAdventureEmoji(selected.story_theme)}</span>
+            <div className="flex-1">
+              <h2 className="text-2xl font-bold text-gray-900">
+                {localize({ en: selected.title, ru: selected.title_ru })}
+              </h2>
+              {selected.description && (
+                <p className="text-gray-600 mt-1">
+                  {localize({ en: selected.description, ru: selected.description_ru })}
+                </p>
+              )}
+              <div className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+                <Trophy className="w-4 h-4 text-yellow-500" />
+                {t('adventure.reward', { count: selected.reward_points })}
+              </div>
+            </div>
+          </div>
+
+          {status !== 'not_started' && (
+            <div className="mt-6">
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700">{t(STATUS_LABEL_KEYS[status])}</span>
+                <span className="text-gray-500">{percent}%</span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-3 overflow-hidden">
+                <div
+                  className="bg-gradient-to-r from-purple-500 to-blue-500 h-3 rounded-full transition-all"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {locked && selected.unlock && (
+            <div className="mt-6 flex items-center gap-3 bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <Lock className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium text-gray-700">{describeUnlockRequirement(selected.unlock, t)}</p>
+                <div className="w-full bg-gray-200 rounded-full h-2 mt-2 overflow-hidden">
+                  <div
+                    className="bg-purple-400 h-2 rounded-full"
+                    style={{ width: `${Math.round(Number(selected.unlock.progress) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {!locked && (status === 'not_started' || status === 'paused') && (
+            <button
+              onClick={() => handleStart(selected.id)}
+              disabled={starting}
+              className="mt-6 w-full flex items-center justify-center gap-2 bg-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-purple-700 disabled:bg-gray-400 transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              {starting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+              {status === 'paused' ? t('adventure.continue') : t('adventure.start')}
+            </button>
+          )}
+        </div>
+
+        {/* Path of stops */}
+        {mapLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <ol className="relative border-l-4 border-dashed border-purple-200 ml-6 space-y-6">
+            {steps.map(step => {
+              const isNext = step.state === 'next' && status === 'in_progress';
+              // A stop can be reached before the child has met its exercise's prerequisites
+              const lockedBy = step.state === 'done' ? [] : exerciseLocks.get(step.exercise.id) ?? [];
+
+              return (
+                <li key={step.exercise.id} className="ml-8 relative">
+                  <span
+                    className={`absolute -left-[3.25rem] top-2 w-10 h-10 rounded-full flex items-center justify-center border-4 border-white shadow ${
+                      step.state === 'done'
+                        ? 'bg-green-500 text-white'
+                        : isNext
+                          ? 'bg-purple-600 text-white animate-pulse'
+                          : 'bg-gray-200 text-gray-500'
+                    }`}
+                  >
+                    {step.state === 'done' ? (
+                      <Check className="w-5 h-5" />
+                    ) : isNext ? (
+                      <MapPin className="w-5 h-5" />
+                    ) : (
+                      <span className="text-sm font-bold">{step.sequenceOrder}</span>
+                    )}
+                  </span>
+
+                  <div
+                    className={`rounded-lg border p-4 ${
+                      isNext ? 'bg-purple-50 border-purple-300 shadow-sm' : 'bg-white border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className={`font-semibold truncate ${step.state === 'done' ? 'text-gray-500' : 'text-gray-900'}`}>
+                          {localize({ en: step.exercise.name_en, ru: step.exercise.name_ru })}
+                        </p>
+                        <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                          <span className="flex items-center gap-1">
+                            <Star className="w-3 h-3 text-yellow-500" />
+                            {t('common.points', { count: step.pointsReward })}
+                          </span>
+                          {!step.isRequired && <span>{t('adventure.optional')}</span>}
+                          {isNext && <span className="text-purple-700 font-medium">{t('adventure.nextStop')}</span>}
+                        </div>
+                        {lockedBy.map(prerequisite => (
+                          <p key={prerequisite.prerequisiteExerciseId} className="text-xs text-gray-600 mt-1">
+                            {describePrerequisite(prerequisite, { t, localize })}
+                          </p>
+                        ))}
+                      </div>
+
+                      {status === 'in_progress' && step.state !== 'done' && lockedBy.length === 0 && (
+                        <button
+                          onClick={() => onStartExercise(step.exercise)}
+                          className={`flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex-shrink-0 ${
+                            isNext
+                              ? 'bg-purple-600 text-white hover:bg-purple-700'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                          style={{ minHeight: '44px' }}
+                        >
+                          <Play className="w-4 h-4" />
+                          {t('adventure.go')}
+                        </button>
+                      )}
+                      {(status === 'not_started' || lockedBy.length > 0) && (
+                        <Lock className="w-4 h-4 text-gray-300 flex-shrink-0" />
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    );
+  }
+
+  // Adventure list
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">{t('adventure.title', { name: childName })}</h2>
+        <p className="text-gray-600">{t('adventure.subtitle')}</p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {adventures.map(adventure => {
+          const status = adventure.enrollment?.status ?? 'not_started';
+          const percent = Math.round(Number(adventure.enrollment?.progress_percentage ?? 0));
+          const locked = status === 'not_started' && adventure.unlock?.unlocked === false;
+
+          return (
+            <button
+              key={adventure.id}
+              onClick={() => setSelectedId(adventure.id)}
+              className={`text-left rounded-xl shadow-sm border border-gray-200 p-5 hover:shadow-md transition-all ${
+                locked ? 'bg-gray-50' : 'bg-white hover:border-purple-300'
+              }`}
+            >
+              <div className="flex items-start justify-between mb-3">
+                <span className={`text-4xl ${locked ? 'grayscale opacity-60' : ''}`}>
+                  {getAdventureEmoji(adventure.story_theme)}
+                </span>
+                {locked ? (
+                  <span className="flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full bg-gray-200 text-gray-600">
+                    <Lock className="w-3 h-3" />
+                    {t('adventure.closed')}
+                  </span>
+                ) : (
+                  <span
+                    className={`text-xs font-medium px-2 py-1 rounded-full ${
+                      status === 'completed'
+                        ? 'bg-green-100 text-green-700'
+                        : status === 'in_progress'
+                          ? 'bg-purple-100 text-purple-700'
+                          : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {t(STATUS_LABEL_KEYS[status])}
+                  </span>
+                )}
+              </div>
+              <h3 className="font-semibold text-gray-900 mb-1">{localize({ en: adventure.title, ru: adventure.title_ru })}</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                {t('adventure.exercises', { count: adventure.total_exercises })} • {t('adventure.days', { count: adventure.estimated_days })} • {t('common.points', { count: adventure.reward_points })}
+              </p>
+              {locked && adventure.unlock && (
+                <p className="text-xs font-medium text-gray-600">{describeUnlockRequirement(adventure.unlock, t)}</p>
+              )}
+              {status !== 'not_started' && (
+                <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
+                  <div
+                    className={`h-2 rounded-full ${status === 'completed' ? 'bg-green-500' : 'bg-purple-500'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AdventureMap;
@@ -0,0 +1,57 @@
+import React from 'react';
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+interface BarChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  unit: string;
+  height?: number;
+}
+
+// Enough labels to orient without overlapping on 30/90-day ranges
+const MAX_AXIS_LABELS = 8;
+
+const BarChart: React.FC<BarChartProps> = ({ labels, series, unit, height = 160 }) => {
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  const labelStep = Math.max(1, Math.ceil(labels.length / MAX_AXIS_LABELS));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px" style={{ height }}>
+        {labels.map((label, index) => (
+          <div key={`${label}-${index}`} className="flex-1 h-full flex items-end gap-px min-w-0">
+            {series.map(s => {
+              const value = s.values[index] ?? 0;
+              return (
+                <div
+                  key={s.name}
+                  className="flex-1 rounded-t transition-all"
+                  style={{
+                    height: `${(value / max) * 100}%`,
+                    minHeight: value > 0 ? 2 : 0,
+                    backgroundColor: s.color,
+                  }}
+                  title={`${s.name} • ${label}: ${Math.round(value * 10) / 10} ${unit}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1">
+        {labels.map((label, index) => (
+          <div key={`${label}-${index}`} className="flex-1 min-w-0 text-[10px] text-gray-400 text-center truncate">
+            {index % labelStep === 0 ? label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, Clock, Activity, Calendar, Smile } from 'lucide-react';
+import BarChart from './BarChart';
+import LineChart from './LineChart';
+import HorizontalBars from './HorizontalBars';
+import {
+  ANALYTICS_RANGES,
+  fetchAnalyticsSessions,
+  minutesPerDay,
+  minutesPerWeek,
+  sessionsPerCategory,
+  ratingsOverTime,
+  muscleGroupsTrained,
+  summarizeSessions,
+  type AnalyticsRange,
+  type AnalyticsSession,
+  type LabeledValue,
+} from '../../lib/analytics';
+import { useI18n } from '../../lib/i18n';
+
+interface ChildAnalyticsProps {
+  childProfileId: string;
+  childName: string;
+  // Other children of the same parent that can be compared against
+  siblings: Array<{ profile_id: string; display_name: string }>;
+}
+
+const CHILD_COLORS = ['#3B82F6', '#F59E0B'];
+
+const toRecord = (values: LabeledValue[]) =>
+  Object.fromEntries(values.map(entry => [entry.key, entry.value]));
+
+// Union of rows across the compared children, most frequent first
+const mergeRows = (lists: LabeledValue[][]) => {
+  const rows = new Map<string, { key: string; label: string; total: number }>();
+  lists.flat().forEach(entry => {
+    const row = rows.get(entry.key) ?? { key: entry.key, label: entry.label, total: 0 };
+    row.total += entry.value;
+    rows.set(entry.key, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+};
+
+const ChildAnalytics: React.FC<ChildAnalyticsProps> = ({ childProfileId, childName, siblings }) => {
+  const { language, t } = useI18n();
+  const [range, setRange] = useState<AnalyticsRange>('30d');
+  const [compareId, setCompareId] = useState<string>('');
+  const [sessions, setSessions] = useState<AnalyticsSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const profileIds = compareId ? [childProfileId, compareId] : [childProfileId];
+      setSessions(await fetchAnalyticsSessions(profileIds, range));
+    } catch (err) {
+      console.error('Error loading analytics:', err);
+      setError(t('analytics.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, compareId, range, t]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const compareChild = siblings.find(sibling => sibling.profile_id === compareId);
+  const people = [
+    { id: childProfileId, name: childName, color: CHILD_COLORS[0] },
+    ...(compareChild ? [{ id: compareChild.profile_id, name: compareChild.display_name, color: CHILD_COLORS[1] }] : []),
+  ].map(person => ({ ...person, sessions: sessions.filter(session => session.user_id === person.id) }));
+
+  const daily = people.map(person => minutesPerDay(person.sessions, range, language));
+  const weekly = people.map(person => minutesPerWeek(person.sessions, range, language));
+  const categories = people.map(person => sessionsPerCategory(person.sessions, language));
+  const ratings = people.map(person => ratingsOverTime(person.sessions, range, language));
+  const muscles = people.map(person => muscleGroupsTrained(person.sessions, language));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Controls */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('analytics.title', { name: childName })}</h2>
+          <p className="text-gray-600">{t('analytics.subtitle')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <div className="flex bg-white border border-gray-200 rounded-lg p-1">
+            {(Object.keys(ANALYTICS_RANGES) as AnalyticsRange[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setRange(key)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  range === key ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {t(ANALYTICS_RANGES[key].labelKey)}
+              </button>
+            ))}
+          </div>
+          {siblings.length > 0 && (
+            <select
+              value={compareId}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+              aria-label={t('analytics.compareLabel')}
+            >
+              <option value="">{t('analytics.noComparison')}</option>
+              {siblings.map(sibling => (
+                <option key={sibling.profile_id} value={sibling.profile_id}>
+                  {t('analytics.compareWith', { name: sibling.display_name })}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-24">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={loadSessions}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className={`grid gap-4 mb-6 ${people.length > 1 ? 'md:grid-cols-2' : ''}`}>
+            {people.map(person => {
+              const summary = summarizeSessions(person.sessions);
+              return (
+                <div key={person.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 mb-3">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: person.color }} />
+                    <span className="font-medium text-gray-900">{person.name}</span>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                    <div className="flex items-center gap-2 text-gray-600">
+                      <Activity className="w-4 h-4 text-green-600" />
+                      {t('analytics.sessions', { count: summary.sessions })}
+                    </div>
+                    <div className="flex items-center gap-2 text-gray-600">
+                      <Clock className="w-4 h-4 text-blue-600" />
+                      {t('common.minutes', { count: summary.minutes })}
+                    </div>
+                    <div className="flex items-center gap-2 text-gray-600">
+                      <Calendar className="w-4 h-4 text-purple-600" />
+                      {t('analytics.activeDays', { count: summary.activeDays })}
+                    </div>
+                    <div className="flex items-center gap-2 text-gray-600">
+                      <Smile className="w-4 h-4 text-yellow-500" />
+                      {t('analytics.avgFun', { value: summary.averageFun ?? '—' })}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">{t('analytics.minutesPerDay')}</h3>
+              <BarChart
+                labels={daily[0].map(day => day.label)}
+                series={people.map((person, index) => ({
+                  name: person.name,
+                  color: person.color,
+                  values: daily[index].map(day => day.value),
+                }))}
+                unit={t('analytics.unitMinutes')}
+              />
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">{t('analytics.minutesPerWeek')}</h3>
+              <BarChart
+                labels={weekly[0].map(week => week.label)}
+                series={people.map((person, index) => ({
+                  name: person.name,
+                  color: person.color,
+                  values: weekly[index].map(week => week.value),
+                }))}
+                unit={t('analytics.unitMinutes')}
+              />
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">{t('analytics.sessionsPerCategory')}</h3>
+              <HorizontalBars
+                rows={mergeRows(categories)}
+                series={people.map((person, index) => ({
+                  name: person.name,
+                  color: person.color,
+                  values: toRecord(categories[index]),
+                }))}
+                unit={t('analytics.unitSessions')}
+                emptyText={t('analytics.noSessions')}
+              />
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-gray-900">{t('analytics.ratingsPerWeek')}</h3>
+                <div className="flex items-center gap-3 text-xs text-gray-500">
+                  <span className="flex items-center gap-1">
+                    <span className="w-4 border-t-2 border-gray-500" /> {t('analytics.fun')}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="w-4 border-t-2 border-dashed border-gray-500" /> {t('analytics.effort')}
+                  </span>
+                </div>
+              </div>
+              <LineChart
+                labels={ratings[0].map(point => point.label)}
+                series={people.flatMap((person, index) => [
+                  { name: t('analytics.seriesFun', { name: person.name }), color: person.color, values: ratings[index].map(point => point.fun) },
+                  {
+                    name: t('analytics.seriesEffort', { name: person.name }),
+                    color: person.color,
+                    values: ratings[index].map(point => point.effort),
+                    dashed: true,
+                  },
+                ])}
+                min={1}
+                max={5}
+              />
+            </section>
+
+            <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 lg:col-span-2">
+              <h3 className="font-semibold text-gray-900 mb-1">{t('analytics.muscles')}</h3>
+              <p className="text-xs text-gray-500 mb-4">{t('analytics.musclesHint')}</p>
+              <HorizontalBars
+                rows={mergeRows(muscles).slice(0, 10)}
+                series={people.map((person, index) => ({
+                  name: person.name,
+                  color: person.color,
+                  values: toRecord(muscles[index]),
+                }))}
+                unit={t('analytics.unitPoints')}
+                emptyText={t('analytics.noMuscles')}
+              />
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChildAnalytics;
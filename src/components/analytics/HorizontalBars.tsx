@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface HorizontalBarsProps {
+  rows: Array<{ key: string; label: string }>;
+  series: Array<{ name: string; color: string; values: Record<string, number> }>;
+  unit: string;
+  emptyText: string;
+}
+
+const HorizontalBars: React.FC<HorizontalBarsProps> = ({ rows, series, unit, emptyText }) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">{emptyText}</p>;
+  }
+
+  const max = Math.max(1, ...series.flatMap(s => Object.values(s.values)));
+
+  return (
+    <ul className="space-y-3">
+      {rows.map(row => (
+        <li key={row.key}>
+          <p className="text-sm text-gray-700 mb-1">{row.label}</p>
+          <div className="space-y-1">
+            {series.map(s => {
+              const value = s.values[row.key] ?? 0;
+              return (
+                <div key={s.name} className="flex items-center gap-2">
+                  <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{ width: `${(value / max) * 100}%`, backgroundColor: s.color }}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-500 w-16 text-right">
+                    {Math.round(value * 10) / 10} {unit}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default HorizontalBars;
@@ -0,0 +1,79 @@
+import React from 'react';
+
+export interface LineSeries {
+  name: string;
+  color: string;
+  values: Array<number | null>;
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  min: number;
+  max: number;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 8;
+
+const LineChart: React.FC<LineChartProps> = ({ labels, series, min, max, height = 160 }) => {
+  const x = (index: number) =>
+    labels.length <= 1 ? WIDTH / 2 : PADDING + (index / (labels.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (value: number) => PADDING + (1 - (value - min) / (max - min)) * (height - PADDING * 2);
+
+  // Weeks without ratings break the line instead of dropping to zero
+  const segments = (values: Array<number | null>) => {
+    const result: string[] = [];
+    let current: string[] = [];
+    values.forEach((value, index) => {
+      if (value == null) {
+        if (current.length > 0) result.push(current.join(' '));
+        current = [];
+      } else {
+        current.push(`${x(index)},${y(value)}`);
+      }
+    });
+    if (current.length > 0) result.push(current.join(' '));
+    return result;
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }} preserveAspectRatio="none">
+        {Array.from({ length: max - min + 1 }, (_, i) => min + i).map(level => (
+          <line key={level} x1={0} x2={WIDTH} y1={y(level)} y2={y(level)} stroke="#F3F4F6" strokeWidth={1} />
+        ))}
+        {series.map(s => (
+          <g key={s.name}>
+            {segments(s.values).map((points, index) => (
+              <polyline
+                key={index}
+                points={points}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2.5}
+                strokeDasharray={s.dashed ? '6 4' : undefined}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {s.values.map((value, index) =>
+              value == null ? null : (
+                <circle key={index} cx={x(index)} cy={y(value)} r={3} fill={s.color}>
+                  <title>{`${s.name} • ${labels[index]}: ${value}`}</title>
+                </circle>
+              )
+            )}
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+        <span>{labels[0]}</span>
+        <span>{labels[labels.length - 1]}</span>
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
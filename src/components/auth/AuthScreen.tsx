@@ -1,10 +1,33 @@
-import React, { useState } from 'react';
-import { Heart, Shield, Users, Star } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Heart, Shield, Users, Star, AlertCircle } from 'lucide-react';
 import LoginForm from './LoginForm';
 import SignupForm from './SignupForm';
+import ForgotPasswordForm from './ForgotPasswordForm';
+import ChildSignIn from './ChildSignIn';
+import LanguageSwitcher from '../LanguageSwitcher';
+import { useI18n } from '../../lib/i18n';
+import { getStoredDevice } from '../../lib/childLogin';
+
+type AuthMode = 'login' | 'signup' | 'forgot' | 'child';
+
+// Expired or reused email links come back with the reason in the URL hash
+const readLinkError = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get('error_description');
+};
 
 const AuthScreen: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
+  // A device the parent set up for child sign-in opens on the children's avatars
+  const [device] = useState(getStoredDevice);
+  const { t } = useI18n();
+  const [mode, setMode] = useState<AuthMode>(device ? 'child' : 'login');
+  const [linkError] = useState(readLinkError);
+
+  useEffect(() => {
+    if (linkError) {
+      window.history.replaceState(window.history.state, '', window.location.pathname + window.location.search);
+    }
+  }, [linkError]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50">
@@ -18,16 +41,15 @@ const AuthScreen: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">KidsFit</h1>
-                <p className="text-sm text-gray-600">COPPA-Compliant Fitness</p>
+                <p className="text-sm text-gray-600">{t('auth.brand.tagline')}</p>
               </div>
             </div>
 
             <h2 className="text-3xl font-bold text-gray-900 mb-4">
-              Safe Fitness Fun for the Whole Family
+              {t('auth.brand.headline')}
             </h2>
             <p className="text-lg text-gray-600 mb-8">
-              A privacy-first fitness app designed specifically for children, 
-              with complete parental oversight and COPPA compliance.
+              {t('auth.brand.intro')}
             </p>
 
             <div className="space-y-4">
@@ -36,10 +58,9 @@ const AuthScreen: React.FC = () => {
                   <Shield className="w-4 h-4 text-green-600" />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-gray-900">COPPA Compliant</h3>
+                  <h3 className="font-semibold text-gray-900">{t('auth.coppa.title')}</h3>
                   <p className="text-sm text-gray-600">
-                    Full compliance with children's privacy laws. No health data collection, 
-                    complete parental control.
+                    {t('auth.brand.coppa')}
                   </p>
                 </div>
               </div>
@@ -49,10 +70,9 @@ const AuthScreen: React.FC = () => {
                   <Users className="w-4 h-4 text-blue-600" />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-gray-900">Family Management</h3>
+                  <h3 className="font-semibold text-gray-900">{t('auth.brand.familyTitle')}</h3>
                   <p className="text-sm text-gray-600">
-                    Parents create accounts and manage their children's profiles 
-                    with full visibility and control.
+                    {t('auth.brand.family')}
                   </p>
                 </div>
               </div>
@@ -62,22 +82,21 @@ const AuthScreen: React.FC = () => {
                   <Star className="w-4 h-4 text-purple-600" />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-gray-900">Fun Adventures</h3>
+                  <h3 className="font-semibold text-gray-900">{t('auth.brand.adventuresTitle')}</h3>
                   <p className="text-sm text-gray-600">
-                    Gamified exercise through story-driven adventures, focusing on 
-                    fun and engagement rather than performance.
+                    {t('auth.brand.adventures')}
                   </p>
                 </div>
               </div>
             </div>
 
             <div className="mt-8 p-4 bg-white rounded-lg border border-gray-200">
-              <h4 className="font-semibold text-gray-900 mb-2">What We Don't Track</h4>
+              <h4 className="font-semibold text-gray-900 mb-2">{t('auth.brand.notTracked')}</h4>
               <div className="text-sm text-gray-600 space-y-1">
-                <p>❌ No calorie counting or health metrics</p>
-                <p>❌ No body measurements or weight tracking</p>
-                <p>❌ No location data or personal information</p>
-                <p>❌ No social features without proper safeguards</p>
+                <p>❌ {t('auth.brand.noCalories')}</p>
+                <p>❌ {t('auth.brand.noBody')}</p>
+                <p>❌ {t('auth.brand.noLocation')}</p>
+                <p>❌ {t('auth.brand.noSocial')}</p>
               </div>
             </div>
           </div>
@@ -86,6 +105,10 @@ const AuthScreen: React.FC = () => {
         {/* Right side - Auth forms */}
         <div className="flex-1 flex items-center justify-center px-4 sm:px-6 lg:px-8">
           <div className="w-full max-w-md">
+            <div className="flex justify-end mb-4">
+              <LanguageSwitcher />
+            </div>
+
             {/* Mobile header */}
             <div className="lg:hidden text-center mb-8">
               <div className="flex items-center justify-center gap-3 mb-4">
@@ -94,21 +117,45 @@ const AuthScreen: React.FC = () => {
                 </div>
                 <div>
                   <h1 className="text-xl font-bold text-gray-900">KidsFit</h1>
-                  <p className="text-xs text-gray-600">COPPA-Compliant Fitness</p>
+                  <p className="text-xs text-gray-600">{t('auth.brand.tagline')}</p>
                 </div>
               </div>
               <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                Safe Fitness Fun for Kids
+                {t('auth.brand.mobileHeadline')}
               </h2>
               <p className="text-gray-600">
-                Privacy-first fitness app with complete parental control
+                {t('auth.brand.mobileIntro')}
               </p>
             </div>
 
-            {isLogin ? (
-              <LoginForm onSwitchToSignup={() => setIsLogin(false)} />
+            {linkError && mode !== 'child' && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  <span className="text-sm text-red-800">{t('auth.linkError', { reason: linkError })}</span>
+                </div>
+              </div>
+            )}
+
+            {mode === 'child' && device ? (
+              <ChildSignIn deviceToken={device.token} onParentSignIn={() => setMode('login')} />
+            ) : mode === 'login' ? (
+              <LoginForm onSwitchToSignup={() => setMode('signup')} onForgotPassword={() => setMode('forgot')} />
+            ) : mode === 'forgot' ? (
+              <ForgotPasswordForm onBackToLogin={() => setMode('login')} />
             ) : (
-              <SignupForm onSwitchToLogin={() => setIsLogin(true)} />
+              <SignupForm onSwitchToLogin={() => setMode('login')} />
+            )}
+
+            {device && mode !== 'child' && (
+              <div className="mt-4 text-center">
+                <button
+                  onClick={() => setMode('child')}
+                  className="text-sm font-medium text-purple-700 hover:text-purple-900"
+                >
+                  {t('auth.kidsSignIn')}
+                </button>
+              </div>
             )}
           </div>
         </div>
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Delete, Loader2, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../lib/i18n';
+import {
+  LOGIN_PICTURES,
+  PICTURE_CODE_LENGTH,
+  avatarEmoji,
+  fetchDeviceChildren,
+  type DeviceChild,
+} from '../../lib/childLogin';
+
+interface ChildSignInProps {
+  deviceToken: string;
+  onParentSignIn: () => void;
+}
+
+const MAX_PIN_LENGTH = 6;
+
+const ChildSignIn: React.FC<ChildSignInProps> = ({ deviceToken, onParentSignIn }) => {
+  const { signInChild } = useAuth();
+  const { t } = useI18n();
+  const [deviceChildren, setDeviceChildren] = useState<DeviceChild[]>([]);
+  const [selected, setSelected] = useState<DeviceChild | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDeviceChildren(deviceToken)
+      .then(setDeviceChildren)
+      .catch(err => {
+        console.error('🔴 Failed to load children for this device:', err);
+        setError(t('childSignIn.deviceRemoved'));
+      })
+      .finally(() => setLoading(false));
+  }, [deviceToken, t]);
+
+  const submit = async (child: DeviceChild, secret: string) => {
+    try {
+      setChecking(true);
+      setError(null);
+      const signedIn = await signInChild(deviceToken, child.child_id, secret);
+      if (!signedIn) {
+        setError(t('childSignIn.wrongCode'));
+        setCode('');
+      }
+    } catch (err) {
+      console.error('🔴 Child sign-in failed:', err);
+      setError(
+        err instanceof Error && err.message.includes('Too many')
+          ? t('childSignIn.tooManyAttempts')
+          : t('childSignIn.failed')
+      );
+      setCode('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const press = (value: string) => {
+    if (!selected || checking) return;
+    setError(null);
+
+    const next = code + value;
+    if (selected.secret_kind === 'picture') {
+      setCode(next);
+      if (next.length === PICTURE_CODE_LENGTH) {
+        submit(selected, next);
+      }
+    } else if (next.length <= MAX_PIN_LENGTH) {
+      setCode(next);
+    }
+  };
+
+  const chooseChild = (child: DeviceChild | null) => {
+    setSelected(child);
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
+        {selected ? (
+          <>
+            <button
+              onClick={() => chooseChild(null)}
+              className="flex items-center gap-2 mb-4 px-3 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              <ArrowLeft className="w-5 h-5" />
+              {t('common.back')}
+            </button>
+
+            <div className="text-center mb-6">
+              <div className="text-6xl mb-2" aria-hidden="true">{avatarEmoji(selected.avatar)}</div>
+              <h2 className="text-2xl font-bold text-gray-900">{selected.display_name}</h2>
+              <p className="text-gray-600">
+                {selected.secret_kind === 'picture' ? t('childSignIn.tapPictures') : t('childSignIn.enterCode')}
+              </p>
+            </div>
+
+            <div className="flex justify-center gap-3 mb-6" aria-live="polite">
+              {Array.from({ length: selected.secret_kind === 'picture' ? PICTURE_CODE_LENGTH : Math.max(4, code.length) }, (_, index) => (
+                <span
+                  key={index}
+                  className={`w-4 h-4 rounded-full ${index < code.length ? 'bg-blue-600' : 'bg-gray-300'}`}
+                />
+              ))}
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  <span className="text-sm text-red-800">{error}</span>
+                </div>
+              </div>
+            )}
+
+            {checking ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : selected.secret_kind === 'picture' ? (
+              <div className="grid grid-cols-3 gap-3">
+                {LOGIN_PICTURES.map((picture, index) => (
+                  <button
+                    key={picture.labelKey}
+                    onClick={() => press(String(index))}
+                    className="h-20 rounded-2xl bg-gray-100 hover:bg-gray-200 active:scale-95 text-4xl transition-all"
+                    aria-label={t(picture.labelKey)}
+                  >
+                    {picture.emoji}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-3">
+                {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+                  <button
+                    key={digit}
+                    onClick={() => press(digit)}
+                    className="h-16 rounded-2xl bg-gray-100 hover:bg-gray-200 text-2xl font-semibold text-gray-900 transition-colors"
+                  >
+                    {digit}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setCode(prev => prev.slice(0, -1))}
+                  disabled={code.length === 0}
+                  className="h-16 rounded-2xl bg-gray-100 hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center transition-colors"
+                  aria-label={t('childSignIn.erase')}
+                >
+                  <Delete className="w-6 h-6" />
+                </button>
+                <button
+                  onClick={() => press('0')}
+                  className="h-16 rounded-2xl bg-gray-100 hover:bg-gray-200 text-2xl font-semibold text-gray-900 transition-colors"
+                >
+                  0
+                </button>
+                <button
+                  onClick={() => submit(selected, code)}
+                  disabled={code.length < 4}
+                  className="h-16 rounded-2xl bg-blue-600 text-white text-xl font-semibold hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                >
+                  OK
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="text-center mb-6">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('childSignIn.whoIsExercising')}</h2>
+              <p className="text-gray-600">{t('childSignIn.tapYourPicture')}</p>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : error ? (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  <span className="text-sm text-red-800">{error}</span>
+                </div>
+              </div>
+            ) : deviceChildren.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">
+                {t('childSignIn.nobodyYet')}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                {deviceChildren.map(child => (
+                  <button
+                    key={child.child_id}
+                    onClick={() => chooseChild(child)}
+                    className="flex flex-col items-center gap-2 p-4 rounded-2xl bg-gradient-to-br from-blue-50 to-purple-50 border border-blue-200 hover:scale-105 active:scale-95 transition-transform"
+                  >
+                    <span className="text-5xl" aria-hidden="true">{avatarEmoji(child.avatar)}</span>
+                    <span className="font-semibold text-gray-900">{child.display_name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={onParentSignIn}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            {t('childSignIn.parentSignIn')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChildSignIn;
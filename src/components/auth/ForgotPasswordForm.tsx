@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../lib/i18n';
+import { KeyRound, ArrowLeft, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface ForgotPasswordFormProps {
+  onBackToLogin: () => void;
+}
+
+const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBackToLogin }) => {
+  const { resetPassword } = useAuth();
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await resetPassword(email);
+      // Same answer whether or not the address has an account
+      setSuccess(t('auth.forgot.sent', { email }));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
+        <div className="text-center mb-6">
+          <div className="mx-auto h-12 w-12 bg-blue-600 rounded-xl flex items-center justify-center mb-4">
+            <KeyRound className="h-6 w-6 text-white" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('auth.forgot.title')}</h2>
+          <p className="text-gray-600">{t('auth.forgot.subtitle')}</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 text-red-600" />
+              <span className="text-sm text-red-800">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-4 h-4 text-green-600" />
+              <span className="text-sm text-green-800">{success}</span>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('auth.email')}
+            </label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              placeholder="parent@example.com"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? t('common.sending') : t('auth.forgot.submit')}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={onBackToLogin}
+            className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {t('auth.forgot.back')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
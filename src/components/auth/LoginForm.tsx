@@ -1,36 +1,73 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { Eye, EyeOff, LogIn, AlertCircle, CheckCircle } from 'lucide-react';
+import { useI18n } from '../../lib/i18n';
+import { Eye, EyeOff, LogIn, AlertCircle, CheckCircle, Mail } from 'lucide-react';
 
 interface LoginFormProps {
   onSwitchToSignup: () => void;
+  onForgotPassword: () => void;
 }
 
-const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
-  const { signIn } = useAuth();
+type LoginMethod = 'password' | 'link';
+
+const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup, onForgotPassword }) => {
+  const { signIn, signInWithOtp, resendVerification } = useAuth();
+  const { t } = useI18n();
+  const [method, setMethod] = useState<LoginMethod>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [unconfirmed, setUnconfirmed] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
     setSuccess(null);
+    setUnconfirmed(false);
 
     try {
-      await signIn(email, password);
-      setSuccess('Successfully signed in!');
+      if (method === 'link') {
+        await signInWithOtp(email);
+        setSuccess(t('auth.login.linkSent'));
+      } else {
+        await signIn(email, password);
+        setSuccess(t('auth.login.success'));
+      }
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      const message = err instanceof Error ? err.message : t('common.error');
+      setError(message);
+      setUnconfirmed(message.includes('Email not confirmed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleResend = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await resendVerification(email);
+      setUnconfirmed(false);
+      setSuccess(t('auth.login.confirmationSent'));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMethod = (next: LoginMethod) => {
+    setMethod(next);
+    setError(null);
+    setSuccess(null);
+    setUnconfirmed(false);
+  };
+
   return (
     <div className="w-full max-w-md">
       <div className="bg-white p-8 rounded-xl shadow-lg border border-gray-200">
@@ -38,8 +75,8 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
           <div className="mx-auto h-12 w-12 bg-blue-600 rounded-xl flex items-center justify-center mb-4">
             <LogIn className="h-6 w-6 text-white" />
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Welcome Back</h2>
-          <p className="text-gray-600">Sign in to your parent account</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('auth.login.title')}</h2>
+          <p className="text-gray-600">{t('auth.login.subtitle')}</p>
         </div>
 
         {error && (
@@ -48,6 +85,16 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
               <AlertCircle className="w-4 h-4 text-red-600" />
               <span className="text-sm text-red-800">{error}</span>
             </div>
+            {unconfirmed && (
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={loading}
+                className="mt-2 text-sm font-medium text-red-700 hover:text-red-900 disabled:opacity-50"
+              >
+                {t('auth.login.resendConfirmation')}
+              </button>
+            )}
           </div>
         )}
 
@@ -60,10 +107,26 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
           </div>
         )}
 
+        <div className="flex gap-2 mb-4">
+          {(['password', 'link'] as const).map(option => (
+            <button
+              type="button"
+              key={option}
+              onClick={() => switchMethod(option)}
+              className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                method === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'password' ? <LogIn className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+              {option === 'password' ? t('auth.password') : t('auth.login.emailLink')}
+            </button>
+          ))}
+        </div>
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Email Address
+              {t('auth.email')}
             </label>
             <input
               type="email"
@@ -75,55 +138,74 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSwitchToSignup }) => {
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Password
-            </label>
-            <div className="relative">
-              <input
-                type={showPassword ? 'text' : 'password'}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={6}
-                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                placeholder="••••••••"
-              />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
-              >
-                {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-              </button>
+          {method === 'password' && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">
+                  {t('auth.password')}
+                </label>
+                <button
+                  type="button"
+                  onClick={onForgotPassword}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {t('auth.login.forgotPassword')}
+                </button>
+              </div>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="••••••••"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                >
+                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+              </div>
             </div>
-          </div>
+          )}
+
+          {method === 'link' && (
+            <p className="text-sm text-gray-600">
+              {t('auth.login.linkHint')}
+            </p>
+          )}
 
           <button
             type="submit"
             disabled={loading}
             className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? 'Signing in...' : 'Sign In'}
+            {method === 'link'
+              ? (loading ? t('common.sending') : t('auth.login.sendLink'))
+              : (loading ? t('auth.login.signingIn') : t('auth.login.submit'))}
           </button>
         </form>
 
         <div className="mt-6 text-center">
           <p className="text-sm text-gray-600">
-            Don't have an account?{' '}
+            {t('auth.login.noAccount')}{' '}
             <button
               onClick={onSwitchToSignup}
               className="text-blue-600 hover:text-blue-700 font-medium"
             >
-              Create parent account
+              {t('auth.login.createAccount')}
             </button>
           </p>
         </div>
 
         <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
           <div className="text-xs text-blue-800">
-            <p className="font-medium mb-1">🔒 COPPA Compliant</p>
-            <p>Only parents/guardians can create accounts. Children are added and managed by parents with proper consent tracking.</p>
+            <p className="font-medium mb-1">🔒 {t('auth.coppa.title')}</p>
+            <p>{t('auth.coppa.login')}</p>
           </div>
         </div>
       </div>
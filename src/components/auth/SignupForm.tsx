@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../lib/i18n';
 import { UserPlus, Eye, EyeOff, AlertCircle, CheckCircle, Info } from 'lucide-react';
 
 interface SignupFormProps {
@@ -8,6 +9,7 @@ interface SignupFormProps {
 
 const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
   const { signUp } = useAuth();
+  const { t } = useI18n();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -26,28 +28,30 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
 
     // Validation
     if (password !== confirmPassword) {
-      setError('Passwords do not match');
+      setError(t('auth.passwordsDontMatch'));
       setLoading(false);
       return;
     }
 
     if (password.length < 6) {
-      setError('Password must be at least 6 characters long');
+      setError(t('auth.passwordTooShort'));
       setLoading(false);
       return;
     }
 
     if (!agreeToTerms) {
-      setError('You must agree to the terms and privacy policy');
+      setError(t('auth.signup.mustAgree'));
       setLoading(false);
       return;
     }
 
     try {
-      await signUp(email, password, displayName);
-      setSuccess('Account created successfully! You can now add your children.');
+      const needsConfirmation = await signUp(email, password, displayName);
+      setSuccess(needsConfirmation
+        ? t('auth.signup.confirmEmail', { email })
+        : t('auth.signup.success'));
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(err instanceof Error ? err.message : t('common.error'));
     } finally {
       setLoading(false);
     }
@@ -60,8 +64,8 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
           <div className="mx-auto h-12 w-12 bg-green-600 rounded-xl flex items-center justify-center mb-4">
             <UserPlus className="h-6 w-6 text-white" />
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Create Parent Account</h2>
-          <p className="text-gray-600">Get started with a COPPA-compliant family fitness app</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('auth.signup.title')}</h2>
+          <p className="text-gray-600">{t('auth.signup.subtitle')}</p>
         </div>
 
         {error && (
@@ -85,7 +89,7 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Display Name
+              {t('auth.signup.displayName')}
             </label>
             <input
               type="text"
@@ -93,13 +97,13 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
               onChange={(e) => setDisplayName(e.target.value)}
               required
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-colors"
-              placeholder="Your name"
+              placeholder={t('auth.signup.namePlaceholder')}
             />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Email Address
+              {t('auth.email')}
             </label>
             <input
               type="email"
@@ -113,7 +117,7 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Password
+              {t('auth.password')}
             </label>
             <div className="relative">
               <input
@@ -133,12 +137,12 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
                 {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
               </button>
             </div>
-            <p className="text-xs text-gray-500 mt-1">Minimum 6 characters</p>
+            <p className="text-xs text-gray-500 mt-1">{t('auth.signup.passwordHint')}</p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Confirm Password
+              {t('auth.confirmPassword')}
             </label>
             <input
               type="password"
@@ -160,15 +164,15 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
               className="mt-1 h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
             />
             <label htmlFor="agreeToTerms" className="text-sm text-gray-700">
-              I agree to the{' '}
+              {t('auth.signup.agreePrefix')}{' '}
               <a href="#" className="text-green-600 hover:text-green-700">
-                Terms of Service
+                {t('auth.signup.terms')}
               </a>{' '}
-              and{' '}
+              {t('auth.signup.and')}{' '}
               <a href="#" className="text-green-600 hover:text-green-700">
-                Privacy Policy
+                {t('auth.signup.privacyPolicy')}
               </a>
-              . I understand this is a COPPA-compliant app for children's fitness.
+              {t('auth.signup.agreeSuffix')}
             </label>
           </div>
 
@@ -177,18 +181,18 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
             disabled={loading}
             className="w-full px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? 'Creating account...' : 'Create Parent Account'}
+            {loading ? t('auth.signup.creating') : t('auth.signup.title')}
           </button>
         </form>
 
         <div className="mt-6 text-center">
           <p className="text-sm text-gray-600">
-            Already have an account?{' '}
+            {t('auth.signup.haveAccount')}{' '}
             <button
               onClick={onSwitchToLogin}
               className="text-green-600 hover:text-green-700 font-medium"
             >
-              Sign in
+              {t('auth.signup.signIn')}
             </button>
           </p>
         </div>
@@ -197,8 +201,8 @@ const SignupForm: React.FC<SignupFormProps> = ({ onSwitchToLogin }) => {
           <div className="flex items-start gap-2">
             <Info className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
             <div className="text-xs text-amber-800">
-              <p className="font-medium mb-1">Parent/Guardian Account Only</p>
-              <p>Only adults can create accounts. You'll be able to add and manage your children's profiles after registration with proper consent tracking.</p>
+              <p className="font-medium mb-1">{t('auth.signup.adultsOnly')}</p>
+              <p>{t('auth.signup.adultsOnlyHint')}</p>
             </div>
           </div>
         </div>
@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, Plus, Copy, Check, UserMinus, AlertCircle, Users } from 'lucide-react';
+import TeamAssignments from './TeamAssignments';
+import {
+  BOARD_RANGES,
+  TEAM_NAME_MAX_LENGTH,
+  boardDateRange,
+  createTeam,
+  fetchCoachedTeams,
+  fetchTeamBoard,
+  leaveTeam,
+  type Team,
+  type TeamBoardRow,
+} from '../../lib/teams';
+import { useI18n } from '../../lib/i18n';
+
+interface CoachBoardProps {
+  coachProfileId: string;
+}
+
+const CoachBoard: React.FC<CoachBoardProps> = ({ coachProfileId }) => {
+  const { t, formatDate } = useI18n();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState<string>('');
+  const [days, setDays] = useState<number>(BOARD_RANGES[0]);
+  const [board, setBoard] = useState<TeamBoardRow[]>([]);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [boardLoading, setBoardLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dates = boardDateRange(days);
+  const team = teams.find(entry => entry.id === teamId);
+
+  const loadTeams = useCallback(async () => {
+    try {
+      setError(null);
+      const loaded = await fetchCoachedTeams(coachProfileId);
+      setTeams(loaded);
+      setTeamId(current => current || loaded[0]?.id || '');
+    } catch (err) {
+      console.error('Error loading teams:', err);
+      setError(err instanceof Error ? err.message : t('coach.loadTeamsFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [coachProfileId, t]);
+
+  useEffect(() => {
+    loadTeams();
+  }, [loadTeams]);
+
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+
+  const loadBoard = useCallback(async () => {
+    if (!teamId) {
+      setBoard([]);
+      return;
+    }
+
+    try {
+      setBoardLoading(true);
+      setError(null);
+      setBoard(await fetchTeamBoard(teamId, from, to));
+    } catch (err) {
+      console.error('Error loading team board:', err);
+      setError(err instanceof Error ? err.message : t('coach.loadBoardFailed'));
+    } finally {
+      setBoardLoading(false);
+    }
+  }, [teamId, from, to, t]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTeamName.trim()) return;
+
+    try {
+      setCreating(true);
+      setError(null);
+      const created = await createTeam(newTeamName);
+      setTeams(prev => [...prev, created]);
+      setTeamId(created.id);
+      setNewTeamName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('coach.createFailed'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopyCode = async () => {
+    if (!team) return;
+    try {
+      await navigator.clipboard.writeText(team.join_code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('⚠️ Clipboard unavailable:', err);
+    }
+  };
+
+  const handleRemove = async (childId: string) => {
+    if (!teamId) return;
+    try {
+      setRemovingId(childId);
+      await leaveTeam(teamId, childId);
+      setBoard(prev => prev.filter(row => row.child_id !== childId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('coach.removeFailed'));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4 justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('dashboard.coachMode')}</h2>
+          <p className="text-gray-600">
+            {t('coach.subtitle')}
+          </p>
+        </div>
+        <form onSubmit={handleCreateTeam} className="flex gap-2">
+          <input
+            type="text"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            maxLength={TEAM_NAME_MAX_LENGTH}
+            placeholder={t('coach.newTeam')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={creating || !newTeamName.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            {t('coach.createTeam')}
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-red-600" />
+            <span className="text-sm text-red-800">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {teams.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{t('coach.noTeams')}</h3>
+          <p className="text-gray-600">{t('coach.noTeamsHint')}</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={teamId}
+              onChange={(e) => setTeamId(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+              aria-label={t('coach.team')}
+            >
+              {teams.map(entry => (
+                <option key={entry.id} value={entry.id}>{entry.name}</option>
+              ))}
+            </select>
+            {team && (
+              <button
+                onClick={handleCopyCode}
+                className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                title={t('coach.copyCode')}
+              >
+                <span className="text-gray-500">{t('coach.joinCode')}</span>
+                <span className="font-mono font-semibold tracking-wider text-gray-900">{team.join_code}</span>
+                {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4 text-gray-500" />}
+              </button>
+            )}
+            <div className="flex gap-1 ml-auto">
+              {BOARD_RANGES.map(range => (
+                <button
+                  key={range}
+                  onClick={() => setDays(range)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    days === range ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {t('coach.range', { count: range })}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Attendance and progress board */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+            {boardLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+              </div>
+            ) : board.length === 0 ? (
+              <p className="text-center text-gray-600 py-12">
+                {t('coach.noMembers')}
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-3 px-4 font-medium">{t('coach.child')}</th>
+                    <th className="py-3 px-4 font-medium">{t('coach.attendance')}</th>
+                    <th className="py-3 px-4 font-medium text-right">{t('coach.days')}</th>
+                    <th className="py-3 px-4 font-medium text-right">{t('coach.sessions')}</th>
+                    <th className="py-3 px-4 font-medium text-right">{t('coach.minutes')}</th>
+                    <th className="py-3 px-4 font-medium text-right">{t('coach.points')}</th>
+                    <th className="py-3 px-4 font-medium text-right">{t('coach.streak')}</th>
+                    <th className="py-3 px-4 font-medium text-right">{t('coach.assignments')}</th>
+                    <th className="py-3 px-4 font-medium">{t('coach.lastActive')}</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {board.map(row => (
+                    <tr key={row.child_id} className="border-b border-gray-100">
+                      <td className="py-2 px-4 font-medium text-gray-900 whitespace-nowrap">{row.display_name}</td>
+                      <td className="py-2 px-4">
+                        <div className="flex gap-0.5">
+                          {dates.map(date => (
+                            <span
+                              key={date}
+                              title={date}
+                              className={`w-2.5 h-4 rounded-sm ${row.active_dates.includes(date) ? 'bg-green-500' : 'bg-gray-200'}`}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-2 px-4 text-right text-gray-900">{row.active_dates.length}/{days}</td>
+                      <td className="py-2 px-4 text-right text-gray-900">{row.sessions}</td>
+                      <td className="py-2 px-4 text-right text-gray-900">{Math.round(row.minutes)}</td>
+                      <td className="py-2 px-4 text-right text-gray-900">{row.points}</td>
+                      <td className="py-2 px-4 text-right text-gray-900">{row.current_streak_days}</td>
+                      <td className="py-2 px-4 text-right text-gray-900">{row.assignments_completed}</td>
+                      <td className="py-2 px-4 text-gray-600 whitespace-nowrap">
+                        {row.last_active_date ? formatDate(`${row.last_active_date}T00:00:00`) : '—'}
+                      </td>
+                      <td className="py-2 px-4 text-right">
+                        <button
+                          onClick={() => handleRemove(row.child_id)}
+                          disabled={removingId === row.child_id}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50 transition-colors"
+                          title={t('coach.remove')}
+                          aria-label={t('coach.removeLabel', { name: row.display_name })}
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {team && (
+            <TeamAssignments
+              teamId={team.id}
+              memberCount={board.length}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CoachBoard;
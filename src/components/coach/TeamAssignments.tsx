@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, ClipboardList, Shuffle, Check, Trash2, AlertCircle, Lock } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import type { Exercise } from '../../types/Exercise';
+import { WORKOUT_PHASES, suggestWorkout } from '../../lib/workouts';
+import {
+  ASSIGNMENT_TITLE_MAX_LENGTH,
+  createTeamAssignment,
+  deleteTeamAssignment,
+  fetchTeamAssignments,
+  fetchTeamExerciseLocks,
+  type TeamAssignment,
+} from '../../lib/teams';
+import { useI18n } from '../../lib/i18n';
+
+interface TeamAssignmentsProps {
+  teamId: string;
+  memberCount: number;
+}
+
+const TeamAssignments: React.FC<TeamAssignmentsProps> = ({ teamId, memberCount }) => {
+  const { t, localize, formatDate } = useI18n();
+  const [assignments, setAssignments] = useState<TeamAssignment[]>([]);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  // Exercise id -> members who have not met its prerequisites; the server rejects assignments containing these
+  const [lockedMembers, setLockedMembers] = useState<Map<string, number>>(new Map());
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      setError(null);
+      setAssignments(await fetchTeamAssignments(teamId));
+    } catch (err) {
+      console.error('Error loading assignments:', err);
+      setError(err instanceof Error ? err.message : t('assignments.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, t]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  useEffect(() => {
+    const loadExercises = async () => {
+      const { data, error } = await supabase
+        .from('exercises')
+        .select(`
+          *,
+          category:exercise_categories(id, name_ru, name_en, color_hex, icon)
+        `)
+        .eq('is_active', true)
+        .order('name_ru');
+
+      if (error) {
+        console.error('Error fetching exercises:', error);
+        return;
+      }
+      setExercises((data || []) as Exercise[]);
+    };
+
+    loadExercises();
+  }, []);
+
+  useEffect(() => {
+    fetchTeamExerciseLocks(teamId)
+      .then(setLockedMembers)
+      .catch(err => console.warn('⚠️ Failed to load exercise locks:', err));
+  }, [teamId]);
+
+  const assignable = exercises.filter(exercise => !lockedMembers.has(exercise.id));
+
+  const toggleExercise = (exerciseId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(exerciseId) ? prev.filter(id => id !== exerciseId) : [...prev, exerciseId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selectedIds.length === 0) {
+      setError(t('assignments.pickOne'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await createTeamAssignment(teamId, title, selectedIds, dueDate || null);
+      setTitle('');
+      setDueDate('');
+      setSelectedIds([]);
+      await loadAssignments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('assignments.assignFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (assignmentId: string) => {
+    try {
+      setDeletingId(assignmentId);
+      await deleteTeamAssignment(assignmentId);
+      setAssignments(prev => prev.filter(assignment => assignment.id !== assignmentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('assignments.deleteFailed'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center gap-2 px-6 py-4 border-b border-gray-200">
+        <ClipboardList className="w-5 h-5 text-orange-500" />
+        <h3 className="text-lg font-semibold text-gray-900">{t('assignments.title')}</h3>
+      </div>
+
+      <div className="p-6 grid lg:grid-cols-2 gap-6">
+        <div>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : assignments.length === 0 ? (
+            <p className="text-sm text-gray-600">{t('assignments.empty')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {assignments.map(assignment => (
+                <li key={assignment.id} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{assignment.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {t('assignments.exerciseCount', { count: assignment.exercise_ids.length })}
+                      {assignment.due_date && t('assignments.due', { date: formatDate(`${assignment.due_date}T00:00:00`) })}
+                    </p>
+                  </div>
+                  <span className="text-sm text-gray-700 whitespace-nowrap">
+                    {t('assignments.done', { done: assignment.completed_count ?? 0, total: memberCount })}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(assignment.id)}
+                    disabled={deletingId === assignment.id}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50 transition-colors"
+                    title={t('assignments.delete')}
+                    aria-label={t('assignments.deleteLabel', { title: assignment.title })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('assignments.name')}</label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={ASSIGNMENT_TITLE_MAX_LENGTH}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('assignments.dueDate')}</label>
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">{t('assignments.exercises', { count: selectedIds.length })}</span>
+              <button
+                type="button"
+                onClick={() => setSelectedIds(suggestWorkout(assignable).map(exercise => exercise.id))}
+                className="flex items-center gap-1 text-sm text-purple-700 hover:text-purple-900"
+              >
+                <Shuffle className="w-4 h-4" />
+                {t('assignments.suggest')}
+              </button>
+            </div>
+            <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {WORKOUT_PHASES.map(phase => {
+                const phaseExercises = exercises.filter(exercise => exercise.category?.name_en === phase.category);
+                if (phaseExercises.length === 0) return null;
+
+                return (
+                  <div key={phase.id} className="p-2">
+                    <p className="text-xs font-medium text-gray-500 mb-1">{phase.icon} {t(phase.titleKey)}</p>
+                    {phaseExercises.map(exercise => {
+                      const selected = selectedIds.includes(exercise.id);
+                      const lockedFor = lockedMembers.get(exercise.id) ?? 0;
+
+                      if (lockedFor > 0 && !selected) {
+                        return (
+                          <div key={exercise.id} className="flex items-center gap-2 px-2 py-1.5 text-sm text-gray-400">
+                            <Lock className="w-4 h-4 flex-shrink-0" />
+                            <span className="truncate">{localize({ en: exercise.name_en, ru: exercise.name_ru })}</span>
+                            <span className="ml-auto text-xs whitespace-nowrap">{t('assignments.lockedFor', { count: lockedFor })}</span>
+                          </div>
+                        );
+                      }
+
+                      return (
+                        <button
+                          type="button"
+                          key={exercise.id}
+                          onClick={() => toggleExercise(exercise.id)}
+                          className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-sm hover:bg-gray-50"
+                        >
+                          <span className={`w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 ${
+                            selected ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300'
+                          }`}>
+                            {selected && <Check className="w-3 h-3" />}
+                          </span>
+                          <span className="truncate text-gray-800">{localize({ en: exercise.name_en, ru: exercise.name_ru })}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:bg-gray-400 transition-colors font-medium"
+          >
+            {saving ? t('assignments.assigning') : t('assignments.submit')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TeamAssignments;
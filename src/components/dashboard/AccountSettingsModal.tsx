@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { X, Settings, AlertCircle, CheckCircle, Mail, Lock, Shield } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  PRIVACY_OPTIONS,
+  normalizePrivacySettings,
+  requestEmailChange,
+  updateAccountSettings,
+  type PrivacySettings,
+} from '../../lib/accountSettings';
+import { LANGUAGES, isLanguage, useI18n, type Language } from '../../lib/i18n';
+import { trackEvent } from '../../lib/telemetry';
+
+interface AccountSettingsModalProps {
+  onClose: () => void;
+}
+
+const AccountSettingsModal: React.FC<AccountSettingsModalProps> = ({ onClose }) => {
+  const { user, profile, refreshProfile, reauthenticate, updatePassword } = useAuth();
+  const { language: currentLanguage, t } = useI18n();
+  const [displayName, setDisplayName] = useState(profile?.display_name ?? '');
+  const [language, setLanguage] = useState<Language>(
+    isLanguage(profile?.preferred_language) ? profile.preferred_language : currentLanguage
+  );
+  const [privacy, setPrivacy] = useState<PrivacySettings>(() => normalizePrivacySettings(profile?.privacy_settings));
+  const [newEmail, setNewEmail] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      await action();
+      setSuccess(message);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await updateAccountSettings(displayName.trim(), language, privacy);
+      await refreshProfile();
+      trackEvent('settings_saved', { language });
+    }, t('settings.saved'));
+  };
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await requestEmailChange(newEmail.trim());
+      setNewEmail('');
+    }, t('settings.emailSent', { email: newEmail.trim() }));
+  };
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      setError(t('auth.passwordsDontMatch'));
+      return;
+    }
+    if (newPassword.length < 6) {
+      setError(t('auth.passwordTooShort'));
+      return;
+    }
+
+    run(async () => {
+      await reauthenticate(currentPassword);
+      await updatePassword(newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }, t('settings.passwordChanged'));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Settings className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('settings.title')}</h2>
+              <p className="text-sm text-gray-600">{user?.email}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="w-4 h-4 text-green-600" />
+                <span className="text-sm text-green-800">{success}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Profile and privacy */}
+          <form onSubmit={handleSaveSettings} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('settings.name')}
+              </label>
+              <input
+                type="text"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                maxLength={50}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('language.switcher')}
+              </label>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(LANGUAGES) as Language[]).map(code => (
+                  <option key={code} value={code}>{LANGUAGES[code].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <h3 className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+                <Shield className="w-4 h-4 text-gray-500" />
+                {t('settings.privacy')}
+              </h3>
+              <div className="space-y-3">
+                {PRIVACY_OPTIONS.map(option => (
+                  <label key={option.key} className="flex items-start gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={privacy[option.key]}
+                      onChange={(e) => setPrivacy(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <strong>{t(option.labelKey)}</strong>
+                      <span className="block text-xs text-gray-500">{t(option.descriptionKey)}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {t('settings.privacyNote')}
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving || !displayName.trim()}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+            >
+              {saving ? t('common.saving') : t('settings.save')}
+            </button>
+          </form>
+
+          {/* Email */}
+          <form onSubmit={handleChangeEmail} className="pt-4 border-t border-gray-200 space-y-3">
+            <h3 className="flex items-center gap-2 font-medium text-gray-900">
+              <Mail className="w-4 h-4 text-gray-500" />
+              {t('settings.email')}
+            </h3>
+            {user?.new_email && (
+              <p className="text-sm text-gray-600">{t('settings.emailPending', { email: user.new_email })}</p>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                required
+                placeholder={t('settings.newEmail')}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:bg-gray-400 transition-colors text-sm font-medium whitespace-nowrap"
+              >
+                {t('settings.change')}
+              </button>
+            </div>
+          </form>
+
+          {/* Password */}
+          <form onSubmit={handleChangePassword} className="pt-4 border-t border-gray-200 space-y-3">
+            <h3 className="flex items-center gap-2 font-medium text-gray-900">
+              <Lock className="w-4 h-4 text-gray-500" />
+              {t('auth.password')}
+            </h3>
+            <input
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+              autoComplete="current-password"
+              placeholder={t('settings.currentPassword')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+              minLength={6}
+              autoComplete="new-password"
+              placeholder={t('settings.newPassword')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              minLength={6}
+              autoComplete="new-password"
+              placeholder={t('settings.confirmNewPassword')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500">
+              {t('settings.noPasswordHint')}
+            </p>
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              {t('settings.changePassword')}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettingsModal;
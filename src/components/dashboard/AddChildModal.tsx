@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { X, Baby, AlertCircle, CheckCircle, Info } from 'lucide-react';
+import { CHILD_AGE_LIMITS, isAllowedChildAge } from '../../lib/childProfile';
+import { useI18n } from '../../lib/i18n';
 
 interface AddChildModalProps {
   onClose: () => void;
@@ -9,6 +11,7 @@ interface AddChildModalProps {
 
 const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) => {
   const { addChild } = useAuth();
+  const { t } = useI18n();
   const [childName, setChildName] = useState('');
   const [childAge, setChildAge] = useState('');
   const [parentConsent, setParentConsent] = useState(false);
@@ -31,25 +34,25 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
 
     // Validation
     if (!childName.trim()) {
-      setError('Child name is required');
+      setError(t('child.nameRequired'));
       setLoading(false);
       return;
     }
 
-    if (!childAge || parseInt(childAge) < 5 || parseInt(childAge) > 17) {
-      setError('Child age must be between 5 and 17 years old');
+    if (!childAge || !isAllowedChildAge(parseInt(childAge))) {
+      setError(t('child.ageRange', CHILD_AGE_LIMITS));
       setLoading(false);
       return;
     }
 
     if (!parentConsent) {
-      setError('Parental consent is required for COPPA compliance');
+      setError(t('child.add.consentRequired'));
       setLoading(false);
       return;
     }
 
     if (!privacyAcknowledge) {
-      setError('Privacy acknowledgment is required');
+      setError(t('child.add.privacyRequired'));
       setLoading(false);
       return;
     }
@@ -57,13 +60,13 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
     try {
       const dateOfBirth = calculateDateOfBirth(childAge);
       await addChild(childName.trim(), dateOfBirth);
-      setSuccess('Child profile created successfully!');
+      setSuccess(t('child.add.created'));
       
       setTimeout(() => {
         onSuccess();
       }, 1500);
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(err instanceof Error ? err.message : t('common.error'));
     } finally {
       setLoading(false);
     }
@@ -79,8 +82,8 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
               <Baby className="w-5 h-5 text-green-600" />
             </div>
             <div>
-              <h2 className="text-lg font-semibold text-gray-900">Add Child Profile</h2>
-              <p className="text-sm text-gray-600">COPPA-compliant child account creation</p>
+              <h2 className="text-lg font-semibold text-gray-900">{t('child.add.title')}</h2>
+              <p className="text-sm text-gray-600">{t('child.add.subtitle')}</p>
             </div>
           </div>
           <button
@@ -115,7 +118,7 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
             {/* Child Name */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Child's Name
+                {t('child.name')}
               </label>
               <input
                 type="text"
@@ -123,17 +126,17 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
                 onChange={(e) => setChildName(e.target.value)}
                 required
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-green-500"
-                placeholder="Enter child's name"
+                placeholder={t('child.namePlaceholder')}
               />
               <p className="text-xs text-gray-500 mt-1">
-                Display name only - no full legal names required
+                {t('child.nameHint')}
               </p>
             </div>
 
             {/* Child Age */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Child's Age
+                {t('child.age')}
               </label>
               <select
                 value={childAge}
@@ -141,15 +144,15 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
                 required
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-green-500"
               >
-                <option value="">Select age</option>
-                {Array.from({ length: 13 }, (_, i) => i + 5).map(age => (
+                <option value="">{t('child.selectAge')}</option>
+                {Array.from({ length: CHILD_AGE_LIMITS.max - CHILD_AGE_LIMITS.min + 1 }, (_, i) => i + CHILD_AGE_LIMITS.min).map(age => (
                   <option key={age} value={age}>
-                    {age} years old
+                    {t('dashboard.age', { count: age })}
                   </option>
                 ))}
               </select>
               <p className="text-xs text-gray-500 mt-1">
-                Age 5-17 supported for child safety
+                {t('child.ageHint', CHILD_AGE_LIMITS)}
               </p>
             </div>
 
@@ -158,19 +161,17 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
               <div className="flex items-start gap-3">
                 <Info className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
                 <div>
-                  <h4 className="font-medium text-blue-900 mb-2">COPPA Parental Consent</h4>
+                  <h4 className="font-medium text-blue-900 mb-2">{t('child.add.consentTitle')}</h4>
                   <p className="text-sm text-blue-800 mb-3">
-                    By creating this child profile, you consent to the collection and use of your child's 
-                    information as described in our privacy policy. This app is designed to be COPPA compliant.
+                    {t('child.add.consentText')}
                   </p>
                   
                   <div className="text-sm text-blue-800 mb-3">
-                    <p className="font-medium mb-1">Data we collect:</p>
+                    <p className="font-medium mb-1">{t('child.add.dataCollected')}</p>
                     <ul className="text-xs space-y-1 ml-4">
-                      <li>• Child's display name and age</li>
-                      <li>• Exercise activity and duration</li>
-                      <li>• Fun ratings and adventure progress</li>
-                      <li>• No health data, location, or personal information</li>
+                      {(['child.add.data1', 'child.add.data2', 'child.add.data3', 'child.add.data4'] as const).map(key => (
+                        <li key={key}>• {t(key)}</li>
+                      ))}
                     </ul>
                   </div>
 
@@ -183,8 +184,7 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
                       className="mt-1 h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
                     />
                     <label htmlFor="parentConsent" className="text-sm text-blue-800">
-                      <strong>I give my consent</strong> as this child's parent/guardian to create 
-                      this account and collect the information described above.
+                      <strong>{t('child.add.consentStrong')}</strong>{t('child.add.consentLabel')}
                     </label>
                   </div>
                 </div>
@@ -201,8 +201,7 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
                 className="mt-1 h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
               />
               <label htmlFor="privacyAcknowledge" className="text-sm text-gray-700">
-                I understand that I can view, modify, or delete my child's data at any time, 
-                and that this app prioritizes my child's privacy and safety.
+                {t('child.add.privacyLabel')}
               </label>
             </div>
 
@@ -213,14 +212,14 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
                 onClick={onClose}
                 className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
               >
-                Cancel
+                {t('common.cancel')}
               </button>
               <button
                 type="submit"
                 disabled={loading || !parentConsent || !privacyAcknowledge}
                 className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? 'Creating...' : 'Create Child Profile'}
+                {loading ? t('child.add.creating') : t('child.add.submit')}
               </button>
             </div>
           </form>
@@ -228,8 +227,7 @@ const AddChildModal: React.FC<AddChildModalProps> = ({ onClose, onSuccess }) =>
           {/* Technical Details */}
           <div className="mt-6 p-3 bg-gray-50 border border-gray-200 rounded-lg">
             <p className="text-xs text-gray-600">
-              <strong>Technical:</strong> Child profiles are created with user_id = NULL and linked to your parent account 
-              through the parent_child_relationships table. All data access is controlled by Row Level Security policies.
+              <strong>{t('child.add.technicalLabel')}</strong>{t('child.add.technical')}
             </p>
           </div>
         </div>
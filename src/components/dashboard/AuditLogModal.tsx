@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, ScrollText, AlertCircle, Loader2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchAuditEvents, describeAuditEvent, AUDIT_PAGE_SIZE, type AuditEvent } from '../../lib/audit';
+import { useI18n } from '../../lib/i18n';
+
+interface AuditLogModalProps {
+  onClose: () => void;
+}
+
+const AuditLogModal: React.FC<AuditLogModalProps> = ({ onClose }) => {
+  const { profile, children } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [subjectId, setSubjectId] = useState('');
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await fetchAuditEvents({ subjectProfileId: subjectId || undefined });
+      setEvents(page);
+      setHasMore(page.length === AUDIT_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+      setError(err instanceof Error ? err.message : t('audit.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [subjectId, t]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const loadMore = async () => {
+    const last = events[events.length - 1];
+    if (!last) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await fetchAuditEvents({ subjectProfileId: subjectId || undefined, before: last.occurred_at });
+      setEvents(prev => [...prev, ...page]);
+      setHasMore(page.length === AUDIT_PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('audit.loadFailed'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const subjectName = (id: string | null) => {
+    if (!id) return '—';
+    if (id === profile?.profile_id) return t('audit.yourAccount');
+    return children.find(child => child.profile_id === id)?.display_name ?? t('audit.removedChild');
+  };
+
+  const actorName = (event: AuditEvent) => {
+    if (event.actor_profile_id && event.actor_profile_id === profile?.profile_id) return t('audit.you');
+    if (event.actor_profile_id) return t('audit.familyMember');
+    return t('audit.system');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <ScrollText className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('audit.title')}</h2>
+              <p className="text-sm text-gray-600">{t('audit.subtitle')}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <div className="mb-4">
+            <select
+              value={subjectId}
+              onChange={(e) => setSubjectId(e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+              aria-label={t('audit.filter')}
+            >
+              <option value="">{t('audit.everyone')}</option>
+              {profile && <option value={profile.profile_id}>{t('audit.yourAccount')}</option>}
+              {children.map(child => (
+                <option key={child.profile_id} value={child.profile_id}>
+                  {child.display_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center text-gray-600 py-12">{t('audit.empty')}</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">{t('audit.when')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('audit.who')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('audit.whose')}</th>
+                      <th className="py-2 font-medium">{t('audit.what')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {events.map(event => (
+                      <tr key={event.id} className="border-b border-gray-100 align-top">
+                        <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                          {formatDate(event.occurred_at, { dateStyle: 'medium', timeStyle: 'short' })}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-900">{actorName(event)}</td>
+                        <td className="py-2 pr-4 text-gray-900">{subjectName(event.subject_profile_id)}</td>
+                        <td className="py-2 text-gray-700">{describeAuditEvent(event, t)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {hasMore && (
+                <div className="mt-4 text-center">
+                  <button
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors text-sm"
+                  >
+                    {loadingMore ? t('common.loading') : t('audit.loadMore')}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogModal;
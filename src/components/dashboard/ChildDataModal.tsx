@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { X, Shield, AlertCircle, Download, Trash2, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { CHILD_DATA_TABLES, downloadChildDataExport, type DeletionReceipt } from '../../lib/childData';
+import { useI18n } from '../../lib/i18n';
+
+interface ChildDataModalProps {
+  childProfileId: string;
+  childName: string;
+  // Invited guardians can export, but only the parent who added the child can delete them
+  canDelete: boolean;
+  onClose: () => void;
+}
+
+type Step = 'overview' | 'delete' | 'receipt';
+
+const ChildDataModal: React.FC<ChildDataModalProps> = ({ childProfileId, childName, canDelete, onClose }) => {
+  const { reauthenticate, deleteChild } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [step, setStep] = useState<Step>('overview');
+  const [password, setPassword] = useState('');
+  const [confirmName, setConfirmName] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [exported, setExported] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<DeletionReceipt | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      await downloadChildDataExport(childProfileId, childName);
+      setExported(true);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (confirmName.trim().toLowerCase() !== childName.trim().toLowerCase()) {
+      setError(t('childData.typeToConfirm', { name: childName }));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await reauthenticate(password);
+      setReceipt(await deleteChild(childProfileId, confirmName));
+      setStep('receipt');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+      setPassword('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Shield className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('childData.title')}</h2>
+              <p className="text-sm text-gray-600">{childName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {step === 'overview' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {t('childData.everything', { name: childName })}
+              </p>
+              <ul className="text-sm text-gray-700 space-y-1 list-disc list-inside">
+                {CHILD_DATA_TABLES.map(table => (
+                  <li key={table.key}>{t(table.labelKey)}</li>
+                ))}
+              </ul>
+
+              <button
+                onClick={handleExport}
+                disabled={exporting}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                style={{ minHeight: '44px' }}
+              >
+                <Download className="w-4 h-4" />
+                {exporting ? t('childData.preparing') : exported ? t('childData.downloadAgain') : t('childData.download')}
+              </button>
+
+              <div className="pt-4 border-t border-gray-200">
+                <h3 className="font-medium text-gray-900 mb-1">{t('childData.deleteTitle', { name: childName })}</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  {canDelete ? t('childData.deleteText') : t('childData.deleteCreatorOnly', { name: childName })}
+                </p>
+                {canDelete && (
+                  <button
+                    onClick={() => {
+                      setError(null);
+                      setStep('delete');
+                    }}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+                    style={{ minHeight: '44px' }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    {t('childData.deleteAll')}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'delete' && (
+            <form onSubmit={handleDelete} className="space-y-4">
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                {exported
+                  ? t('childData.exportedWarning')
+                  : t('childData.exportFirstWarning')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('childData.typeLabelBefore')}<strong>{childName}</strong>{t('childData.typeLabelAfter')}
+                </label>
+                <input
+                  type="text"
+                  value={confirmName}
+                  onChange={(e) => setConfirmName(e.target.value)}
+                  required
+                  autoComplete="off"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('childData.password')}
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  autoComplete="current-password"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {t('childData.passwordHint')}
+                </p>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null);
+                    setStep('overview');
+                  }}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  {t('common.back')}
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400 transition-colors"
+                >
+                  {loading ? t('childData.deleting') : t('childData.deletePermanently')}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {step === 'receipt' && receipt && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-green-700">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-medium">{t('childData.deleted', { name: childName })}</span>
+              </div>
+
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm">
+                <div className="flex justify-between mb-1">
+                  <span className="text-gray-600">{t('childData.receipt')}</span>
+                  <span className="font-mono font-semibold text-gray-900">{receipt.receipt_code}</span>
+                </div>
+                <div className="flex justify-between mb-3">
+                  <span className="text-gray-600">{t('childData.deletedAt')}</span>
+                  <span className="text-gray-900">{formatDate(receipt.deleted_at, { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                </div>
+                <div className="space-y-1 border-t border-gray-200 pt-3">
+                  {CHILD_DATA_TABLES.map(table => (
+                    <div key={table.key} className="flex justify-between text-gray-700">
+                      <span>{t(table.labelKey)}</span>
+                      <span>{receipt.deleted_counts[table.key] ?? 0}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                {t('childData.receiptHint')}
+              </p>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {t('common.done')}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChildDataModal;
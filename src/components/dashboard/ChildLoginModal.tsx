@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, KeyRound, AlertCircle, CheckCircle, Loader2, Tablet, Trash2 } from 'lucide-react';
+import {
+  CHILD_AVATARS,
+  LOGIN_PICTURES,
+  PICTURE_CODE_LENGTH,
+  disableChildLogin,
+  fetchChildLogin,
+  fetchFamilyDevices,
+  getStoredDevice,
+  registerThisDevice,
+  revokeFamilyDevice,
+  saveChildLogin,
+  type ChildLogin,
+  type ChildSecretKind,
+  type FamilyDevice,
+} from '../../lib/childLogin';
+import { PIN_PATTERN } from '../../lib/kidMode';
+import { useI18n } from '../../lib/i18n';
+
+interface ChildLoginModalProps {
+  childProfileId: string;
+  childName: string;
+  onClose: () => void;
+}
+
+const ChildLoginModal: React.FC<ChildLoginModalProps> = ({ childProfileId, childName, onClose }) => {
+  const { t } = useI18n();
+  const [login, setLogin] = useState<ChildLogin | null>(null);
+  const [devices, setDevices] = useState<FamilyDevice[]>([]);
+  const [storedDevice, setStoredDevice] = useState(getStoredDevice);
+  const [avatar, setAvatar] = useState<string>('fox');
+  const [secretKind, setSecretKind] = useState<ChildSecretKind>('picture');
+  const [pictureCode, setPictureCode] = useState<number[]>([]);
+  const [pin, setPin] = useState('');
+  const [deviceLabel, setDeviceLabel] = useState(() => t('childLogin.defaultDeviceName'));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setError(null);
+      const [loaded, loadedDevices] = await Promise.all([
+        fetchChildLogin(childProfileId),
+        fetchFamilyDevices(),
+      ]);
+      setLogin(loaded);
+      setDevices(loadedDevices);
+      if (loaded) {
+        setAvatar(loaded.avatar);
+        setSecretKind(loaded.secret_kind);
+      }
+    } catch (err) {
+      console.error('Error loading sign-in settings:', err);
+      setError(err instanceof Error ? err.message : t('childLogin.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, t]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+      await action();
+      setSuccess(message);
+      await loadSettings();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const secret = secretKind === 'picture' ? pictureCode.join('') : pin;
+    if (secretKind === 'picture' && pictureCode.length !== PICTURE_CODE_LENGTH) {
+      setError(t('childLogin.pickPictures', { count: PICTURE_CODE_LENGTH }));
+      return;
+    }
+    if (secretKind === 'pin' && !PIN_PATTERN.test(pin)) {
+      setError(t('pin.invalid'));
+      return;
+    }
+
+    await run(async () => {
+      await saveChildLogin(childProfileId, avatar, secretKind, secret);
+      setPictureCode([]);
+      setPin('');
+    }, t('childLogin.saved', { name: childName }));
+  };
+
+  const thisDeviceListed = storedDevice && devices.some(device => device.id === storedDevice.deviceId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center">
+              <KeyRound className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('childLogin.title')}</h2>
+              <p className="text-sm text-gray-600">{childName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {success && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="w-4 h-4 text-green-600" />
+                <span className="text-sm text-green-800">{success}</span>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {t('childLogin.intro', { name: childName })}{' '}
+                {login
+                  ? t(login.secret_kind === 'picture' ? 'childLogin.onWithPictures' : 'childLogin.onWithPin')
+                  : t('childLogin.off')}
+              </p>
+
+              <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                  <span className="block text-sm font-medium text-gray-700 mb-2">{t('childLogin.avatar')}</span>
+                  <div className="grid grid-cols-6 gap-2">
+                    {Object.entries(CHILD_AVATARS).map(([key, emoji]) => (
+                      <button
+                        type="button"
+                        key={key}
+                        onClick={() => setAvatar(key)}
+                        className={`h-12 rounded-lg text-2xl transition-colors ${
+                          avatar === key ? 'bg-purple-100 ring-2 ring-purple-500' : 'bg-gray-50 hover:bg-gray-100'
+                        }`}
+                        aria-label={key}
+                        aria-pressed={avatar === key}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <span className="block text-sm font-medium text-gray-700 mb-2">
+                    {login ? t('childLogin.newCode') : t('childLogin.code')}
+                  </span>
+                  <div className="flex gap-2 mb-3">
+                    {(['picture', 'pin'] as const).map(kind => (
+                      <button
+                        type="button"
+                        key={kind}
+                        onClick={() => setSecretKind(kind)}
+                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                          secretKind === kind ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {kind === 'picture' ? t('childLogin.pictures') : t('pin.label')}
+                      </button>
+                    ))}
+                  </div>
+
+                  {secretKind === 'picture' ? (
+                    <>
+                      <div className="flex items-center gap-2 mb-2 min-h-[2.5rem]">
+                        {pictureCode.map((index, position) => (
+                          <span key={position} className="text-2xl">{LOGIN_PICTURES[index].emoji}</span>
+                        ))}
+                        {pictureCode.length > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setPictureCode([])}
+                            className="ml-auto text-sm text-gray-500 hover:text-gray-700"
+                          >
+                            {t('common.clear')}
+                          </button>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-9 gap-1">
+                        {LOGIN_PICTURES.map((picture, index) => (
+                          <button
+                            type="button"
+                            key={picture.labelKey}
+                            onClick={() => setPictureCode(prev => (prev.length < PICTURE_CODE_LENGTH ? [...prev, index] : prev))}
+                            className="h-10 rounded-lg bg-gray-50 hover:bg-gray-100 text-xl"
+                            aria-label={t(picture.labelKey)}
+                          >
+                            {picture.emoji}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">{t('childLogin.pictureHint', { count: PICTURE_CODE_LENGTH })}</p>
+                    </>
+                  ) : (
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="new-password"
+                      value={pin}
+                      onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                      maxLength={6}
+                      placeholder={t('pin.digitsHint')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-center text-lg tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+                </div>
+
+                <div className="flex gap-3">
+                  {login && (
+                    <button
+                      type="button"
+                      onClick={() => run(() => disableChildLogin(childProfileId), t('childLogin.turnedOff'))}
+                      disabled={saving}
+                      className="flex-1 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    >
+                      {t('childLogin.turnOff')}
+                    </button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 transition-colors"
+                  >
+                    {saving ? t('common.saving') : t('common.save')}
+                  </button>
+                </div>
+              </form>
+
+              {/* Family devices */}
+              <div className="pt-4 border-t border-gray-200">
+                <h3 className="flex items-center gap-2 font-medium text-gray-900 mb-2">
+                  <Tablet className="w-4 h-4 text-gray-500" />
+                  {t('childLogin.devices')}
+                </h3>
+                {devices.length > 0 && (
+                  <ul className="space-y-2 mb-3">
+                    {devices.map(device => (
+                      <li key={device.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">
+                          {device.label}
+                          {storedDevice?.deviceId === device.id && <span className="text-gray-500"> {t('childLogin.thisDevice')}</span>}
+                        </span>
+                        <button
+                          onClick={() => run(async () => {
+                            await revokeFamilyDevice(device.id);
+                            setStoredDevice(getStoredDevice());
+                          }, t('childLogin.deviceRemoved', { device: device.label }))}
+                          disabled={saving}
+                          className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50 transition-colors"
+                          title={t('childLogin.removeDevice')}
+                          aria-label={t('childLogin.removeNamed', { device: device.label })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {storedDevice && !thisDeviceListed ? (
+                  <p className="text-sm text-gray-600">{t('childLogin.otherMember')}</p>
+                ) : !storedDevice && (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={deviceLabel}
+                      onChange={(e) => setDeviceLabel(e.target.value)}
+                      maxLength={40}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      aria-label={t('childLogin.deviceName')}
+                    />
+                    <button
+                      onClick={() => run(async () => {
+                        setStoredDevice(await registerThisDevice(deviceLabel));
+                      }, t('childLogin.deviceReady'))}
+                      disabled={saving || !deviceLabel.trim()}
+                      className="px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:bg-gray-400 transition-colors text-sm font-medium whitespace-nowrap"
+                    >
+                      {t('childLogin.useThisDevice')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChildLoginModal;
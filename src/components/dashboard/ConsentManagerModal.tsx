@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, ShieldCheck, AlertCircle, Loader2, ShieldOff, Shield, History } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  fetchConsentOverview,
+  fetchConsentHistory,
+  setChildConsent,
+  CONSENT_REASON_MAX_LENGTH,
+  type ConsentStatus,
+  type ConsentEvent,
+} from '../../lib/consent';
+import { useI18n } from '../../lib/i18n';
+
+interface ConsentManagerModalProps {
+  onClose: () => void;
+  // Opens the export / delete panel, which stays available after revoking
+  onManageData: (child: { profile_id: string; display_name: string }) => void;
+}
+
+type PendingChange = { childId: string; grant: boolean };
+
+const ConsentManagerModal: React.FC<ConsentManagerModalProps> = ({ onClose, onManageData }) => {
+  const { refreshChildren } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [statuses, setStatuses] = useState<ConsentStatus[]>([]);
+  const [history, setHistory] = useState<ConsentEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [reason, setReason] = useState('');
+  const [consentChecked, setConsentChecked] = useState(false);
+
+  const loadConsent = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const overview = await fetchConsentOverview();
+      setStatuses(overview);
+      setHistory(await fetchConsentHistory(overview.map(status => status.child_id)));
+    } catch (err) {
+      console.error('Error loading consent:', err);
+      setError(err instanceof Error ? err.message : t('consent.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadConsent();
+  }, [loadConsent]);
+
+  const startChange = (change: PendingChange) => {
+    setPending(change);
+    setReason('');
+    setConsentChecked(false);
+    setError(null);
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending) return;
+
+    if (pending.grant && !consentChecked) {
+      setError(t('consent.confirmRequired'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await setChildConsent(pending.childId, pending.grant, reason);
+      setPending(null);
+      await Promise.all([loadConsent(), refreshChildren()]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDateTime = (value: string | null) =>
+    value ? formatDate(value, { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+  const isActive = (status: ConsentStatus) => status.consent_given && status.active;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('consent.title')}</h2>
+              <p className="text-sm text-gray-600">{t('consent.subtitle')}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : statuses.length === 0 ? (
+            <p className="text-center text-gray-600 py-12">{t('consent.noChildren')}</p>
+          ) : (
+            <div className="space-y-4">
+              {statuses.map(status => {
+                const active = isActive(status);
+                const events = history.filter(event => event.child_id === status.child_id);
+                const editing = pending?.childId === status.child_id;
+
+                return (
+                  <div key={status.child_id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div>
+                        <h3 className="font-semibold text-gray-900">{status.display_name}</h3>
+                        <p className="text-xs text-gray-500">
+                          {t(active ? 'consent.given' : 'consent.revoked', { date: formatDateTime(status.consent_date) })}
+                        </p>
+                      </div>
+                      <span
+                        className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                          active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {active ? <Shield className="w-3 h-3" /> : <ShieldOff className="w-3 h-3" />}
+                        {active ? t('consent.active') : t('consent.paused')}
+                      </span>
+                    </div>
+
+                    {editing ? (
+                      <form onSubmit={handleConfirm} className="mt-4 space-y-3">
+                        {pending.grant ? (
+                          <label className="flex items-start gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={consentChecked}
+                              onChange={(e) => setConsentChecked(e.target.checked)}
+                              className="mt-0.5"
+                            />
+                            <span>
+                              <strong>{t('child.add.consentStrong')}</strong>{t('consent.grantLabel', { name: status.display_name })}
+                            </span>
+                          </label>
+                        ) : (
+                          <p className="text-sm text-gray-700">
+                            {t('consent.revokeText', { name: status.display_name })}
+                          </p>
+                        )}
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            {t('consent.note')}
+                          </label>
+                          <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            maxLength={CONSENT_REASON_MAX_LENGTH}
+                            rows={2}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                          />
+                        </div>
+                        <div className="flex gap-3">
+                          <button
+                            type="button"
+                            onClick={() => setPending(null)}
+                            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                          >
+                            {t('common.cancel')}
+                          </button>
+                          <button
+                            type="submit"
+                            disabled={saving}
+                            className={`flex-1 px-4 py-2 text-white rounded-lg disabled:bg-gray-400 transition-colors ${
+                              pending.grant ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                            }`}
+                          >
+                            {saving ? t('common.saving') : pending.grant ? t('consent.grant') : t('consent.revoke')}
+                          </button>
+                        </div>
+                      </form>
+                    ) : (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        <button
+                          onClick={() => startChange({ childId: status.child_id, grant: !active })}
+                          className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            active
+                              ? 'border border-red-300 text-red-700 hover:bg-red-50'
+                              : 'bg-green-600 text-white hover:bg-green-700'
+                          }`}
+                          style={{ minHeight: '44px' }}
+                        >
+                          {active ? t('consent.revoke') : t('consent.grantAgain')}
+                        </button>
+                        <button
+                          onClick={() => onManageData({ profile_id: status.child_id, display_name: status.display_name })}
+                          className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md text-sm font-medium hover:bg-gray-50 transition-colors"
+                          style={{ minHeight: '44px' }}
+                        >
+                          {t('consent.manageData')}
+                        </button>
+                      </div>
+                    )}
+
+                    {events.length > 0 && (
+                      <div className="mt-4 pt-3 border-t border-gray-100">
+                        <div className="flex items-center gap-1 text-xs font-medium text-gray-500 mb-2">
+                          <History className="w-3 h-3" />
+                          {t('consent.history')}
+                        </div>
+                        <ul className="space-y-1">
+                          {events.map(event => (
+                            <li key={event.id} className="text-xs text-gray-600">
+                              <span className={event.action === 'granted' ? 'text-green-700' : 'text-red-700'}>
+                                {event.action === 'granted' ? t('consent.granted') : t('consent.revokedEvent')}
+                              </span>
+                              {' · '}
+                              {formatDateTime(event.created_at)}
+                              {event.reason && <span className="text-gray-500"> — {event.reason}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentManagerModal;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, Pencil, AlertCircle, Archive } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  CHILD_AGE_LIMITS,
+  CHILD_NAME_MAX_LENGTH,
+  CHILD_PROFILE_MESSAGE_PARAMS,
+  childBirthDateBounds,
+  validateChildProfile,
+} from '../../lib/childProfile';
+import { useI18n } from '../../lib/i18n';
+
+interface EditChildModalProps {
+  child: { profile_id: string; display_name: string; date_of_birth: string | null };
+  onClose: () => void;
+}
+
+const EditChildModal: React.FC<EditChildModalProps> = ({ child, onClose }) => {
+  const { updateChild, setChildArchived } = useAuth();
+  const { t } = useI18n();
+  const [name, setName] = useState(child.display_name);
+  const [dateOfBirth, setDateOfBirth] = useState(child.date_of_birth ?? '');
+  const [confirmArchive, setConfirmArchive] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bounds = childBirthDateBounds();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validationError = validateChildProfile(name, dateOfBirth);
+    if (validationError) {
+      setError(t(validationError, CHILD_PROFILE_MESSAGE_PARAMS));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await updateChild(child.profile_id, name.trim(), dateOfBirth);
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!confirmArchive) {
+      setConfirmArchive(true);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await setChildArchived(child.profile_id, true);
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Pencil className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('child.edit.title')}</h2>
+              <p className="text-sm text-gray-600">{child.display_name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('child.name')}
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={CHILD_NAME_MAX_LENGTH}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {t('child.nameHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('child.dob')}
+              </label>
+              <input
+                type="date"
+                value={dateOfBirth}
+                min={bounds.min}
+                max={bounds.max}
+                onChange={(e) => setDateOfBirth(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {t('child.ageHint', CHILD_AGE_LIMITS)}
+              </p>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                {loading ? t('common.saving') : t('child.edit.save')}
+              </button>
+            </div>
+          </form>
+
+          {/* Archive */}
+          <div className="mt-6 pt-4 border-t border-gray-200">
+            <h3 className="font-medium text-gray-900 mb-1">{t('child.edit.archiveTitle', { name: child.display_name })}</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              {t('child.edit.archiveText')}
+            </p>
+            <button
+              onClick={handleArchive}
+              disabled={loading}
+              className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                confirmArchive
+                  ? 'bg-orange-600 text-white hover:bg-orange-700'
+                  : 'border border-orange-300 text-orange-700 hover:bg-orange-50'
+              }`}
+              style={{ minHeight: '44px' }}
+            >
+              <Archive className="w-4 h-4" />
+              {confirmArchive ? t('child.edit.archiveConfirm') : t('child.edit.archive')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditChildModal;
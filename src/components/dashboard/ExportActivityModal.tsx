@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { X, Download, AlertCircle, FileSpreadsheet, FileJson, Printer } from 'lucide-react';
+import {
+  fetchActivityExport,
+  toCsv,
+  toJson,
+  toPrintableHtml,
+  downloadFile,
+  openPrintWindow,
+  printInWindow,
+  exportFilename,
+  type ExportFormat,
+} from '../../lib/activityExport';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+
+interface ExportActivityModalProps {
+  childProfileId: string;
+  childName: string;
+  onClose: () => void;
+}
+
+const toInputDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const FORMATS: Array<{ id: ExportFormat; label: string; hintKey: MessageKey; icon: React.ElementType }> = [
+  { id: 'csv', label: 'CSV', hintKey: 'export.csvHint', icon: FileSpreadsheet },
+  { id: 'json', label: 'JSON', hintKey: 'export.jsonHint', icon: FileJson },
+  { id: 'pdf', label: 'PDF', hintKey: 'export.pdfHint', icon: Printer },
+];
+
+const ExportActivityModal: React.FC<ExportActivityModalProps> = ({ childProfileId, childName, onClose }) => {
+  const { language, t } = useI18n();
+  const today = new Date();
+  const monthAgo = new Date(today.getFullYear(), today.getMonth() - 1, today.getDate());
+
+  const [from, setFrom] = useState(toInputDate(monthAgo));
+  const [to, setTo] = useState(toInputDate(today));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!from || !to || from > to) {
+      setError(t('export.dateOrder'));
+      return;
+    }
+
+    // Opened before loading the data, while the click still counts as a user gesture
+    let printWindow: Window | null = null;
+
+    try {
+      setLoading(true);
+      if (format === 'pdf') {
+        printWindow = openPrintWindow();
+      }
+      const data = await fetchActivityExport(childProfileId, childName, from, to);
+
+      if (format === 'csv') {
+        // BOM so Excel reads the Russian exercise names as UTF-8
+        downloadFile(exportFilename(childName, from, to, 'csv'), `\uFEFF${toCsv(data)}`, 'text/csv;charset=utf-8');
+      } else if (format === 'json') {
+        downloadFile(exportFilename(childName, from, to, 'json'), toJson(data), 'application/json');
+      } else if (printWindow) {
+        printInWindow(printWindow, toPrintableHtml(data, language));
+      }
+
+      console.log('✅ Exported activity:', format, data.rows.length, 'sessions');
+      onClose();
+    } catch (err: unknown) {
+      printWindow?.close();
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Download className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('export.title')}</h2>
+              <p className="text-sm text-gray-600">{t('export.subtitle', { name: childName })}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.from')}</label>
+                <input
+                  type="date"
+                  value={from}
+                  max={to}
+                  onChange={(e) => setFrom(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.to')}</label>
+                <input
+                  type="date"
+                  value={to}
+                  min={from}
+                  max={toInputDate(today)}
+                  onChange={(e) => setTo(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">{t('export.format')}</span>
+              <div className="space-y-2">
+                {FORMATS.map(option => {
+                  const Icon = option.icon;
+                  return (
+                    <label
+                      key={option.id}
+                      className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                        format === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="export-format"
+                        value={option.id}
+                        checked={format === option.id}
+                        onChange={() => setFormat(option.id)}
+                        className="sr-only"
+                      />
+                      <Icon className="w-5 h-5 text-blue-600" />
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                        <div className="text-xs text-gray-500">{t(option.hintKey)}</div>
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                {loading ? t('childData.preparing') : t('export.submit')}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportActivityModal;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Pencil } from 'lucide-react';
+import GoalSettingsModal from './GoalSettingsModal';
+import { fetchGoalProgress, goalRatio, type GoalProgress } from '../../lib/goals';
+import { useI18n } from '../../lib/i18n';
+
+interface GoalRingsProps {
+  childProfileId: string;
+  childName: string;
+}
+
+interface RingProps {
+  ratio: number;
+  color: string;
+  label: string;
+  detail: string;
+}
+
+const RING_RADIUS = 22;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+const Ring: React.FC<RingProps> = ({ ratio, color, label, detail }) => (
+  <div className="flex items-center gap-2">
+    <svg width="56" height="56" viewBox="0 0 56 56" className="flex-shrink-0 -rotate-90">
+      <circle cx="28" cy="28" r={RING_RADIUS} fill="none" stroke="#E5E7EB" strokeWidth="6" />
+      <circle
+        cx="28"
+        cy="28"
+        r={RING_RADIUS}
+        fill="none"
+        stroke={color}
+        strokeWidth="6"
+        strokeLinecap="round"
+        strokeDasharray={RING_CIRCUMFERENCE}
+        strokeDashoffset={RING_CIRCUMFERENCE * (1 - ratio)}
+        className="transition-all duration-500"
+      />
+    </svg>
+    <div className="min-w-0">
+      <p className="text-xs font-medium text-gray-700">{label}</p>
+      <p className="text-xs text-gray-500">{detail}</p>
+    </div>
+  </div>
+);
+
+const GoalRings: React.FC<GoalRingsProps> = ({ childProfileId, childName }) => {
+  const { t } = useI18n();
+  const [progress, setProgress] = useState<GoalProgress | null>(null);
+  const [editing, setEditing] = useState(false);
+
+  const loadProgress = useCallback(async () => {
+    try {
+      setProgress(await fetchGoalProgress(childProfileId));
+    } catch (err) {
+      console.warn('⚠️ Goal progress unavailable:', err);
+    }
+  }, [childProfileId]);
+
+  useEffect(() => {
+    loadProgress();
+  }, [loadProgress]);
+
+  if (!progress) return null;
+
+  const weeklyMinutes = Math.round(progress.weekly_minutes);
+
+  return (
+    <div className="flex items-center justify-between gap-2 bg-white bg-opacity-60 rounded-lg p-2">
+      <Ring
+        ratio={goalRatio(progress.weekly_minutes, progress.weekly_goal_minutes)}
+        color="#10B981"
+        label={t('goals.thisWeek')}
+        detail={t('goals.minutesProgress', { done: weeklyMinutes, goal: progress.weekly_goal_minutes })}
+      />
+      <Ring
+        ratio={goalRatio(progress.monthly_exercises, progress.monthly_goal_exercises)}
+        color="#3B82F6"
+        label={t('goals.thisMonth')}
+        detail={t('goals.exercisesProgress', { done: progress.monthly_exercises, goal: progress.monthly_goal_exercises })}
+      />
+      <button
+        onClick={() => setEditing(true)}
+        className="p-2 text-gray-500 hover:text-gray-800 hover:bg-white rounded-lg transition-colors flex-shrink-0"
+        title={t('goals.edit')}
+        aria-label={t('goals.editFor', { name: childName })}
+      >
+        <Pencil className="w-4 h-4" />
+      </button>
+
+      {editing && (
+        <GoalSettingsModal
+          childProfileId={childProfileId}
+          childName={childName}
+          initialGoals={{
+            weeklyGoalMinutes: progress.weekly_goal_minutes,
+            monthlyGoalExercises: progress.monthly_goal_exercises,
+          }}
+          onClose={() => setEditing(false)}
+          onSaved={() => {
+            setEditing(false);
+            loadProgress();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GoalRings;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { X, Target, AlertCircle } from 'lucide-react';
+import { saveGoals, GOAL_LIMITS, type GoalSettings } from '../../lib/goals';
+import { useI18n } from '../../lib/i18n';
+
+interface GoalSettingsModalProps {
+  childProfileId: string;
+  childName: string;
+  initialGoals: GoalSettings;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const GoalSettingsModal: React.FC<GoalSettingsModalProps> = ({
+  childProfileId,
+  childName,
+  initialGoals,
+  onClose,
+  onSaved
+}) => {
+  const { t } = useI18n();
+  const [weeklyGoalMinutes, setWeeklyGoalMinutes] = useState(String(initialGoals.weeklyGoalMinutes));
+  const [monthlyGoalExercises, setMonthlyGoalExercises] = useState(String(initialGoals.monthlyGoalExercises));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const weekly = parseInt(weeklyGoalMinutes);
+    const monthly = parseInt(monthlyGoalExercises);
+    const { weeklyGoalMinutes: weeklyLimits, monthlyGoalExercises: monthlyLimits } = GOAL_LIMITS;
+
+    if (isNaN(weekly) || weekly < weeklyLimits.min || weekly > weeklyLimits.max) {
+      setError(t('goals.weeklyRange', { min: weeklyLimits.min, max: weeklyLimits.max }));
+      return;
+    }
+
+    if (isNaN(monthly) || monthly < monthlyLimits.min || monthly > monthlyLimits.max) {
+      setError(t('goals.monthlyRange', { min: monthlyLimits.min, max: monthlyLimits.max }));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await saveGoals(childProfileId, { weeklyGoalMinutes: weekly, monthlyGoalExercises: monthly });
+      onSaved();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : t('common.error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center">
+              <Target className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('goals.title', { name: childName })}</h2>
+              <p className="text-sm text-gray-600">{t('goals.weekStart')}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('goals.weeklyMinutes')}
+              </label>
+              <input
+                type="number"
+                min={GOAL_LIMITS.weeklyGoalMinutes.min}
+                max={GOAL_LIMITS.weeklyGoalMinutes.max}
+                value={weeklyGoalMinutes}
+                onChange={(e) => setWeeklyGoalMinutes(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {t('goals.weeklyMinutesHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('goals.monthlyExercises')}
+              </label>
+              <input
+                type="number"
+                min={GOAL_LIMITS.monthlyGoalExercises.min}
+                max={GOAL_LIMITS.monthlyGoalExercises.max}
+                value={monthlyGoalExercises}
+                onChange={(e) => setMonthlyGoalExercises(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {t('goals.monthlyExercisesHint')}
+              </p>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+              >
+                {loading ? t('common.saving') : t('goals.save')}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalSettingsModal;
@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Users, AlertCircle, Loader2, Mail, Copy, Check, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  fetchChildGuardians,
+  fetchPendingInvitations,
+  createGuardianInvitation,
+  revokeGuardianInvitation,
+  removeGuardianAccess,
+  buildInvitationLink,
+  buildInvitationMailto,
+  RELATIONSHIP_LABEL_KEYS,
+  ACCESS_LEVEL_LABEL_KEYS,
+  type AccessLevel,
+  type ChildGuardian,
+  type GuardianInvitation,
+} from '../../lib/guardians';
+import { useI18n } from '../../lib/i18n';
+
+interface GuardiansModalProps {
+  childProfileId: string;
+  childName: string;
+  onClose: () => void;
+}
+
+const GuardiansModal: React.FC<GuardiansModalProps> = ({ childProfileId, childName, onClose }) => {
+  const { profile } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [guardians, setGuardians] = useState<ChildGuardian[]>([]);
+  const [invitations, setInvitations] = useState<GuardianInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [relationshipType, setRelationshipType] = useState<GuardianInvitation['relationship_type']>('guardian');
+  const [accessLevel, setAccessLevel] = useState<AccessLevel>('read_only');
+  const [invite, setInvite] = useState<{ email: string; link: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccess = useCallback(async () => {
+    try {
+      setError(null);
+      const [guardianList, invitationList] = await Promise.all([
+        fetchChildGuardians(childProfileId),
+        fetchPendingInvitations(childProfileId),
+      ]);
+      setGuardians(guardianList);
+      setInvitations(invitationList);
+    } catch (err) {
+      console.error('Error loading guardians:', err);
+      setError(err instanceof Error ? err.message : t('guardians.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, t]);
+
+  useEffect(() => {
+    loadAccess();
+  }, [loadAccess]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const created = await createGuardianInvitation(childProfileId, email, relationshipType, accessLevel);
+      setInvite({ email: email.trim().toLowerCase(), link: buildInvitationLink(created.token) });
+      setCopied(false);
+      setEmail('');
+      await loadAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('guardians.inviteFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(invite.link);
+      setCopied(true);
+    } catch (err) {
+      console.warn('⚠️ Clipboard unavailable:', err);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitationId: string) => {
+    try {
+      setBusyId(invitationId);
+      setError(null);
+      await revokeGuardianInvitation(invitationId);
+      await loadAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('guardians.revokeFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemoveGuardian = async (guardianId: string) => {
+    try {
+      setBusyId(guardianId);
+      setError(null);
+      await removeGuardianAccess(childProfileId, guardianId);
+      await loadAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('guardians.removeFailed'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Users className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.guardians')}</h2>
+              <p className="text-sm text-gray-600">{t('guardians.subtitle', { name: childName })}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <div className="space-y-2 mb-6">
+              {guardians.map(guardian => (
+                <div key={guardian.profile_id} className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {guardian.display_name}
+                      {guardian.profile_id === profile?.profile_id && <span className="text-gray-500 font-normal">{t('guardians.you')}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {t(RELATIONSHIP_LABEL_KEYS[guardian.relationship_type])} · {t(ACCESS_LEVEL_LABEL_KEYS[guardian.access_level])}
+                    </p>
+                  </div>
+                  {guardian.invited_by && guardian.profile_id !== profile?.profile_id && (
+                    <button
+                      onClick={() => handleRemoveGuardian(guardian.profile_id)}
+                      disabled={busyId === guardian.profile_id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      {t('guardians.remove')}
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between p-3 border border-dashed border-gray-300 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-700">{invitation.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {t('guardians.invitedAs', {
+                        relationship: t(RELATIONSHIP_LABEL_KEYS[invitation.relationship_type]).toLowerCase(),
+                        access: t(ACCESS_LEVEL_LABEL_KEYS[invitation.access_level]),
+                        date: formatDate(invitation.expires_at),
+                      })}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeInvitation(invitation.id)}
+                    disabled={busyId === invitation.id}
+                    className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                  >
+                    {t('guardians.revoke')}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {invite && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-sm text-green-800 mb-2">
+                {t('guardians.sendLink', { email: invite.email })}
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={invite.link}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 border border-green-300 rounded-md text-xs bg-white"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="p-2 bg-white border border-green-300 text-green-700 rounded-md hover:bg-green-100 transition-colors"
+                  title={t('guardians.copy')}
+                  aria-label={t('guardians.copyLabel')}
+                >
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+                <a
+                  href={buildInvitationMailto(invite.email, childName, invite.link, t)}
+                  className="p-2 bg-white border border-green-300 text-green-700 rounded-md hover:bg-green-100 transition-colors"
+                  title={t('guardians.email')}
+                  aria-label={t('guardians.emailLabel')}
+                >
+                  <Mail className="w-4 h-4" />
+                </a>
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleInvite} className="space-y-4 pt-4 border-t border-gray-200">
+            <h3 className="font-medium text-gray-900">{t('guardians.inviteTitle')}</h3>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('guardians.emailAddress')}
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('guardians.role')}
+                </label>
+                <select
+                  value={relationshipType}
+                  onChange={(e) => setRelationshipType(e.target.value as GuardianInvitation['relationship_type'])}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="guardian">{t(RELATIONSHIP_LABEL_KEYS.guardian)}</option>
+                  <option value="coach">{t(RELATIONSHIP_LABEL_KEYS.coach)}</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('guardians.access')}
+                </label>
+                <select
+                  value={accessLevel}
+                  onChange={(e) => setAccessLevel(e.target.value as AccessLevel)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="read_only">{t(ACCESS_LEVEL_LABEL_KEYS.read_only)}</option>
+                  <option value="full">{t(ACCESS_LEVEL_LABEL_KEYS.full)}</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              {t('guardians.accessHint')}
+            </p>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                {t('common.close')}
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                {submitting ? t('child.add.creating') : t('guardians.create')}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GuardiansModal;
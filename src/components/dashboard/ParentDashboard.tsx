@@ -1,35 +1,201 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { Baby, UserPlus, Settings, Activity, Trophy, LogOut, Plus, Calendar, Star, Users, ArrowLeft } from 'lucide-react';
+import { Baby, UserPlus, Settings, Activity, Trophy, LogOut, Plus, Calendar, Star, Users, ArrowLeft, Dumbbell, MapIcon, Route, BarChart3, Download, Shield, ScrollText, Pencil, ArchiveRestore, Eye, CheckCircle, AlertCircle, Smile, KeyRound, Loader2, Lock } from 'lucide-react';
 import AddChildModal from './AddChildModal';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import StreakBadge from './StreakBadge';
+import GoalRings from './GoalRings';
+import ExportActivityModal from './ExportActivityModal';
+import ChildDataModal from './ChildDataModal';
+import ConsentManagerModal from './ConsentManagerModal';
+import AuditLogModal from './AuditLogModal';
+import EditChildModal from './EditChildModal';
+import GuardiansModal from './GuardiansModal';
+import TeamsCard from './TeamsCard';
+import ParentPinModal from './ParentPinModal';
+import ChildLoginModal from './ChildLoginModal';
+import AccountSettingsModal from './AccountSettingsModal';
 import ExerciseCatalog from '../ExerciseCatalog';
 import SimpleExerciseSession from '../SimpleExerciseSession';
+import WorkoutBuilder from '../workout/WorkoutBuilder';
+import WorkoutPlayer from '../workout/WorkoutPlayer';
+import TrophyRoom from '../rewards/TrophyRoom';
+import AdventureMap from '../adventures/AdventureMap';
+import PathPlayer from '../paths/PathPlayer';
+import ChildAnalytics from '../analytics/ChildAnalytics';
+import CoachBoard from '../coach/CoachBoard';
+import type { Exercise } from '../../types/Exercise';
+import { fetchExercise } from '../../lib/exercises';
+import { fetchExerciseLocks, describePrerequisite, type UnmetPrerequisite } from '../../lib/prerequisites';
+import { syncOfflineQueue } from '../../lib/offlineQueue';
+import { ensureProfileTimezone } from '../../lib/streaks';
+import { acceptGuardianInvitation, takePendingInvitation, RELATIONSHIP_LABEL_KEYS } from '../../lib/guardians';
+import { hasParentPin, useKidMode } from '../../lib/kidMode';
+import { trackEvent } from '../../lib/telemetry';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+import { getRouteChildId, useRouter, type ChildView } from '../../lib/router';
+import LanguageSwitcher from '../LanguageSwitcher';
 
-interface Exercise {
-  id: string;
-  name_en: string;
-  name_ru: string;
-  description: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
-  category: {
-    id: string;
-    name_ru: string;
-    name_en: string;
-    color_hex: string;
-    icon: string;
-  };
-  sets_reps_duration: string;
-  fun_variation: string;
-  adventure_points: number;
-  estimated_duration_minutes: number;
-  is_balance_focused: boolean;
-}
+const CHILD_VIEW_TITLE_KEYS: Record<ChildView, MessageKey> = {
+  catalog: 'dashboard.view.catalog',
+  workout: 'dashboard.view.workout',
+  trophies: 'dashboard.view.trophies',
+  adventures: 'dashboard.view.adventures',
+  paths: 'dashboard.view.paths',
+  analytics: 'dashboard.view.analytics',
+};
 
 const ParentDashboard: React.FC = () => {
-  const { profile, children, signOut } = useAuth();
+  const { profile, children, archivedChildren, setChildArchived, refreshChildren, signOut } = useAuth();
+  const { enterKidMode } = useKidMode();
+  const { t, localize, formatDate: formatLocaleDate } = useI18n();
+  const { route, navigate, goBack } = useRouter();
   const [showAddChild, setShowAddChild] = useState(false);
-  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
-  const [activeExercise, setActiveExercise] = useState<Exercise | null>(null);
+  // Exercise picked from a list, so the session screen need not load it again
+  const pickedExercise = useRef<Exercise | null>(null);
+  // Set once the session route's exercise is loaded and known to be unlocked for the child
+  const [sessionExercise, setSessionExercise] = useState<Exercise | null>(null);
+  // A session link for an exercise the child has not unlocked yet, explained on the catalog it falls back to
+  const [lockedLink, setLockedLink] = useState<{ exercise: Exercise; unmet: UnmetPrerequisite[] } | null>(null);
+  const [workoutQueue, setWorkoutQueue] = useState<Exercise[] | null>(null);
+  const [workoutAssignmentId, setWorkoutAssignmentId] = useState<string | null>(null);
+  const [exportChild, setExportChild] = useState<{ profile_id: string; display_name: string } | null>(null);
+  const [dataChild, setDataChild] = useState<{ profile_id: string; display_name: string; canDelete: boolean } | null>(null);
+  const [showConsent, setShowConsent] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [editChild, setEditChild] = useState<{ profile_id: string; display_name: string; date_of_birth: string | null } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [guardiansChild, setGuardiansChild] = useState<{ profile_id: string; display_name: string } | null>(null);
+  const [loginChild, setLoginChild] = useState<{ profile_id: string; display_name: string } | null>(null);
+  const [inviteNotice, setInviteNotice] = useState<{ success: boolean; message: string } | null>(null);
+  // Child waiting for kid mode while the parent sets a first PIN
+  const [pinSetupChildId, setPinSetupChildId] = useState<string | null>(null);
+
+  // The screen comes from the URL, so reloads, the back button and shared links land in the same place
+  const selectedChildId = getRouteChildId(route);
+  // Catalog is the default child screen; the other views replace it
+  const childView: ChildView = route.name === 'child' ? route.view : 'catalog';
+  const adventureId = route.name === 'child' && route.view === 'adventures' ? route.itemId : null;
+  const pathId = route.name === 'child' && route.view === 'paths' ? route.itemId : null;
+  const sessionExerciseId = route.name === 'session' ? route.exerciseId : null;
+  const activeExercise = sessionExercise?.id === sessionExerciseId ? sessionExercise : null;
+  const showCoachMode = route.name === 'coach';
+  const showSettings = route.name === 'settings';
+
+  // Every way into a session (a list, a shared link, a reload, the back button) checks the
+  // child's prerequisite locks first; a locked or missing exercise goes back to the catalog
+  useEffect(() => {
+    if (!sessionExerciseId || !selectedChildId) {
+      // Coming back to the same session later checks it again
+      setSessionExercise(null);
+      return;
+    }
+
+    const picked = pickedExercise.current;
+    const leaveToCatalog = () =>
+      navigate({ name: 'child', childId: selectedChildId, view: 'catalog', itemId: null }, { replace: true });
+
+    let cancelled = false;
+    setSessionExercise(null);
+    Promise.all([
+      picked?.id === sessionExerciseId ? picked : fetchExercise(sessionExerciseId),
+      fetchExerciseLocks(selectedChildId),
+    ])
+      .then(([exercise, locks]) => {
+        if (cancelled) return;
+        const unmet = locks.get(exercise.id);
+        if (unmet) {
+          setLockedLink({ exercise, unmet });
+          leaveToCatalog();
+          return;
+        }
+        setSessionExercise(exercise);
+      })
+      .catch(err => {
+        console.error('🔴 Failed to open exercise session:', err);
+        if (!cancelled) leaveToCatalog();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionExerciseId, selectedChildId, navigate]);
+
+  useEffect(() => {
+    setLockedLink(null);
+  }, [selectedChildId, childView]);
+
+  // The workout queue lives only as long as the workout screen is open
+  useEffect(() => {
+    if (childView !== 'workout') {
+      setWorkoutQueue(null);
+      setWorkoutAssignmentId(null);
+    }
+  }, [childView]);
+
+  // Replay sessions recorded offline on load and whenever the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      syncOfflineQueue();
+    };
+
+    syncOfflineQueue();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  useEffect(() => {
+    if (!profile) return;
+    ensureProfileTimezone(profile.profile_id, profile.timezone).catch(err =>
+      console.warn('⚠️ Failed to save family timezone:', err)
+    );
+  }, [profile]);
+
+  // An invitation link opened before signing in is accepted once the dashboard loads
+  useEffect(() => {
+    const token = takePendingInvitation();
+    if (!token) return;
+
+    acceptGuardianInvitation(token)
+      .then(async () => {
+        await refreshChildren();
+        setInviteNotice({ success: true, message: t('dashboard.inviteAccepted') });
+      })
+      .catch(err => {
+        console.error('🔴 Failed to accept invitation:', err);
+        setInviteNotice({ success: false, message: err instanceof Error ? err.message : t('dashboard.inviteFailed') });
+      });
+  }, [refreshChildren, t]);
+
+  const handleRestore = async (childId: string) => {
+    try {
+      setRestoringId(childId);
+      await setChildArchived(childId, false);
+    } catch (err) {
+      console.error('🔴 Failed to restore child:', err);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const startKidMode = (childId: string) => {
+    trackEvent('kid_mode_started');
+    enterKidMode(childId);
+  };
+
+  // Kid mode needs a PIN to leave it, so a parent without one sets it first
+  const handleStartKidMode = async (childId: string) => {
+    try {
+      if (await hasParentPin()) {
+        startKidMode(childId);
+      } else {
+        setPinSetupChildId(childId);
+      }
+    } catch (err) {
+      console.error('🔴 Failed to start kid mode:', err);
+    }
+  };
 
   const handleLogout = async () => {
     try {
@@ -40,19 +206,97 @@ const ParentDashboard: React.FC = () => {
   };
 
   const formatDate = (dateString: string | null) => {
-    if (!dateString) return 'Unknown';
-    return new Date(dateString).toLocaleDateString();
+    if (!dateString) return t('common.unknown');
+    return formatLocaleDate(dateString);
   };
 
-  const getAgeDisplay = (age: number) => {
-    if (age === 1) return '1 year old';
-    return `${age} years old`;
-  };
+  const getAgeDisplay = (age: number) => t('dashboard.age', { count: age });
 
   const selectedChild = children.find(child => child.profile_id === selectedChildId);
 
+  const openChildView = (childId: string, view: ChildView) => {
+    navigate({ name: 'child', childId, view, itemId: null });
+    trackEvent('child_view_opened', { view });
+  };
+
+  const closeChildView = () => {
+    navigate({ name: 'dashboard' });
+  };
+
+  const openChildItem = (view: 'adventures' | 'paths', itemId: string | null) => {
+    if (!selectedChildId) return;
+    navigate({ name: 'child', childId: selectedChildId, view, itemId });
+  };
+
+  const startExercise = (exercise: Exercise) => {
+    if (!selectedChildId) return;
+    pickedExercise.current = exercise;
+    setLockedLink(null);
+    navigate({ name: 'session', childId: selectedChildId, exerciseId: exercise.id });
+  };
+
+  // Returns to the screen the exercise was started from, or the catalog for a shared link
+  const leaveSession = () => {
+    if (!selectedChildId) return;
+    goBack({ name: 'child', childId: selectedChildId, view: 'catalog', itemId: null });
+  };
+
+  if (showCoachMode && profile) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="bg-white shadow-sm border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between h-16">
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => goBack({ name: 'dashboard' })}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors mr-2"
+                  style={{ minHeight: '44px' }}
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span className="hidden sm:inline">{t('dashboard.backToDashboard')}</span>
+                </button>
+                <div className="h-8 w-8 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
+                  <Baby className="h-4 w-4 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-lg font-semibold text-gray-900">KidsFit</h1>
+                  <p className="text-xs text-gray-500">{t('dashboard.coachMode')}</p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <div className="hidden sm:block text-right">
+                  <p className="text-sm font-medium text-gray-900">{profile.display_name}</p>
+                  <p className="text-xs text-gray-500">{t('dashboard.coach')}</p>
+                </div>
+                <button
+                  onClick={handleLogout}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <LogOut className="w-4 h-4" />
+                  <span className="hidden sm:inline">{t('common.signOut')}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <CoachBoard coachProfileId={profile.profile_id} />
+      </div>
+    );
+  }
+
   // If a child is selected, show the exercise catalog or session
   if (selectedChildId && selectedChild) {
+    if (sessionExerciseId && !activeExercise) {
+      return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+        </div>
+      );
+    }
+
     // If an exercise is active, show the exercise session
     if (activeExercise) {
       return (
@@ -63,12 +307,12 @@ const ParentDashboard: React.FC = () => {
               <div className="flex items-center justify-between h-16">
                 <div className="flex items-center gap-3">
                   <button
-                    onClick={() => setActiveExercise(null)}
+                    onClick={leaveSession}
                     className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors mr-2"
                     style={{ minHeight: '44px' }}
                   >
                     <ArrowLeft className="w-4 h-4" />
-                    <span className="hidden sm:inline">Назад к упражнениям</span>
+                    <span className="hidden sm:inline">{t('dashboard.backToExercises')}</span>
                   </button>
                   <div className="h-8 w-8 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
                     <Baby className="h-4 w-4 text-white" />
@@ -76,7 +320,7 @@ const ParentDashboard: React.FC = () => {
                   <div>
                     <h1 className="text-lg font-semibold text-gray-900">KidsFit</h1>
                     <p className="text-xs text-gray-500">
-                      {activeExercise.name_ru || activeExercise.name_en} - {selectedChild.display_name}
+                      {localize({ en: activeExercise.name_en, ru: activeExercise.name_ru })} - {selectedChild.display_name}
                     </p>
                   </div>
                 </div>
@@ -84,14 +328,14 @@ const ParentDashboard: React.FC = () => {
                 <div className="flex items-center gap-4">
                   <div className="hidden sm:block text-right">
                     <p className="text-sm font-medium text-gray-900">{profile?.display_name}</p>
-                    <p className="text-xs text-gray-500">Parent Account</p>
+                    <p className="text-xs text-gray-500">{t('dashboard.parentAccount')}</p>
                   </div>
                   <button
                     onClick={handleLogout}
                     className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
                   >
                     <LogOut className="w-4 h-4" />
-                    <span className="hidden sm:inline">Sign Out</span>
+                    <span className="hidden sm:inline">{t('common.signOut')}</span>
                   </button>
                 </div>
               </div>
@@ -103,18 +347,109 @@ const ParentDashboard: React.FC = () => {
             exercise={activeExercise}
             childProfileId={selectedChildId}
             onComplete={(result) => {
+              // The session shows its own completion screen; leaving it goes through onCancel
               console.log('Exercise completed:', result);
-              setActiveExercise(null);
-              // TODO: Show completion celebration or update progress
-            }}
-            onCancel={() => {
-              setActiveExercise(null);
             }}
+            onCancel={leaveSession}
           />
         </div>
       );
     }
 
+    // Workout flow (builder, then player), trophy room, adventures, paths and analytics share one header
+    if (childView !== 'catalog') {
+      return (
+        <div className="min-h-screen bg-gray-50">
+          {/* Header with back button */}
+          <div className="bg-white shadow-sm border-b border-gray-200">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <div className="flex items-center justify-between h-16">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={closeChildView}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors mr-2"
+                    style={{ minHeight: '44px' }}
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                    <span className="hidden sm:inline">{t('dashboard.backToDashboard')}</span>
+                  </button>
+                  <div className="h-8 w-8 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
+                    <Baby className="h-4 w-4 text-white" />
+                  </div>
+                  <div>
+                    <h1 className="text-lg font-semibold text-gray-900">KidsFit</h1>
+                    <p className="text-xs text-gray-500">
+                      {t(CHILD_VIEW_TITLE_KEYS[childView])} - {selectedChild.display_name}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-4">
+                  <div className="hidden sm:block text-right">
+                    <p className="text-sm font-medium text-gray-900">{profile?.display_name}</p>
+                    <p className="text-xs text-gray-500">{t('dashboard.parentAccount')}</p>
+                  </div>
+                  <button
+                    onClick={handleLogout}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    <span className="hidden sm:inline">{t('common.signOut')}</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {childView === 'adventures' ? (
+            <AdventureMap
+              childProfileId={selectedChildId}
+              childName={selectedChild.display_name}
+              selectedAdventureId={adventureId}
+              onSelectAdventure={id => openChildItem('adventures', id)}
+              onStartExercise={startExercise}
+            />
+          ) : childView === 'paths' ? (
+            <PathPlayer
+              childProfileId={selectedChildId}
+              childName={selectedChild.display_name}
+              selectedPathId={pathId}
+              onSelectPath={id => openChildItem('paths', id)}
+              onStartExercise={startExercise}
+            />
+          ) : childView === 'analytics' ? (
+            <ChildAnalytics
+              childProfileId={selectedChildId}
+              childName={selectedChild.display_name}
+              siblings={children.filter(child => child.profile_id !== selectedChildId)}
+            />
+          ) : childView === 'trophies' ? (
+            <TrophyRoom
+              childProfileId={selectedChildId}
+              childName={selectedChild.display_name}
+            />
+          ) : workoutQueue ? (
+            <WorkoutPlayer
+              exercises={workoutQueue}
+              childProfileId={selectedChildId}
+              childName={selectedChild.display_name}
+              assignmentId={workoutAssignmentId}
+              onExit={closeChildView}
+            />
+          ) : (
+            <WorkoutBuilder
+              childProfileId={selectedChildId}
+              childName={selectedChild.display_name}
+              onStart={(queue, assignmentId) => {
+                setWorkoutAssignmentId(assignmentId ?? null);
+                setWorkoutQueue(queue);
+              }}
+            />
+          )}
+        </div>
+      );
+    }
+
     // Otherwise, show the exercise catalog
     return (
       <div className="min-h-screen bg-gray-50">
@@ -124,12 +459,12 @@ const ParentDashboard: React.FC = () => {
             <div className="flex items-center justify-between h-16">
               <div className="flex items-center gap-3">
                 <button
-                  onClick={() => setSelectedChildId(null)}
+                  onClick={closeChildView}
                   className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors mr-2"
                   style={{ minHeight: '44px' }}
                 >
                   <ArrowLeft className="w-4 h-4" />
-                  <span className="hidden sm:inline">Назад к панели</span>
+                  <span className="hidden sm:inline">{t('dashboard.backToDashboard')}</span>
                 </button>
                 <div className="h-8 w-8 bg-gradient-to-br from-blue-600 to-purple-600 rounded-lg flex items-center justify-center">
                   <Baby className="h-4 w-4 text-white" />
@@ -137,7 +472,7 @@ const ParentDashboard: React.FC = () => {
                 <div>
                   <h1 className="text-lg font-semibold text-gray-900">KidsFit</h1>
                   <p className="text-xs text-gray-500">
-                    Упражнения для {selectedChild.display_name}
+                    {t('dashboard.exercisesFor', { name: selectedChild.display_name })}
                   </p>
                 </div>
               </div>
@@ -145,25 +480,51 @@ const ParentDashboard: React.FC = () => {
               <div className="flex items-center gap-4">
                 <div className="hidden sm:block text-right">
                   <p className="text-sm font-medium text-gray-900">{profile?.display_name}</p>
-                  <p className="text-xs text-gray-500">Parent Account</p>
+                  <p className="text-xs text-gray-500">{t('dashboard.parentAccount')}</p>
                 </div>
                 <button
                   onClick={handleLogout}
                   className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
                 >
                   <LogOut className="w-4 h-4" />
-                  <span className="hidden sm:inline">Sign Out</span>
+                  <span className="hidden sm:inline">{t('common.signOut')}</span>
                 </button>
               </div>
             </div>
           </div>
         </div>
 
+        {lockedLink && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-6">
+            <div className="p-3 rounded-lg border bg-yellow-50 border-yellow-200">
+              <div className="flex items-start gap-2">
+                <Lock className="w-4 h-4 mt-0.5 text-yellow-700 flex-shrink-0" />
+                <div className="flex-1 text-sm text-yellow-800">
+                  <p className="font-medium">
+                    {t('dashboard.exerciseLocked', {
+                      name: localize({ en: lockedLink.exercise.name_en, ru: lockedLink.exercise.name_ru }),
+                    })}
+                  </p>
+                  {lockedLink.unmet.map(prerequisite => (
+                    <p key={prerequisite.prerequisiteExerciseId}>{describePrerequisite(prerequisite, { t, localize })}</p>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setLockedLink(null)}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  {t('dashboard.dismiss')}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Exercise Catalog */}
         <ExerciseCatalog 
           childId={selectedChildId} 
           childProfileId={selectedChildId} 
-          onStartExercise={setActiveExercise}
+          onStartExercise={startExercise}
         />
       </div>
     );
@@ -181,21 +542,31 @@ const ParentDashboard: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-lg font-semibold text-gray-900">KidsFit</h1>
-                <p className="text-xs text-gray-500">Parent Dashboard</p>
+                <p className="text-xs text-gray-500">{t('dashboard.title')}</p>
               </div>
             </div>
             
             <div className="flex items-center gap-4">
+              <SyncStatusIndicator />
+              <LanguageSwitcher />
               <div className="hidden sm:block text-right">
                 <p className="text-sm font-medium text-gray-900">{profile?.display_name}</p>
-                <p className="text-xs text-gray-500">Parent Account</p>
+                <p className="text-xs text-gray-500">{t('dashboard.parentAccount')}</p>
               </div>
+              <button
+                onClick={() => navigate({ name: 'settings' })}
+                className="p-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title={t('settings.open')}
+                aria-label={t('settings.open')}
+              >
+                <Settings className="w-4 h-4" />
+              </button>
               <button
                 onClick={handleLogout}
                 className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
               >
                 <LogOut className="w-4 h-4" />
-                <span className="hidden sm:inline">Sign Out</span>
+                <span className="hidden sm:inline">{t('common.signOut')}</span>
               </button>
             </div>
           </div>
@@ -206,13 +577,32 @@ const ParentDashboard: React.FC = () => {
         {/* Welcome Section */}
         <div className="mb-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-2">
-            Welcome back, {profile?.display_name}!
+            {t('dashboard.welcome', { name: profile?.display_name ?? '' })}
           </h2>
           <p className="text-gray-600">
-            Manage your children's fitness journey with complete oversight and control.
+            {t('dashboard.welcomeSubtitle')}
           </p>
         </div>
 
+        {inviteNotice && (
+          <div className={`mb-6 p-3 rounded-lg border ${inviteNotice.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            <div className="flex items-center gap-2">
+              {inviteNotice.success
+                ? <CheckCircle className="w-4 h-4 text-green-600" />
+                : <AlertCircle className="w-4 h-4 text-red-600" />}
+              <span className={`flex-1 text-sm ${inviteNotice.success ? 'text-green-800' : 'text-red-800'}`}>
+                {inviteNotice.message}
+              </span>
+              <button
+                onClick={() => setInviteNotice(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                {t('dashboard.dismiss')}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Children Management Section */}
         <div className="grid lg:grid-cols-3 gap-6 mb-8">
           <div className="lg:col-span-2">
@@ -221,14 +611,14 @@ const ParentDashboard: React.FC = () => {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <Users className="w-5 h-5 text-blue-600" />
-                    <h3 className="text-lg font-semibold text-gray-900">My Children</h3>
+                    <h3 className="text-lg font-semibold text-gray-900">{t('dashboard.myChildren')}</h3>
                   </div>
                   <button
                     onClick={() => setShowAddChild(true)}
                     className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
                   >
                     <Plus className="w-4 h-4" />
-                    Add Child
+                    {t('dashboard.addChild')}
                   </button>
                 </div>
               </div>
@@ -237,16 +627,16 @@ const ParentDashboard: React.FC = () => {
                 {children.length === 0 ? (
                   <div className="text-center py-8">
                     <Baby className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                    <h4 className="text-lg font-medium text-gray-900 mb-2">No children added yet</h4>
+                    <h4 className="text-lg font-medium text-gray-900 mb-2">{t('dashboard.noChildren')}</h4>
                     <p className="text-gray-600 mb-4">
-                      Get started by adding your first child to begin their fitness journey.
+                      {t('dashboard.noChildrenHint')}
                     </p>
                     <button
                       onClick={() => setShowAddChild(true)}
                       className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                     >
                       <UserPlus className="w-4 h-4" />
-                      Add Your First Child
+                      {t('dashboard.addFirstChild')}
                     </button>
                   </div>
                 ) : (
@@ -258,39 +648,193 @@ const ParentDashboard: React.FC = () => {
                             <Baby className="w-5 h-5 text-white" />
                           </div>
                           <div className="flex-1">
-                            <h4 className="font-semibold text-gray-900 mb-1">{child.display_name}</h4>
+                            <div className="flex items-start justify-between gap-2">
+                              <h4 className="font-semibold text-gray-900 mb-1">{child.display_name}</h4>
+                              <div className="flex items-center">
+                                {child.access_level === 'full' && child.relationship_type !== 'coach' && (
+                                  <button
+                                    onClick={() => setGuardiansChild({ profile_id: child.profile_id, display_name: child.display_name })}
+                                    className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-white hover:bg-opacity-60 rounded-md transition-colors"
+                                    title={t('dashboard.guardians')}
+                                    aria-label={t('dashboard.guardiansFor', { name: child.display_name })}
+                                  >
+                                    <Users className="w-4 h-4" />
+                                  </button>
+                                )}
+                                {child.access_level === 'full' && child.relationship_type !== 'coach' && (
+                                  <button
+                                    onClick={() => setLoginChild({ profile_id: child.profile_id, display_name: child.display_name })}
+                                    className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-white hover:bg-opacity-60 rounded-md transition-colors"
+                                    title={t('dashboard.childSignIn')}
+                                    aria-label={t('dashboard.childSignInFor', { name: child.display_name })}
+                                  >
+                                    <KeyRound className="w-4 h-4" />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => setExportChild({ profile_id: child.profile_id, display_name: child.display_name })}
+                                  className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-white hover:bg-opacity-60 rounded-md transition-colors"
+                                  title={t('dashboard.export')}
+                                  aria-label={t('dashboard.exportFor', { name: child.display_name })}
+                                >
+                                  <Download className="w-4 h-4" />
+                                </button>
+                                {child.access_level === 'full' && child.relationship_type !== 'coach' && (
+                                  <button
+                                    onClick={() => setDataChild({ profile_id: child.profile_id, display_name: child.display_name, canDelete: child.invited_by === null })}
+                                    className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-white hover:bg-opacity-60 rounded-md transition-colors"
+                                    title={t('dashboard.childData')}
+                                    aria-label={t('dashboard.childDataFor', { name: child.display_name })}
+                                  >
+                                    <Shield className="w-4 h-4" />
+                                  </button>
+                                )}
+                                {child.access_level === 'full' && (
+                                  <button
+                                    onClick={() => setEditChild({ profile_id: child.profile_id, display_name: child.display_name, date_of_birth: child.date_of_birth })}
+                                    className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-white hover:bg-opacity-60 rounded-md transition-colors"
+                                    title={t('dashboard.edit')}
+                                    aria-label={t('dashboard.editFor', { name: child.display_name })}
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                  </button>
+                                )}
+                              </div>
+                            </div>
                             <p className="text-sm text-gray-600 mb-2">{getAgeDisplay(child.age)}</p>
+                            {(child.relationship_type !== 'parent' || child.access_level === 'read_only') && (
+                              <p className="flex items-center gap-1 text-xs text-gray-500 mb-2">
+                                {child.access_level === 'read_only' && <Eye className="w-3 h-3" />}
+                                {t('dashboard.youAre', { relationship: t(RELATIONSHIP_LABEL_KEYS[child.relationship_type]).toLowerCase() })}
+                                {child.access_level === 'read_only' ? t('dashboard.viewOnly') : ''}
+                              </p>
+                            )}
                             
                             <div className="flex items-center gap-4 text-xs text-gray-500">
                               <div className="flex items-center gap-1">
                                 <Calendar className="w-3 h-3" />
-                                {child.date_of_birth ? formatDate(child.date_of_birth) : 'No DOB'}
+                                {child.date_of_birth ? formatDate(child.date_of_birth) : t('dashboard.noDob')}
                               </div>
                               {child.parent_consent_given && (
                                 <div className="flex items-center gap-1 text-green-600">
                                   <Settings className="w-3 h-3" />
-                                  COPPA Consent
+                                  {t('dashboard.coppaConsent')}
                                 </div>
                               )}
                             </div>
+
+                            <div className="mt-2">
+                              <StreakBadge childProfileId={child.profile_id} />
+                            </div>
                           </div>
                         </div>
+
+                        <div className="mt-3">
+                          <GoalRings childProfileId={child.profile_id} childName={child.display_name} />
+                        </div>
                         
                         <div className="mt-4 flex gap-2">
-                          <button className="flex-1 px-3 py-2 bg-white bg-opacity-60 text-gray-700 rounded-md hover:bg-opacity-80 transition-colors text-sm font-medium">
-                            View Progress
+                          <button
+                            onClick={() => openChildView(child.profile_id, 'trophies')}
+                            className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-white bg-opacity-60 text-gray-700 rounded-md hover:bg-opacity-80 transition-colors text-sm font-medium"
+                          >
+                            <Trophy className="w-4 h-4 text-yellow-600" />
+                            {t('dashboard.trophies')}
                           </button>
-                          <button 
-                            onClick={() => setSelectedChildId(child.profile_id)}
-                            className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+                          {child.access_level === 'full' && (
+                            <button
+                              onClick={() => openChildView(child.profile_id, 'catalog')}
+                              className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm font-medium"
+                            >
+                              {t('dashboard.startExercise')}
+                            </button>
+                          )}
+                        </div>
+                        {/* Read-only guardians and coaches can look but not record */}
+                        {child.access_level === 'full' && (
+                          <div className="mt-2 flex gap-2">
+                            <button
+                              onClick={() => openChildView(child.profile_id, 'workout')}
+                              className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors text-sm font-medium"
+                            >
+                              <Dumbbell className="w-4 h-4" />
+                              {t('dashboard.startWorkout')}
+                            </button>
+                            <button
+                              onClick={() => openChildView(child.profile_id, 'adventures')}
+                              className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors text-sm font-medium"
+                            >
+                              <MapIcon className="w-4 h-4" />
+                              {t('dashboard.adventures')}
+                            </button>
+                          </div>
+                        )}
+                        <div className="mt-2 flex gap-2">
+                          {child.access_level === 'full' && (
+                            <button
+                              onClick={() => openChildView(child.profile_id, 'paths')}
+                              className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 transition-colors text-sm font-medium"
+                            >
+                              <Route className="w-4 h-4" />
+                              {t('dashboard.paths')}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => openChildView(child.profile_id, 'analytics')}
+                            className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-white bg-opacity-60 text-gray-700 rounded-md hover:bg-opacity-80 transition-colors text-sm font-medium"
                           >
-                            Start Exercise
+                            <BarChart3 className="w-4 h-4 text-blue-600" />
+                            {t('dashboard.analytics')}
                           </button>
                         </div>
+                        {child.access_level === 'full' && (
+                          <button
+                            onClick={() => handleStartKidMode(child.profile_id)}
+                            className="mt-2 w-full flex items-center justify-center gap-1 px-3 py-2 bg-gradient-to-r from-pink-500 to-orange-400 text-white rounded-md hover:opacity-90 transition-opacity text-sm font-medium"
+                          >
+                            <Smile className="w-4 h-4" />
+                            {t('dashboard.kidMode')}
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
                 )}
+
+                {archivedChildren.length > 0 && (
+                  <div className="mt-6 pt-4 border-t border-gray-200">
+                    <button
+                      onClick={() => setShowArchived(prev => !prev)}
+                      className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                    >
+                      {t(showArchived ? 'dashboard.hideArchived' : 'dashboard.showArchived', { count: archivedChildren.length })}
+                    </button>
+                    {showArchived && (
+                      <div className="mt-3 space-y-2">
+                        {archivedChildren.map(child => (
+                          <div key={child.profile_id} className="flex items-center justify-between p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                            <div>
+                              <p className="font-medium text-gray-700">{child.display_name}</p>
+                              <p className="text-xs text-gray-500">
+                                {t('dashboard.archivedOn', { date: child.archived_at ? formatDate(child.archived_at) : '' })}
+                              </p>
+                            </div>
+                            {child.access_level === 'full' && (
+                              <button
+                                onClick={() => handleRestore(child.profile_id)}
+                                disabled={restoringId === child.profile_id}
+                                className="flex items-center gap-1 px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-50 transition-colors text-sm font-medium"
+                              >
+                                <ArchiveRestore className="w-4 h-4" />
+                                {restoringId === child.profile_id ? t('dashboard.restoring') : t('dashboard.restore')}
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -300,33 +844,38 @@ const ParentDashboard: React.FC = () => {
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <div className="flex items-center gap-3 mb-4">
                 <Activity className="w-5 h-5 text-green-600" />
-                <h3 className="font-semibold text-gray-900">Family Stats</h3>
+                <h3 className="font-semibold text-gray-900">{t('dashboard.familyStats')}</h3>
               </div>
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Total Children</span>
+                  <span className="text-sm text-gray-600">{t('dashboard.totalChildren')}</span>
                   <span className="font-semibold text-gray-900">{children.length}</span>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Active Today</span>
+                  <span className="text-sm text-gray-600">{t('dashboard.activeToday')}</span>
                   <span className="font-semibold text-green-600">0</span>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">This Week</span>
-                  <span className="font-semibold text-blue-600">0 exercises</span>
+                  <span className="text-sm text-gray-600">{t('dashboard.thisWeek')}</span>
+                  <span className="font-semibold text-blue-600">{t('dashboard.exerciseCount', { count: 0 })}</span>
                 </div>
               </div>
             </div>
 
+            <TeamsCard
+              childProfiles={children.filter(child => child.access_level === 'full' && child.relationship_type !== 'coach')}
+              onOpenCoachMode={() => navigate({ name: 'coach' })}
+            />
+
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <div className="flex items-center gap-3 mb-4">
                 <Trophy className="w-5 h-5 text-yellow-600" />
-                <h3 className="font-semibold text-gray-900">Recent Achievements</h3>
+                <h3 className="font-semibold text-gray-900">{t('dashboard.recentAchievements')}</h3>
               </div>
               <div className="text-center py-4">
                 <Star className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                <p className="text-sm text-gray-600">No achievements yet</p>
-                <p className="text-xs text-gray-500">Achievements will appear here as your children complete exercises</p>
+                <p className="text-sm text-gray-600">{t('dashboard.noAchievements')}</p>
+                <p className="text-xs text-gray-500">{t('dashboard.noAchievementsHint')}</p>
               </div>
             </div>
           </div>
@@ -337,32 +886,44 @@ const ParentDashboard: React.FC = () => {
           <div className="flex items-start gap-3">
             <Settings className="w-6 h-6 text-blue-600 mt-0.5 flex-shrink-0" />
             <div>
-              <h3 className="font-semibold text-blue-900 mb-2">COPPA Compliance & Privacy</h3>
+              <h3 className="font-semibold text-blue-900 mb-2">{t('dashboard.privacy.title')}</h3>
               <div className="grid md:grid-cols-2 gap-4 text-sm text-blue-800">
                 <div>
-                  <h4 className="font-medium mb-1">✅ What We Track</h4>
+                  <h4 className="font-medium mb-1">{t('dashboard.privacy.tracked')}</h4>
                   <ul className="space-y-1">
-                    <li>• Exercise completion and duration</li>
-                    <li>• Fun ratings (1-5 stars)</li>
-                    <li>• Adventure points and progress</li>
-                    <li>• Consistency and streak tracking</li>
+                    {(['dashboard.privacy.tracked1', 'dashboard.privacy.tracked2', 'dashboard.privacy.tracked3', 'dashboard.privacy.tracked4'] as const).map(key => (
+                      <li key={key}>• {t(key)}</li>
+                    ))}
                   </ul>
                 </div>
                 <div>
-                  <h4 className="font-medium mb-1">❌ What We Don't Track</h4>
+                  <h4 className="font-medium mb-1">{t('dashboard.privacy.notTracked')}</h4>
                   <ul className="space-y-1">
-                    <li>• Calories burned or health metrics</li>
-                    <li>• Body measurements or weight</li>
-                    <li>• Location data or personal info</li>
-                    <li>• Performance comparisons with others</li>
+                    {(['dashboard.privacy.notTracked1', 'dashboard.privacy.notTracked2', 'dashboard.privacy.notTracked3', 'dashboard.privacy.notTracked4'] as const).map(key => (
+                      <li key={key}>• {t(key)}</li>
+                    ))}
                   </ul>
                 </div>
               </div>
               <p className="mt-3 text-sm text-blue-700">
-                You have complete control over your children's data. You can view, modify, or delete 
-                any information at any time. All children's accounts require your explicit consent 
-                and are managed entirely through your parent account.
+                {t('dashboard.privacy.control')}
               </p>
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button
+                  onClick={() => setShowConsent(true)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium"
+                >
+                  <Shield className="w-4 h-4" />
+                  {t('dashboard.manageConsent')}
+                </button>
+                <button
+                  onClick={() => setShowAuditLog(true)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium"
+                >
+                  <ScrollText className="w-4 h-4" />
+                  {t('dashboard.activityLog')}
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -375,6 +936,66 @@ const ParentDashboard: React.FC = () => {
           onSuccess={() => setShowAddChild(false)}
         />
       )}
+
+      {exportChild && (
+        <ExportActivityModal
+          childProfileId={exportChild.profile_id}
+          childName={exportChild.display_name}
+          onClose={() => setExportChild(null)}
+        />
+      )}
+
+      {dataChild && (
+        <ChildDataModal
+          childProfileId={dataChild.profile_id}
+          childName={dataChild.display_name}
+          canDelete={dataChild.canDelete}
+          onClose={() => setDataChild(null)}
+        />
+      )}
+
+      {showConsent && (
+        <ConsentManagerModal
+          onClose={() => setShowConsent(false)}
+          onManageData={(child) => {
+            setShowConsent(false);
+            // The consent overview only lists children the signed-in parent added
+            setDataChild({ ...child, canDelete: true });
+          }}
+        />
+      )}
+
+      {showAuditLog && <AuditLogModal onClose={() => setShowAuditLog(false)} />}
+
+      {showSettings && <AccountSettingsModal onClose={() => goBack({ name: 'dashboard' })} />}
+
+      {editChild && <EditChildModal child={editChild} onClose={() => setEditChild(null)} />}
+
+      {pinSetupChildId && (
+        <ParentPinModal
+          onClose={() => setPinSetupChildId(null)}
+          onSaved={() => {
+            startKidMode(pinSetupChildId);
+            setPinSetupChildId(null);
+          }}
+        />
+      )}
+
+      {loginChild && (
+        <ChildLoginModal
+          childProfileId={loginChild.profile_id}
+          childName={loginChild.display_name}
+          onClose={() => setLoginChild(null)}
+        />
+      )}
+
+      {guardiansChild && (
+        <GuardiansModal
+          childProfileId={guardiansChild.profile_id}
+          childName={guardiansChild.display_name}
+          onClose={() => setGuardiansChild(null)}
+        />
+      )}
     </div>
   );
 };
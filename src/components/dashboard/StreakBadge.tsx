@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { Flame, Snowflake } from 'lucide-react';
+import { fetchStreak, type StreakSummary } from '../../lib/streaks';
+import { useI18n } from '../../lib/i18n';
+
+interface StreakBadgeProps {
+  childProfileId: string;
+}
+
+const StreakBadge: React.FC<StreakBadgeProps> = ({ childProfileId }) => {
+  const { t } = useI18n();
+  const [streak, setStreak] = useState<StreakSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStreak(childProfileId)
+      .then(summary => {
+        if (!cancelled) setStreak(summary);
+      })
+      .catch(err => console.warn('⚠️ Streak unavailable:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childProfileId]);
+
+  if (!streak) return null;
+
+  const active = streak.current_streak_days > 0;
+
+  return (
+    <div className="flex items-center gap-3 text-xs">
+      <span
+        className={`flex items-center gap-1 px-2 py-1 rounded-full font-medium ${
+          active ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-500'
+        }`}
+        title={active && !streak.exercised_today ? t('streak.keepGoing') : undefined}
+      >
+        <Flame className={`w-3 h-3 ${active ? 'text-orange-500' : 'text-gray-400'}`} />
+        {t('streak.days', { count: streak.current_streak_days })}
+      </span>
+      <span className="text-gray-600">{t('streak.best', { count: streak.longest_streak_days })}</span>
+      {streak.streak_freezes_available > 0 && (
+        <span className="flex items-center gap-1 text-blue-600" title={t('streak.freezes')}>
+          <Snowflake className="w-3 h-3" />
+          {streak.streak_freezes_available}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default StreakBadge;
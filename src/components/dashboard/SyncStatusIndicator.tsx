@@ -0,0 +1,34 @@
+import React, { useState, useEffect } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { subscribeToSyncStatus, syncOfflineQueue, type SyncStatus } from '../../lib/offlineQueue';
+import { useI18n } from '../../lib/i18n';
+
+const SyncStatusIndicator: React.FC = () => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<SyncStatus>({ pending: 0, syncing: false, lastError: null });
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  if (status.pending === 0) return null;
+
+  return (
+    <button
+      onClick={() => syncOfflineQueue()}
+      disabled={status.syncing}
+      title={status.lastError ? t('sync.lastError', { error: status.lastError }) : t('sync.offline')}
+      className="flex items-center gap-2 px-3 py-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 disabled:opacity-70 transition-colors"
+    >
+      {status.syncing ? (
+        <RefreshCw className="w-4 h-4 animate-spin" />
+      ) : (
+        <CloudOff className="w-4 h-4" />
+      )}
+      <span className="hidden sm:inline">
+        {status.syncing ? t('sync.syncing') : t('sync.pending', { count: status.pending })}
+      </span>
+      <span className="sm:hidden">{status.pending}</span>
+    </button>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, LogOut, AlertCircle, ClipboardList } from 'lucide-react';
+import { fetchChildTeams, joinTeam, leaveTeam, type ChildTeamMembership } from '../../lib/teams';
+import { useI18n } from '../../lib/i18n';
+
+interface TeamsCardProps {
+  // Children whose parent or guardian can approve a team; read-only links cannot
+  childProfiles: Array<{ profile_id: string; display_name: string }>;
+  onOpenCoachMode: () => void;
+}
+
+const TeamsCard: React.FC<TeamsCardProps> = ({ childProfiles, onOpenCoachMode }) => {
+  const { t } = useI18n();
+  const [memberships, setMemberships] = useState<ChildTeamMembership[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [childId, setChildId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const childIds = childProfiles.map(child => child.profile_id).join(',');
+
+  const loadMemberships = useCallback(async () => {
+    try {
+      setMemberships(await fetchChildTeams(childIds ? childIds.split(',') : []));
+    } catch (err) {
+      console.error('Error loading teams:', err);
+    }
+  }, [childIds]);
+
+  useEffect(() => {
+    loadMemberships();
+  }, [loadMemberships]);
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const selectedChildId = childId || childProfiles[0]?.profile_id;
+    if (!joinCode.trim() || !selectedChildId) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      await joinTeam(joinCode, selectedChildId);
+      setJoinCode('');
+      await loadMemberships();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('teams.joinFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLeave = async (membership: ChildTeamMembership) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await leaveTeam(membership.team_id, membership.child_id);
+      await loadMemberships();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('teams.leaveFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const childName = (id: string) => childProfiles.find(child => child.profile_id === id)?.display_name ?? '';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Users className="w-5 h-5 text-orange-500" />
+        <h3 className="font-semibold text-gray-900">{t('teams.title')}</h3>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+            <span className="text-xs text-red-800">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {memberships.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {memberships.map(membership => (
+            <li key={`${membership.team_id}-${membership.child_id}`} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">
+                <span className="font-medium">{childName(membership.child_id)}</span> · {membership.team?.name}
+              </span>
+              <button
+                onClick={() => handleLeave(membership)}
+                disabled={busy}
+                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50 transition-colors"
+                title={t('teams.leave')}
+                aria-label={t('teams.leaveLabel', { child: childName(membership.child_id), team: membership.team?.name ?? t('teams.team') })}
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {childProfiles.length > 0 && (
+        <form onSubmit={handleJoin} className="space-y-2 mb-4">
+          <p className="text-xs text-gray-500">
+            {t('teams.joinHint')}
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder={t('teams.code')}
+              maxLength={8}
+              className="w-24 px-2 py-1.5 border border-gray-300 rounded-md text-sm font-mono uppercase"
+            />
+            {childProfiles.length > 1 && (
+              <select
+                value={childId || childProfiles[0].profile_id}
+                onChange={(e) => setChildId(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm bg-white"
+                aria-label={t('teams.child')}
+              >
+                {childProfiles.map(child => (
+                  <option key={child.profile_id} value={child.profile_id}>{child.display_name}</option>
+                ))}
+              </select>
+            )}
+            <button
+              type="submit"
+              disabled={busy || !joinCode.trim()}
+              className="px-3 py-1.5 bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:bg-gray-400 transition-colors text-sm font-medium"
+            >
+              {t('teams.join')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <button
+        onClick={onOpenCoachMode}
+        className="w-full flex items-center justify-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium"
+      >
+        <ClipboardList className="w-4 h-4" />
+        {t('dashboard.coachMode')}
+      </button>
+    </div>
+  );
+};
+
+export default TeamsCard;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Dumbbell, MapIcon, Trophy, Lock, Baby, LogOut } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useKidMode } from '../../lib/kidMode';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+import { syncOfflineQueue } from '../../lib/offlineQueue';
+import { fetchEarnedRewards } from '../../lib/rewards';
+import type { Exercise } from '../../types/Exercise';
+import PinPad from './PinPad';
+import StreakBadge from '../dashboard/StreakBadge';
+import SimpleExerciseSession from '../SimpleExerciseSession';
+import WorkoutBuilder from '../workout/WorkoutBuilder';
+import WorkoutPlayer from '../workout/WorkoutPlayer';
+import TrophyRoom from '../rewards/TrophyRoom';
+import AdventureMap from '../adventures/AdventureMap';
+
+type KidView = 'home' | 'adventures' | 'workout' | 'trophies';
+
+const KID_VIEWS: Array<{ id: Exclude<KidView, 'home'>; titleKey: MessageKey; icon: React.ElementType; color: string }> = [
+  { id: 'adventures', titleKey: 'kid.adventures', icon: MapIcon, color: 'from-purple-500 to-pink-500' },
+  { id: 'workout', titleKey: 'kid.workout', icon: Dumbbell, color: 'from-green-500 to-teal-500' },
+  { id: 'trophies', titleKey: 'kid.trophies', icon: Trophy, color: 'from-yellow-400 to-orange-500' },
+];
+
+interface KidModeProps {
+  childProfileId: string;
+  // Given when the child signed in themselves; otherwise looked up in the parent's children
+  childName?: string;
+  // A child's own session signs out instead of asking for the parent's PIN
+  signedInAsChild?: boolean;
+}
+
+// The child's own screen: big buttons and no parent controls
+const KidMode: React.FC<KidModeProps> = ({ childProfileId, childName, signedInAsChild = false }) => {
+  const { children, signOut } = useAuth();
+  const { exitKidMode } = useKidMode();
+  const { t } = useI18n();
+  const [view, setView] = useState<KidView>('home');
+  const [activeExercise, setActiveExercise] = useState<Exercise | null>(null);
+  const [workoutQueue, setWorkoutQueue] = useState<Exercise[] | null>(null);
+  const [workoutAssignmentId, setWorkoutAssignmentId] = useState<string | null>(null);
+  const [adventureId, setAdventureId] = useState<string | null>(null);
+  const [showPinPad, setShowPinPad] = useState(false);
+  // Trophies the child has not opened yet, shown on the trophies button
+  const [newTrophies, setNewTrophies] = useState(0);
+  const [rewardsVersion, setRewardsVersion] = useState(0);
+
+  const child = childName
+    ? { profile_id: childProfileId, display_name: childName }
+    : children.find(entry => entry.profile_id === childProfileId);
+
+  // Same offline replay as the parent dashboard, since kid mode replaces it
+  useEffect(() => {
+    const handleOnline = () => {
+      syncOfflineQueue();
+    };
+
+    syncOfflineQueue();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  useEffect(() => {
+    fetchEarnedRewards(childProfileId)
+      .then(earned => setNewTrophies(earned.filter(entry => entry.is_new).length))
+      .catch(err => console.warn('⚠️ Failed to load trophies:', err));
+  }, [childProfileId, rewardsVersion]);
+
+  const goHome = () => {
+    setRewardsVersion(prev => prev + 1);
+    setView('home');
+    setActiveExercise(null);
+    setWorkoutQueue(null);
+    setWorkoutAssignmentId(null);
+    setAdventureId(null);
+  };
+
+  const pinPad = showPinPad && (
+    <PinPad onSubmit={exitKidMode} onClose={() => setShowPinPad(false)} />
+  );
+
+  const header = (
+    <div className="bg-white shadow-sm border-b border-gray-200">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-20">
+          <div className="flex items-center gap-3">
+            {view !== 'home' || activeExercise ? (
+              <button
+                onClick={() => (activeExercise ? setActiveExercise(null) : goHome())}
+                className="flex items-center gap-2 px-4 py-3 text-lg font-medium text-gray-800 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors"
+                style={{ minHeight: '56px' }}
+              >
+                <ArrowLeft className="w-6 h-6" />
+                {t('common.back')}
+              </button>
+            ) : (
+              <div className="h-12 w-12 bg-gradient-to-br from-blue-600 to-purple-600 rounded-xl flex items-center justify-center">
+                <Baby className="h-6 w-6 text-white" />
+              </div>
+            )}
+            <h1 className="text-xl font-bold text-gray-900">
+              {child ? t('kid.greeting', { name: child.display_name }) : 'KidsFit'}
+            </h1>
+          </div>
+
+          {signedInAsChild ? (
+            <button
+              onClick={() => signOut().catch(err => console.error('Logout error:', err))}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              <LogOut className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('kid.signOut')}</span>
+            </button>
+          ) : (
+            <button
+              onClick={() => setShowPinPad(true)}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              style={{ minHeight: '44px' }}
+              title={t('kid.pinRequired')}
+            >
+              <Lock className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('kid.forParents')}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  // The child was archived or unlinked while kid mode was on; only the exit is left
+  if (!child) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        {header}
+        <div className="max-w-md mx-auto p-8 text-center">
+          <p className="text-gray-600 mb-6">{t('kid.askGrownUp')}</p>
+          <button
+            onClick={() => setShowPinPad(true)}
+            className="px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors font-medium"
+          >
+            {t('kid.forParents')}
+          </button>
+        </div>
+        {pinPad}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {header}
+
+      {activeExercise ? (
+        <SimpleExerciseSession
+          exercise={activeExercise}
+          childProfileId={childProfileId}
+          onComplete={(result) => {
+            if (result.newRewards.length > 0) {
+              setNewTrophies(prev => prev + result.newRewards.length);
+            }
+          }}
+          onCancel={() => setActiveExercise(null)}
+        />
+      ) : view === 'adventures' ? (
+        <AdventureMap
+          childProfileId={childProfileId}
+          childName={child.display_name}
+          selectedAdventureId={adventureId}
+          onSelectAdventure={setAdventureId}
+          onStartExercise={setActiveExercise}
+        />
+      ) : view === 'trophies' ? (
+        <TrophyRoom childProfileId={childProfileId} childName={child.display_name} />
+      ) : view === 'workout' ? (
+        workoutQueue ? (
+          <WorkoutPlayer
+            exercises={workoutQueue}
+            childProfileId={childProfileId}
+            childName={child.display_name}
+            assignmentId={workoutAssignmentId}
+            onExit={goHome}
+          />
+        ) : (
+          <WorkoutBuilder
+            childProfileId={childProfileId}
+            childName={child.display_name}
+            onStart={(queue, assignmentId) => {
+              setWorkoutAssignmentId(assignmentId ?? null);
+              setWorkoutQueue(queue);
+            }}
+          />
+        )
+      ) : (
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex justify-center mb-8">
+            <StreakBadge childProfileId={childProfileId} />
+          </div>
+          <div className="grid sm:grid-cols-3 gap-6">
+            {KID_VIEWS.map(({ id, titleKey, icon: Icon, color }) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={`relative flex flex-col items-center justify-center gap-4 h-48 rounded-3xl bg-gradient-to-br ${color} text-white shadow-lg hover:scale-105 active:scale-95 transition-transform`}
+              >
+                {id === 'trophies' && newTrophies > 0 && (
+                  <span className="absolute top-4 right-4 px-3 py-1 rounded-full bg-white text-orange-600 text-sm font-bold shadow">
+                    {t('kid.newTrophies', { count: newTrophies })}
+                  </span>
+                )}
+                <Icon className="w-16 h-16" />
+                <span className="text-2xl font-bold">{t(titleKey)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pinPad}
+    </div>
+  );
+};
+
+export default KidMode;
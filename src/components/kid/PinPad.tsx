@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X, Lock, Delete, AlertCircle, Loader2 } from 'lucide-react';
+import { useI18n } from '../../lib/i18n';
+
+interface PinPadProps {
+  // Resolves false for a wrong PIN; a thrown error is shown as is
+  onSubmit: (pin: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const MAX_PIN_LENGTH = 6;
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const PinPad: React.FC<PinPadProps> = ({ onSubmit, onClose }) => {
+  const { t } = useI18n();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const press = (digit: string) => {
+    setError(null);
+    setPin(prev => (prev.length < MAX_PIN_LENGTH ? prev + digit : prev));
+  };
+
+  const handleSubmit = async () => {
+    if (pin.length < 4) return;
+
+    try {
+      setChecking(true);
+      setError(null);
+      const valid = await onSubmit(pin);
+      if (!valid) {
+        setError(t('pin.wrong'));
+        setPin('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('pin.checkFailed'));
+      setPin('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const keyClass = 'h-14 rounded-xl bg-gray-100 text-xl font-semibold text-gray-900 hover:bg-gray-200 disabled:opacity-50 transition-colors';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-xs w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Lock className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('pin.title')}</h2>
+              <p className="text-sm text-gray-600">{t('pin.enterToLeave')}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label={t('common.close')}
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="flex justify-center gap-2 mb-4" aria-live="polite">
+            {Array.from({ length: Math.max(4, pin.length) }, (_, index) => (
+              <span
+                key={index}
+                className={`w-3 h-3 rounded-full ${index < pin.length ? 'bg-blue-600' : 'bg-gray-300'}`}
+              />
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <span className="text-sm text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            {KEYS.map(key => (
+              <button key={key} onClick={() => press(key)} disabled={checking} className={keyClass}>
+                {key}
+              </button>
+            ))}
+            <button
+              onClick={() => setPin(prev => prev.slice(0, -1))}
+              disabled={checking || pin.length === 0}
+              className={`${keyClass} flex items-center justify-center`}
+              aria-label={t('pin.deleteDigit')}
+            >
+              <Delete className="w-5 h-5" />
+            </button>
+            <button onClick={() => press('0')} disabled={checking} className={keyClass}>
+              0
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={checking || pin.length < 4}
+              className="h-14 rounded-xl bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center"
+            >
+              {checking ? <Loader2 className="w-5 h-5 animate-spin" /> : 'OK'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PinPad;
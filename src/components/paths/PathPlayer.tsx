@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, ArrowLeft, Check, Lock, Play, Star, Trophy, Calendar } from 'lucide-react';
+import type { Exercise } from '../../types/Exercise';
+import { describeUnlockRequirement } from '../../lib/adventures';
+import { useI18n, type MessageKey } from '../../lib/i18n';
+import {
+  fetchChildPaths,
+  fetchPathWeeks,
+  startPath,
+  type PathWithProgress,
+  type PathWeek,
+  type PathStatus,
+} from '../../lib/paths';
+import { fetchExerciseLocks, describePrerequisite, type ExerciseLocks } from '../../lib/prerequisites';
+
+interface PathPlayerProps {
+  childProfileId: string;
+  childName: string;
+  // Kept by the parent so returning from an exercise reopens the same path
+  selectedPathId: string | null;
+  onSelectPath: (pathId: string | null) => void;
+  onStartExercise: (exercise: Exercise) => void;
+}
+
+const STATUS_LABEL_KEYS: Record<PathStatus, MessageKey> = {
+  locked: 'path.status.locked',
+  available: 'path.status.available',
+  in_progress: 'path.status.in_progress',
+  completed: 'path.status.completed',
+};
+
+const PathPlayer: React.FC<PathPlayerProps> = ({
+  childProfileId,
+  childName,
+  selectedPathId: selectedId,
+  onSelectPath: setSelectedId,
+  onStartExercise
+}) => {
+  const { t, localize } = useI18n();
+  const [paths, setPaths] = useState<PathWithProgress[]>([]);
+  const [weeks, setWeeks] = useState<PathWeek[]>([]);
+  const [exerciseLocks, setExerciseLocks] = useState<ExerciseLocks>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [weeksLoading, setWeeksLoading] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPaths = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPaths(await fetchChildPaths(childProfileId));
+    } catch (err) {
+      console.error('Error loading paths:', err);
+      setError(t('path.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, t]);
+
+  useEffect(() => {
+    loadPaths();
+  }, [loadPaths]);
+
+  const selected = paths.find(path => path.id === selectedId) || null;
+  const enrollment = selected?.enrollment ?? null;
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    let cancelled = false;
+    const loadWeeks = async () => {
+      try {
+        setWeeksLoading(true);
+        const [pathWeeks, locks] = await Promise.all([
+          fetchPathWeeks(childProfileId, selectedId, enrollment),
+          fetchExerciseLocks(childProfileId),
+        ]);
+        if (!cancelled) {
+          setWeeks(pathWeeks);
+          setExerciseLocks(locks);
+        }
+      } catch (err) {
+        console.error('Error loading path weeks:', err);
+        if (!cancelled) setError(t('path.weeksFailed'));
+      } finally {
+        if (!cancelled) setWeeksLoading(false);
+      }
+    };
+
+    loadWeeks();
+    return () => {
+      cancelled = true;
+    };
+  }, [childProfileId, selectedId, enrollment, t]);
+
+  const handleStart = async (pathId: string) => {
+    try {
+      setStarting(true);
+      const progress = await startPath(childProfileId, pathId);
+      setPaths(prev => prev.map(path =>
+        path.id === pathId ? { ...path, enrollment: progress } : path
+      ));
+    } catch (err) {
+      console.error('🔴 Failed to start path:', err);
+      setError(err instanceof Error && err.message.includes('locked')
+        ? t('path.locked')
+        : t('path.startFailed'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">{t('path.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={() => {
+              setSelectedId(null);
+              loadPaths();
+            }}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Week-by-week path view
+  if (selected) {
+    const started = Boolean(enrollment?.started_at);
+    const status = enrollment?.status ?? 'available';
+    const percent = Math.round(Number(enrollment?.progress_percentage ?? 0));
+    const locked = !started && selected.unlock?.unlocked === false;
+    const currentWeek = enrollment?.current_week ?? 1;
+
+    return (
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => setSelectedId(null)}
+          className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-6 transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {t('path.all')}
+        </button>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+          <div className="flex items-start gap-4">
+            <span className="w-4 h-16 rounded-full flex-shrink-0" style={{ backgroundColor: selected.color_hex }} />
+            <div className="flex-1">
+              <h2 className="text-2xl font-bold text-gray-900">{localize({ en: selected.title, ru: selected.title_ru })}</h2>
+              {(selected.description_ru || selected.description) && (
+                <p className="text-gray-600 mt-1">{localize({ en: selected.description, ru: selected.description_ru })}</p>
+              )}
+              <div className="flex items-center gap-4 mt-3 text-sm text-gray-600">
+                <span className="flex items-center gap-1">
+                  <Calendar className="w-4 h-4 text-blue-500" />
+                  {t('path.weeks', { count: selected.estimated_weeks })}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Trophy className="w-4 h-4 text-yellow-500" />
+                  {t('common.points', { count: selected.reward_points })}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {started && (
+            <div className="mt-6">
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700">
+                  {status === 'completed' ? t(STATUS_LABEL_KEYS.completed) : t('path.week', { number: currentWeek })}
+                </span>
+                <span className="text-gray-500">{percent}%</span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-3 overflow-hidden">
+                <div
+                  className="h-3 rounded-full transition-all"
+                  style={{ width: `${percent}%`, backgroundColor: selected.color_hex }}
+                />
+              </div>
+            </div>
+          )}
+
+          {locked && selected.unlock && (
+            <div className="mt-6 flex items-center gap-3 bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <Lock className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              <p className="font-medium text-gray-700">{describeUnlockRequirement(selected.unlock, t)}</p>
+            </div>
+          )}
+
+          {!started && !locked && (
+            <button
+              onClick={() => handleStart(selected.id)}
+              disabled={starting}
+              className="mt-6 w-full flex items-center justify-center gap-2 bg-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-purple-700 disabled:bg-gray-400 transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              {starting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+              {t('path.start')}
+            </button>
+          )}
+        </div>
+
+        {weeksLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {weeks.map(week => {
+              const weekDone = week.requiredTotal > 0 && week.requiredDone >= week.requiredTotal;
+              const isCurrent = started && status !== 'completed' && week.weekNumber === currentWeek;
+
+              return (
+                <section
+                  key={week.weekNumber}
+                  className={`rounded-xl border p-4 ${
+                    isCurrent ? 'bg-purple-50 border-purple-300' : 'bg-white border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-gray-900">{t('path.week', { number: week.weekNumber })}</h3>
+                    <span className={`text-xs font-medium ${weekDone ? 'text-green-600' : 'text-gray-500'}`}>
+                      {week.requiredDone} / {week.requiredTotal}
+                    </span>
+                  </div>
+
+                  <ul className="space-y-2">
+                    {week.steps.map(step => {
+                      // A step can open before the child has met its exercise's prerequisites
+                      const lockedBy = step.state === 'done' ? [] : exerciseLocks.get(step.exercise.id) ?? [];
+
+                      return (
+                        <li
+                          key={step.exercise.id}
+                          className="flex items-center justify-between gap-3 bg-white rounded-lg border border-gray-100 p-3"
+                        >
+                          <div className="flex items-center gap-3 min-w-0">
+                            <span
+                              className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
+                                step.state === 'done'
+                                  ? 'bg-green-500 text-white'
+                                  : step.state === 'available'
+                                    ? 'bg-purple-600 text-white'
+                                    : 'bg-gray-200 text-gray-400'
+                              }`}
+                            >
+                              {step.state === 'done' ? (
+                                <Check className="w-4 h-4" />
+                              ) : step.state === 'locked' ? (
+                                <Lock className="w-4 h-4" />
+                              ) : (
+                                <span className="text-sm font-bold">{step.sequenceOrder}</span>
+                              )}
+                            </span>
+                            <div className="min-w-0">
+                              <p className={`font-medium truncate ${step.state === 'locked' ? 'text-gray-400' : 'text-gray-900'}`}>
+                                {localize({ en: step.exercise.name_en, ru: step.exercise.name_ru })}
+                              </p>
+                              <div className="flex items-center gap-3 text-xs text-gray-500">
+                                <span className="flex items-center gap-1">
+                                  <Star className="w-3 h-3 text-yellow-500" />
+                                  {t('common.points', { count: step.pointsReward })}
+                                </span>
+                                {!step.isRequired && <span>{t('adventure.optional')}</span>}
+                              </div>
+                              {lockedBy.map(prerequisite => (
+                                <p key={prerequisite.prerequisiteExerciseId} className="text-xs text-gray-600 mt-1">
+                                  {describePrerequisite(prerequisite, { t, localize })}
+                                </p>
+                              ))}
+                            </div>
+                          </div>
+
+                          {step.state === 'available' && lockedBy.length > 0 && (
+                            <Lock className="w-4 h-4 text-gray-300 flex-shrink-0" />
+                          )}
+                          {step.state === 'available' && lockedBy.length === 0 && (
+                            <button
+                              onClick={() => onStartExercise(step.exercise)}
+                              className="flex items-center gap-1 px-4 py-2 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 transition-colors flex-shrink-0"
+                              style={{ minHeight: '44px' }}
+                            >
+                              <Play className="w-4 h-4" />
+                              {t('adventure.go')}
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Path list
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">{t('path.title', { name: childName })}</h2>
+        <p className="text-gray-600">{t('path.subtitle')}</p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {paths.map(path => {
+          const started = Boolean(path.enrollment?.started_at);
+          const status = path.enrollment?.started_at ? path.enrollment.status : 'available';
+          const percent = Math.round(Number(path.enrollment?.progress_percentage ?? 0));
+          const locked = !started && path.unlock?.unlocked === false;
+
+          return (
+            <button
+              key={path.id}
+              onClick={() => setSelectedId(path.id)}
+              className={`text-left rounded-xl shadow-sm border border-gray-200 p-5 hover:shadow-md transition-all ${
+                locked ? 'bg-gray-50' : 'bg-white hover:border-purple-300'
+              }`}
+            >
+              <div className="flex items-start justify-between mb-3">
+                <span
+                  className={`w-10 h-10 rounded-lg ${locked ? 'opacity-40' : ''}`}
+                  style={{ backgroundColor: path.color_hex }}
+                />
+                <span
+                  className={`flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full ${
+                    locked
+                      ? 'bg-gray-200 text-gray-600'
+                      : status === 'completed'
+                        ? 'bg-green-100 text-green-700'
+                        : status === 'in_progress'
+                          ? 'bg-purple-100 text-purple-700'
+                          : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {locked && <Lock className="w-3 h-3" />}
+                  {t(STATUS_LABEL_KEYS[locked ? 'locked' : status])}
+                </span>
+              </div>
+              <h3 className="font-semibold text-gray-900 mb-1">{localize({ en: path.title, ru: path.title_ru })}</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                {t('adventure.exercises', { count: path.total_exercises })} • {t('path.weeks', { count: path.estimated_weeks })} • {t('common.points', { count: path.reward_points })}
+              </p>
+              {locked && path.unlock && (
+                <p className="text-xs font-medium text-gray-600">{describeUnlockRequirement(path.unlock, t)}</p>
+              )}
+              {started && (
+                <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
+                  <div
+                    className={`h-2 rounded-full ${status === 'completed' ? 'bg-green-500' : 'bg-purple-500'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PathPlayer;
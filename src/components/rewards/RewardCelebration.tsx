@@ -0,0 +1,49 @@
+import React from 'react';
+import { RARITY_COLORS, RARITY_NAME_KEYS, type Reward } from '../../lib/rewards';
+import { useI18n } from '../../lib/i18n';
+import RewardIcon from './RewardIcon';
+
+interface RewardCelebrationProps {
+  rewards: Reward[];
+}
+
+const RewardCelebration: React.FC<RewardCelebrationProps> = ({ rewards }) => {
+  const { t, localize } = useI18n();
+
+  if (rewards.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-gradient-to-br from-yellow-50 to-purple-50 border border-yellow-200 rounded-xl">
+      <div className="text-3xl mb-1 animate-bounce">🎉</div>
+      <h3 className="text-lg font-bold text-gray-900 mb-3">
+        {t('reward.new', { count: rewards.length })}
+      </h3>
+      <div className="space-y-2">
+        {rewards.map(reward => (
+          <div key={reward.id} className="flex items-center gap-3 p-3 bg-white rounded-lg shadow-sm text-left">
+            <div
+              className="w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0"
+              style={{ backgroundColor: RARITY_COLORS[reward.rarity] }}
+            >
+              <RewardIcon icon={reward.icon} className="w-6 h-6 text-white" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-gray-900 truncate">{localize({ en: reward.title, ru: reward.title_ru })}</p>
+              {reward.description && (
+                <p className="text-xs text-gray-600">{localize({ en: reward.description, ru: reward.description_ru })}</p>
+              )}
+            </div>
+            <span
+              className="text-xs font-medium px-2 py-0.5 rounded-full text-white flex-shrink-0"
+              style={{ backgroundColor: RARITY_COLORS[reward.rarity] }}
+            >
+              {t(RARITY_NAME_KEYS[reward.rarity])}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RewardCelebration;
@@ -0,0 +1,42 @@
+import React from 'react';
+import {
+  Award, Star, Compass, Flame, Trophy, Map, MapPin, Target, Dumbbell, Crown, Mountain,
+  CalendarCheck, CalendarDays, Smile, Gem, GraduationCap, Key, Shuffle, Snowflake, type LucideIcon
+} from 'lucide-react';
+
+// rewards.icon stores lucide icon names in kebab-case
+const ICONS: Record<string, LucideIcon> = {
+  award: Award,
+  star: Star,
+  compass: Compass,
+  flame: Flame,
+  trophy: Trophy,
+  map: Map,
+  'map-pin': MapPin,
+  target: Target,
+  dumbbell: Dumbbell,
+  muscle: Dumbbell,
+  crown: Crown,
+  mountain: Mountain,
+  'calendar-check': CalendarCheck,
+  'calendar-days': CalendarDays,
+  smile: Smile,
+  gem: Gem,
+  'graduation-cap': GraduationCap,
+  key: Key,
+  shuffle: Shuffle,
+  snowflake: Snowflake,
+  'yin-yang': Target,
+};
+
+interface RewardIconProps {
+  icon: string | null;
+  className?: string;
+}
+
+const RewardIcon: React.FC<RewardIconProps> = ({ icon, className }) => {
+  const Icon = (icon && ICONS[icon]) || Award;
+  return <Icon className={className} />;
+};
+
+export default RewardIcon;
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, Lock, Sparkles, Trophy } from 'lucide-react';
+import RewardIcon from './RewardIcon';
+import {
+  fetchAllRewards,
+  fetchEarnedRewards,
+  fetchRewardProgress,
+  markRewardsSeen,
+  RARITY_COLORS,
+  RARITY_NAME_KEYS,
+  RARITY_ORDER,
+  REWARD_TYPE_NAME_KEYS,
+  type Reward,
+  type EarnedReward,
+  type RewardProgress,
+} from '../../lib/rewards';
+import { useI18n } from '../../lib/i18n';
+
+interface TrophyRoomProps {
+  childProfileId: string;
+  childName: string;
+}
+
+const TrophyRoom: React.FC<TrophyRoomProps> = ({ childProfileId, childName }) => {
+  const { t, localize, formatDate } = useI18n();
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [earned, setEarned] = useState<EarnedReward[]>([]);
+  const [progress, setProgress] = useState<RewardProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrophyRoom = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [allRewards, earnedRewards, rewardProgress] = await Promise.all([
+        fetchAllRewards(),
+        fetchEarnedRewards(childProfileId),
+        fetchRewardProgress(childProfileId).catch(err => {
+          // Locked badges still render, just without progress bars
+          console.warn('⚠️ Reward progress unavailable:', err);
+          return [] as RewardProgress[];
+        }),
+      ]);
+
+      setRewards(allRewards);
+      setEarned(earnedRewards);
+      setProgress(rewardProgress);
+
+      // The "new" highlight stays for this visit; the flag is cleared for the next one
+      if (earnedRewards.some(reward => reward.is_new)) {
+        markRewardsSeen(childProfileId).catch(err =>
+          console.warn('⚠️ Failed to clear new reward flags:', err)
+        );
+      }
+    } catch (err) {
+      console.error('Error loading trophy room:', err);
+      setError(t('trophies.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, t]);
+
+  useEffect(() => {
+    loadTrophyRoom();
+  }, [loadTrophyRoom]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">{t('trophies.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={loadTrophyRoom}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const earnedByRewardId = new Map(earned.map(entry => [entry.reward.id, entry]));
+  const progressByRewardId = new Map(progress.map(entry => [entry.reward_id, entry]));
+
+  // Earned rewards that were deactivated later still belong in the room
+  const allRewards = [
+    ...rewards,
+    ...earned.map(entry => entry.reward).filter(reward => !rewards.some(r => r.id === reward.id)),
+  ];
+
+  const rewardTypes = (Object.keys(REWARD_TYPE_NAME_KEYS) as Reward['reward_type'][])
+    .filter(type => allRewards.some(reward => reward.reward_type === type));
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Summary */}
+      <div className="bg-gradient-to-br from-yellow-50 to-purple-50 border border-yellow-200 rounded-xl p-6 mb-8 flex items-center gap-4">
+        <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center flex-shrink-0">
+          <Trophy className="w-8 h-8 text-yellow-600" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('trophies.title', { name: childName })}</h2>
+          <p className="text-gray-600">
+            {t('trophies.collected', { earned: earned.length, total: allRewards.length })}
+          </p>
+        </div>
+      </div>
+
+      {rewardTypes.map(type => (
+        <section key={type} className="mb-10">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{t(REWARD_TYPE_NAME_KEYS[type])}</h3>
+
+          {RARITY_ORDER.map(rarity => {
+            const group = allRewards
+              .filter(reward => reward.reward_type === type && reward.rarity === rarity)
+              .sort((a, b) => a.points_value - b.points_value);
+            if (group.length === 0) return null;
+
+            return (
+              <div key={rarity} className="mb-6">
+                <div className="flex items-center gap-2 mb-3">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: RARITY_COLORS[rarity] }} />
+                  <span className="text-sm font-medium text-gray-600">{t(RARITY_NAME_KEYS[rarity])}</span>
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {group.map(reward => {
+                    const earnedEntry = earnedByRewardId.get(reward.id);
+                    const rewardProgress = progressByRewardId.get(reward.id);
+                    const percent = Math.round((rewardProgress?.progress ?? 0) * 100);
+
+                    return (
+                      <div
+                        key={reward.id}
+                        className={`relative rounded-xl border p-4 text-center transition-shadow ${
+                          earnedEntry ? 'bg-white shadow-sm border-gray-200 hover:shadow-md' : 'bg-gray-50 border-gray-200'
+                        }`}
+                      >
+                        {earnedEntry?.is_new && (
+                          <span className="absolute top-2 right-2 flex items-center gap-1 text-xs font-semibold text-purple-700 bg-purple-100 px-2 py-0.5 rounded-full">
+                            <Sparkles className="w-3 h-3" />
+                            {t('trophies.new')}
+                          </span>
+                        )}
+
+                        <div
+                          className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-3 ${
+                            earnedEntry ? '' : 'bg-gray-200'
+                          }`}
+                          style={earnedEntry ? { backgroundColor: RARITY_COLORS[reward.rarity] } : undefined}
+                        >
+                          {earnedEntry ? (
+                            <RewardIcon icon={reward.icon} className="w-8 h-8 text-white" />
+                          ) : (
+                            <Lock className="w-6 h-6 text-gray-400" />
+                          )}
+                        </div>
+
+                        <p className={`font-semibold text-sm mb-1 ${earnedEntry ? 'text-gray-900' : 'text-gray-500'}`}>
+                          {localize({ en: reward.title, ru: reward.title_ru })}
+                        </p>
+                        {reward.description && (
+                          <p className="text-xs text-gray-500 mb-2">{localize({ en: reward.description, ru: reward.description_ru })}</p>
+                        )}
+
+                        {earnedEntry ? (
+                          <p className="text-xs text-green-600">
+                            {t('trophies.earnedOn', { date: formatDate(earnedEntry.earned_at) })}
+                          </p>
+                        ) : (
+                          <div>
+                            <div className="w-full bg-gray-200 rounded-full h-2 mb-1 overflow-hidden">
+                              <div
+                                className="h-2 rounded-full"
+                                style={{ width: `${percent}%`, backgroundColor: RARITY_COLORS[reward.rarity] }}
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              {rewardProgress?.target_value != null
+                                ? `${Math.min(rewardProgress.current_value ?? 0, rewardProgress.target_value)} / ${rewardProgress.target_value}`
+                                : `${percent}%`}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default TrophyRoom;
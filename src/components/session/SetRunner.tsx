@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Minus, Check, SkipForward, Timer, Flag, Coffee } from 'lucide-react';
+import type { SessionPlan, SetResult } from '../../lib/sessionPlan';
+import { useI18n } from '../../lib/i18n';
+
+interface SetRunnerProps {
+  plan: SessionPlan;
+  paused: boolean;
+  onFinish: (results: SetResult[]) => void;
+  // Called whenever the recorded sets change, including the set in progress, so the session can be ended early
+  onProgress: (results: SetResult[]) => void;
+}
+
+type RunnerPhase = 'active' | 'rest' | 'review' | 'done';
+
+const formatSeconds = (seconds: number) => {
+  const safe = Math.max(0, seconds);
+  const mins = Math.floor(safe / 60);
+  const secs = safe % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SetRunner: React.FC<SetRunnerProps> = ({ plan, paused, onFinish, onProgress }) => {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<RunnerPhase>('active');
+  const [currentSet, setCurrentSet] = useState(1);
+  const [reps, setReps] = useState(0);
+  const [setSeconds, setSetSeconds] = useState(0);
+  const [restRemaining, setRestRemaining] = useState(0);
+  const [results, setResults] = useState<SetResult[]>([]);
+
+  const isTimed = plan.type === 'duration' || plan.type === 'hold';
+  const targetSeconds = plan.targetSeconds ?? 0;
+
+  // One tick drives both the active set clock and the rest countdown
+  useEffect(() => {
+    if (paused || phase === 'review' || phase === 'done') return;
+
+    const interval = setInterval(() => {
+      if (phase === 'active') {
+        setSetSeconds(prev => prev + 1);
+      } else {
+        setRestRemaining(prev => prev - 1);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [phase, paused]);
+
+  const finishSet = useCallback((completed: boolean) => {
+    const nextResults = [
+      ...results,
+      { setNumber: currentSet, reps, seconds: setSeconds, completed },
+    ];
+    setResults(nextResults);
+
+    if (currentSet < plan.totalSets) {
+      setRestRemaining(plan.restSeconds);
+      setPhase('rest');
+      return;
+    }
+
+    if (currentSet < plan.maxSets) {
+      setPhase('review');
+      return;
+    }
+
+    setPhase('done');
+    onFinish(nextResults);
+  }, [results, currentSet, reps, setSeconds, plan.totalSets, plan.maxSets, plan.restSeconds, onFinish]);
+
+  // A set cut short by finishing the session counts the same way as pressing done on it
+  useEffect(() => {
+    const inProgress = phase === 'active' && (reps > 0 || setSeconds > 0)
+      ? [{ setNumber: currentSet, reps, seconds: setSeconds, completed: !isTimed && reps > 0 }]
+      : [];
+    onProgress([...results, ...inProgress]);
+  }, [results, phase, currentSet, reps, setSeconds, isTimed, onProgress]);
+
+  const startNextSet = useCallback(() => {
+    setCurrentSet(prev => prev + 1);
+    setReps(0);
+    setSetSeconds(0);
+    setPhase('active');
+  }, []);
+
+  // Countdown sets complete themselves once the target time is reached
+  useEffect(() => {
+    if (phase === 'active' && isTimed && setSeconds >= targetSeconds) {
+      finishSet(true);
+    }
+  }, [phase, isTimed, setSeconds, targetSeconds, finishSet]);
+
+  useEffect(() => {
+    if (phase === 'rest' && restRemaining <= 0) {
+      startNextSet();
+    }
+  }, [phase, restRemaining, startNextSet]);
+
+  const renderRepCounter = () => {
+    const target = plan.targetReps ?? 0;
+    const reachedTarget = reps >= target;
+
+    return (
+      <div className="text-center">
+        <div className={`text-6xl font-bold mb-2 ${reachedTarget ? 'text-green-600' : 'text-gray-900'}`}>
+          {reps}
+          <span className="text-2xl text-gray-400"> / {target}</span>
+        </div>
+        {plan.maxReps && plan.maxReps > target && (
+          <p className="text-sm text-gray-500 mb-4">{t('set.upToReps', { count: plan.maxReps })}</p>
+        )}
+        <div className="flex items-center justify-center gap-4 mb-6">
+          <button
+            onClick={() => setReps(prev => Math.max(0, prev - 1))}
+            disabled={reps === 0 || paused}
+            className="w-14 h-14 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center hover:bg-gray-200 disabled:opacity-40 transition-colors"
+            aria-label={t('set.removeRep')}
+          >
+            <Minus className="w-6 h-6" />
+          </button>
+          <button
+            onClick={() => setReps(prev => prev + 1)}
+            disabled={paused}
+            className="w-24 h-24 rounded-full bg-blue-600 text-white flex items-center justify-center shadow-lg hover:bg-blue-700 active:scale-95 disabled:bg-gray-400 transition-all"
+            aria-label={t('set.addRep')}
+          >
+            <Plus className="w-10 h-10" />
+          </button>
+        </div>
+        <button
+          onClick={() => finishSet(reps > 0)}
+          disabled={paused}
+          className="inline-flex items-center justify-center gap-2 bg-green-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          <Check className="w-5 h-5" />
+          {t('set.done')}
+        </button>
+      </div>
+    );
+  };
+
+  const renderCountdown = () => {
+    const remaining = targetSeconds - setSeconds;
+    const progress = targetSeconds > 0 ? Math.min(100, (setSeconds / targetSeconds) * 100) : 0;
+
+    return (
+      <div className="text-center">
+        <div className="flex items-center justify-center gap-2 text-gray-500 mb-2">
+          <Timer className="w-5 h-5" />
+          <span>{plan.type === 'hold' ? t('set.hold') : t('set.keepMoving')}</span>
+        </div>
+        <div className="text-6xl font-bold text-gray-900 mb-4">{formatSeconds(remaining)}</div>
+        <div className="w-full bg-gray-100 rounded-full h-3 mb-6 overflow-hidden">
+          <div
+            className="bg-green-500 h-3 rounded-full transition-all duration-1000"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+        <button
+          onClick={() => finishSet(false)}
+          disabled={paused}
+          className="inline-flex items-center justify-center gap-2 bg-gray-100 text-gray-700 px-6 py-3 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-40 transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          <SkipForward className="w-5 h-5" />
+          {t('set.endEarly')}
+        </button>
+      </div>
+    );
+  };
+
+  const renderDistanceChecklist = () => (
+    <div>
+      <div className="flex items-center justify-center gap-2 text-gray-500 mb-4">
+        <Flag className="w-5 h-5" />
+        <span>{t('set.markDistance')}</span>
+      </div>
+      <ul className="space-y-2 mb-2">
+        {Array.from({ length: Math.max(plan.totalSets, currentSet) }, (_, i) => i + 1).map(setNumber => {
+          const done = results.some(result => result.setNumber === setNumber && result.completed);
+          const isCurrent = setNumber === currentSet && phase === 'active';
+
+          return (
+            <li key={setNumber}>
+              <button
+                onClick={() => isCurrent && finishSet(true)}
+                disabled={!isCurrent || paused}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg border text-left transition-colors ${
+                  done
+                    ? 'bg-green-50 border-green-200 text-green-800'
+                    : isCurrent
+                      ? 'bg-blue-50 border-blue-300 text-blue-900 hover:bg-blue-100'
+                      : 'bg-gray-50 border-gray-200 text-gray-400'
+                }`}
+                style={{ minHeight: '44px' }}
+              >
+                <span className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                  done ? 'bg-green-500 border-green-500' : 'border-current'
+                }`}>
+                  {done && <Check className="w-4 h-4 text-white" />}
+                </span>
+                <span className="font-medium">{t('set.distance', { number: setNumber })}</span>
+                {isCurrent && <span className="ml-auto text-sm">{formatSeconds(setSeconds)}</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+
+  if (phase === 'done') {
+    return (
+      <div className="text-center py-6">
+        <div className="text-4xl mb-3">🏁</div>
+        <h3 className="text-xl font-bold text-gray-900">{t('set.finish')}</h3>
+      </div>
+    );
+  }
+
+  if (phase === 'review') {
+    return (
+      <div className="text-center">
+        <div className="text-4xl mb-3">🎉</div>
+        <h3 className="text-xl font-bold text-gray-900 mb-2">{t('set.allDone')}</h3>
+        <p className="text-gray-600 mb-6">{t('set.bonusPrompt')}</p>
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <button
+            onClick={startNextSet}
+            className="px-6 py-3 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            {t('set.bonus')}
+          </button>
+          <button
+            onClick={() => {
+              setPhase('done');
+              onFinish(results);
+            }}
+            className="px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            {t('set.end')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Set progress */}
+      <div className="flex items-center justify-between mb-6">
+        <span className="text-sm font-medium text-gray-700">
+          {t('set.progress', { current: currentSet, total: Math.max(plan.totalSets, currentSet) })}
+        </span>
+        <div className="flex gap-1">
+          {Array.from({ length: Math.max(plan.totalSets, currentSet) }, (_, i) => i + 1).map(setNumber => (
+            <span
+              key={setNumber}
+              className={`w-3 h-3 rounded-full ${
+                setNumber < currentSet || (setNumber === currentSet && phase === 'rest')
+                  ? 'bg-green-500'
+                  : setNumber === currentSet
+                    ? 'bg-blue-500'
+                    : 'bg-gray-200'
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {phase === 'rest' ? (
+        <div className="text-center">
+          <div className="flex items-center justify-center gap-2 text-gray-500 mb-2">
+            <Coffee className="w-5 h-5" />
+            <span>{t('set.rest')}</span>
+          </div>
+          <div className="text-6xl font-bold text-blue-600 mb-6">{formatSeconds(restRemaining)}</div>
+          <button
+            onClick={startNextSet}
+            className="inline-flex items-center justify-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            <SkipForward className="w-5 h-5" />
+            {t('set.ready')}
+          </button>
+        </div>
+      ) : plan.type === 'reps' ? (
+        renderRepCounter()
+      ) : plan.type === 'distance' ? (
+        renderDistanceChecklist()
+      ) : (
+        renderCountdown()
+      )}
+    </div>
+  );
+};
+
+export default SetRunner;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Loader2, Shuffle, Play, Check, Clock, Star, AlertCircle, ClipboardList } from 'lucide-react';
+import type { Exercise } from '../../types/Exercise';
+import { WORKOUT_PHASES, suggestWorkout, orderByPhase, getPhaseForExercise } from '../../lib/workouts';
+import { fetchChildAssignments } from '../../lib/teams';
+import { fetchExerciseLocks } from '../../lib/prerequisites';
+import { useI18n } from '../../lib/i18n';
+
+interface WorkoutBuilderProps {
+  childProfileId: string;
+  childName: string;
+  onStart: (exercises: Exercise[], assignmentId?: string) => void;
+}
+
+type ChildAssignment = Awaited<ReturnType<typeof fetchChildAssignments>>[number];
+
+const WorkoutBuilder: React.FC<WorkoutBuilderProps> = ({ childProfileId, childName, onStart }) => {
+  const { t, localize, formatDate } = useI18n();
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [assignments, setAssignments] = useState<ChildAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExercises = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [{ data, error }, locks] = await Promise.all([
+        supabase
+          .from('exercises')
+          .select(`
+            *,
+            category:exercise_categories(id, name_ru, name_en, color_hex, icon)
+          `)
+          .eq('is_active', true)
+          .order('name_ru'),
+        fetchExerciseLocks(childProfileId),
+      ]);
+
+      if (error) {
+        throw error;
+      }
+
+      // Exercises still behind a prerequisite stay in the catalog; workouts, suggestions and assignments skip them
+      const loaded = ((data || []) as Exercise[]).filter(exercise => !locks.has(exercise.id));
+      setExercises(loaded);
+      setSelectedIds(suggestWorkout(loaded).map(exercise => exercise.id));
+    } catch (err) {
+      console.error('Error fetching workout exercises:', err);
+      setError(t('exercises.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [childProfileId, t]);
+
+  useEffect(() => {
+    fetchExercises();
+  }, [fetchExercises]);
+
+  // Team assignments are optional; the builder works without them
+  useEffect(() => {
+    fetchChildAssignments(childProfileId)
+      .then(setAssignments)
+      .catch(err => console.warn('⚠️ Failed to load team assignments:', err));
+  }, [childProfileId]);
+
+  const startAssignment = (assignment: ChildAssignment) => {
+    const assigned = exercises.filter(exercise => assignment.exercise_ids.includes(exercise.id));
+    if (assigned.length > 0) {
+      onStart(orderByPhase(assigned), assignment.id);
+    }
+  };
+
+  const toggleExercise = (exerciseId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(exerciseId) ? prev.filter(id => id !== exerciseId) : [...prev, exerciseId]
+    );
+  };
+
+  const queue = orderByPhase(exercises.filter(exercise => selectedIds.includes(exercise.id)));
+  const totalMinutes = queue.reduce((sum, exercise) => sum + (exercise.estimated_duration_minutes || 0), 0);
+  const totalPoints = queue.reduce((sum, exercise) => sum + (exercise.adventure_points || 0), 0);
+  const missingPhases = WORKOUT_PHASES.filter(
+    phase => phase.required && !queue.some(exercise => exercise.category?.name_en === phase.category)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">{t('workout.building')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error}</p>
+          <button
+            onClick={fetchExercises}
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col lg:flex-row gap-8">
+        {/* Phase columns */}
+        <div className="flex-1 space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{t('workout.title', { name: childName })}</h2>
+              <p className="text-gray-600">{t('workout.subtitle')}</p>
+            </div>
+            <button
+              onClick={() => setSelectedIds(suggestWorkout(exercises).map(exercise => exercise.id))}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              <Shuffle className="w-4 h-4" />
+              <span className="hidden sm:inline">{t('workout.random')}</span>
+            </button>
+          </div>
+
+          {assignments.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-orange-200">
+              <div className="flex items-center gap-2 px-4 py-3 border-b border-orange-100">
+                <ClipboardList className="w-5 h-5 text-orange-500" />
+                <h3 className="font-semibold text-gray-900">{t('workout.coachAssignments')}</h3>
+              </div>
+              <div className="p-4 space-y-2">
+                {assignments.map(assignment => (
+                  <div key={assignment.id} className="flex items-center gap-3 px-3 py-2 rounded-lg border border-gray-200">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{assignment.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {assignment.team_name} · {t('workout.assignmentExercises', { count: assignment.exercise_ids.length })}
+                        {assignment.due_date && t('workout.due', { date: formatDate(`${assignment.due_date}T00:00:00`) })}
+                      </p>
+                    </div>
+                    {assignment.completed ? (
+                      <span className="flex items-center gap-1 text-sm text-green-600">
+                        <Check className="w-4 h-4" />
+                        {t('common.done')}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => startAssignment(assignment)}
+                        className="flex items-center gap-1 px-3 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors text-sm font-medium"
+                        style={{ minHeight: '44px' }}
+                      >
+                        <Play className="w-4 h-4" />
+                        {t('common.start')}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {WORKOUT_PHASES.map(phase => {
+            const phaseExercises = exercises.filter(exercise => exercise.category?.name_en === phase.category);
+            if (phaseExercises.length === 0) return null;
+
+            return (
+              <div key={phase.id} className="bg-white rounded-lg shadow-sm border border-gray-200">
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+                  <span className="text-xl">{phase.icon}</span>
+                  <h3 className="font-semibold text-gray-900">{t(phase.titleKey)}</h3>
+                  {!phase.required && (
+                    <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">{t('workout.optional')}</span>
+                  )}
+                </div>
+                <div className="p-4 grid sm:grid-cols-2 gap-2">
+                  {phaseExercises.map(exercise => {
+                    const selected = selectedIds.includes(exercise.id);
+                    return (
+                      <button
+                        key={exercise.id}
+                        onClick={() => toggleExercise(exercise.id)}
+                        className={`flex items-center gap-3 px-3 py-2 rounded-lg border text-left transition-colors ${
+                          selected
+                            ? 'border-transparent text-white'
+                            : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        }`}
+                        style={{ minHeight: '44px', backgroundColor: selected ? phase.color : undefined }}
+                      >
+                        <span className={`w-5 h-5 rounded border-2 flex items-center justify-center flex-shrink-0 ${
+                          selected ? 'border-white' : 'border-gray-300'
+                        }`}>
+                          {selected && <Check className="w-3 h-3" />}
+                        </span>
+                        <span className="text-sm font-medium truncate">{localize({ en: exercise.name_en, ru: exercise.name_ru })}</span>
+                        <span className={`ml-auto text-xs ${selected ? 'text-white/80' : 'text-gray-400'}`}>
+                          {t('common.minutes', { count: exercise.estimated_duration_minutes })}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Queue preview */}
+        <div className="lg:w-80">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 lg:sticky lg:top-24">
+            <h3 className="font-semibold text-gray-900 mb-4">{t('workout.plan')}</h3>
+
+            {queue.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">{t('workout.emptyPlan')}</p>
+            ) : (
+              <ol className="space-y-2 mb-4">
+                {queue.map((exercise, index) => {
+                  const phase = getPhaseForExercise(exercise);
+                  return (
+                    <li key={exercise.id} className="flex items-center gap-2 text-sm">
+                      <span
+                        className="w-6 h-6 rounded-full text-white text-xs flex items-center justify-center flex-shrink-0"
+                        style={{ backgroundColor: phase?.color || '#6B7280' }}
+                      >
+                        {index + 1}
+                      </span>
+                      <span className="text-gray-700 truncate">{localize({ en: exercise.name_en, ru: exercise.name_ru })}</span>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+
+            <div className="flex items-center justify-between text-sm text-gray-600 border-t border-gray-100 pt-4 mb-4">
+              <span className="flex items-center gap-1">
+                <Clock className="w-4 h-4 text-blue-500" />
+                {t('workout.totalMinutes', { count: totalMinutes })}
+              </span>
+              <span className="flex items-center gap-1">
+                <Star className="w-4 h-4 text-yellow-500" />
+                {t('workout.upToPoints', { count: totalPoints })}
+              </span>
+            </div>
+
+            {missingPhases.length > 0 && queue.length > 0 && (
+              <div className="flex items-start gap-2 p-3 mb-4 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{t('workout.missing', { phases: missingPhases.map(phase => t(phase.titleKey)).join(', ') })}</span>
+              </div>
+            )}
+
+            <button
+              onClick={() => onStart(queue)}
+              disabled={queue.length === 0}
+              className="w-full flex items-center justify-center gap-2 bg-green-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              <Play className="w-5 h-5" />
+              {t('workout.start')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutBuilder;
@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Play, SkipForward, Trophy, Clock, Star, X } from 'lucide-react';
+import type { Exercise } from '../../types/Exercise';
+import SimpleExerciseSession from '../SimpleExerciseSession';
+import RewardCelebration from '../rewards/RewardCelebration';
+import type { Reward } from '../../lib/rewards';
+import {
+  getPhaseForExercise,
+  summarizeWorkout,
+  startWorkout,
+  finishWorkout,
+  type WorkoutExerciseResult,
+} from '../../lib/workouts';
+import { useI18n } from '../../lib/i18n';
+
+interface WorkoutPlayerProps {
+  exercises: Exercise[];
+  childProfileId: string;
+  childName: string;
+  assignmentId?: string | null;
+  onExit: () => void;
+}
+
+type PlayerState = 'starting' | 'transition' | 'exercise' | 'summary';
+
+const WorkoutPlayer: React.FC<WorkoutPlayerProps> = ({ exercises, childProfileId, childName, assignmentId, onExit }) => {
+  const { t, localize } = useI18n();
+  const [playerState, setPlayerState] = useState<PlayerState>('starting');
+  const [workoutId, setWorkoutId] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [results, setResults] = useState<WorkoutExerciseResult[]>([]);
+  const [earnedRewards, setEarnedRewards] = useState<Reward[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const begin = async () => {
+      try {
+        const id = await startWorkout(childProfileId, exercises.length, assignmentId);
+        if (!cancelled) setWorkoutId(id);
+      } catch (err) {
+        // Sessions still save on their own, just without the workout link
+        console.warn('⚠️ Workout record not created:', err);
+      } finally {
+        if (!cancelled) setPlayerState('transition');
+      }
+    };
+
+    begin();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childProfileId, exercises.length, assignmentId]);
+
+  const currentExercise = exercises[currentIndex];
+
+  const advance = async (result: WorkoutExerciseResult) => {
+    const nextResults = [...results, result];
+    setResults(nextResults);
+
+    if (currentIndex + 1 < exercises.length) {
+      setCurrentIndex(prev => prev + 1);
+      setPlayerState('transition');
+      return;
+    }
+
+    setPlayerState('summary');
+
+    if (workoutId) {
+      try {
+        await finishWorkout(workoutId, summarizeWorkout(nextResults));
+        console.log('✅ Workout finished:', workoutId);
+      } catch (err) {
+        console.error('🔴 Failed to finish workout:', err);
+      }
+    }
+  };
+
+  const skipCurrent = () => {
+    advance({
+      exerciseId: currentExercise.id,
+      sessionId: null,
+      durationSeconds: 0,
+      pointsEarned: 0,
+      funRating: 0,
+      skipped: true,
+    });
+  };
+
+  const stopWorkout = () => {
+    const remaining = exercises.slice(currentIndex).map(exercise => ({
+      exerciseId: exercise.id,
+      sessionId: null,
+      durationSeconds: 0,
+      pointsEarned: 0,
+      funRating: 0,
+      skipped: true,
+    }));
+    const allResults = [...results, ...remaining];
+    setResults(allResults);
+    setPlayerState('summary');
+
+    if (workoutId) {
+      finishWorkout(workoutId, summarizeWorkout(allResults)).catch(err =>
+        console.error('🔴 Failed to finish workout:', err)
+      );
+    }
+  };
+
+  if (playerState === 'starting') {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">{t('workout.preparing')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (playerState === 'exercise' && currentExercise) {
+    return (
+      <SimpleExerciseSession
+        key={currentIndex}
+        exercise={currentExercise}
+        childProfileId={childProfileId}
+        workoutId={workoutId}
+        onComplete={(result) => {
+          setEarnedRewards(prev => [...prev, ...result.newRewards]);
+          advance({
+            exerciseId: result.exerciseId,
+            sessionId: result.sessionId,
+            durationSeconds: result.duration,
+            pointsEarned: result.pointsEarned,
+            funRating: result.funRating,
+            skipped: false,
+          });
+        }}
+        onCancel={skipCurrent}
+      />
+    );
+  }
+
+  if (playerState === 'summary') {
+    const summary = summarizeWorkout(results);
+    const minutes = Math.floor(summary.durationSeconds / 60);
+    const seconds = summary.durationSeconds % 60;
+
+    return (
+      <div className="min-h-[80vh] flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8 text-center">
+          <div className="w-20 h-20 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Trophy className="w-10 h-10 text-yellow-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('workout.finished')}</h2>
+          <p className="text-gray-600 mb-6">{t('workout.greatJob', { name: childName })}</p>
+
+          <div className="space-y-3 mb-6">
+            <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
+              <span className="text-sm font-medium text-green-900">{t('workout.exercisesLabel')}</span>
+              <span className="text-sm text-green-700">
+                {t('workout.ofTotal', { done: summary.exercisesCompleted, total: exercises.length })}
+              </span>
+            </div>
+            <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
+              <span className="text-sm font-medium text-blue-900">{t('workout.timeLabel')}</span>
+              <span className="text-sm text-blue-700">
+                {minutes.toString().padStart(2, '0')}:{seconds.toString().padStart(2, '0')}
+              </span>
+            </div>
+            <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
+              <span className="text-sm font-medium text-yellow-900">{t('workout.pointsLabel')}</span>
+              <span className="text-sm text-yellow-700">{summary.pointsEarned}</span>
+            </div>
+            {summary.averageFunRating > 0 && (
+              <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
+                <span className="text-sm font-medium text-purple-900">{t('workout.averageFun')}</span>
+                <span className="text-sm text-purple-700">{summary.averageFunRating} ⭐</span>
+              </div>
+            )}
+          </div>
+
+          <RewardCelebration rewards={earnedRewards} />
+
+          <ul className="text-left space-y-1 mb-6">
+            {exercises.map((exercise, index) => {
+              const result = results[index];
+              return (
+                <li key={`${exercise.id}-${index}`} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 truncate">{localize({ en: exercise.name_en, ru: exercise.name_ru })}</span>
+                  <span className={result && !result.skipped ? 'text-green-600' : 'text-gray-400'}>
+                    {result && !result.skipped ? `+${result.pointsEarned}` : t('workout.skipped')}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+
+          <button
+            onClick={onExit}
+            className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg font-medium hover:bg-blue-700 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            {t('workout.backToExercises')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const phase = currentExercise ? getPhaseForExercise(currentExercise) : undefined;
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-xl shadow-lg p-8">
+        <div className="flex items-center justify-between mb-6">
+          <span className="text-sm font-medium text-gray-500">
+            {t('workout.progress', { current: currentIndex + 1, total: exercises.length })}
+          </span>
+          <button
+            onClick={stopWorkout}
+            className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            <X className="w-4 h-4" />
+            {t('workout.stop')}
+          </button>
+        </div>
+
+        <div className="flex gap-1 mb-8">
+          {exercises.map((exercise, index) => (
+            <div
+              key={`${exercise.id}-${index}`}
+              className={`flex-1 h-2 rounded-full ${
+                index < currentIndex
+                  ? results[index]?.skipped ? 'bg-gray-300' : 'bg-green-500'
+                  : index === currentIndex ? 'bg-blue-500' : 'bg-gray-200'
+              }`}
+            />
+          ))}
+        </div>
+
+        {currentIndex > 0 && results[currentIndex - 1] && !results[currentIndex - 1].skipped && (
+          <p className="text-center text-green-700 bg-green-50 rounded-lg p-3 mb-6 text-sm">
+            {t('workout.pointsCheer', { count: results[currentIndex - 1].pointsEarned })}
+          </p>
+        )}
+
+        <div className="text-center mb-8">
+          <p className="text-sm text-gray-500 mb-2">{t('workout.next')}</p>
+          {phase && (
+            <div
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium text-white mb-3"
+              style={{ backgroundColor: phase.color }}
+            >
+              <span>{phase.icon}</span>
+              {t(phase.titleKey)}
+            </div>
+          )}
+          <h2 className="text-2xl font-bold text-gray-900 mb-3">
+            {currentExercise && localize({ en: currentExercise.name_en, ru: currentExercise.name_ru })}
+          </h2>
+          <div className="flex items-center justify-center gap-4 text-sm text-gray-600">
+            <span className="flex items-center gap-1">
+              <Clock className="w-4 h-4 text-blue-500" />
+              {t('common.minutes', { count: currentExercise?.estimated_duration_minutes ?? 0 })}
+            </span>
+            <span className="flex items-center gap-1">
+              <Star className="w-4 h-4 text-yellow-500" />
+              {t('common.points', { count: currentExercise?.adventure_points ?? 0 })}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={skipCurrent}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            <SkipForward className="w-5 h-5" />
+            {t('workout.skip')}
+          </button>
+          <button
+            onClick={() => setPlayerState('exercise')}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            <Play className="w-5 h-5" />
+            {t('workout.go')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutPlayer;
@@ -1,12 +1,13 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import type { User } from '@supabase/supabase-js';
-
-interface PrivacySettings {
-  dataSharing: boolean;
-  analytics: boolean;
-  marketing: boolean;
-}
+import { deleteChildData, type DeletionReceipt } from '../lib/childData';
+import { ageFromDateOfBirth } from '../lib/childProfile';
+import type { AccessLevel, RelationshipType } from '../lib/guardians';
+import { endChildSession, fetchChildSession, startChildSession, type ChildSession } from '../lib/childLogin';
+import { normalizePrivacySettings, type PrivacySettings } from '../lib/accountSettings';
+import { setAnalyticsProfile } from '../lib/telemetry';
+import { setOfflineQueueOwner } from '../lib/offlineQueue';
 
 interface Profile {
   profile_id: string;
@@ -19,6 +20,8 @@ interface Profile {
   parent_consent_date: string | null;
   privacy_settings: PrivacySettings | null;
   preferred_language: string | null;
+  timezone: string | null;
+  archived_at: string | null;
   created_at: string | null;
   updated_at: string | null;
 }
@@ -30,28 +33,59 @@ interface Child {
   age: number;
   parent_consent_given: boolean | null;
   parent_consent_date: string | null;
+  archived_at: string | null;
+  relationship_type: RelationshipType;
+  access_level: AccessLevel;
+  // Null for the parent who added the child; only they can delete the child or change consent
+  invited_by: string | null;
 }
 
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
+  // Set when a child signed in on a family device; profile is null then
+  childSession: ChildSession | null;
   children: Child[];
+  archivedChildren: Child[];
+  // False until the first list of children has arrived for the signed-in parent
+  childrenLoaded: boolean;
   loading: boolean;
-  signUp: (email: string, password: string, displayName: string) => Promise<void>;
+  // Set after following a password reset link, until a new password is saved
+  passwordRecovery: boolean;
+  // Resolves true when the account still has to be confirmed from the email link
+  signUp: (email: string, password: string, displayName: string) => Promise<boolean>;
   signIn: (email: string, password: string) => Promise<void>;
+  signInWithOtp: (email: string) => Promise<void>;
+  resendVerification: (email: string) => Promise<void>;
+  resetPassword: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  signInChild: (deviceToken: string, childProfileId: string, secret: string) => Promise<boolean>;
   signOut: () => Promise<void>;
   addChild: (name: string, dateOfBirth: string) => Promise<void>;
+  updateChild: (childProfileId: string, name: string, dateOfBirth: string) => Promise<void>;
+  setChildArchived: (childProfileId: string, archived: boolean) => Promise<void>;
+  reauthenticate: (password: string) => Promise<void>;
+  deleteChild: (childProfileId: string, confirmName: string) => Promise<DeletionReceipt>;
   refreshProfile: () => Promise<void>;
   refreshChildren: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Email links come back to the app root, which picks the session up from the URL
+const authRedirectUrl = () => window.location.origin;
+
 const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [childSession, setChildSession] = useState<ChildSession | null>(null);
   const [childrenList, setChildrenList] = useState<Child[]>([]);
+  const [archivedChildren, setArchivedChildren] = useState<Child[]>([]);
+  const [childrenLoaded, setChildrenLoaded] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  // getSession and the auth listener can both find a new account without a profile
+  const profileCreation = useRef<Promise<void> | null>(null);
 
   // Add loading timeout to prevent infinite loading
   useEffect(() => {
@@ -65,8 +99,47 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     return () => clearTimeout(timeout);
   }, [loading]);
 
+  // Parents who confirmed their email or used a magic link sign in before any profile exists
+  const createParentProfile = useCallback((authUser: User) => {
+    if (!profileCreation.current) {
+      profileCreation.current = (async () => {
+        console.log('🔵 Creating profile for new user:', authUser.id);
+        const { data: profileData, error: profileError } = await supabase
+          .from('profiles')
+          .insert({
+            user_id: authUser.id,
+            email: authUser.email,
+            display_name: authUser.user_metadata?.display_name || authUser.email?.split('@')[0] || 'User',
+            is_child: false,
+            privacy_settings: { dataSharing: false, analytics: false, marketing: false },
+            preferred_language: 'en'
+          })
+          .select()
+          .single();
+
+        if (profileError) {
+          throw new Error(`Failed to create profile: ${profileError.message}`);
+        }
+
+        // Initialize user progress
+        await supabase
+          .from('user_progress')
+          .insert({
+            user_id: profileData.profile_id,
+            weekly_points_goal: 100,
+            monthly_goal_exercises: 20
+          });
+        console.log('✅ Profile created');
+      })().finally(() => {
+        profileCreation.current = null;
+      });
+    }
+    return profileCreation.current;
+  }, []);
+
   // Wrap loadProfile in useCallback to prevent re-renders
-  const loadProfile = useCallback(async (userId: string, retryCount = 0) => {
+  const loadProfile = useCallback(async (authUser: User, retryCount = 0): Promise<void> => {
+    const userId = authUser.id;
     try {
       console.log('🔵 Loading profile for userId:', userId, retryCount > 0 ? `(retry ${retryCount})` : '');
       const { data, error } = await supabase
@@ -81,7 +154,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         // Retry up to 2 times for network errors
         if (retryCount < 2 && (error.message.includes('network') || error.message.includes('timeout'))) {
           console.log('🔄 Retrying profile load...');
-          setTimeout(() => loadProfile(userId, retryCount + 1), 1000);
+          setTimeout(() => loadProfile(authUser, retryCount + 1), 1000);
           return;
         }
         
@@ -91,6 +164,10 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       }
       
       console.log('✅ Profile loaded:', data ? 'found' : 'not found');
+      if (!data && retryCount === 0) {
+        await createParentProfile(authUser);
+        return loadProfile(authUser, retryCount + 1);
+      }
       setProfile(data);
     } catch (err) {
       console.error('🔴 Error loading profile:', err);
@@ -98,13 +175,25 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       // Retry for unexpected errors
       if (retryCount < 2) {
         console.log('🔄 Retrying profile load due to error...');
-        setTimeout(() => loadProfile(userId, retryCount + 1), 1000);
+        setTimeout(() => loadProfile(authUser, retryCount + 1), 1000);
         return;
       }
       
       console.warn('⚠️ Profile load failed after retries, setting profile to null');
       setProfile(null);
     }
+  }, [createParentProfile]);
+
+  // Anonymous users are children signed in on a family device, or nobody yet
+  const loadChildSession = useCallback(async () => {
+    try {
+      const session = await fetchChildSession();
+      console.log('✅ Child session loaded:', session ? 'found' : 'not found');
+      setChildSession(session);
+    } catch (err) {
+      console.error('🔴 Error loading child session:', err);
+      setChildSession(null);
+    }
   }, []);
 
   useEffect(() => {
@@ -138,7 +227,11 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
           
           console.log('🔵 Loading profile for user:', session.user.id);
           setUser(session.user);
-          await loadProfile(session.user.id);
+          if (session.user.is_anonymous) {
+            await loadChildSession();
+          } else {
+            await loadProfile(session.user);
+          }
         } else {
           setUser(null);
           setProfile(null);
@@ -164,14 +257,29 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         
         try {
           setUser(session?.user ?? null);
+
+          // The reset link signs the parent in; they must choose a new password before going on
+          if (event === 'PASSWORD_RECOVERY') {
+            setPasswordRecovery(true);
+          } else if (event === 'SIGNED_OUT') {
+            setPasswordRecovery(false);
+          }
           
-          if (session?.user) {
+          if (session?.user?.is_anonymous) {
+            console.log('🔵 Auth change: loading child session for user:', session.user.id);
+            setProfile(null);
+            await loadChildSession();
+          } else if (session?.user) {
             console.log('🔵 Auth change: loading profile for user:', session.user.id);
-            await loadProfile(session.user.id);
+            setChildSession(null);
+            await loadProfile(session.user);
           } else {
             console.log('🔵 Auth change: clearing profile and children');
             setProfile(null);
+            setChildSession(null);
             setChildrenList([]);
+            setArchivedChildren([]);
+            setChildrenLoaded(false);
           }
           
           console.log('🔵 Auth change: setting loading to false');
@@ -184,7 +292,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     );
 
     return () => subscription.unsubscribe();
-  }, [loadProfile]);
+  }, [loadProfile, loadChildSession]);
 
   // Move loadChildren definition up
   const loadChildren = useCallback(async () => {
@@ -195,13 +303,17 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         .from('parent_child_relationships')
         .select(`
           child_id,
+          relationship_type,
+          access_level,
+          invited_by,
           profiles!parent_child_relationships_child_id_fkey (
             profile_id,
             display_name,
             date_of_birth,
             is_child,
             parent_consent_given,
-            parent_consent_date
+            parent_consent_date,
+            archived_at
           )
         `)
         .eq('parent_id', profile.profile_id)
@@ -213,9 +325,12 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       }
 
       const children = data.map(item => {
-        const childProfile = item.profiles;
-        const birthDate = childProfile.date_of_birth ? new Date(childProfile.date_of_birth) : null;
-        const age = birthDate ? new Date().getFullYear() - birthDate.getFullYear() : 0;
+        // The child_id foreign key makes this a single profile, though it is typed as a list
+        const childProfile = item.profiles as unknown as Pick<
+          Profile,
+          'profile_id' | 'display_name' | 'date_of_birth' | 'parent_consent_given' | 'parent_consent_date' | 'archived_at'
+        >;
+        const age = childProfile.date_of_birth ? ageFromDateOfBirth(childProfile.date_of_birth) : 0;
         
         return {
           profile_id: childProfile.profile_id,
@@ -224,13 +339,22 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
           age,
           parent_consent_given: childProfile.parent_consent_given,
           parent_consent_date: childProfile.parent_consent_date,
+          archived_at: childProfile.archived_at,
+          relationship_type: item.relationship_type as RelationshipType,
+          access_level: item.access_level as AccessLevel,
+          invited_by: item.invited_by,
         };
       });
 
-      setChildrenList(children);
+      // Archived children stay linked but are hidden until restored
+      setChildrenList(children.filter(child => !child.archived_at));
+      setArchivedChildren(children.filter(child => child.archived_at));
     } catch (error) {
       console.error('Error loading children:', error);
       setChildrenList([]);
+      setArchivedChildren([]);
+    } finally {
+      setChildrenLoaded(true);
     }
   }, [profile]);
 
@@ -240,6 +364,18 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     }
   }, [profile, loadChildren]);
 
+  // Usage analytics follow the parent's privacy settings; child sessions have no profile here
+  useEffect(() => {
+    const analyticsAllowed = profile && !profile.is_child && normalizePrivacySettings(profile.privacy_settings).analytics;
+    setAnalyticsProfile(analyticsAllowed ? profile.profile_id : null);
+  }, [profile]);
+
+  // Sessions recorded offline belong to the account that was signed in when they were queued
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    setOfflineQueueOwner(userId);
+  }, [userId]);
+
 
 
   const signUp = async (email: string, password: string, displayName: string) => {
@@ -247,6 +383,11 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       const { data: authData, error: authError } = await supabase.auth.signUp({
         email,
         password,
+        options: {
+          // Read back when the profile is created on first sign-in
+          data: { display_name: displayName },
+          emailRedirectTo: authRedirectUrl(),
+        },
       });
 
       if (authError) {
@@ -254,7 +395,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
             'code' in authError && authError.code === 'user_already_exists') {
           // Try to sign in instead
           await signIn(email, password);
-          return;
+          return false;
         }
         throw authError;
       }
@@ -263,33 +404,9 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         throw new Error('Failed to create user account');
       }
 
-      // Create profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .insert({
-          user_id: authData.user.id,
-          email,
-          display_name: displayName,
-          is_child: false,
-          privacy_settings: { dataSharing: false, analytics: false, marketing: false },
-          preferred_language: 'en'
-        })
-        .select()
-        .single();
-
-      if (profileError) {
-        throw new Error(`Failed to create profile: ${profileError.message}`);
-      }
-
-      // Initialize user progress
-      await supabase
-        .from('user_progress')
-        .insert({
-          user_id: profileData.profile_id,
-          weekly_points_goal: 100,
-          monthly_goal_exercises: 20
-        });
-
+      // Without a session the project requires email confirmation first;
+      // otherwise the auth listener creates the profile
+      return !authData.session;
     } catch (error: unknown) {
       throw new Error(error instanceof Error ? error.message : 'Registration failed');
     }
@@ -309,56 +426,80 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
       if (!data.user) {
         throw new Error('Sign in failed');
       }
+    } catch (error: unknown) {
+      throw new Error(error instanceof Error ? error.message : 'Sign in failed');
+    }
+  };
 
-      // Check if profile exists, create if missing
-      const { data: existingProfile } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', data.user.id)
-        .maybeSingle();
+  // Passwordless sign-in for existing parents; the email link completes it
+  const signInWithOtp = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: authRedirectUrl(),
+      },
+    });
+
+    if (error) {
+      throw new Error(`Failed to send sign-in link: ${error.message}`);
+    }
+  };
 
-      if (!existingProfile) {
-        // Create profile for existing auth user
-        const { data: newProfile, error: profileError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: data.user.id,
-            email: data.user.email,
-            display_name: data.user.email?.split('@')[0] || 'User',
-            is_child: false,
-            privacy_settings: { dataSharing: false, analytics: false, marketing: false },
-            preferred_language: 'en'
-          })
-          .select()
-          .single();
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: authRedirectUrl() },
+    });
 
-        if (profileError) {
-          throw new Error(`Failed to create profile: ${profileError.message}`);
-        }
+    if (error) {
+      throw new Error(`Failed to resend confirmation email: ${error.message}`);
+    }
+  };
 
-        // Initialize user progress
-        await supabase
-          .from('user_progress')
-          .insert({
-            user_id: newProfile.profile_id,
-            weekly_points_goal: 100,
-            monthly_goal_exercises: 20
-          });
-      }
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: authRedirectUrl(),
+    });
 
-    } catch (error: unknown) {
-      throw new Error(error instanceof Error ? error.message : 'Sign in failed');
+    if (error) {
+      throw new Error(`Failed to send reset email: ${error.message}`);
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      throw new Error(`Failed to update password: ${error.message}`);
+    }
+
+    setPasswordRecovery(false);
+  };
+
+  const signInChild = async (deviceToken: string, childProfileId: string, secret: string) => {
+    const signedIn = await startChildSession(deviceToken, childProfileId, secret);
+    if (signedIn) {
+      await loadChildSession();
     }
+    return signedIn;
   };
 
   const signOut = async () => {
     try {
+      if (childSession) {
+        await endChildSession();
+      }
       const { error } = await supabase.auth.signOut();
       if (error) {
         throw error;
       }
       setProfile(null);
+      setChildSession(null);
       setChildrenList([]);
+      setArchivedChildren([]);
+      setChildrenLoaded(false);
     } catch (error: unknown) {
       throw new Error(error instanceof Error ? error.message : 'Sign out failed');
     }
@@ -399,25 +540,105 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     }
   };
 
-  const refreshProfile = async () => {
-    if (user) {
-      await loadProfile(user.id);
+  const updateChild = async (childProfileId: string, name: string, dateOfBirth: string) => {
+    console.log('🔵 Updating child profile:', { childProfileId, name, dateOfBirth });
+
+    const { error } = await supabase.rpc('update_child_profile', {
+      p_child_id: childProfileId,
+      p_display_name: name,
+      p_date_of_birth: dateOfBirth,
+    });
+
+    if (error) {
+      console.error('🔴 Child profile update failed:', error);
+      throw new Error(`Failed to update child profile: ${error.message}`);
     }
+
+    console.log('✅ Child profile updated');
+    await loadChildren();
   };
 
-  const refreshChildren = async () => {
+  const setChildArchived = async (childProfileId: string, archived: boolean) => {
+    const { error } = await supabase.rpc('set_child_archived', {
+      p_child_id: childProfileId,
+      p_archived: archived,
+    });
+
+    if (error) {
+      console.error('🔴 Child archive change failed:', error);
+      throw new Error(`Failed to ${archived ? 'archive' : 'restore'} child: ${error.message}`);
+    }
+
+    console.log(archived ? '✅ Child archived' : '✅ Child restored');
     await loadChildren();
   };
 
+  // Confirms the parent's password again before destructive actions
+  const reauthenticate = async (password: string) => {
+    if (!user?.email) {
+      throw new Error('Must be logged in to confirm your password');
+    }
+
+    const { error } = await supabase.auth.signInWithPassword({
+      email: user.email,
+      password,
+    });
+
+    if (error) {
+      throw new Error('Password is incorrect');
+    }
+  };
+
+  const deleteChild = async (childProfileId: string, confirmName: string) => {
+    if (!profile) {
+      throw new Error('Must be logged in to delete a child');
+    }
+
+    console.log('🔵 Deleting child data:', { childProfileId, parentProfileId: profile.profile_id });
+
+    try {
+      const receipt = await deleteChildData(childProfileId, confirmName);
+      console.log('✅ Child data deleted, receipt:', receipt.receipt_code);
+      await loadChildren();
+      return receipt;
+    } catch (error: unknown) {
+      console.error('🔴 deleteChild failed:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to delete child');
+    }
+  };
+
+  const refreshProfile = useCallback(async () => {
+    if (user) {
+      await loadProfile(user);
+    }
+  }, [user, loadProfile]);
+
+  const refreshChildren = useCallback(async () => {
+    await loadChildren();
+  }, [loadChildren]);
+
   const value: AuthContextType = {
     user,
     profile,
+    childSession,
     children: childrenList,
+    archivedChildren,
+    childrenLoaded,
     loading,
+    passwordRecovery,
     signUp,
     signIn,
+    signInWithOtp,
+    resendVerification,
+    resetPassword,
+    updatePassword,
+    signInChild,
     signOut,
     addChild,
+    updateChild,
+    setChildArchived,
+    reauthenticate,
+    deleteChild,
     refreshProfile,
     refreshChildren,
   };
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+import type { Language, MessageKey } from './i18n';
+
+export interface PrivacySettings {
+  dataSharing: boolean;
+  analytics: boolean;
+  marketing: boolean;
+}
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  dataSharing: false,
+  analytics: false,
+  marketing: false,
+};
+
+export const PRIVACY_OPTIONS: Array<{ key: keyof PrivacySettings; labelKey: MessageKey; descriptionKey: MessageKey }> = [
+  { key: 'analytics', labelKey: 'settings.analytics', descriptionKey: 'settings.analyticsHint' },
+  { key: 'dataSharing', labelKey: 'settings.dataSharing', descriptionKey: 'settings.dataSharingHint' },
+  { key: 'marketing', labelKey: 'settings.marketing', descriptionKey: 'settings.marketingHint' },
+];
+
+// Profiles created before these settings existed may be missing some switches
+export const normalizePrivacySettings = (settings: Partial<PrivacySettings> | null | undefined): PrivacySettings => ({
+  dataSharing: settings?.dataSharing === true,
+  analytics: settings?.analytics === true,
+  marketing: settings?.marketing === true,
+});
+
+export const updateAccountSettings = async (
+  displayName: string,
+  preferredLanguage: Language,
+  privacySettings: PrivacySettings
+) => {
+  const { error } = await supabase.rpc('update_account_settings', {
+    p_display_name: displayName,
+    p_preferred_language: preferredLanguage,
+    p_privacy_settings: privacySettings,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save settings: ${error.message}`);
+  }
+};
+
+// Supabase emails a confirmation link to the new address; the profile follows once it is confirmed
+export const requestEmailChange = async (email: string) => {
+  const { error } = await supabase.auth.updateUser(
+    { email },
+    { emailRedirectTo: window.location.origin }
+  );
+
+  if (error) {
+    throw new Error(`Failed to change email: ${error.message}`);
+  }
+};
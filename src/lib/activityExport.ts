@@ -0,0 +1,273 @@
+import { supabase } from './supabase';
+import { LANGUAGES, localize, translate, type Language } from './i18n';
+
+export type ExportFormat = 'csv' | 'json' | 'pdf';
+
+export interface ActivityExportRow {
+  session_id: string;
+  completed_at: string;
+  exercise_en: string;
+  exercise_ru: string;
+  category: string;
+  duration_minutes: number | null;
+  sets_completed: number | null;
+  reps_completed: number | null;
+  fun_rating: number | null;
+  effort_rating: number | null;
+  points_earned: number;
+}
+
+export interface ProgressTotals {
+  total_exercises_completed: number;
+  total_minutes_exercised: number;
+  total_points_earned: number;
+  current_streak_days: number;
+  longest_streak_days: number;
+  achievements_earned: number;
+  adventures_completed: number;
+}
+
+export interface ActivityExport {
+  childName: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  rows: ActivityExportRow[];
+  totals: ProgressTotals | null;
+}
+
+const CSV_COLUMNS: Array<keyof ActivityExportRow> = [
+  'completed_at',
+  'exercise_en',
+  'exercise_ru',
+  'category',
+  'duration_minutes',
+  'sets_completed',
+  'reps_completed',
+  'fun_rating',
+  'effort_rating',
+  'points_earned',
+  'session_id',
+];
+
+/**
+ * Loads a child's completed sessions between two local dates (inclusive)
+ * together with their lifetime totals from user_progress.
+ */
+export const fetchActivityExport = async (
+  childProfileId: string,
+  childName: string,
+  from: string,
+  to: string
+): Promise<ActivityExport> => {
+  const start = new Date(`${from}T00:00:00`);
+  const end = new Date(`${to}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+
+  const [{ data: sessions, error }, { data: progress, error: progressError }] = await Promise.all([
+    supabase
+      .from('exercise_sessions')
+      .select(`
+        id,
+        completed_at,
+        duration_minutes,
+        sets_completed,
+        reps_completed,
+        fun_rating,
+        effort_rating,
+        points_earned,
+        exercise:exercises(name_en, name_ru, category:exercise_categories(name_en))
+      `)
+      .eq('user_id', childProfileId)
+      .not('completed_at', 'is', null)
+      .gte('completed_at', start.toISOString())
+      .lt('completed_at', end.toISOString())
+      .order('completed_at'),
+    supabase
+      .from('user_progress')
+      .select('total_exercises_completed, total_minutes_exercised, total_points_earned, current_streak_days, longest_streak_days, achievements_earned, adventures_completed')
+      .eq('user_id', childProfileId)
+      .maybeSingle(),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load activity history: ${error.message}`);
+  }
+  if (progressError) {
+    throw new Error(`Failed to load progress totals: ${progressError.message}`);
+  }
+
+  const rows = ((sessions || []) as unknown as Array<{
+    id: string;
+    completed_at: string;
+    duration_minutes: number | string | null;
+    sets_completed: number | null;
+    reps_completed: number | null;
+    fun_rating: number | null;
+    effort_rating: number | null;
+    points_earned: number | null;
+    exercise: { name_en: string; name_ru: string; category: { name_en: string } | null } | null;
+  }>).map(session => ({
+    session_id: session.id,
+    completed_at: session.completed_at,
+    exercise_en: session.exercise?.name_en ?? '',
+    exercise_ru: session.exercise?.name_ru ?? '',
+    category: session.exercise?.category?.name_en ?? '',
+    duration_minutes: session.duration_minutes == null ? null : Number(session.duration_minutes),
+    sets_completed: session.sets_completed,
+    reps_completed: session.reps_completed,
+    fun_rating: session.fun_rating,
+    effort_rating: session.effort_rating,
+    points_earned: session.points_earned ?? 0,
+  }));
+
+  return {
+    childName,
+    from,
+    to,
+    generatedAt: new Date().toISOString(),
+    rows,
+    totals: progress
+      ? {
+          ...(progress as ProgressTotals),
+          total_minutes_exercised: Number(progress.total_minutes_exercised ?? 0),
+        }
+      : null,
+  };
+};
+
+const escapeCsv = (value: unknown) => {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (data: ActivityExport) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...data.rows.map(row => CSV_COLUMNS.map(column => escapeCsv(row[column])).join(',')),
+  ].join('\r\n');
+
+export const toJson = (data: ActivityExport) => JSON.stringify(data, null, 2);
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const summarizeExport = (data: ActivityExport) => ({
+  sessions: data.rows.length,
+  minutes: Math.round(data.rows.reduce((sum, row) => sum + (row.duration_minutes ?? 0), 0)),
+  points: data.rows.reduce((sum, row) => sum + row.points_earned, 0),
+  activeDays: new Set(data.rows.map(row => new Date(row.completed_at).toDateString())).size,
+});
+
+/**
+ * Printable HTML summary. Browsers save it as PDF from the print dialog, which
+ * keeps us free of a PDF library for one report.
+ */
+export const toPrintableHtml = (data: ActivityExport, language: Language) => {
+  const summary = summarizeExport(data);
+  const totals = data.totals;
+  const t = (key: Parameters<typeof translate>[1], params?: Parameters<typeof translate>[2]) =>
+    escapeHtml(translate(language, key, params));
+  const formatDateTime = (value: string) => new Date(value).toLocaleString(LANGUAGES[language].locale);
+
+  const totalsRows = totals
+    ? ([
+        ['report.exercisesCompleted', totals.total_exercises_completed],
+        ['report.minutesExercised', Math.round(totals.total_minutes_exercised)],
+        ['report.pointsEarned', totals.total_points_earned],
+        ['report.currentStreak', totals.current_streak_days],
+        ['report.longestStreak', totals.longest_streak_days],
+        ['report.rewardsEarned', totals.achievements_earned],
+        ['report.adventuresCompleted', totals.adventures_completed],
+      ] as const)
+        .map(([key, value]) => `<tr><th>${t(key)}</th><td>${escapeHtml(value ?? 0)}</td></tr>`)
+        .join('')
+    : `<tr><td colspan="2">${t('report.noTotals')}</td></tr>`;
+
+  const sessionRows = data.rows
+    .map(row => `
+      <tr>
+        <td>${escapeHtml(formatDateTime(row.completed_at))}</td>
+        <td>${escapeHtml(localize(language, { en: row.exercise_en, ru: row.exercise_ru }))}</td>
+        <td>${escapeHtml(row.category)}</td>
+        <td>${escapeHtml(row.duration_minutes ?? '')}</td>
+        <td>${escapeHtml(row.fun_rating ?? '')}</td>
+        <td>${escapeHtml(row.effort_rating ?? '')}</td>
+        <td>${escapeHtml(row.points_earned)}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${t('report.title', { name: data.childName })}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  p { color: #4B5563; margin: 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #E5E7EB; }
+  .summary { display: flex; gap: 24px; margin-top: 16px; }
+  .summary div { font-size: 13px; }
+  .summary strong { display: block; font-size: 20px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${t('report.heading', { name: data.childName })}</h1>
+  <p>${escapeHtml(data.from)} – ${escapeHtml(data.to)} · ${t('report.generated', { date: formatDateTime(data.generatedAt) })}</p>
+  <div class="summary">
+    <div><strong>${summary.sessions}</strong>${t('report.sessions')}</div>
+    <div><strong>${summary.minutes}</strong>${t('report.minutes')}</div>
+    <div><strong>${summary.activeDays}</strong>${t('report.activeDays')}</div>
+    <div><strong>${summary.points}</strong>${t('report.points')}</div>
+  </div>
+  <h2>${t('report.totals')}</h2>
+  <table>${totalsRows}</table>
+  <h2>${t('report.sessionsHeading')}</h2>
+  <table>
+    <thead><tr><th>${t('report.date')}</th><th>${t('report.exercise')}</th><th>${t('report.category')}</th><th>${t('report.minutesColumn')}</th><th>${t('report.fun')}</th><th>${t('report.effort')}</th><th>${t('report.pointsColumn')}</th></tr></thead>
+    <tbody>${sessionRows || `<tr><td colspan="7">${t('report.noSessions')}</td></tr>`}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Must run straight from the click, before any await, or pop-up blockers stop it
+export const openPrintWindow = (): Window => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked: allow pop-ups to print the summary');
+  }
+  return printWindow;
+};
+
+export const printInWindow = (printWindow: Window, html: string) => {
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const exportFilename = (childName: string, from: string, to: string, extension: string) =>
+  `kidsfit-${childName.trim().toLowerCase().replace(/[^a-z0-9а-яё]+/gi, '-') || 'child'}-${from}-to-${to}.${extension}`;
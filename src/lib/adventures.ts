@@ -0,0 +1,204 @@
+import { supabase } from './supabase';
+import type { Exercise } from '../types/Exercise';
+import type { I18nContextType } from './i18n';
+
+export type AdventureStatus = 'not_started' | 'in_progress' | 'completed' | 'paused';
+
+export interface Adventure {
+  id: string;
+  title: string;
+  title_ru: string | null;
+  description: string | null;
+  description_ru: string | null;
+  story_theme: string;
+  total_exercises: number;
+  difficulty_level: 'Beginner' | 'Intermediate' | 'Advanced';
+  estimated_days: number;
+  reward_points: number;
+  display_order: number;
+}
+
+export interface UserAdventure {
+  id: string;
+  adventure_id: string;
+  status: AdventureStatus;
+  progress_percentage: number;
+  exercises_completed: number;
+  total_points_earned: number;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface UnlockStatus {
+  item_type: 'adventure' | 'path';
+  item_id: string;
+  unlocked: boolean;
+  progress: number;
+  requirement: string | null;
+  current_value: number | null;
+  target_value: number | null;
+}
+
+export interface AdventureWithProgress extends Adventure {
+  enrollment: UserAdventure | null;
+  // null when unlock status could not be loaded; the server still enforces it
+  unlock: UnlockStatus | null;
+}
+
+export type MapStepState = 'done' | 'next' | 'upcoming';
+
+export interface AdventureMapStep {
+  exercise: Exercise;
+  sequenceOrder: number;
+  isRequired: boolean;
+  pointsReward: number;
+  state: MapStepState;
+}
+
+export const ADVENTURE_EMOJIS: Record<string, string> = {
+  jungle: '🌴',
+  space: '🚀',
+  ocean: '🌊',
+  superhero: '🦸',
+};
+
+export const getAdventureEmoji = (theme: string) => ADVENTURE_EMOJIS[theme] || '⭐';
+
+/**
+ * Kid-facing text for what is still needed to unlock an item, e.g.
+ * "Finish 2 more adventures". Multi-part criteria get a generic hint.
+ */
+export const describeUnlockRequirement = (status: UnlockStatus, t: I18nContextType['t']): string => {
+  if (status.current_value == null || status.target_value == null) {
+    return t('unlock.keepTraining');
+  }
+
+  const count = Math.max(status.target_value - status.current_value, 1);
+  switch (status.requirement) {
+    case 'completed_adventures':
+    case 'adventures_completed':
+      return t('unlock.adventures', { count });
+    case 'completed_paths':
+      return t('unlock.paths', { count });
+    default:
+      return t('unlock.remaining', { count });
+  }
+};
+
+export const fetchUnlockStatus = async (childProfileId: string): Promise<UnlockStatus[]> => {
+  const { data, error } = await supabase.rpc('get_unlock_status', { p_user_id: childProfileId });
+
+  if (error) {
+    throw new Error(`Failed to load unlock status: ${error.message}`);
+  }
+
+  return (data || []) as UnlockStatus[];
+};
+
+export const fetchChildAdventures = async (childProfileId: string): Promise<AdventureWithProgress[]> => {
+  const [{ data: adventures, error }, { data: enrollments, error: enrollmentError }, unlockStatus] = await Promise.all([
+    supabase.from('adventures').select('*').eq('is_active', true).order('display_order'),
+    supabase.from('user_adventures').select('*').eq('user_id', childProfileId),
+    fetchUnlockStatus(childProfileId).catch(err => {
+      console.warn('⚠️ Unlock status unavailable:', err);
+      return [] as UnlockStatus[];
+    }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load adventures: ${error.message}`);
+  }
+  if (enrollmentError) {
+    throw new Error(`Failed to load adventure progress: ${enrollmentError.message}`);
+  }
+
+  return (adventures || []).map(adventure => ({
+    ...(adventure as Adventure),
+    enrollment: ((enrollments || []) as UserAdventure[]).find(e => e.adventure_id === adventure.id) || null,
+    unlock: unlockStatus.find(u => u.item_type === 'adventure' && u.item_id === adventure.id) || null,
+  }));
+};
+
+export const startAdventure = async (childProfileId: string, adventureId: string): Promise<UserAdventure> => {
+  const { data, error } = await supabase.rpc('start_adventure', {
+    p_user_id: childProfileId,
+    p_adventure_id: adventureId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to start adventure: ${error.message}`);
+  }
+
+  return data as UserAdventure;
+};
+
+/**
+ * Builds the adventure map: every exercise in sequence order, marked done if
+ * completed since the child started the adventure. The first required
+ * exercise that is not done yet is the next stop.
+ */
+export const fetchAdventureMap = async (
+  childProfileId: string,
+  adventureId: string,
+  startedAt: string | null
+): Promise<AdventureMapStep[]> => {
+  const { data, error } = await supabase
+    .from('adventure_exercises')
+    .select(`
+      sequence_order,
+      is_required,
+      points_reward,
+      exercise:exercises(
+        *,
+        category:exercise_categories(id, name_ru, name_en, color_hex, icon)
+      )
+    `)
+    .eq('adventure_id', adventureId)
+    .order('sequence_order');
+
+  if (error) {
+    throw new Error(`Failed to load adventure map: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Array<{
+    sequence_order: number;
+    is_required: boolean;
+    points_reward: number;
+    exercise: Exercise;
+  }>;
+
+  let completedIds = new Set<string>();
+  if (startedAt && rows.length > 0) {
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('exercise_sessions')
+      .select('exercise_id')
+      .eq('user_id', childProfileId)
+      .in('exercise_id', rows.map(row => row.exercise.id))
+      .not('completed_at', 'is', null)
+      .gte('completed_at', startedAt);
+
+    if (sessionsError) {
+      throw new Error(`Failed to load adventure sessions: ${sessionsError.message}`);
+    }
+    completedIds = new Set((sessions || []).map(session => session.exercise_id as string));
+  }
+
+  let nextAssigned = !startedAt;
+  return rows.map(row => {
+    let state: MapStepState = 'upcoming';
+    if (completedIds.has(row.exercise.id)) {
+      state = 'done';
+    } else if (!nextAssigned && row.is_required) {
+      state = 'next';
+      nextAssigned = true;
+    }
+
+    return {
+      exercise: row.exercise,
+      sequenceOrder: row.sequence_order,
+      isRequired: row.is_required,
+      pointsReward: row.points_reward,
+      state,
+    };
+  });
+};
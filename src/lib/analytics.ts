@@ -0,0 +1,245 @@
+import { supabase } from './supabase';
+import { LANGUAGES, localize, translate, type Language, type MessageKey } from './i18n';
+
+export type AnalyticsRange = '7d' | '30d' | '90d';
+
+export const ANALYTICS_RANGES: Record<AnalyticsRange, { labelKey: MessageKey; days: number }> = {
+  '7d': { labelKey: 'analytics.range.7d', days: 7 },
+  '30d': { labelKey: 'analytics.range.30d', days: 30 },
+  '90d': { labelKey: 'analytics.range.90d', days: 90 },
+};
+
+export interface AnalyticsSession {
+  id: string;
+  user_id: string;
+  completed_at: string;
+  duration_minutes: number | null;
+  fun_rating: number | null;
+  effort_rating: number | null;
+  exercise: {
+    id: string;
+    category: { name_en: string; name_ru: string; color_hex: string } | null;
+    muscles: Array<{
+      is_primary: boolean;
+      muscle: { id: string; name_en: string; name_ru: string } | null;
+    }>;
+  } | null;
+}
+
+export interface LabeledValue {
+  key: string;
+  label: string;
+  value: number;
+  color?: string;
+}
+
+export interface RatingPoint {
+  key: string;
+  label: string;
+  fun: number | null;
+  effort: number | null;
+}
+
+// Local calendar day key (YYYY-MM-DD) so buckets match what the parent sees
+const toDayKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const toAxisLabel = (date: Date, language: Language) =>
+  date.toLocaleDateString(LANGUAGES[language].locale, { month: 'short', day: 'numeric' });
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Steps by calendar days rather than 24 hours, so local midnights stay put across DST changes
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Weeks start on Monday, like the goal rings
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  const offset = (day.getDay() + 6) % 7;
+  return addDays(day, -offset);
+};
+
+export const getRangeStart = (range: AnalyticsRange, now = new Date()) =>
+  addDays(startOfDay(now), -(ANALYTICS_RANGES[range].days - 1));
+
+export const fetchAnalyticsSessions = async (
+  profileIds: string[],
+  range: AnalyticsRange
+): Promise<AnalyticsSession[]> => {
+  if (profileIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('exercise_sessions')
+    .select(`
+      id,
+      user_id,
+      completed_at,
+      duration_minutes,
+      fun_rating,
+      effort_rating,
+      exercise:exercises(
+        id,
+        category:exercise_categories(name_en, name_ru, color_hex),
+        muscles:exercise_muscles(is_primary, muscle:muscle_groups(id, name_en, name_ru))
+      )
+    `)
+    .in('user_id', profileIds)
+    .not('completed_at', 'is', null)
+    .gte('completed_at', getRangeStart(range).toISOString())
+    .order('completed_at');
+
+  if (error) {
+    throw new Error(`Failed to load analytics: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as AnalyticsSession[]).map(session => ({
+    ...session,
+    duration_minutes: session.duration_minutes == null ? null : Number(session.duration_minutes),
+  }));
+};
+
+export const minutesPerDay = (
+  sessions: AnalyticsSession[],
+  range: AnalyticsRange,
+  language: Language
+): LabeledValue[] => {
+  const start = getRangeStart(range);
+  const buckets: LabeledValue[] = Array.from({ length: ANALYTICS_RANGES[range].days }, (_, index) => {
+    const day = addDays(start, index);
+    return {
+      key: toDayKey(day),
+      label: toAxisLabel(day, language),
+      value: 0,
+    };
+  });
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+
+  sessions.forEach(session => {
+    const bucket = byKey.get(toDayKey(new Date(session.completed_at)));
+    if (bucket) bucket.value += session.duration_minutes ?? 0;
+  });
+
+  return buckets;
+};
+
+export const minutesPerWeek = (
+  sessions: AnalyticsSession[],
+  range: AnalyticsRange,
+  language: Language
+): LabeledValue[] => {
+  const buckets: LabeledValue[] = [];
+  const byKey = new Map<string, LabeledValue>();
+  const end = new Date();
+
+  for (let week = startOfWeek(getRangeStart(range)); week <= end; week = addDays(week, 7)) {
+    const bucket = {
+      key: toDayKey(week),
+      label: toAxisLabel(week, language),
+      value: 0,
+    };
+    buckets.push(bucket);
+    byKey.set(bucket.key, bucket);
+  }
+
+  sessions.forEach(session => {
+    const bucket = byKey.get(toDayKey(startOfWeek(new Date(session.completed_at))));
+    if (bucket) bucket.value += session.duration_minutes ?? 0;
+  });
+
+  return buckets;
+};
+
+export const sessionsPerCategory = (sessions: AnalyticsSession[], language: Language): LabeledValue[] => {
+  const counts = new Map<string, LabeledValue>();
+
+  sessions.forEach(session => {
+    const category = session.exercise?.category;
+    const key = category?.name_en ?? 'Other';
+    const entry = counts.get(key) ?? {
+      key,
+      label: category
+        ? localize(language, { en: category.name_en, ru: category.name_ru })
+        : translate(language, 'analytics.other'),
+      value: 0,
+      color: category?.color_hex,
+    };
+    entry.value += 1;
+    counts.set(key, entry);
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Weekly averages of fun_rating and effort_rating. Sessions without a rating
+ * are left out of that average rather than counted as zero.
+ */
+export const ratingsOverTime = (
+  sessions: AnalyticsSession[],
+  range: AnalyticsRange,
+  language: Language
+): RatingPoint[] => {
+  const totals = new Map<string, { fun: number[]; effort: number[] }>();
+
+  sessions.forEach(session => {
+    const key = toDayKey(startOfWeek(new Date(session.completed_at)));
+    const entry = totals.get(key) ?? { fun: [], effort: [] };
+    if (session.fun_rating != null) entry.fun.push(session.fun_rating);
+    if (session.effort_rating != null) entry.effort.push(session.effort_rating);
+    totals.set(key, entry);
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+  return minutesPerWeek([], range, language).map(week => {
+    const entry = totals.get(week.key);
+    return {
+      key: week.key,
+      label: week.label,
+      fun: entry ? average(entry.fun) : null,
+      effort: entry ? average(entry.effort) : null,
+    };
+  });
+};
+
+// Primary muscles count fully, secondary ones half, so the chart reflects the main focus
+export const muscleGroupsTrained = (sessions: AnalyticsSession[], language: Language): LabeledValue[] => {
+  const totals = new Map<string, LabeledValue>();
+
+  sessions.forEach(session => {
+    session.exercise?.muscles.forEach(({ is_primary, muscle }) => {
+      if (!muscle) return;
+      const entry = totals.get(muscle.id) ?? {
+        key: muscle.id,
+        label: localize(language, { en: muscle.name_en, ru: muscle.name_ru }),
+        value: 0,
+      };
+      entry.value += is_primary ? 1 : 0.5;
+      totals.set(muscle.id, entry);
+    });
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.value - a.value);
+};
+
+export const summarizeSessions = (sessions: AnalyticsSession[]) => {
+  const funRatings = sessions.map(session => session.fun_rating).filter((rating): rating is number => rating != null);
+  const totalMinutes = sessions.reduce((sum, session) => sum + (session.duration_minutes ?? 0), 0);
+
+  return {
+    sessions: sessions.length,
+    minutes: Math.round(totalMinutes),
+    activeDays: new Set(sessions.map(session => toDayKey(new Date(session.completed_at)))).size,
+    averageFun: funRatings.length > 0
+      ? Math.round((funRatings.reduce((sum, rating) => sum + rating, 0) / funRatings.length) * 10) / 10
+      : null,
+  };
+};
@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+import type { I18nContextType, MessageKey } from './i18n';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditEvent {
+  id: string;
+  occurred_at: string;
+  actor_user_id: string | null;
+  actor_profile_id: string | null;
+  subject_profile_id: string | null;
+  table_name: string;
+  record_id: string | null;
+  action: AuditAction;
+  changed_fields: string[] | null;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+const TABLE_LABEL_KEYS: Record<string, MessageKey> = {
+  profiles: 'audit.table.profiles',
+  parent_child_relationships: 'audit.table.parent_child_relationships',
+  exercise_sessions: 'audit.table.exercise_sessions',
+};
+
+const ACTION_LABEL_KEYS: Record<AuditAction, MessageKey> = {
+  INSERT: 'audit.action.INSERT',
+  UPDATE: 'audit.action.UPDATE',
+  DELETE: 'audit.action.DELETE',
+};
+
+// Older entries are fetched by passing the occurred_at of the last one shown
+export const fetchAuditEvents = async (options: {
+  subjectProfileId?: string;
+  before?: string;
+} = {}): Promise<AuditEvent[]> => {
+  let query = supabase
+    .from('audit_events')
+    .select('id, occurred_at, actor_user_id, actor_profile_id, subject_profile_id, table_name, record_id, action, changed_fields')
+    .order('occurred_at', { ascending: false })
+    .limit(AUDIT_PAGE_SIZE);
+
+  if (options.subjectProfileId) {
+    query = query.eq('subject_profile_id', options.subjectProfileId);
+  }
+  if (options.before) {
+    query = query.lt('occurred_at', options.before);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load audit log: ${error.message}`);
+  }
+
+  return (data || []) as AuditEvent[];
+};
+
+export const describeAuditEvent = (event: AuditEvent, t: I18nContextType['t']) => {
+  const tableKey = TABLE_LABEL_KEYS[event.table_name];
+  const label = t(ACTION_LABEL_KEYS[event.action], { table: tableKey ? t(tableKey) : event.table_name });
+  return event.changed_fields && event.changed_fields.length > 0
+    ? `${label}: ${event.changed_fields.join(', ')}`
+    : label;
+};
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { downloadFile } from './activityExport';
+import type { MessageKey } from './i18n';
+
+export interface DeletionReceipt {
+  id: string;
+  receipt_code: string;
+  requested_by: string | null;
+  subject_profile_id: string;
+  deleted_counts: Record<string, number>;
+  deleted_at: string;
+}
+
+// Tables covered by export_child_data / delete_child_data, in display order
+export const CHILD_DATA_TABLES: Array<{ key: string; labelKey: MessageKey }> = [
+  { key: 'profiles', labelKey: 'childData.table.profiles' },
+  { key: 'parent_child_relationships', labelKey: 'childData.table.parent_child_relationships' },
+  { key: 'consent_history', labelKey: 'childData.table.consent_history' },
+  { key: 'exercise_sessions', labelKey: 'childData.table.exercise_sessions' },
+  { key: 'workouts', labelKey: 'childData.table.workouts' },
+  { key: 'user_progress', labelKey: 'childData.table.user_progress' },
+  { key: 'user_rewards', labelKey: 'childData.table.user_rewards' },
+  { key: 'user_adventures', labelKey: 'childData.table.user_adventures' },
+  { key: 'user_path_progress', labelKey: 'childData.table.user_path_progress' },
+  { key: 'goal_achievements', labelKey: 'childData.table.goal_achievements' },
+];
+
+export const fetchChildDataExport = async (childProfileId: string): Promise<Record<string, unknown>> => {
+  const { data, error } = await supabase.rpc('export_child_data', { p_child_id: childProfileId });
+
+  if (error) {
+    throw new Error(`Failed to export child data: ${error.message}`);
+  }
+
+  return (data ?? {}) as Record<string, unknown>;
+};
+
+export const downloadChildDataExport = async (childProfileId: string, childName: string) => {
+  const data = await fetchChildDataExport(childProfileId);
+  const date = new Date().toISOString().slice(0, 10);
+  const slug = childName.trim().toLowerCase().replace(/[^a-z0-9а-яё]+/gi, '-') || 'child';
+
+  downloadFile(`kidsfit-${slug}-all-data-${date}.json`, JSON.stringify(data, null, 2), 'application/json');
+  return data;
+};
+
+/**
+ * Deletes the child profile and every row tied to it. The caller must have
+ * re-entered their password within the last few minutes; the server checks it.
+ */
+export const deleteChildData = async (childProfileId: string, confirmName: string): Promise<DeletionReceipt> => {
+  const { data, error } = await supabase
+    .rpc('delete_child_data', {
+      p_child_id: childProfileId,
+      p_confirm_name: confirmName,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to delete child data: ${error.message}`);
+  }
+
+  return data as DeletionReceipt;
+};
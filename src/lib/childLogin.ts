@@ -0,0 +1,224 @@
+import { supabase } from './supabase';
+
+export type ChildSecretKind = 'picture' | 'pin';
+
+// Picture codes are 4 taps on this grid; the index of each picture is what gets hashed.
+// Labels are message keys, read out by screen readers in the child's language
+export const LOGIN_PICTURES = [
+  { emoji: '🍎', labelKey: 'childLogin.picture.apple' },
+  { emoji: '⚽', labelKey: 'childLogin.picture.ball' },
+  { emoji: '⭐', labelKey: 'childLogin.picture.star' },
+  { emoji: '☀️', labelKey: 'childLogin.picture.sun' },
+  { emoji: '🌙', labelKey: 'childLogin.picture.moon' },
+  { emoji: '🐟', labelKey: 'childLogin.picture.fish' },
+  { emoji: '🌸', labelKey: 'childLogin.picture.flower' },
+  { emoji: '🚗', labelKey: 'childLogin.picture.car' },
+  { emoji: '🌳', labelKey: 'childLogin.picture.tree' },
+] as const;
+
+export const PICTURE_CODE_LENGTH = 4;
+
+export const CHILD_AVATARS: Record<string, string> = {
+  fox: '🦊',
+  bear: '🐻',
+  cat: '🐱',
+  dog: '🐶',
+  panda: '🐼',
+  frog: '🐸',
+  lion: '🦁',
+  owl: '🦉',
+  unicorn: '🦄',
+  rocket: '🚀',
+  dino: '🦖',
+  octopus: '🐙',
+};
+
+export const avatarEmoji = (avatar: string | null | undefined) =>
+  (avatar && CHILD_AVATARS[avatar]) || '🙂';
+
+export interface ChildLogin {
+  avatar: string;
+  secret_kind: ChildSecretKind;
+  updated_at: string;
+}
+
+export interface DeviceChild {
+  child_id: string;
+  display_name: string;
+  avatar: string;
+  secret_kind: ChildSecretKind;
+}
+
+export interface ChildSession {
+  child_id: string;
+  display_name: string;
+  avatar: string | null;
+  expires_at: string;
+}
+
+export interface FamilyDevice {
+  id: string;
+  label: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// This device
+// ---------------------------------------------------------------------------
+
+const DEVICE_STORAGE_KEY = 'kidsfit_family_device';
+
+interface StoredDevice {
+  deviceId: string;
+  token: string;
+}
+
+export const getStoredDevice = (): StoredDevice | null => {
+  try {
+    const raw = localStorage.getItem(DEVICE_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredDevice) : null;
+  } catch (err) {
+    console.warn('⚠️ Ignoring unreadable family device:', err);
+    return null;
+  }
+};
+
+export const forgetStoredDevice = () => {
+  localStorage.removeItem(DEVICE_STORAGE_KEY);
+};
+
+export const registerThisDevice = async (label: string): Promise<StoredDevice> => {
+  const { data, error } = await supabase.rpc('register_family_device', { p_label: label.trim() }).single();
+
+  if (error) {
+    throw new Error(`Failed to set up this device: ${error.message}`);
+  }
+
+  const row = data as { device_id: string; token: string };
+  const stored: StoredDevice = { deviceId: row.device_id, token: row.token };
+  localStorage.setItem(DEVICE_STORAGE_KEY, JSON.stringify(stored));
+  return stored;
+};
+
+export const fetchFamilyDevices = async (): Promise<FamilyDevice[]> => {
+  const { data, error } = await supabase
+    .from('family_devices')
+    .select('id, label, created_at, last_used_at')
+    .is('revoked_at', null)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to load devices: ${error.message}`);
+  }
+
+  return (data || []) as FamilyDevice[];
+};
+
+export const revokeFamilyDevice = async (deviceId: string) => {
+  const { error } = await supabase.rpc('revoke_family_device', { p_device_id: deviceId });
+
+  if (error) {
+    throw new Error(`Failed to remove device: ${error.message}`);
+  }
+
+  if (getStoredDevice()?.deviceId === deviceId) {
+    forgetStoredDevice();
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Parent management
+// ---------------------------------------------------------------------------
+
+export const fetchChildLogin = async (childProfileId: string): Promise<ChildLogin | null> => {
+  const { data, error } = await supabase.rpc('get_child_login', { p_child_id: childProfileId });
+
+  if (error) {
+    throw new Error(`Failed to load sign-in settings: ${error.message}`);
+  }
+
+  return ((data || []) as ChildLogin[])[0] ?? null;
+};
+
+export const saveChildLogin = async (
+  childProfileId: string,
+  avatar: string,
+  secretKind: ChildSecretKind,
+  secret: string
+) => {
+  const { error } = await supabase.rpc('set_child_login', {
+    p_child_id: childProfileId,
+    p_avatar: avatar,
+    p_secret_kind: secretKind,
+    p_secret: secret,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save sign-in settings: ${error.message}`);
+  }
+};
+
+export const disableChildLogin = async (childProfileId: string) => {
+  const { error } = await supabase.rpc('disable_child_login', { p_child_id: childProfileId });
+
+  if (error) {
+    throw new Error(`Failed to turn off sign-in: ${error.message}`);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Child sign-in
+// ---------------------------------------------------------------------------
+
+export const fetchDeviceChildren = async (deviceToken: string): Promise<DeviceChild[]> => {
+  const { data, error } = await supabase.rpc('get_family_device_children', { p_device_token: deviceToken });
+
+  if (error) {
+    throw new Error(`Failed to load children: ${error.message}`);
+  }
+
+  return (data || []) as DeviceChild[];
+};
+
+// Starts an anonymous session and binds it to the child; a wrong code leaves nobody signed in
+export const startChildSession = async (deviceToken: string, childProfileId: string, secret: string): Promise<boolean> => {
+  const { error: signInError } = await supabase.auth.signInAnonymously();
+
+  if (signInError) {
+    throw new Error(`Failed to sign in: ${signInError.message}`);
+  }
+
+  const { data, error } = await supabase.rpc('start_child_session', {
+    p_device_token: deviceToken,
+    p_child_id: childProfileId,
+    p_secret: secret,
+  });
+
+  if (error || data !== true) {
+    await supabase.auth.signOut();
+  }
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data === true;
+};
+
+export const fetchChildSession = async (): Promise<ChildSession | null> => {
+  const { data, error } = await supabase.rpc('get_child_session');
+
+  if (error) {
+    throw new Error(`Failed to load child session: ${error.message}`);
+  }
+
+  return ((data || []) as ChildSession[])[0] ?? null;
+};
+
+export const endChildSession = async () => {
+  const { error } = await supabase.rpc('end_child_session');
+
+  if (error) {
+    console.warn('⚠️ Failed to end child session:', error);
+  }
+};
@@ -0,0 +1,42 @@
+import type { MessageKey } from './i18n';
+
+// Same rules create_child_profile_and_link and update_child_profile enforce
+export const CHILD_AGE_LIMITS = { min: 5, max: 17 };
+export const CHILD_NAME_MAX_LENGTH = 50;
+
+// Whole years, matching EXTRACT(YEAR FROM AGE(date_of_birth)) in Postgres
+export const ageFromDateOfBirth = (dateOfBirth: string, today = new Date()) => {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  let age = today.getFullYear() - year;
+  if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) {
+    age -= 1;
+  }
+  return age;
+};
+
+export const isAllowedChildAge = (age: number) =>
+  Number.isFinite(age) && age >= CHILD_AGE_LIMITS.min && age <= CHILD_AGE_LIMITS.max;
+
+// Values the child.* validation messages interpolate
+export const CHILD_PROFILE_MESSAGE_PARAMS = { ...CHILD_AGE_LIMITS, maxLength: CHILD_NAME_MAX_LENGTH };
+
+export const validateChildProfile = (name: string, dateOfBirth: string): MessageKey | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'child.nameRequired';
+  if (trimmed.length > CHILD_NAME_MAX_LENGTH) return 'child.nameTooLong';
+  if (!dateOfBirth) return 'child.dobRequired';
+  if (!isAllowedChildAge(ageFromDateOfBirth(dateOfBirth))) return 'child.ageRange';
+  return null;
+};
+
+// Oldest and youngest birth dates that still pass the age rule, for date inputs
+export const childBirthDateBounds = (today = new Date()) => {
+  const toIso = (date: Date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+  const oldest = new Date(today.getFullYear() - CHILD_AGE_LIMITS.max - 1, today.getMonth(), today.getDate() + 1);
+  const youngest = new Date(today.getFullYear() - CHILD_AGE_LIMITS.min, today.getMonth(), today.getDate());
+  return { min: toIso(oldest), max: toIso(youngest) };
+};
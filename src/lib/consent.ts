@@ -0,0 +1,68 @@
+import { supabase } from './supabase';
+
+export interface ConsentStatus {
+  child_id: string;
+  display_name: string;
+  date_of_birth: string | null;
+  consent_given: boolean;
+  consent_date: string | null;
+  active: boolean;
+}
+
+export interface ConsentEvent {
+  id: string;
+  child_id: string;
+  parent_id: string | null;
+  action: 'granted' | 'revoked';
+  reason: string | null;
+  created_at: string;
+}
+
+export const CONSENT_REASON_MAX_LENGTH = 500;
+
+// Includes children whose consent was revoked; AuthContext only lists active ones
+export const fetchConsentOverview = async (): Promise<ConsentStatus[]> => {
+  const { data, error } = await supabase.rpc('get_consent_overview');
+
+  if (error) {
+    throw new Error(`Failed to load consent status: ${error.message}`);
+  }
+
+  return (data || []) as ConsentStatus[];
+};
+
+export const fetchConsentHistory = async (childIds: string[]): Promise<ConsentEvent[]> => {
+  if (childIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('consent_history')
+    .select('id, child_id, parent_id, action, reason, created_at')
+    .in('child_id', childIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load consent history: ${error.message}`);
+  }
+
+  return (data || []) as ConsentEvent[];
+};
+
+export const setChildConsent = async (
+  childProfileId: string,
+  granted: boolean,
+  reason?: string
+): Promise<ConsentEvent> => {
+  const { data, error } = await supabase
+    .rpc('set_child_consent', {
+      p_child_id: childProfileId,
+      p_granted: granted,
+      p_reason: reason?.trim() || null,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to ${granted ? 'grant' : 'revoke'} consent: ${error.message}`);
+  }
+
+  return data as ConsentEvent;
+};
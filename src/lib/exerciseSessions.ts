@@ -0,0 +1,70 @@
+import { supabase } from './supabase';
+import { isNetworkError, queueCompletedSession, syncOfflineQueue } from './offlineQueue';
+
+export interface CompletedSessionInput {
+  childProfileId: string;
+  exerciseId: string;
+  durationSeconds: number;
+  setsCompleted: number;
+  repsCompleted: number;
+  funRating: number;
+  // 1-5, how hard the child found it; feeds the effort chart in analytics
+  effortRating?: number | null;
+  pointsEarned: number;
+  workoutId?: string | null;
+}
+
+export const toDurationMinutes = (seconds: number) => Math.round((seconds / 60) * 100) / 100;
+
+/**
+ * Inserts a finished exercise_sessions row and rolls it into user_progress.
+ * Returns the new session id so callers can link follow-up records to it.
+ * When offline the session is queued instead and a local id is returned.
+ */
+export const recordCompletedSession = async (input: CompletedSessionInput): Promise<string> => {
+  const completedAt = new Date().toISOString();
+  const session = {
+    user_id: input.childProfileId,
+    exercise_id: input.exerciseId,
+    duration_minutes: toDurationMinutes(input.durationSeconds),
+    sets_completed: input.setsCompleted,
+    reps_completed: input.repsCompleted || null,
+    fun_rating: input.funRating,
+    effort_rating: input.effortRating || null,
+    points_earned: input.pointsEarned,
+    workout_id: input.workoutId ?? null,
+    completed_at: completedAt,
+  };
+  const progress = {
+    p_user_id: input.childProfileId,
+    p_exercise_id: input.exerciseId,
+    p_points_earned: input.pointsEarned,
+    p_fun_rating: input.funRating,
+    p_duration_seconds: input.durationSeconds,
+    p_completed_at: completedAt,
+  };
+
+  const { data, error } = await supabase
+    .from('exercise_sessions')
+    .insert(session)
+    .select('id')
+    .single();
+
+  if (error) {
+    if (isNetworkError(error)) {
+      const localId = queueCompletedSession({ ...session, created_at: completedAt }, progress);
+      syncOfflineQueue();
+      return localId;
+    }
+    throw new Error(`Failed to save exercise session: ${error.message}`);
+  }
+
+  const { error: progressError } = await supabase.rpc('apply_session_progress', { p_session_id: data.id });
+
+  if (progressError) {
+    // The session itself is saved; progress can be recomputed later
+    console.warn('Progress update failed:', progressError.message);
+  }
+
+  return data.id;
+};
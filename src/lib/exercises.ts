@@ -0,0 +1,24 @@
+import { supabase } from './supabase';
+import type { Exercise } from '../types/Exercise';
+
+// Loads one active exercise, e.g. when a session is opened from a link or after a reload
+export const fetchExercise = async (exerciseId: string): Promise<Exercise> => {
+  const { data, error } = await supabase
+    .from('exercises')
+    .select(`
+      *,
+      category:exercise_categories(id, name_ru, name_en, color_hex, icon)
+    `)
+    .eq('id', exerciseId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load exercise: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Exercise not found');
+  }
+
+  return data as Exercise;
+};
@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+
+export interface GoalProgress {
+  weekly_goal_minutes: number;
+  weekly_minutes: number;
+  week_start: string;
+  monthly_goal_exercises: number;
+  monthly_exercises: number;
+  month_start: string;
+}
+
+export interface GoalSettings {
+  weeklyGoalMinutes: number;
+  monthlyGoalExercises: number;
+}
+
+// Same bounds set_user_goals enforces
+export const GOAL_LIMITS = {
+  weeklyGoalMinutes: { min: 10, max: 1000 },
+  monthlyGoalExercises: { min: 1, max: 200 },
+};
+
+export const fetchGoalProgress = async (profileId: string): Promise<GoalProgress> => {
+  const { data, error } = await supabase.rpc('get_goal_progress', { p_user_id: profileId });
+
+  if (error) {
+    throw new Error(`Failed to load goal progress: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as GoalProgress | undefined;
+  if (!row) {
+    throw new Error('Failed to load goal progress: no data returned');
+  }
+
+  return {
+    ...row,
+    weekly_minutes: Number(row.weekly_minutes),
+  };
+};
+
+export const saveGoals = async (profileId: string, goals: GoalSettings) => {
+  const { error } = await supabase.rpc('set_user_goals', {
+    p_user_id: profileId,
+    p_weekly_goal_minutes: goals.weeklyGoalMinutes,
+    p_monthly_goal_exercises: goals.monthlyGoalExercises,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save goals: ${error.message}`);
+  }
+};
+
+export const goalRatio = (value: number, goal: number) => (goal > 0 ? Math.min(value / goal, 1) : 0);
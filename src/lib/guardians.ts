@@ -0,0 +1,152 @@
+import { supabase } from './supabase';
+import type { I18nContextType, MessageKey } from './i18n';
+
+export type RelationshipType = 'parent' | 'guardian' | 'coach';
+export type AccessLevel = 'full' | 'read_only';
+
+export interface ChildGuardian {
+  profile_id: string;
+  display_name: string;
+  relationship_type: RelationshipType;
+  access_level: AccessLevel;
+  invited_by: string | null;
+  linked_at: string;
+}
+
+export interface GuardianInvitation {
+  id: string;
+  child_id: string;
+  email: string;
+  relationship_type: Exclude<RelationshipType, 'parent'>;
+  access_level: AccessLevel;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface CreatedInvitation {
+  invitation_id: string;
+  token: string;
+  expires_at: string;
+}
+
+export const RELATIONSHIP_LABEL_KEYS: Record<RelationshipType, MessageKey> = {
+  parent: 'relationship.parent',
+  guardian: 'relationship.guardian',
+  coach: 'relationship.coach',
+};
+
+export const ACCESS_LEVEL_LABEL_KEYS: Record<AccessLevel, MessageKey> = {
+  full: 'accessLevel.full',
+  read_only: 'accessLevel.read_only',
+};
+
+// Query parameter the invitation link carries; App keeps it until the invitee signs in
+export const INVITE_PARAM = 'invite';
+const PENDING_INVITE_KEY = 'kidsfit_pending_invite';
+
+export const fetchChildGuardians = async (childProfileId: string): Promise<ChildGuardian[]> => {
+  const { data, error } = await supabase.rpc('get_child_guardians', { p_child_id: childProfileId });
+
+  if (error) {
+    throw new Error(`Failed to load guardians: ${error.message}`);
+  }
+
+  return (data || []) as ChildGuardian[];
+};
+
+// Pending only: accepted invitations show up as guardians, revoked and expired ones are hidden
+export const fetchPendingInvitations = async (childProfileId: string): Promise<GuardianInvitation[]> => {
+  const { data, error } = await supabase
+    .from('guardian_invitations')
+    .select('id, child_id, email, relationship_type, access_level, expires_at, created_at')
+    .eq('child_id', childProfileId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load invitations: ${error.message}`);
+  }
+
+  return (data || []) as GuardianInvitation[];
+};
+
+// The token is only ever returned here; the database keeps its hash
+export const createGuardianInvitation = async (
+  childProfileId: string,
+  email: string,
+  relationshipType: GuardianInvitation['relationship_type'],
+  accessLevel: AccessLevel
+): Promise<CreatedInvitation> => {
+  const { data, error } = await supabase
+    .rpc('create_guardian_invitation', {
+      p_child_id: childProfileId,
+      p_email: email.trim(),
+      p_relationship_type: relationshipType,
+      p_access_level: accessLevel,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create invitation: ${error.message}`);
+  }
+
+  return data as CreatedInvitation;
+};
+
+export const acceptGuardianInvitation = async (token: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_guardian_invitation', { p_token: token });
+
+  if (error) {
+    throw new Error(`Failed to accept invitation: ${error.message}`);
+  }
+
+  return data as string;
+};
+
+export const revokeGuardianInvitation = async (invitationId: string) => {
+  const { error } = await supabase.rpc('revoke_guardian_invitation', { p_invitation_id: invitationId });
+
+  if (error) {
+    throw new Error(`Failed to revoke invitation: ${error.message}`);
+  }
+};
+
+export const removeGuardianAccess = async (childProfileId: string, guardianProfileId: string) => {
+  const { error } = await supabase.rpc('remove_guardian_access', {
+    p_child_id: childProfileId,
+    p_guardian_id: guardianProfileId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to remove access: ${error.message}`);
+  }
+};
+
+export const buildInvitationLink = (token: string) =>
+  `${window.location.origin}/?${INVITE_PARAM}=${encodeURIComponent(token)}`;
+
+export const buildInvitationMailto = (email: string, childName: string, link: string, t: I18nContextType['t']) => {
+  const subject = t('guardians.mailSubject', { name: childName });
+  const body = t('guardians.mailBody', { name: childName, link });
+  return `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// Moves an invitation token from the URL into sessionStorage so it survives sign-up
+export const capturePendingInvitation = () => {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get(INVITE_PARAM);
+  if (!token) return;
+
+  sessionStorage.setItem(PENDING_INVITE_KEY, token);
+  params.delete(INVITE_PARAM);
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
+
+export const takePendingInvitation = () => {
+  const token = sessionStorage.getItem(PENDING_INVITE_KEY);
+  if (token) sessionStorage.removeItem(PENDING_INVITE_KEY);
+  return token;
+};
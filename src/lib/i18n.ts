@@ -0,0 +1,104 @@
+import { createContext, useContext } from 'react';
+import { supabase } from './supabase';
+import en from '../locales/en';
+import ru from '../locales/ru';
+
+export type MessageKey = keyof typeof en;
+
+// Plural forms are picked with Intl.PluralRules; "other" is the fallback for every language
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+// Adding a language: a locale file with every key, an entry here and the
+// profiles.preferred_language check constraint
+export const LANGUAGES = {
+  en: { label: 'English', shortLabel: 'EN', locale: 'en-US', messages: en as Messages },
+  ru: { label: 'Русский', shortLabel: 'RU', locale: 'ru-RU', messages: ru },
+} satisfies Record<string, { label: string; shortLabel: string; locale: string; messages: Messages }>;
+
+export type Language = keyof typeof LANGUAGES;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+const selectPlural = (language: Language, message: PluralMessage, count: number) => {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(LANGUAGES[language].locale);
+    pluralRules.set(language, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+};
+
+export const translate = (language: Language, key: MessageKey, params: MessageParams = {}) => {
+  const message: Message = LANGUAGES[language].messages[key] ?? en[key];
+  const text = typeof message === 'string'
+    ? message
+    : selectPlural(language, message, Number(params.count ?? 0));
+
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
+
+// Same fallback as the get_localized_text SQL helper: the requested language, then English, then anything
+export const localize = (language: Language, texts: Partial<Record<Language, string | null | undefined>>) =>
+  texts[language] || texts.en || Object.values(texts).find(Boolean) || '';
+
+export interface I18nContextType {
+  language: Language;
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  localize: (texts: Partial<Record<Language, string | null | undefined>>) => string;
+  formatDate: (date: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within a LanguageProvider');
+  }
+  return context;
+};
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+const STORAGE_KEY = 'kidsfit_language';
+
+// Before anyone signs in, and for children on a family device, the device remembers the language
+export const loadStoredLanguage = (): Language => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLanguage(stored)) {
+    return stored;
+  }
+
+  const browserLanguage = navigator.language?.split('-')[0];
+  return isLanguage(browserLanguage) ? browserLanguage : DEFAULT_LANGUAGE;
+};
+
+export const storeLanguage = (language: Language) => {
+  localStorage.setItem(STORAGE_KEY, language);
+};
+
+export const saveProfileLanguage = async (profileId: string, language: Language) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ preferred_language: language })
+    .eq('profile_id', profileId);
+
+  if (error) {
+    throw new Error(`Failed to save language: ${error.message}`);
+  }
+};
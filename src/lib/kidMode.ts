@@ -0,0 +1,97 @@
+import { createContext, useContext } from 'react';
+import { supabase } from './supabase';
+
+export const PIN_PATTERN = /^[0-9]{4,6}$/;
+
+const STORAGE_KEY = 'kidsfit_kid_mode';
+
+// Kept per signed-in user so a different account on the same device starts in parent mode
+export interface StoredKidMode {
+  userId: string;
+  childId: string;
+  startedAt: string;
+}
+
+export interface KidModeContextType {
+  kidModeChildId: string | null;
+  enterKidMode: (childProfileId: string) => void;
+  // Resolves false for a wrong PIN; throws when the PIN is locked
+  exitKidMode: (pin: string) => Promise<boolean>;
+}
+
+export const KidModeContext = createContext<KidModeContextType | undefined>(undefined);
+
+export const useKidMode = () => {
+  const context = useContext(KidModeContext);
+  if (context === undefined) {
+    throw new Error('useKidMode must be used within a SessionManager');
+  }
+  return context;
+};
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+export const loadKidMode = (): StoredKidMode | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredKidMode) : null;
+  } catch (err) {
+    console.warn('⚠️ Ignoring unreadable kid mode state:', err);
+    return null;
+  }
+};
+
+// Returns what was stored, or null once kid mode is cleared
+export const saveKidMode = (userId: string, childId: string | null): StoredKidMode | null => {
+  if (!childId) {
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+  const stored: StoredKidMode = { userId, childId, startedAt: new Date().toISOString() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  return stored;
+};
+
+export const clearKidMode = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// ---------------------------------------------------------------------------
+// Parent PIN
+// ---------------------------------------------------------------------------
+
+export const hasParentPin = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('has_parent_pin');
+
+  if (error) {
+    throw new Error(`Failed to check PIN: ${error.message}`);
+  }
+
+  return Boolean(data);
+};
+
+export const setParentPin = async (newPin: string, currentPin?: string) => {
+  const { data, error } = await supabase.rpc('set_parent_pin', {
+    p_new_pin: newPin,
+    p_current_pin: currentPin ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save PIN: ${error.message}`);
+  }
+  if (data === false) {
+    throw new Error('Current PIN is incorrect');
+  }
+};
+
+export const verifyParentPin = async (pin: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('verify_parent_pin', { p_pin: pin });
+
+  if (error) {
+    throw new Error(`Failed to check PIN: ${error.message}`);
+  }
+
+  return Boolean(data);
+};
@@ -0,0 +1,285 @@
+import { supabase } from './supabase';
+import { evaluateRewards } from './rewards';
+
+// Sessions recorded while offline live here until they can be replayed.
+// localStorage keeps the queue across reloads; the rows are tiny. Each
+// signed-in account gets its own key, so a shared device never replays one
+// family's sessions under another account.
+const STORAGE_PREFIX = 'kidsfit:offline-sessions';
+
+// Errors the server will never accept no matter how often we retry
+// (deleted exercise/child, failed CHECK constraint, malformed value)
+const PERMANENT_ERROR_CODES = ['23503', '23514', '22P02'];
+const MAX_ATTEMPTS = 10;
+// Unfinished sessions older than this were abandoned when the app closed
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Marks a queued session as finished. apply_session_progress reads the totals
+// and streak day from the synced row; p_user_id picks whose rewards to check.
+export interface ProgressUpdate {
+  p_user_id: string;
+  p_exercise_id: string;
+  p_points_earned: number;
+  p_fun_rating: number;
+  p_duration_seconds: number;
+  p_completed_at?: string;
+}
+
+export interface QueuedSession {
+  localId: string;
+  // Generated on the device so a replay after a partial sync upserts the same row
+  rowId: string;
+  session: Record<string, unknown>;
+  updates: Record<string, unknown>;
+  progress: ProgressUpdate | null;
+  // Only finished sessions are replayed; an open one may still receive updates
+  finalized: boolean;
+  sessionSynced: boolean;
+  attempts: number;
+  lastError: string | null;
+  queuedAt: string;
+}
+
+export interface SyncStatus {
+  pending: number;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+type Listener = (status: SyncStatus) => void;
+
+const listeners = new Set<Listener>();
+let syncInFlight: Promise<void> | null = null;
+let lastSyncError: string | null = null;
+// Auth user whose queue is read and written; null while signed out
+let queueOwnerId: string | null = null;
+
+const storageKey = () => (queueOwnerId ? `${STORAGE_PREFIX}:${queueOwnerId}` : null);
+
+const LOCAL_PREFIX = 'local-';
+
+export const isLocalSessionId = (sessionId: string) => sessionId.startsWith(LOCAL_PREFIX);
+
+const generateRowId = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  // RFC 4122 v4 fallback for browsers without randomUUID
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+const readQueue = (): QueuedSession[] => {
+  const key = storageKey();
+  if (!key) return [];
+
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as QueuedSession[]) : [];
+  } catch (err) {
+    console.warn('⚠️ Offline queue unreadable, starting fresh:', err);
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedSession[]) => {
+  const key = storageKey();
+  if (!key) {
+    console.warn('⚠️ No signed-in account, offline session not saved');
+  } else if (queue.length === 0) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, JSON.stringify(queue));
+  }
+  notify();
+};
+
+const updateEntry = (localId: string, change: (entry: QueuedSession) => QueuedSession | null) => {
+  const queue = readQueue();
+  const next = queue.flatMap(entry => {
+    if (entry.localId !== localId) return [entry];
+    const changed = change(entry);
+    return changed ? [changed] : [];
+  });
+  writeQueue(next);
+};
+
+export const getSyncStatus = (): SyncStatus => ({
+  pending: readQueue().filter(entry => entry.finalized).length,
+  syncing: syncInFlight !== null,
+  lastError: lastSyncError,
+});
+
+function notify() {
+  const status = getSyncStatus();
+  listeners.forEach(listener => listener(status));
+}
+
+// Called by the auth provider whenever the signed-in user changes
+export const setOfflineQueueOwner = (userId: string | null) => {
+  if (userId === queueOwnerId) return;
+  queueOwnerId = userId;
+  lastSyncError = null;
+  notify();
+  if (userId) {
+    syncOfflineQueue();
+  }
+};
+
+export const subscribeToSyncStatus = (listener: Listener) => {
+  listeners.add(listener);
+  listener(getSyncStatus());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * True when a failure came from the connection rather than the server,
+ * i.e. the write is worth queueing and retrying later.
+ */
+export const isNetworkError = (err: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (err instanceof TypeError) return true;
+  const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+  return !!message && /failed to fetch|network|load failed/i.test(message);
+};
+
+/**
+ * Starts tracking a session that could not be written to the server.
+ * Pass the row id when the row already exists and only its updates were
+ * lost. Returns the local id the caller should hold on to from now on.
+ */
+export const queueLocalSession = (session: Record<string, unknown>, rowId = generateRowId()): string => {
+  const entry: QueuedSession = {
+    localId: `${LOCAL_PREFIX}${rowId}`,
+    rowId,
+    session,
+    updates: {},
+    progress: null,
+    finalized: false,
+    sessionSynced: false,
+    attempts: 0,
+    lastError: null,
+    queuedAt: new Date().toISOString(),
+  };
+  writeQueue([...readQueue(), entry]);
+  console.log('🔵 Session queued for offline sync:', entry.localId);
+  return entry.localId;
+};
+
+// Later updates win over earlier ones, the same as applying them in order
+export const queueSessionUpdate = (localId: string, updates: Record<string, unknown>) => {
+  updateEntry(localId, entry => ({ ...entry, updates: { ...entry.updates, ...updates } }));
+};
+
+export const queueProgressUpdate = (localId: string, progress: ProgressUpdate) => {
+  updateEntry(localId, entry => ({ ...entry, progress, finalized: true }));
+};
+
+export const discardLocalSession = (localId: string) => {
+  updateEntry(localId, () => null);
+};
+
+/**
+ * Queues an already finished session together with its progress update,
+ * for callers that only write once at the end of an exercise.
+ */
+export const queueCompletedSession = (session: Record<string, unknown>, progress: ProgressUpdate) => {
+  const localId = queueLocalSession(session);
+  queueProgressUpdate(localId, progress);
+  return localId;
+};
+
+const syncEntry = async (entry: QueuedSession) => {
+  if (!entry.sessionSynced) {
+    // Upserting on the device-generated id makes a replay after a lost
+    // response overwrite the same row with the same values
+    const { error } = await supabase
+      .from('exercise_sessions')
+      .upsert({ ...entry.session, ...entry.updates, id: entry.rowId }, { onConflict: 'id' });
+    if (error) throw error;
+    updateEntry(entry.localId, current => ({ ...current, sessionSynced: true }));
+  }
+
+  // The server applies progress once per session row, so a replay after a
+  // lost response does not count the session twice
+  if (entry.progress) {
+    const { error } = await supabase.rpc('apply_session_progress', { p_session_id: entry.rowId });
+    if (error) throw error;
+
+    // Rewards earned offline are awarded now; there is no screen to celebrate on
+    try {
+      await evaluateRewards(entry.progress.p_user_id, entry.rowId);
+    } catch (err) {
+      console.warn('⚠️ Reward evaluation after sync failed:', err);
+    }
+  }
+};
+
+/**
+ * Replays every queued session to exercise_sessions and user_progress.
+ * Safe to call repeatedly: concurrent calls share one run.
+ */
+export const syncOfflineQueue = (): Promise<void> => {
+  if (syncInFlight) return syncInFlight;
+
+  syncInFlight = (async () => {
+    const now = Date.now();
+    const all = readQueue();
+    const stale = all.filter(entry => !entry.finalized && now - Date.parse(entry.queuedAt) > STALE_AFTER_MS);
+    if (stale.length > 0) {
+      writeQueue(all.filter(entry => !stale.includes(entry)));
+    }
+
+    const queue = all.filter(entry => entry.finalized);
+    if (queue.length === 0) return;
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || session.user.id !== queueOwnerId) {
+      // Replaying without the account that recorded the sessions would only fail RLS
+      return;
+    }
+
+    console.log(`🔵 Syncing ${queue.length} offline session(s)...`);
+    lastSyncError = null;
+    notify();
+
+    for (const entry of queue) {
+      try {
+        await syncEntry(entry);
+        updateEntry(entry.localId, () => null);
+        console.log('✅ Offline session synced:', entry.localId);
+      } catch (err) {
+        const code = (err as { code?: string })?.code;
+        const message = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error';
+        lastSyncError = message;
+
+        if (isNetworkError(err)) {
+          // Connection dropped again; keep everything for the next run
+          console.warn('⚠️ Offline sync interrupted:', message);
+          break;
+        }
+
+        const attempts = entry.attempts + 1;
+        if ((code && PERMANENT_ERROR_CODES.includes(code)) || attempts >= MAX_ATTEMPTS) {
+          console.error('🔴 Dropping offline session that cannot be synced:', entry.localId, message);
+          updateEntry(entry.localId, () => null);
+        } else {
+          console.warn('⚠️ Offline session sync failed, will retry:', entry.localId, message);
+          updateEntry(entry.localId, current => ({ ...current, attempts, lastError: message }));
+        }
+      }
+    }
+  })().finally(() => {
+    syncInFlight = null;
+    notify();
+  });
+
+  notify();
+  return syncInFlight;
+};
@@ -0,0 +1,185 @@
+import { supabase } from './supabase';
+import type { Exercise } from '../types/Exercise';
+import { fetchUnlockStatus, type UnlockStatus } from './adventures';
+
+export type PathStatus = 'locked' | 'available' | 'in_progress' | 'completed';
+
+export interface AdventurePath {
+  id: string;
+  title: string;
+  title_ru: string | null;
+  description: string | null;
+  description_ru: string | null;
+  theme: string;
+  difficulty_level: 'Beginner' | 'Intermediate' | 'Advanced';
+  estimated_weeks: number;
+  total_exercises: number;
+  reward_points: number;
+  color_hex: string;
+  display_order: number;
+}
+
+export interface UserPathProgress {
+  id: string;
+  path_id: string;
+  status: PathStatus;
+  current_week: number;
+  exercises_completed: number;
+  total_points_earned: number;
+  progress_percentage: number;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface PathWithProgress extends AdventurePath {
+  enrollment: UserPathProgress | null;
+  unlock: UnlockStatus | null;
+}
+
+export type PathStepState = 'done' | 'available' | 'locked';
+
+export interface PathStep {
+  exercise: Exercise;
+  sequenceOrder: number;
+  weekNumber: number;
+  isRequired: boolean;
+  pointsReward: number;
+  unlockAfterExerciseId: string | null;
+  state: PathStepState;
+}
+
+export interface PathWeek {
+  weekNumber: number;
+  steps: PathStep[];
+  requiredDone: number;
+  requiredTotal: number;
+}
+
+export const fetchChildPaths = async (childProfileId: string): Promise<PathWithProgress[]> => {
+  const [{ data: paths, error }, { data: enrollments, error: enrollmentError }, unlockStatus] = await Promise.all([
+    supabase.from('adventure_paths').select('*').eq('is_active', true).order('display_order'),
+    supabase.from('user_path_progress').select('*').eq('user_id', childProfileId),
+    fetchUnlockStatus(childProfileId).catch(err => {
+      console.warn('⚠️ Unlock status unavailable:', err);
+      return [] as UnlockStatus[];
+    }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load adventure paths: ${error.message}`);
+  }
+  if (enrollmentError) {
+    throw new Error(`Failed to load path progress: ${enrollmentError.message}`);
+  }
+
+  return (paths || []).map(path => ({
+    ...(path as AdventurePath),
+    enrollment: ((enrollments || []) as UserPathProgress[]).find(e => e.path_id === path.id) || null,
+    unlock: unlockStatus.find(u => u.item_type === 'path' && u.item_id === path.id) || null,
+  }));
+};
+
+export const startPath = async (childProfileId: string, pathId: string): Promise<UserPathProgress> => {
+  const { data, error } = await supabase.rpc('start_path', {
+    p_user_id: childProfileId,
+    p_path_id: pathId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to start path: ${error.message}`);
+  }
+
+  return data as UserPathProgress;
+};
+
+/**
+ * Lays the path out week by week. An exercise is done if completed since the
+ * path was started; otherwise it is available once its week has been reached
+ * and the exercise it unlocks after (unlock_after_exercise_id) is done.
+ */
+export const fetchPathWeeks = async (
+  childProfileId: string,
+  pathId: string,
+  enrollment: UserPathProgress | null
+): Promise<PathWeek[]> => {
+  const { data, error } = await supabase
+    .from('path_exercises')
+    .select(`
+      sequence_order,
+      week_number,
+      is_required,
+      points_reward,
+      unlock_after_exercise_id,
+      exercise:exercises!path_exercises_exercise_id_fkey(
+        *,
+        category:exercise_categories(id, name_ru, name_en, color_hex, icon)
+      )
+    `)
+    .eq('path_id', pathId)
+    .order('sequence_order');
+
+  if (error) {
+    throw new Error(`Failed to load path exercises: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Array<{
+    sequence_order: number;
+    week_number: number | null;
+    is_required: boolean;
+    points_reward: number;
+    unlock_after_exercise_id: string | null;
+    exercise: Exercise;
+  }>;
+
+  const startedAt = enrollment?.started_at ?? null;
+  let completedIds = new Set<string>();
+  if (startedAt && rows.length > 0) {
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('exercise_sessions')
+      .select('exercise_id')
+      .eq('user_id', childProfileId)
+      .in('exercise_id', rows.map(row => row.exercise.id))
+      .not('completed_at', 'is', null)
+      .gte('completed_at', startedAt);
+
+    if (sessionsError) {
+      throw new Error(`Failed to load path sessions: ${sessionsError.message}`);
+    }
+    completedIds = new Set((sessions || []).map(session => session.exercise_id as string));
+  }
+
+  const currentWeek = enrollment?.current_week ?? 1;
+  const weeks = new Map<number, PathWeek>();
+
+  rows.forEach(row => {
+    const weekNumber = row.week_number ?? 1;
+    let state: PathStepState = 'locked';
+    if (completedIds.has(row.exercise.id)) {
+      state = 'done';
+    } else if (
+      startedAt &&
+      weekNumber <= currentWeek &&
+      (!row.unlock_after_exercise_id || completedIds.has(row.unlock_after_exercise_id))
+    ) {
+      state = 'available';
+    }
+
+    const week = weeks.get(weekNumber) ?? { weekNumber, steps: [], requiredDone: 0, requiredTotal: 0 };
+    week.steps.push({
+      exercise: row.exercise,
+      sequenceOrder: row.sequence_order,
+      weekNumber,
+      isRequired: row.is_required,
+      pointsReward: row.points_reward,
+      unlockAfterExerciseId: row.unlock_after_exercise_id,
+      state,
+    });
+    if (row.is_required) {
+      week.requiredTotal += 1;
+      if (state === 'done') week.requiredDone += 1;
+    }
+    weeks.set(weekNumber, week);
+  });
+
+  return Array.from(weeks.values()).sort((a, b) => a.weekNumber - b.weekNumber);
+};
@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+import type { I18nContextType } from './i18n';
+
+export interface UnmetPrerequisite {
+  prerequisiteExerciseId: string;
+  prerequisiteNameEn: string;
+  prerequisiteNameRu: string | null;
+  minimumCompletions: number;
+  minimumRating: number;
+  qualifyingCompletions: number;
+  remaining: number;
+}
+
+// Exercise id -> prerequisites the child has not met yet. Unlocked exercises are absent.
+export type ExerciseLocks = Map<string, UnmetPrerequisite[]>;
+
+interface PrerequisiteRow {
+  exercise_id: string;
+  prerequisite_exercise_id: string;
+  minimum_completions: number | null;
+  minimum_rating: number | null;
+  prerequisite: { name_ru: string | null; name_en: string } | null;
+}
+
+/**
+ * Works out which exercises are still locked for a child. A prerequisite is
+ * met after minimum_completions completed sessions of the prerequisite
+ * exercise rated at least minimum_rating, the same rule reward_metric_value
+ * uses for 'unlocked_exercises'.
+ */
+export const fetchExerciseLocks = async (childProfileId: string): Promise<ExerciseLocks> => {
+  const { data: prerequisites, error } = await supabase
+    .from('exercise_prerequisites')
+    .select(`
+      exercise_id,
+      prerequisite_exercise_id,
+      minimum_completions,
+      minimum_rating,
+      prerequisite:exercises!exercise_prerequisites_prerequisite_exercise_id_fkey(name_ru, name_en)
+    `);
+
+  if (error) {
+    throw new Error(`Failed to load exercise prerequisites: ${error.message}`);
+  }
+
+  const rows = (prerequisites || []) as unknown as PrerequisiteRow[];
+  const locks: ExerciseLocks = new Map();
+  if (rows.length === 0) return locks;
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from('exercise_sessions')
+    .select('exercise_id, fun_rating')
+    .eq('user_id', childProfileId)
+    .in('exercise_id', Array.from(new Set(rows.map(row => row.prerequisite_exercise_id))))
+    .not('completed_at', 'is', null);
+
+  if (sessionsError) {
+    throw new Error(`Failed to load exercise history: ${sessionsError.message}`);
+  }
+
+  rows.forEach(row => {
+    const minimumCompletions = row.minimum_completions ?? 1;
+    const minimumRating = row.minimum_rating ?? 0;
+    const qualifyingCompletions = (sessions || []).filter(session =>
+      session.exercise_id === row.prerequisite_exercise_id && (session.fun_rating ?? 0) >= minimumRating
+    ).length;
+
+    if (qualifyingCompletions >= minimumCompletions) return;
+
+    const unmet = locks.get(row.exercise_id) ?? [];
+    unmet.push({
+      prerequisiteExerciseId: row.prerequisite_exercise_id,
+      prerequisiteNameEn: row.prerequisite?.name_en ?? '',
+      prerequisiteNameRu: row.prerequisite?.name_ru ?? null,
+      minimumCompletions,
+      minimumRating,
+      qualifyingCompletions,
+      remaining: minimumCompletions - qualifyingCompletions,
+    });
+    locks.set(row.exercise_id, unmet);
+  });
+
+  return locks;
+};
+
+/**
+ * Kid-facing text for one prerequisite still to meet, e.g.
+ * 'First do "Squats" 2 more times (rated 3★ or higher)'.
+ */
+export const describePrerequisite = (
+  prerequisite: UnmetPrerequisite,
+  { t, localize }: Pick<I18nContextType, 't' | 'localize'>
+): string => {
+  const text = t('exercise.prerequisite', {
+    name: localize({ en: prerequisite.prerequisiteNameEn, ru: prerequisite.prerequisiteNameRu }),
+    count: prerequisite.remaining,
+  });
+  return prerequisite.minimumRating > 0
+    ? `${text}${t('exercise.minimumRating', { rating: prerequisite.minimumRating })}`
+    : text;
+};
@@ -0,0 +1,119 @@
+import { supabase } from './supabase';
+import type { MessageKey } from './i18n';
+
+export type RewardRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+export interface Reward {
+  id: string;
+  title: string;
+  title_ru: string | null;
+  description: string | null;
+  description_ru: string | null;
+  reward_type: 'badge' | 'trophy' | 'avatar' | 'title' | 'power_up';
+  icon: string | null;
+  rarity: RewardRarity;
+  unlock_criteria: Record<string, unknown>;
+  points_value: number;
+}
+
+export const RARITY_COLORS: Record<RewardRarity, string> = {
+  common: '#10B981',
+  rare: '#3B82F6',
+  epic: '#8B5CF6',
+  legendary: '#F59E0B',
+};
+
+export const RARITY_NAME_KEYS: Record<RewardRarity, MessageKey> = {
+  common: 'reward.rarity.common',
+  rare: 'reward.rarity.rare',
+  epic: 'reward.rarity.epic',
+  legendary: 'reward.rarity.legendary',
+};
+
+export const RARITY_ORDER: RewardRarity[] = ['common', 'rare', 'epic', 'legendary'];
+
+export const REWARD_TYPE_NAME_KEYS: Record<Reward['reward_type'], MessageKey> = {
+  trophy: 'reward.type.trophy',
+  badge: 'reward.type.badge',
+  avatar: 'reward.type.avatar',
+  title: 'reward.type.title',
+  power_up: 'reward.type.power_up',
+};
+
+/**
+ * Runs the reward rule engine (evaluate_user_rewards) for a profile and
+ * returns the rewards earned by this call. Already earned rewards are skipped
+ * server-side, so calling it after every session is safe.
+ */
+export const evaluateRewards = async (profileId: string, sessionId: string | null): Promise<Reward[]> => {
+  const { data, error } = await supabase.rpc('evaluate_user_rewards', {
+    p_user_id: profileId,
+    p_session_id: sessionId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to evaluate rewards: ${error.message}`);
+  }
+
+  return (data || []) as Reward[];
+};
+
+export interface EarnedReward {
+  id: string;
+  earned_at: string;
+  is_new: boolean;
+  reward: Reward;
+}
+
+export interface RewardProgress {
+  reward_id: string;
+  progress: number;
+  current_value: number | null;
+  target_value: number | null;
+}
+
+export const fetchEarnedRewards = async (profileId: string): Promise<EarnedReward[]> => {
+  const { data, error } = await supabase
+    .from('user_rewards')
+    .select('id, earned_at, is_new, reward:rewards(*)')
+    .eq('user_id', profileId)
+    .order('earned_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load earned rewards: ${error.message}`);
+  }
+
+  return (data || []) as unknown as EarnedReward[];
+};
+
+export const fetchAllRewards = async (): Promise<Reward[]> => {
+  const { data, error } = await supabase
+    .from('rewards')
+    .select('*')
+    .eq('is_active', true)
+    .order('points_value');
+
+  if (error) {
+    throw new Error(`Failed to load rewards: ${error.message}`);
+  }
+
+  return (data || []) as Reward[];
+};
+
+export const fetchRewardProgress = async (profileId: string): Promise<RewardProgress[]> => {
+  const { data, error } = await supabase.rpc('get_reward_progress', { p_user_id: profileId });
+
+  if (error) {
+    throw new Error(`Failed to load reward progress: ${error.message}`);
+  }
+
+  return (data || []) as RewardProgress[];
+};
+
+export const markRewardsSeen = async (profileId: string) => {
+  const { error } = await supabase.rpc('mark_rewards_seen', { p_user_id: profileId });
+
+  if (error) {
+    throw new Error(`Failed to mark rewards as seen: ${error.message}`);
+  }
+};
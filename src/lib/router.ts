@@ -0,0 +1,102 @@
+import { createContext, useContext } from 'react';
+
+export type ChildView = 'catalog' | 'workout' | 'trophies' | 'adventures' | 'paths' | 'analytics';
+
+const CHILD_VIEWS: ChildView[] = ['catalog', 'workout', 'trophies', 'adventures', 'paths', 'analytics'];
+
+// Views that record activity; read-only guardians and coaches only get trophies and analytics
+const RECORDING_CHILD_VIEWS: ChildView[] = ['catalog', 'workout', 'adventures', 'paths'];
+
+/**
+ * Screens of the parent app that have their own URL:
+ *
+ *   /                                       dashboard
+ *   /settings                               dashboard with account settings open
+ *   /coach                                  coach mode
+ *   /children/:id/:view                     a child screen (catalog when the view is left out)
+ *   /children/:id/adventures/:adventureId   an adventure map, same for /paths/:pathId
+ *   /children/:id/session/:exerciseId       an exercise session
+ */
+export type AppRoute =
+  | { name: 'dashboard' }
+  | { name: 'settings' }
+  | { name: 'coach' }
+  | { name: 'child'; childId: string; view: ChildView; itemId: string | null }
+  | { name: 'session'; childId: string; exerciseId: string };
+
+const isChildView = (value: string | undefined): value is ChildView =>
+  CHILD_VIEWS.includes(value as ChildView);
+
+const decodeSegments = (pathname: string) => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return [];
+  }
+};
+
+// Unknown paths open the dashboard; the router then rewrites the address bar to match
+export const parseRoute = (pathname: string): AppRoute => {
+  const [section, childId, view, itemId, ...rest] = decodeSegments(pathname);
+
+  if (section === undefined) return { name: 'dashboard' };
+  if (section === 'settings' && !childId) return { name: 'settings' };
+  if (section === 'coach' && !childId) return { name: 'coach' };
+  if (section !== 'children' || !childId || rest.length > 0) return { name: 'dashboard' };
+
+  if (view === undefined) {
+    return { name: 'child', childId, view: 'catalog', itemId: null };
+  }
+  if (view === 'session' && itemId) {
+    return { name: 'session', childId, exerciseId: itemId };
+  }
+  if (!isChildView(view) || (itemId && view !== 'adventures' && view !== 'paths')) {
+    return { name: 'dashboard' };
+  }
+  return { name: 'child', childId, view, itemId: itemId ?? null };
+};
+
+export const routePath = (route: AppRoute): string => {
+  switch (route.name) {
+    case 'dashboard':
+      return '/';
+    case 'settings':
+      return '/settings';
+    case 'coach':
+      return '/coach';
+    case 'child': {
+      const base = `/children/${encodeURIComponent(route.childId)}/${route.view}`;
+      return route.itemId ? `${base}/${encodeURIComponent(route.itemId)}` : base;
+    }
+    case 'session':
+      return `/children/${encodeURIComponent(route.childId)}/session/${encodeURIComponent(route.exerciseId)}`;
+  }
+};
+
+export const getRouteChildId = (route: AppRoute) =>
+  route.name === 'child' || route.name === 'session' ? route.childId : null;
+
+export const routeRecordsActivity = (route: AppRoute) =>
+  route.name === 'session' || (route.name === 'child' && RECORDING_CHILD_VIEWS.includes(route.view));
+
+export interface NavigateOptions {
+  // Swap the current history entry instead of adding one, e.g. for redirects
+  replace?: boolean;
+}
+
+export interface RouterContextType {
+  route: AppRoute;
+  navigate: (route: AppRoute, options?: NavigateOptions) => void;
+  // Steps back through the app's own history; a screen opened from a link goes to the fallback instead
+  goBack: (fallback: AppRoute) => void;
+}
+
+export const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+};
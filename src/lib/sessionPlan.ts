@@ -0,0 +1,74 @@
+import type { Exercise, ExerciseType } from '../types/Exercise';
+
+export interface SessionPlan {
+  type: ExerciseType;
+  totalSets: number;
+  maxSets: number;
+  targetReps: number | null;
+  maxReps: number | null;
+  targetSeconds: number | null;
+  restSeconds: number;
+}
+
+export interface SetResult {
+  setNumber: number;
+  reps: number;
+  seconds: number;
+  completed: boolean;
+}
+
+// Rest between sets, kept short so younger children stay engaged
+const REST_SECONDS: Record<ExerciseType, number> = {
+  reps: 30,
+  duration: 20,
+  hold: 20,
+  distance: 45,
+};
+
+const DEFAULT_REPS = 10;
+
+// Falls back to the legacy free-text fields when the structured columns
+// were not filled by parse_sets_reps_duration()
+const inferType = (exercise: Exercise): ExerciseType => {
+  if (exercise.exercise_type) return exercise.exercise_type;
+  if (exercise.min_reps || exercise.max_reps) return 'reps';
+  return 'duration';
+};
+
+export const buildSessionPlan = (exercise: Exercise): SessionPlan => {
+  const type = inferType(exercise);
+  const totalSets = Math.max(1, exercise.min_sets ?? exercise.max_sets ?? 1);
+  const maxSets = Math.max(totalSets, exercise.max_sets ?? totalSets);
+
+  let targetReps: number | null = null;
+  let maxReps: number | null = null;
+  let targetSeconds: number | null = null;
+
+  if (type === 'reps') {
+    targetReps = exercise.min_reps ?? exercise.max_reps ?? DEFAULT_REPS;
+    maxReps = Math.max(targetReps, exercise.max_reps ?? targetReps);
+  } else if (type === 'duration' || type === 'hold') {
+    targetSeconds = exercise.min_duration_seconds
+      ?? exercise.max_duration_seconds
+      ?? Math.max(1, Math.round((exercise.estimated_duration_minutes || 1) * 60 / totalSets));
+  }
+
+  return {
+    type,
+    totalSets,
+    maxSets,
+    targetReps,
+    maxReps,
+    targetSeconds,
+    restSeconds: REST_SECONDS[type],
+  };
+};
+
+export const summarizeSets = (results: SetResult[]) => {
+  const completedSets = results.filter(result => result.completed);
+  return {
+    setsCompleted: completedSets.length,
+    repsCompleted: completedSets.reduce((sum, result) => sum + result.reps, 0),
+    activeSeconds: results.reduce((sum, result) => sum + result.seconds, 0),
+  };
+};
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+
+export interface StreakSummary {
+  current_streak_days: number;
+  longest_streak_days: number;
+  last_exercise_date: string | null;
+  streak_freezes_available: number;
+  exercised_today: boolean;
+}
+
+export const getBrowserTimezone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Streak day boundaries follow profiles.timezone (children inherit it from
+ * their parent). Parents who never picked one get the browser's timezone.
+ */
+export const ensureProfileTimezone = async (profileId: string, currentTimezone: string | null) => {
+  if (currentTimezone) return;
+
+  const timezone = getBrowserTimezone();
+  if (!timezone) return;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ timezone })
+    .eq('profile_id', profileId);
+
+  if (error) {
+    throw new Error(`Failed to save timezone: ${error.message}`);
+  }
+};
+
+export const fetchStreak = async (profileId: string): Promise<StreakSummary> => {
+  const { data, error } = await supabase.rpc('get_streak', { p_user_id: profileId });
+
+  if (error) {
+    throw new Error(`Failed to load streak: ${error.message}`);
+  }
+
+  const row = (Array.isArray(data) ? data[0] : data) as StreakSummary | undefined;
+  return row ?? {
+    current_streak_days: 0,
+    longest_streak_days: 0,
+    last_exercise_date: null,
+    streak_freezes_available: 0,
+    exercised_today: false,
+  };
+};
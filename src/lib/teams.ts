@@ -0,0 +1,232 @@
+import { supabase } from './supabase';
+
+export interface Team {
+  id: string;
+  coach_id: string;
+  name: string;
+  join_code: string;
+  created_at: string;
+}
+
+export interface TeamBoardRow {
+  child_id: string;
+  display_name: string;
+  active_dates: string[];
+  sessions: number;
+  minutes: number;
+  points: number;
+  total_points: number;
+  current_streak_days: number;
+  assignments_completed: number;
+  last_active_date: string | null;
+}
+
+export interface TeamAssignment {
+  id: string;
+  team_id?: string;
+  title: string;
+  exercise_ids: string[];
+  due_date: string | null;
+  created_at: string;
+  completed_count?: number;
+}
+
+// A child's membership as their parent sees it
+export interface ChildTeamMembership {
+  team_id: string;
+  child_id: string;
+  joined_at: string;
+  team: { id: string; name: string } | null;
+}
+
+export const TEAM_NAME_MAX_LENGTH = 60;
+export const ASSIGNMENT_TITLE_MAX_LENGTH = 80;
+export const BOARD_RANGES = [7, 14, 28] as const;
+
+// ---------------------------------------------------------------------------
+// Coach
+// ---------------------------------------------------------------------------
+
+export const fetchCoachedTeams = async (coachProfileId: string): Promise<Team[]> => {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('id, coach_id, name, join_code, created_at')
+    .eq('coach_id', coachProfileId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to load teams: ${error.message}`);
+  }
+
+  return (data || []) as Team[];
+};
+
+export const createTeam = async (name: string): Promise<Team> => {
+  const { data, error } = await supabase.rpc('create_team', { p_name: name.trim() }).single();
+
+  if (error) {
+    throw new Error(`Failed to create team: ${error.message}`);
+  }
+
+  return data as Team;
+};
+
+export const fetchTeamBoard = async (teamId: string, from: string, to: string): Promise<TeamBoardRow[]> => {
+  const { data, error } = await supabase.rpc('get_team_board', {
+    p_team_id: teamId,
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load team board: ${error.message}`);
+  }
+
+  return ((data || []) as TeamBoardRow[]).map(row => ({
+    ...row,
+    minutes: Number(row.minutes) || 0,
+  }));
+};
+
+export const fetchTeamAssignments = async (teamId: string): Promise<TeamAssignment[]> => {
+  const { data, error } = await supabase.rpc('get_team_assignments', { p_team_id: teamId });
+
+  if (error) {
+    throw new Error(`Failed to load assignments: ${error.message}`);
+  }
+
+  return (data || []) as TeamAssignment[];
+};
+
+export const createTeamAssignment = async (
+  teamId: string,
+  title: string,
+  exerciseIds: string[],
+  dueDate: string | null
+): Promise<TeamAssignment> => {
+  const { data, error } = await supabase
+    .rpc('create_team_assignment', {
+      p_team_id: teamId,
+      p_title: title.trim(),
+      p_exercise_ids: exerciseIds,
+      p_due_date: dueDate || null,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to assign workout: ${error.message}`);
+  }
+
+  return data as TeamAssignment;
+};
+
+// Exercise id -> how many team members still have it locked behind a prerequisite
+export const fetchTeamExerciseLocks = async (teamId: string): Promise<Map<string, number>> => {
+  const { data, error } = await supabase.rpc('get_team_exercise_locks', { p_team_id: teamId });
+
+  if (error) {
+    throw new Error(`Failed to load exercise locks: ${error.message}`);
+  }
+
+  return new Map(
+    ((data || []) as Array<{ exercise_id: string; locked_members: number }>)
+      .map(row => [row.exercise_id, row.locked_members])
+  );
+};
+
+export const deleteTeamAssignment = async (assignmentId: string) => {
+  const { error } = await supabase.from('team_assignments').delete().eq('id', assignmentId);
+
+  if (error) {
+    throw new Error(`Failed to delete assignment: ${error.message}`);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Parent
+// ---------------------------------------------------------------------------
+
+export const fetchChildTeams = async (childIds: string[]): Promise<ChildTeamMembership[]> => {
+  if (childIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('team_id, child_id, joined_at, team:teams(id, name)')
+    .in('child_id', childIds)
+    .order('joined_at');
+
+  if (error) {
+    throw new Error(`Failed to load teams: ${error.message}`);
+  }
+
+  return (data || []) as unknown as ChildTeamMembership[];
+};
+
+export const joinTeam = async (joinCode: string, childProfileId: string): Promise<Team> => {
+  const { data, error } = await supabase
+    .rpc('join_team', { p_join_code: joinCode.trim(), p_child_id: childProfileId })
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to join team: ${error.message}`);
+  }
+
+  return data as Team;
+};
+
+export const leaveTeam = async (teamId: string, childProfileId: string) => {
+  const { error } = await supabase.rpc('leave_team', { p_team_id: teamId, p_child_id: childProfileId });
+
+  if (error) {
+    throw new Error(`Failed to leave team: ${error.message}`);
+  }
+};
+
+// Assignments from every team the child is in, newest first
+export const fetchChildAssignments = async (childProfileId: string): Promise<Array<TeamAssignment & { team_name: string; completed: boolean }>> => {
+  const memberships = await fetchChildTeams([childProfileId]);
+  const teamIds = memberships.map(membership => membership.team_id);
+  if (teamIds.length === 0) return [];
+
+  const [{ data: assignments, error }, { data: workouts, error: workoutsError }] = await Promise.all([
+    supabase
+      .from('team_assignments')
+      .select('id, team_id, title, exercise_ids, due_date, created_at')
+      .in('team_id', teamIds)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('workouts')
+      .select('assignment_id')
+      .eq('user_id', childProfileId)
+      .eq('status', 'completed')
+      .not('assignment_id', 'is', null),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load assignments: ${error.message}`);
+  }
+  if (workoutsError) {
+    throw new Error(`Failed to load assignments: ${workoutsError.message}`);
+  }
+
+  const done = new Set((workouts || []).map(workout => workout.assignment_id as string));
+  const teamNames = new Map(memberships.map(membership => [membership.team_id, membership.team?.name ?? '']));
+
+  return ((assignments || []) as TeamAssignment[]).map(assignment => ({
+    ...assignment,
+    team_name: teamNames.get(assignment.team_id ?? '') ?? '',
+    completed: done.has(assignment.id),
+  }));
+};
+
+// Local calendar dates from `days - 1` days ago through today, oldest first
+export const boardDateRange = (days: number, today = new Date()) => {
+  const toIso = (date: Date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+  return Array.from({ length: days }, (_, index) =>
+    toIso(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - index)))
+  );
+};
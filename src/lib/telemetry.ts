@@ -0,0 +1,25 @@
+import { supabase } from './supabase';
+
+// Usage analytics are off until the parent turns them on in account settings.
+// The server rejects events from anyone else, so this only saves the request.
+let analyticsProfileId: string | null = null;
+
+export const setAnalyticsProfile = (profileId: string | null) => {
+  analyticsProfileId = profileId;
+};
+
+export const isAnalyticsEnabled = () => analyticsProfileId !== null;
+
+// Properties describe the action, never a child: no ids, names or free text
+export const trackEvent = (eventName: string, properties: Record<string, string | number | boolean> = {}) => {
+  if (!analyticsProfileId) return;
+
+  supabase
+    .from('app_events')
+    .insert({ profile_id: analyticsProfileId, event_name: eventName, properties })
+    .then(({ error }) => {
+      if (error) {
+        console.warn('⚠️ Failed to record usage event:', error.message);
+      }
+    });
+};
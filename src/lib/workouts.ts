@@ -0,0 +1,127 @@
+import { supabase } from './supabase';
+import type { Exercise } from '../types/Exercise';
+import { toDurationMinutes } from './exerciseSessions';
+import type { MessageKey } from './i18n';
+
+export interface WorkoutPhase {
+  id: string;
+  category: string; // exercise_categories.name_en
+  titleKey: MessageKey;
+  icon: string;
+  color: string;
+  suggested: number;
+  required: boolean;
+}
+
+// Order matters: the player walks through the phases top to bottom
+export const WORKOUT_PHASES: WorkoutPhase[] = [
+  { id: 'warm-up', category: 'Warm-up', titleKey: 'workout.phase.warmUp', icon: '⚡', color: '#F97316', suggested: 1, required: true },
+  { id: 'main', category: 'Main', titleKey: 'workout.phase.main', icon: '💪', color: '#3B82F6', suggested: 2, required: true },
+  { id: 'posture', category: 'Posture', titleKey: 'workout.phase.posture', icon: '👤', color: '#8B5CF6', suggested: 0, required: false },
+  { id: 'cool-down', category: 'Cool-down', titleKey: 'workout.phase.coolDown', icon: '🍃', color: '#10B981', suggested: 1, required: true },
+];
+
+export interface WorkoutExerciseResult {
+  exerciseId: string;
+  sessionId: string | null;
+  durationSeconds: number;
+  pointsEarned: number;
+  funRating: number;
+  skipped: boolean;
+}
+
+export interface WorkoutSummary {
+  exercisesCompleted: number;
+  exercisesSkipped: number;
+  durationSeconds: number;
+  pointsEarned: number;
+  averageFunRating: number;
+}
+
+export const getPhaseForExercise = (exercise: Exercise) =>
+  WORKOUT_PHASES.find(phase => phase.category === exercise.category?.name_en);
+
+const pickRandom = <T,>(items: T[], count: number): T[] => {
+  const pool = [...items];
+  const picked: T[] = [];
+  while (pool.length > 0 && picked.length < count) {
+    const index = Math.floor(Math.random() * pool.length);
+    picked.push(pool.splice(index, 1)[0]);
+  }
+  return picked;
+};
+
+/**
+ * Builds a balanced workout from the catalog: the suggested number of
+ * exercises per phase, already in warm-up → main → cool-down order.
+ */
+export const suggestWorkout = (exercises: Exercise[]): Exercise[] =>
+  WORKOUT_PHASES.flatMap(phase =>
+    pickRandom(
+      exercises.filter(exercise => exercise.category?.name_en === phase.category),
+      phase.suggested
+    )
+  );
+
+// Keeps a hand-picked queue in phase order regardless of selection order
+export const orderByPhase = (exercises: Exercise[]): Exercise[] => {
+  const phaseIndex = (exercise: Exercise) => {
+    const index = WORKOUT_PHASES.findIndex(phase => phase.category === exercise.category?.name_en);
+    return index === -1 ? WORKOUT_PHASES.length : index;
+  };
+  return [...exercises].sort((a, b) => phaseIndex(a) - phaseIndex(b));
+};
+
+export const summarizeWorkout = (results: WorkoutExerciseResult[]): WorkoutSummary => {
+  const completed = results.filter(result => !result.skipped);
+  const ratingTotal = completed.reduce((sum, result) => sum + result.funRating, 0);
+
+  return {
+    exercisesCompleted: completed.length,
+    exercisesSkipped: results.length - completed.length,
+    durationSeconds: completed.reduce((sum, result) => sum + result.durationSeconds, 0),
+    pointsEarned: completed.reduce((sum, result) => sum + result.pointsEarned, 0),
+    averageFunRating: completed.length > 0 ? Math.round((ratingTotal / completed.length) * 10) / 10 : 0,
+  };
+};
+
+// assignmentId links the workout to a coach's team assignment so it counts as done
+export const startWorkout = async (
+  childProfileId: string,
+  plannedExercises: number,
+  assignmentId?: string | null
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from('workouts')
+    .insert({
+      user_id: childProfileId,
+      planned_exercises: plannedExercises,
+      status: 'in_progress',
+      assignment_id: assignmentId ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to start workout: ${error.message}`);
+  }
+
+  return data.id;
+};
+
+export const finishWorkout = async (workoutId: string, summary: WorkoutSummary) => {
+  const { error } = await supabase
+    .from('workouts')
+    .update({
+      status: summary.exercisesCompleted > 0 ? 'completed' : 'abandoned',
+      exercises_completed: summary.exercisesCompleted,
+      total_duration_minutes: toDurationMinutes(summary.durationSeconds),
+      total_points_earned: summary.pointsEarned,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', workoutId);
+
+  if (error) {
+    throw new Error(`Failed to finish workout: ${error.message}`);
+  }
+};
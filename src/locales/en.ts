@@ -0,0 +1,802 @@
+// English is the source language: every key used in the UI is defined here first.
+// Plural messages are keyed by Intl.PluralRules category and take a {count} param.
+const en = {
+  'common.back': 'Back',
+
+  // Language
+  'language.switcher': 'Language',
+
+  // App shell
+  'app.loading': 'Loading KidsFit...',
+  'app.loadingAccount': 'Loading your account...',
+  'app.slowLoading': 'Taking longer than usual? You can force logout and try again.',
+  'app.forceLogout': 'Force Logout & Reset',
+  'error.title': 'Oops! Something went wrong',
+  'error.message': 'We encountered an error while loading the application. Please try refreshing the page.',
+  'error.refresh': 'Refresh Page',
+  'error.tryAgain': 'Try Again',
+  'error.details': 'Error Details',
+
+  // Common
+  'common.error': 'An error occurred',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.sending': 'Sending...',
+  'common.loading': 'Loading...',
+  'common.clear': 'Clear',
+  'common.unknown': 'Unknown',
+  'common.signOut': 'Sign Out',
+  'common.done': 'Done',
+  'common.retry': 'Try again',
+  'common.minutes': '{count} min',
+  'common.points': { one: '{count} point', other: '{count} points' },
+  'common.start': 'Start',
+
+  // Sign in
+  'auth.email': 'Email Address',
+  'auth.password': 'Password',
+  'auth.confirmPassword': 'Confirm Password',
+  'auth.passwordsDontMatch': 'Passwords do not match',
+  'auth.passwordTooShort': 'Password must be at least 6 characters long',
+  'auth.coppa.title': 'COPPA Compliant',
+  'auth.coppa.login': 'Only parents/guardians can create accounts. Children are added and managed by parents with proper consent tracking.',
+  'auth.login.title': 'Welcome Back',
+  'auth.login.subtitle': 'Sign in to your parent account',
+  'auth.login.emailLink': 'Email link',
+  'auth.login.forgotPassword': 'Forgot password?',
+  'auth.login.linkHint': 'We\'ll email you a link that signs you in without a password.',
+  'auth.login.sendLink': 'Email Me a Link',
+  'auth.login.signingIn': 'Signing in...',
+  'auth.login.submit': 'Sign In',
+  'auth.login.noAccount': 'Don\'t have an account?',
+  'auth.login.createAccount': 'Create parent account',
+  'auth.login.linkSent': 'Check your email for a sign-in link.',
+  'auth.login.success': 'Successfully signed in!',
+  'auth.login.confirmationSent': 'Confirmation email sent. Follow the link in it, then sign in.',
+  'auth.login.resendConfirmation': 'Resend confirmation email',
+
+  // Sign up
+  'auth.signup.title': 'Create Parent Account',
+  'auth.signup.subtitle': 'Get started with a COPPA-compliant family fitness app',
+  'auth.signup.displayName': 'Display Name',
+  'auth.signup.namePlaceholder': 'Your name',
+  'auth.signup.passwordHint': 'Minimum 6 characters',
+  'auth.signup.agreePrefix': 'I agree to the',
+  'auth.signup.terms': 'Terms of Service',
+  'auth.signup.and': 'and',
+  'auth.signup.privacyPolicy': 'Privacy Policy',
+  'auth.signup.agreeSuffix': '. I understand this is a COPPA-compliant app for children\'s fitness.',
+  'auth.signup.creating': 'Creating account...',
+  'auth.signup.haveAccount': 'Already have an account?',
+  'auth.signup.signIn': 'Sign in',
+  'auth.signup.adultsOnly': 'Parent/Guardian Account Only',
+  'auth.signup.adultsOnlyHint': 'Only adults can create accounts. You\'ll be able to add and manage your children\'s profiles after registration with proper consent tracking.',
+  'auth.signup.mustAgree': 'You must agree to the terms and privacy policy',
+  'auth.signup.confirmEmail': 'Account created! We sent a confirmation link to {email}. Follow it to sign in.',
+  'auth.signup.success': 'Account created successfully! You can now add your children.',
+
+  // Password reset
+  'auth.forgot.title': 'Reset Password',
+  'auth.forgot.subtitle': 'We\'ll email you a link to choose a new password',
+  'auth.forgot.submit': 'Send Reset Link',
+  'auth.forgot.back': 'Back to sign in',
+  'auth.forgot.sent': 'If {email} has an account, a reset link is on its way.',
+  'auth.reset.title': 'Choose a New Password',
+  'auth.reset.for': 'For {email}',
+  'auth.reset.newPassword': 'New Password',
+  'auth.reset.submit': 'Save Password',
+
+  // Sign-in screen
+  'auth.brand.tagline': 'COPPA-Compliant Fitness',
+  'auth.brand.headline': 'Safe Fitness Fun for the Whole Family',
+  'auth.brand.intro': 'A privacy-first fitness app designed specifically for children, with complete parental oversight and COPPA compliance.',
+  'auth.brand.coppa': 'Full compliance with children\'s privacy laws. No health data collection, complete parental control.',
+  'auth.brand.familyTitle': 'Family Management',
+  'auth.brand.family': 'Parents create accounts and manage their children\'s profiles with full visibility and control.',
+  'auth.brand.adventuresTitle': 'Fun Adventures',
+  'auth.brand.adventures': 'Gamified exercise through story-driven adventures, focusing on fun and engagement rather than performance.',
+  'auth.brand.notTracked': 'What We Don\'t Track',
+  'auth.brand.noCalories': 'No calorie counting or health metrics',
+  'auth.brand.noBody': 'No body measurements or weight tracking',
+  'auth.brand.noLocation': 'No location data or personal information',
+  'auth.brand.noSocial': 'No social features without proper safeguards',
+  'auth.brand.mobileHeadline': 'Safe Fitness Fun for Kids',
+  'auth.brand.mobileIntro': 'Privacy-first fitness app with complete parental control',
+  'auth.linkError': '{reason}. Request a new link below.',
+  'auth.kidsSignIn': 'Kids sign in here',
+
+  // Child sign-in
+  'childLogin.picture.apple': 'Apple',
+  'childLogin.picture.ball': 'Ball',
+  'childLogin.picture.star': 'Star',
+  'childLogin.picture.sun': 'Sun',
+  'childLogin.picture.moon': 'Moon',
+  'childLogin.picture.fish': 'Fish',
+  'childLogin.picture.flower': 'Flower',
+  'childLogin.picture.car': 'Car',
+  'childLogin.picture.tree': 'Tree',
+  'childSignIn.deviceRemoved': 'This device is no longer set up. Ask a grown-up to sign in.',
+  'childSignIn.wrongCode': 'Wrong code. Try again!',
+  'childSignIn.tooManyAttempts': 'Too many tries. Wait a couple of minutes.',
+  'childSignIn.failed': 'Couldn\'t sign in. Ask a grown-up for help.',
+  'childSignIn.tapPictures': 'Tap your pictures in order',
+  'childSignIn.enterCode': 'Enter your code',
+  'childSignIn.erase': 'Erase',
+  'childSignIn.whoIsExercising': 'Who\'s exercising?',
+  'childSignIn.tapYourPicture': 'Tap your picture',
+  'childSignIn.nobodyYet': 'Nobody here yet. A grown-up can turn on kids sign-in in their profile.',
+  'childSignIn.parentSignIn': 'Parent sign in',
+
+  // Parent PIN
+  'pin.title': 'Parent PIN',
+  'pin.enterToLeave': 'Enter your PIN to leave kid mode',
+  'pin.wrong': 'Wrong PIN',
+  'pin.checkFailed': 'Failed to check PIN',
+  'pin.deleteDigit': 'Delete digit',
+  'pin.invalid': 'PIN must be 4 to 6 digits',
+  'pin.mismatch': 'PINs do not match',
+  'pin.setTitle': 'Set a Parent PIN',
+  'pin.setSubtitle': 'Needed to leave kid mode',
+  'pin.setHint': 'Kid mode hides your account controls while your child plays. Choose a PIN your child doesn\'t know.',
+  'pin.label': 'PIN',
+  'pin.digitsHint': '4 to 6 digits',
+  'pin.confirm': 'Confirm PIN',
+  'pin.saveAndStart': 'Save and Start Kid Mode',
+
+  // Kid mode
+  'kid.adventures': 'Adventures',
+  'kid.workout': 'Workout',
+  'kid.trophies': 'Trophies',
+  'kid.newTrophies': '{count} new!',
+  'kid.greeting': 'Hi, {name}!',
+  'kid.signOut': 'Sign out',
+  'kid.pinRequired': 'Parent PIN required',
+  'kid.forParents': 'For parents',
+  'kid.askGrownUp': 'Ask a grown-up to open KidsFit.',
+
+  // Child sign-in settings
+  'childLogin.title': 'Child Sign-In',
+  'childLogin.defaultDeviceName': 'Family tablet',
+  'childLogin.loadFailed': 'Failed to load sign-in settings',
+  'childLogin.pickPictures': { one: 'Pick {count} picture', other: 'Pick {count} pictures' },
+  'childLogin.saved': 'Saved. Show {name} their new code before handing over the device.',
+  'childLogin.intro': 'On a family device, {name} picks their avatar and enters a code to get their own session. It can only record their exercise and progress.',
+  'childLogin.onWithPictures': 'Sign-in is on with a picture code.',
+  'childLogin.onWithPin': 'Sign-in is on with a PIN.',
+  'childLogin.off': 'Sign-in is off.',
+  'childLogin.avatar': 'Avatar',
+  'childLogin.newCode': 'New code',
+  'childLogin.code': 'Code',
+  'childLogin.pictures': 'Pictures',
+  'childLogin.pictureHint': 'Tap {count} pictures in order. Pictures can repeat.',
+  'childLogin.turnedOff': 'Child sign-in is off.',
+  'childLogin.turnOff': 'Turn off',
+  'childLogin.devices': 'Family devices',
+  'childLogin.thisDevice': '(this device)',
+  'childLogin.deviceRemoved': '{device} removed.',
+  'childLogin.removeDevice': 'Remove device',
+  'childLogin.removeNamed': 'Remove {device}',
+  'childLogin.otherMember': 'This device is set up for child sign-in by another family member.',
+  'childLogin.deviceName': 'Device name',
+  'childLogin.deviceReady': 'This device now shows the children\'s avatars when nobody is signed in.',
+  'childLogin.useThisDevice': 'Use this device',
+
+  // Account settings
+  'settings.title': 'Account Settings',
+  'settings.open': 'Account settings',
+  'settings.name': 'Your Name',
+  'settings.privacy': 'Privacy',
+  'settings.analytics': 'Usage analytics',
+  'settings.analyticsHint': 'Record which screens you use to help improve KidsFit. Turning this off deletes what was recorded.',
+  'settings.dataSharing': 'Share anonymous statistics',
+  'settings.dataSharingHint': 'Allow your family\'s activity to be included in anonymous, aggregated statistics.',
+  'settings.marketing': 'Product news',
+  'settings.marketingHint': 'Receive occasional emails about new adventures and features.',
+  'settings.privacyNote': 'These settings cover your own account. Your children\'s activity is never used for analytics or marketing.',
+  'settings.save': 'Save Settings',
+  'settings.saved': 'Settings saved.',
+  'settings.email': 'Email',
+  'settings.emailPending': 'Waiting for {email} to be confirmed.',
+  'settings.newEmail': 'New email address',
+  'settings.change': 'Change',
+  'settings.emailSent': 'Check {email} for a link to confirm the change. Until then, keep signing in with your current email.',
+  'settings.currentPassword': 'Current password',
+  'settings.newPassword': 'New password',
+  'settings.confirmNewPassword': 'Confirm new password',
+  'settings.noPasswordHint': 'Signed in with an email link and never set a password? Sign out and use "Forgot password?" to create one.',
+  'settings.changePassword': 'Change Password',
+  'settings.passwordChanged': 'Password changed.',
+
+  // Parent dashboard
+  'dashboard.title': 'Parent Dashboard',
+  'dashboard.parentAccount': 'Parent Account',
+  'dashboard.coachMode': 'Coach mode',
+  'dashboard.coach': 'Coach',
+  'dashboard.backToDashboard': 'Back to dashboard',
+  'dashboard.backToExercises': 'Back to exercises',
+  'dashboard.exercisesFor': 'Exercises for {name}',
+  'dashboard.view.catalog': 'Exercises',
+  'dashboard.view.workout': 'Workout',
+  'dashboard.view.trophies': 'Trophies',
+  'dashboard.view.adventures': 'Adventures',
+  'dashboard.view.paths': 'Paths',
+  'dashboard.view.analytics': 'Analytics',
+  'dashboard.welcome': 'Welcome back, {name}!',
+  'dashboard.welcomeSubtitle': 'Manage your children\'s fitness journey with complete oversight and control.',
+  'dashboard.inviteAccepted': 'Invitation accepted. The child now appears under My Children.',
+  'dashboard.inviteFailed': 'Failed to accept invitation',
+  'dashboard.dismiss': 'Dismiss',
+  'dashboard.exerciseLocked': '"{name}" is still locked.',
+  'dashboard.myChildren': 'My Children',
+  'dashboard.addChild': 'Add Child',
+  'dashboard.noChildren': 'No children added yet',
+  'dashboard.noChildrenHint': 'Get started by adding your first child to begin their fitness journey.',
+  'dashboard.addFirstChild': 'Add Your First Child',
+  'dashboard.guardians': 'Guardians and coaches',
+  'dashboard.guardiansFor': 'Guardians and coaches for {name}',
+  'dashboard.childSignIn': 'Child sign-in',
+  'dashboard.childSignInFor': 'Sign-in settings for {name}',
+  'dashboard.export': 'Export activity',
+  'dashboard.exportFor': 'Export activity for {name}',
+  'dashboard.childData': 'My child\'s data',
+  'dashboard.childDataFor': 'Data and privacy for {name}',
+  'dashboard.edit': 'Edit or archive',
+  'dashboard.editFor': 'Edit or archive {name}',
+  'dashboard.age': { one: '{count} year old', other: '{count} years old' },
+  'dashboard.youAre': 'You are {relationship}',
+  'dashboard.viewOnly': ' · view only',
+  'dashboard.noDob': 'No DOB',
+  'dashboard.coppaConsent': 'COPPA Consent',
+  'dashboard.trophies': 'Trophies',
+  'dashboard.startExercise': 'Start Exercise',
+  'dashboard.startWorkout': 'Start Workout',
+  'dashboard.adventures': 'Adventures',
+  'dashboard.paths': 'Weekly Paths',
+  'dashboard.analytics': 'Analytics',
+  'dashboard.kidMode': 'Kid Mode',
+  'dashboard.showArchived': 'Show archived children ({count})',
+  'dashboard.hideArchived': 'Hide archived children ({count})',
+  'dashboard.archivedOn': 'Archived {date}',
+  'dashboard.restore': 'Restore',
+  'dashboard.restoring': 'Restoring...',
+  'dashboard.familyStats': 'Family Stats',
+  'dashboard.totalChildren': 'Total Children',
+  'dashboard.activeToday': 'Active Today',
+  'dashboard.thisWeek': 'This Week',
+  'dashboard.exerciseCount': { one: '{count} exercise', other: '{count} exercises' },
+  'dashboard.recentAchievements': 'Recent Achievements',
+  'dashboard.noAchievements': 'No achievements yet',
+  'dashboard.noAchievementsHint': 'Achievements will appear here as your children complete exercises',
+  'dashboard.privacy.title': 'COPPA Compliance & Privacy',
+  'dashboard.privacy.tracked': '✅ What We Track',
+  'dashboard.privacy.tracked1': 'Exercise completion and duration',
+  'dashboard.privacy.tracked2': 'Fun ratings (1-5 stars)',
+  'dashboard.privacy.tracked3': 'Adventure points and progress',
+  'dashboard.privacy.tracked4': 'Consistency and streak tracking',
+  'dashboard.privacy.notTracked': '❌ What We Don\'t Track',
+  'dashboard.privacy.notTracked1': 'Calories burned or health metrics',
+  'dashboard.privacy.notTracked2': 'Body measurements or weight',
+  'dashboard.privacy.notTracked3': 'Location data or personal info',
+  'dashboard.privacy.notTracked4': 'Performance comparisons with others',
+  'dashboard.privacy.control': 'You have complete control over your children\'s data. You can view, modify, or delete any information at any time. All children\'s accounts require your explicit consent and are managed entirely through your parent account.',
+  'dashboard.manageConsent': 'Manage consent',
+  'dashboard.activityLog': 'Activity log',
+  'relationship.parent': 'Parent',
+  'relationship.guardian': 'Guardian',
+  'relationship.coach': 'Coach',
+  'accessLevel.full': 'Full access',
+  'accessLevel.read_only': 'Read-only',
+
+  // Dashboard widgets
+  'sync.lastError': 'Last sync error: {error}',
+  'sync.offline': 'Sessions recorded offline',
+  'sync.syncing': 'Syncing...',
+  'sync.pending': '{count} pending sync',
+  'streak.keepGoing': 'Exercise today to keep the streak going',
+  'streak.days': '{count} day streak',
+  'streak.best': 'Best: {count}',
+  'streak.freezes': 'Streak freezes cover missed days',
+  'goals.thisWeek': 'This week',
+  'goals.thisMonth': 'This month',
+  'goals.minutesProgress': '{done} / {goal} min',
+  'goals.exercisesProgress': '{done} / {goal} exercises',
+  'goals.edit': 'Edit goals',
+  'goals.editFor': 'Edit goals for {name}',
+
+  // Goals
+  'goals.weeklyRange': 'Weekly goal must be between {min} and {max} minutes',
+  'goals.monthlyRange': 'Monthly goal must be between {min} and {max} exercises',
+  'goals.title': 'Goals for {name}',
+  'goals.weekStart': 'Weeks start on Monday in your timezone',
+  'goals.weeklyMinutes': 'Weekly active minutes',
+  'goals.weeklyMinutesHint': 'Counted from the duration of completed exercises',
+  'goals.monthlyExercises': 'Monthly exercises',
+  'goals.monthlyExercisesHint': 'Every completed exercise session counts once',
+  'goals.save': 'Save Goals',
+
+  // Child profiles
+  'child.nameRequired': 'Child name is required',
+  'child.nameTooLong': 'Child name must be at most {maxLength} characters',
+  'child.dobRequired': 'Date of birth is required',
+  'child.ageRange': 'Child age must be between {min} and {max} years old',
+  'child.name': 'Child\'s Name',
+  'child.namePlaceholder': 'Enter child\'s name',
+  'child.nameHint': 'Display name only - no full legal names required',
+  'child.age': 'Child\'s Age',
+  'child.selectAge': 'Select age',
+  'child.ageHint': 'Age {min}-{max} supported for child safety',
+  'child.dob': 'Date of Birth',
+  'child.add.title': 'Add Child Profile',
+  'child.add.subtitle': 'COPPA-compliant child account creation',
+  'child.add.consentRequired': 'Parental consent is required for COPPA compliance',
+  'child.add.privacyRequired': 'Privacy acknowledgment is required',
+  'child.add.created': 'Child profile created successfully!',
+  'child.add.consentTitle': 'COPPA Parental Consent',
+  'child.add.consentText': 'By creating this child profile, you consent to the collection and use of your child\'s information as described in our privacy policy. This app is designed to be COPPA compliant.',
+  'child.add.dataCollected': 'Data we collect:',
+  'child.add.data1': 'Child\'s display name and age',
+  'child.add.data2': 'Exercise activity and duration',
+  'child.add.data3': 'Fun ratings and adventure progress',
+  'child.add.data4': 'No health data, location, or personal information',
+  'child.add.consentStrong': 'I give my consent',
+  'child.add.consentLabel': ' as this child\'s parent/guardian to create this account and collect the information described above.',
+  'child.add.privacyLabel': 'I understand that I can view, modify, or delete my child\'s data at any time, and that this app prioritizes my child\'s privacy and safety.',
+  'child.add.creating': 'Creating...',
+  'child.add.submit': 'Create Child Profile',
+  'child.add.technicalLabel': 'Technical:',
+  'child.add.technical': ' Child profiles are created with user_id = NULL and linked to your parent account through the parent_child_relationships table. All data access is controlled by Row Level Security policies.',
+  'child.edit.title': 'Edit Child Profile',
+  'child.edit.save': 'Save Changes',
+  'child.edit.archiveTitle': 'Archive {name}',
+  'child.edit.archiveText': 'Hides the profile from your dashboard. All progress is kept and you can restore it at any time.',
+  'child.edit.archiveConfirm': 'Tap again to archive',
+  'child.edit.archive': 'Archive child',
+
+  // Child data
+  'childData.table.profiles': 'Profile',
+  'childData.table.parent_child_relationships': 'Parent links and consent',
+  'childData.table.consent_history': 'Consent history',
+  'childData.table.exercise_sessions': 'Exercise sessions',
+  'childData.table.workouts': 'Workouts',
+  'childData.table.user_progress': 'Progress totals and streaks',
+  'childData.table.user_rewards': 'Earned rewards',
+  'childData.table.user_adventures': 'Adventure progress',
+  'childData.table.user_path_progress': 'Weekly path progress',
+  'childData.table.goal_achievements': 'Goal achievements',
+  'childData.title': 'My child\'s data',
+  'childData.typeToConfirm': 'Type "{name}" to confirm',
+  'childData.everything': 'Everything the app stores about {name}:',
+  'childData.preparing': 'Preparing...',
+  'childData.downloadAgain': 'Download again',
+  'childData.download': 'Download all data (JSON)',
+  'childData.deleteTitle': 'Delete {name}\'s account',
+  'childData.deleteText': 'Removes the profile and all data listed above. This cannot be undone.',
+  'childData.deleteCreatorOnly': 'Only the parent who added {name} can delete the account.',
+  'childData.deleteAll': 'Delete all data',
+  'childData.exportedWarning': 'Your export is downloaded. Deleting removes everything from our servers permanently.',
+  'childData.exportFirstWarning': 'Consider downloading the data first. Deleting removes everything from our servers permanently.',
+  'childData.typeLabelBefore': 'Type ',
+  'childData.typeLabelAfter': ' to confirm',
+  'childData.password': 'Your password',
+  'childData.passwordHint': 'We ask again to make sure it\'s really you',
+  'childData.deleting': 'Deleting...',
+  'childData.deletePermanently': 'Delete permanently',
+  'childData.deleted': '{name}\'s data has been deleted',
+  'childData.receipt': 'Receipt',
+  'childData.deletedAt': 'Deleted at',
+  'childData.receiptHint': 'Keep this receipt code for your records. It contains no information about your child.',
+
+  // Consent
+  'consent.loadFailed': 'Failed to load consent',
+  'consent.confirmRequired': 'Please confirm your consent to continue',
+  'consent.title': 'Parental consent',
+  'consent.subtitle': 'Revoke or renew consent for each child',
+  'consent.noChildren': 'No children linked to your account',
+  'consent.given': 'Consent given {date}',
+  'consent.revoked': 'Consent revoked {date}',
+  'consent.active': 'Active',
+  'consent.paused': 'Data collection paused',
+  'consent.grantLabel': ' as {name}\'s parent/guardian to record their exercise activity again.',
+  'consent.revokeText': '{name} will disappear from your dashboard and no new exercise sessions can be saved. Existing data is kept until you delete it.',
+  'consent.note': 'Note (optional)',
+  'consent.grant': 'Grant consent',
+  'consent.revoke': 'Revoke consent',
+  'consent.grantAgain': 'Grant consent again',
+  'consent.manageData': 'Export or delete data',
+  'consent.history': 'History',
+  'consent.granted': 'Granted',
+  'consent.revokedEvent': 'Revoked',
+
+  // Activity log
+  'audit.table.profiles': 'Profile',
+  'audit.table.parent_child_relationships': 'Parent link',
+  'audit.table.exercise_sessions': 'Exercise session',
+  'audit.action.INSERT': '{table} created',
+  'audit.action.UPDATE': '{table} updated',
+  'audit.action.DELETE': '{table} deleted',
+  'audit.loadFailed': 'Failed to load audit log',
+  'audit.yourAccount': 'Your account',
+  'audit.removedChild': 'Removed or inactive child',
+  'audit.you': 'You',
+  'audit.familyMember': 'Another family member',
+  'audit.system': 'System',
+  'audit.title': 'Activity log',
+  'audit.subtitle': 'Every change to your family\'s profiles and sessions',
+  'audit.filter': 'Filter by person',
+  'audit.everyone': 'Everyone',
+  'audit.empty': 'No entries yet',
+  'audit.when': 'When',
+  'audit.who': 'Who',
+  'audit.whose': 'Whose data',
+  'audit.what': 'What',
+  'audit.loadMore': 'Load older entries',
+
+  // Activity export
+  'export.title': 'Export activity',
+  'export.subtitle': 'Training log for {name}',
+  'export.csvHint': 'Opens in Excel, Numbers or Google Sheets',
+  'export.jsonHint': 'Full data including all-time totals',
+  'export.pdfHint': 'Printable summary, choose "Save as PDF" when printing',
+  'export.dateOrder': 'Start date must be on or before the end date',
+  'export.from': 'From',
+  'export.to': 'To',
+  'export.format': 'Format',
+  'export.submit': 'Export',
+  'report.title': 'KidsFit activity - {name}',
+  'report.heading': 'Activity summary: {name}',
+  'report.generated': 'generated {date}',
+  'report.sessions': 'sessions',
+  'report.minutes': 'minutes',
+  'report.activeDays': 'active days',
+  'report.points': 'points',
+  'report.totals': 'All-time totals',
+  'report.noTotals': 'No totals recorded yet',
+  'report.exercisesCompleted': 'Exercises completed',
+  'report.minutesExercised': 'Minutes exercised',
+  'report.pointsEarned': 'Points earned',
+  'report.currentStreak': 'Current streak (days)',
+  'report.longestStreak': 'Longest streak (days)',
+  'report.rewardsEarned': 'Rewards earned',
+  'report.adventuresCompleted': 'Adventures completed',
+  'report.sessionsHeading': 'Sessions',
+  'report.date': 'Date',
+  'report.exercise': 'Exercise',
+  'report.category': 'Category',
+  'report.minutesColumn': 'Minutes',
+  'report.fun': 'Fun',
+  'report.effort': 'Effort',
+  'report.pointsColumn': 'Points',
+  'report.noSessions': 'No sessions in this period',
+
+  // Guardians
+  'guardians.loadFailed': 'Failed to load guardians',
+  'guardians.inviteFailed': 'Failed to create invitation',
+  'guardians.revokeFailed': 'Failed to revoke invitation',
+  'guardians.removeFailed': 'Failed to remove access',
+  'guardians.subtitle': 'Who can see {name}',
+  'guardians.you': ' (you)',
+  'guardians.remove': 'Remove',
+  'guardians.invitedAs': 'Invited as {relationship} · {access} · expires {date}',
+  'guardians.revoke': 'Revoke',
+  'guardians.sendLink': 'Send this link to {email}. It works once, for that email address, for 7 days.',
+  'guardians.copy': 'Copy link',
+  'guardians.copyLabel': 'Copy invitation link',
+  'guardians.email': 'Send by email',
+  'guardians.emailLabel': 'Send invitation by email',
+  'guardians.inviteTitle': 'Invite someone',
+  'guardians.emailAddress': 'Email address',
+  'guardians.role': 'Role',
+  'guardians.access': 'Access',
+  'guardians.accessHint': 'Read-only access shows progress, trophies and analytics. Full access can also record exercise and edit the profile. Only parents and guardians can manage consent.',
+  'guardians.create': 'Create invitation',
+  'guardians.mailSubject': 'Join {name} on KidsFit',
+  'guardians.mailBody': 'You\'ve been invited to follow {name}\'s activity on KidsFit.\n\nSign in or create an account with this email address, then open:\n{link}\n\nThe link expires in 7 days.',
+
+  // Teams
+  'teams.joinFailed': 'Failed to join team',
+  'teams.leaveFailed': 'Failed to leave team',
+  'teams.title': 'Teams',
+  'teams.leave': 'Leave team',
+  'teams.leaveLabel': 'Remove {child} from {team}',
+  'teams.team': 'team',
+  'teams.joinHint': 'Got a code from a coach? The coach will see your child\'s name and activity, nothing else.',
+  'teams.code': 'Team code',
+  'teams.child': 'Child',
+  'teams.join': 'Join',
+
+  // Coach mode
+  'coach.loadTeamsFailed': 'Failed to load teams',
+  'coach.loadBoardFailed': 'Failed to load team board',
+  'coach.createFailed': 'Failed to create team',
+  'coach.removeFailed': 'Failed to remove child',
+  'coach.subtitle': 'Families join with your team code. You only see each child\'s display name and activity.',
+  'coach.newTeam': 'New team name',
+  'coach.createTeam': 'Create team',
+  'coach.noTeams': 'No teams yet',
+  'coach.noTeamsHint': 'Create a team, then share its code with the families in your group.',
+  'coach.team': 'Team',
+  'coach.copyCode': 'Copy join code',
+  'coach.joinCode': 'Join code',
+  'coach.range': { one: '{count} day', other: '{count} days' },
+  'coach.noMembers': 'No children in this team yet. Parents add their child with the join code.',
+  'coach.child': 'Child',
+  'coach.attendance': 'Attendance',
+  'coach.days': 'Days',
+  'coach.sessions': 'Sessions',
+  'coach.minutes': 'Minutes',
+  'coach.points': 'Points',
+  'coach.streak': 'Streak',
+  'coach.assignments': 'Assignments',
+  'coach.lastActive': 'Last active',
+  'coach.remove': 'Remove from team',
+  'coach.removeLabel': 'Remove {name} from team',
+
+  // Team assignments
+  'workout.phase.warmUp': 'Warm-up',
+  'workout.phase.main': 'Main part',
+  'workout.phase.posture': 'Posture',
+  'workout.phase.coolDown': 'Cool-down',
+  'assignments.loadFailed': 'Failed to load assignments',
+  'assignments.pickOne': 'Pick at least one exercise',
+  'assignments.assignFailed': 'Failed to assign workout',
+  'assignments.deleteFailed': 'Failed to delete assignment',
+  'assignments.title': 'Assigned workouts',
+  'assignments.empty': 'Nothing assigned yet. Every child in the team sees new assignments in their workout screen.',
+  'assignments.exerciseCount': { one: '{count} exercise', other: '{count} exercises' },
+  'assignments.due': ' · due {date}',
+  'assignments.done': '{done}/{total} done',
+  'assignments.delete': 'Delete assignment',
+  'assignments.deleteLabel': 'Delete {title}',
+  'assignments.name': 'Title',
+  'assignments.dueDate': 'Due date (optional)',
+  'assignments.exercises': 'Exercises ({count})',
+  'assignments.suggest': 'Suggest',
+  'assignments.lockedFor': { one: 'Locked for {count} member', other: 'Locked for {count} members' },
+  'assignments.assigning': 'Assigning...',
+  'assignments.submit': 'Assign to the whole team',
+
+  // Workout builder
+  'exercises.loadFailed': 'Failed to load exercises',
+  'workout.building': 'Putting the workout together...',
+  'workout.title': 'Workout for {name}',
+  'workout.subtitle': 'Pick exercises for each part of the workout',
+  'workout.random': 'Random workout',
+  'workout.coachAssignments': 'Assignments from the coach',
+  'workout.assignmentExercises': '{count} ex.',
+  'workout.due': ' · due {date}',
+  'workout.optional': 'optional',
+  'workout.plan': 'Workout plan',
+  'workout.emptyPlan': 'No exercises picked yet',
+  'workout.totalMinutes': '~{count} min',
+  'workout.upToPoints': { one: 'up to {count} point', other: 'up to {count} points' },
+  'workout.missing': 'No exercises for: {phases}',
+  'workout.start': 'Start workout',
+
+  // Workout player
+  'workout.preparing': 'Getting the workout ready...',
+  'workout.finished': 'Workout complete!',
+  'workout.greatJob': 'Great job, {name}!',
+  'workout.exercisesLabel': 'Exercises:',
+  'workout.ofTotal': '{done} of {total}',
+  'workout.timeLabel': 'Time:',
+  'workout.pointsLabel': 'Points:',
+  'workout.averageFun': 'Average fun rating:',
+  'workout.skipped': 'skipped',
+  'workout.backToExercises': 'Back to exercises',
+  'workout.progress': 'Exercise {current} of {total}',
+  'workout.stop': 'Finish',
+  'workout.pointsCheer': { one: '+{count} point! Keep it up!', other: '+{count} points! Keep it up!' },
+  'workout.next': 'Up next:',
+  'workout.skip': 'Skip',
+  'workout.go': 'Let\'s go!',
+
+  // Rewards
+  'reward.rarity.common': 'Common',
+  'reward.rarity.rare': 'Rare',
+  'reward.rarity.epic': 'Epic',
+  'reward.rarity.legendary': 'Legendary',
+  'reward.type.trophy': 'Trophies',
+  'reward.type.badge': 'Badges',
+  'reward.type.avatar': 'Avatars',
+  'reward.type.title': 'Titles',
+  'reward.type.power_up': 'Power-ups',
+  'reward.new': { one: 'New reward!', other: 'New rewards: {count}!' },
+  'trophies.loadFailed': 'Failed to load rewards',
+  'trophies.loading': 'Opening the trophy room...',
+  'trophies.title': 'Trophy room: {name}',
+  'trophies.collected': '{earned} of {total} rewards collected',
+  'trophies.new': 'New',
+  'trophies.earnedOn': 'Earned {date}',
+
+  // Unlocks
+  'unlock.keepTraining': 'Keep training to unlock',
+  'unlock.adventures': { one: 'Finish {count} more adventure', other: 'Finish {count} more adventures' },
+  'unlock.paths': { one: 'Finish {count} more path', other: 'Finish {count} more paths' },
+  'unlock.remaining': '{count} more to unlock',
+
+  // Adventures
+  'adventure.status.not_started': 'Not started',
+  'adventure.status.in_progress': 'On the way',
+  'adventure.status.paused': 'Paused',
+  'adventure.status.completed': 'Completed!',
+  'adventure.loadFailed': 'Failed to load adventures',
+  'adventure.mapFailed': 'Failed to load the map',
+  'adventure.locked': 'This adventure is still locked',
+  'adventure.startFailed': 'Could not start the adventure',
+  'adventure.loading': 'Loading adventures...',
+  'adventure.all': 'All adventures',
+  'adventure.reward': { one: 'Reward for finishing: {count} point', other: 'Reward for finishing: {count} points' },
+  'adventure.continue': 'Continue adventure',
+  'adventure.start': 'Start adventure',
+  'adventure.optional': 'optional',
+  'adventure.nextStop': 'Next stop',
+  'adventure.go': 'Go',
+  'adventure.title': 'Adventures for {name}',
+  'adventure.subtitle': 'Pick an adventure and do the exercises one by one',
+  'adventure.closed': 'Locked',
+  'adventure.exercises': { one: '{count} exercise', other: '{count} exercises' },
+  'adventure.days': { one: '{count} day', other: '{count} days' },
+
+  // Paths
+  'path.status.locked': 'Locked',
+  'path.status.available': 'Not started',
+  'path.status.in_progress': 'On the way',
+  'path.status.completed': 'Completed!',
+  'path.loadFailed': 'Failed to load paths',
+  'path.weeksFailed': 'Failed to load the path',
+  'path.locked': 'This path is still locked',
+  'path.startFailed': 'Could not start the path',
+  'path.loading': 'Loading paths...',
+  'path.all': 'All paths',
+  'path.weeks': { one: '{count} wk', other: '{count} wks' },
+  'path.week': 'Week {number}',
+  'path.start': 'Start path',
+  'path.title': 'Paths for {name}',
+  'path.subtitle': 'New exercises open up every week',
+
+  // Exercise catalog
+  'difficulty.Easy': 'Easy',
+  'difficulty.Medium': 'Medium',
+  'difficulty.Hard': 'Hard',
+  'difficulty.all': 'All levels',
+  'category.all': 'All exercises',
+  'category.warm-up': 'Warm-up',
+  'category.main': 'Main part',
+  'category.cool-down': 'Cool-down',
+  'category.posture': 'Posture',
+  'category.general': 'General',
+  'catalog.loadFailed': 'Failed to load exercises',
+  'catalog.loading': 'Loading exercises...',
+  'catalog.title': 'Exercises for kids',
+  'catalog.found': 'Exercises found:',
+  'catalog.empty': 'No exercises found',
+  'catalog.emptyHint': 'Try changing the filters or the search',
+  'catalog.locksLoading': 'Checking which exercises are unlocked...',
+  'catalog.locksFailed': 'Could not check which exercises are unlocked, so exercises cannot be started yet.',
+  'filter.title': 'Filters',
+  'filter.clear': 'Clear',
+  'filter.resetAll': 'Reset all',
+  'filter.search': 'Search exercises',
+  'filter.searchPlaceholder': 'Find an exercise...',
+  'filter.clearSearch': 'Clear search',
+  'filter.adventure': 'Adventure',
+  'filter.category': 'Exercise category',
+  'filter.difficulty': 'Difficulty',
+  'filter.equipment': 'Equipment',
+  'filter.anyEquipment': 'Any equipment',
+  'filter.active': 'Active filters:',
+  'filter.searchTerm': 'Search: "{term}"',
+  'adventureSelector.all': 'All adventures',
+  'adventureSelector.allHint': 'Show all exercises',
+  'exercise.balance': 'Balance exercise',
+  'exercise.locked': 'Locked for now',
+  'exercise.prerequisite': { one: 'First do "{name}" {count} more time', other: 'First do "{name}" {count} more times' },
+  'exercise.minimumRating': ' (rated {rating}★ or higher)',
+  'exercise.primaryMuscles': 'Main muscles:',
+  'exercise.equipment': 'Equipment:',
+  'exercise.closed': 'Locked',
+  'exercise.details': 'Details',
+  'exercise.startLabel': 'Start exercise {name}',
+  'exercise.detailsLabel': 'More about exercise {name}',
+  'exercise.summary': 'Exercise {name}, category {category}, difficulty {difficulty}, {minutes} minutes, {points} adventure points',
+
+  // Adventure levels
+  'level.Beginner': 'Beginner',
+  'level.Intermediate': 'Intermediate',
+  'level.Advanced': 'Advanced',
+
+  // Exercise sets
+  'set.upToReps': 'You can do up to {count} reps',
+  'set.removeRep': 'Remove a rep',
+  'set.addRep': 'Add a rep',
+  'set.done': 'Set done',
+  'set.hold': 'Hold the position!',
+  'set.keepMoving': 'Keep moving!',
+  'set.endEarly': 'End the set early',
+  'set.markDistance': 'Tick off each distance you finish',
+  'set.distance': 'Distance {number}',
+  'set.finish': 'Finish!',
+  'set.allDone': 'All sets done!',
+  'set.bonusPrompt': 'Want to do one more bonus set?',
+  'set.bonus': 'Bonus set',
+  'set.end': 'Finish',
+  'set.progress': 'Set {current} of {total}',
+  'set.rest': 'Rest before the next set',
+  'set.ready': 'I\'m ready!',
+
+  // Exercise session
+  'session.loading': 'Loading the exercise...',
+  'session.loadFailed': 'Failed to load the exercise',
+  'session.saveFailed': 'Couldn\'t save the result, but the exercise still counts!',
+  'session.great': 'Awesome!',
+  'session.completed': 'Exercise complete!',
+  'session.time': 'Time:',
+  'session.points': 'Points:',
+  'session.sets': 'Sets:',
+  'session.reps': { one: ' • {count} rep', other: ' • {count} reps' },
+  'session.funRating': 'Fun rating:',
+  'session.savedOffline': 'No internet — the result is saved and will be sent automatically.',
+  'session.backToExercises': 'Back to exercises',
+  'session.state.active': 'In progress',
+  'session.state.paused': 'Paused',
+  'session.state.rating': 'All sets done',
+  'session.state.preparing': 'Ready to start',
+  'session.noDescription': 'Exercise description',
+  'session.notSpecified': 'Not specified',
+  'session.ratePrompt': 'How fun was the exercise?',
+  'session.rate.0': 'Rate the exercise',
+  'session.rate.1': 'Not great',
+  'session.rate.2': 'Okay',
+  'session.rate.3': 'Good',
+  'session.rate.4': 'Great',
+  'session.rate.5': 'Super!',
+  'session.effortPrompt': 'How hard was it?',
+  'session.effort.0': 'Rate the effort',
+  'session.effort.1': 'Very easy',
+  'session.effort.2': 'Easy',
+  'session.effort.3': 'Just right',
+  'session.effort.4': 'Hard',
+  'session.effort.5': 'Very hard',
+  'session.start': 'Start exercise',
+  'session.pause': 'Pause',
+  'session.finish': 'Finish',
+  'session.resume': 'Continue',
+  'session.hint.preparing': 'Tap "Start exercise" when you\'re ready',
+  'session.hint.active': 'Do the sets one at a time. The rest between sets starts by itself!',
+  'session.hint.paused': 'The exercise is paused. Continue when you\'re ready',
+  'session.hint.rating': 'Rate how fun and how hard it was, then finish the exercise',
+
+  // Analytics
+  'analytics.range.7d': 'Last 7 days',
+  'analytics.range.30d': 'Last 30 days',
+  'analytics.range.90d': 'Last 90 days',
+  'analytics.other': 'Other',
+  'analytics.loadFailed': 'Failed to load analytics',
+  'analytics.title': 'Activity for {name}',
+  'analytics.subtitle': 'Built from completed exercise sessions',
+  'analytics.compareLabel': 'Compare with another child',
+  'analytics.noComparison': 'No comparison',
+  'analytics.compareWith': 'Compare with {name}',
+  'analytics.sessions': { one: '{count} session', other: '{count} sessions' },
+  'analytics.activeDays': { one: '{count} active day', other: '{count} active days' },
+  'analytics.avgFun': '{value} avg fun',
+  'analytics.minutesPerDay': 'Minutes per day',
+  'analytics.minutesPerWeek': 'Minutes per week',
+  'analytics.unitMinutes': 'min',
+  'analytics.sessionsPerCategory': 'Sessions per category',
+  'analytics.unitSessions': 'sessions',
+  'analytics.noSessions': 'No sessions in this period',
+  'analytics.ratingsPerWeek': 'Average ratings per week',
+  'analytics.fun': 'Fun',
+  'analytics.effort': 'Effort',
+  'analytics.seriesFun': '{name} fun',
+  'analytics.seriesEffort': '{name} effort',
+  'analytics.muscles': 'Muscle groups trained',
+  'analytics.musclesHint': 'Primary muscles count as 1, secondary muscles as ½ per session',
+  'analytics.unitPoints': 'pts',
+  'analytics.noMuscles': 'No muscle data for this period',
+};
+
+export default en;
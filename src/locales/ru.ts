@@ -0,0 +1,802 @@
+import type { Messages } from '../lib/i18n';
+
+const ru: Messages = {
+  'common.back': 'Назад',
+
+  // Language
+  'language.switcher': 'Язык',
+
+  // App shell
+  'app.loading': 'Загружаем KidsFit...',
+  'app.loadingAccount': 'Загружаем ваш аккаунт...',
+  'app.slowLoading': 'Загрузка идёт дольше обычного? Можно принудительно выйти и попробовать снова.',
+  'app.forceLogout': 'Выйти и сбросить',
+  'error.title': 'Ой! Что-то пошло не так',
+  'error.message': 'При загрузке приложения произошла ошибка. Попробуйте обновить страницу.',
+  'error.refresh': 'Обновить страницу',
+  'error.tryAgain': 'Попробовать снова',
+  'error.details': 'Подробности ошибки',
+
+  // Common
+  'common.error': 'Произошла ошибка',
+  'common.cancel': 'Отмена',
+  'common.close': 'Закрыть',
+  'common.save': 'Сохранить',
+  'common.saving': 'Сохраняем...',
+  'common.sending': 'Отправляем...',
+  'common.loading': 'Загрузка...',
+  'common.clear': 'Очистить',
+  'common.unknown': 'Неизвестно',
+  'common.signOut': 'Выйти',
+  'common.done': 'Готово',
+  'common.retry': 'Попробовать снова',
+  'common.minutes': '{count} мин',
+  'common.points': { one: '{count} очко', few: '{count} очка', many: '{count} очков', other: '{count} очка' },
+  'common.start': 'Начать',
+
+  // Sign in
+  'auth.email': 'Электронная почта',
+  'auth.password': 'Пароль',
+  'auth.confirmPassword': 'Повторите пароль',
+  'auth.passwordsDontMatch': 'Пароли не совпадают',
+  'auth.passwordTooShort': 'Пароль должен быть не короче 6 символов',
+  'auth.coppa.title': 'Соответствует COPPA',
+  'auth.coppa.login': 'Аккаунты создают только родители и опекуны. Детей добавляют и ведут родители с учётом согласия.',
+  'auth.login.title': 'С возвращением',
+  'auth.login.subtitle': 'Войдите в родительский аккаунт',
+  'auth.login.emailLink': 'Ссылка на почту',
+  'auth.login.forgotPassword': 'Забыли пароль?',
+  'auth.login.linkHint': 'Мы отправим на почту ссылку для входа без пароля.',
+  'auth.login.sendLink': 'Прислать ссылку',
+  'auth.login.signingIn': 'Входим...',
+  'auth.login.submit': 'Войти',
+  'auth.login.noAccount': 'Нет аккаунта?',
+  'auth.login.createAccount': 'Создать родительский аккаунт',
+  'auth.login.linkSent': 'Проверьте почту: мы отправили ссылку для входа.',
+  'auth.login.success': 'Вы вошли!',
+  'auth.login.confirmationSent': 'Письмо с подтверждением отправлено. Перейдите по ссылке в нём, затем войдите.',
+  'auth.login.resendConfirmation': 'Отправить письмо ещё раз',
+
+  // Sign up
+  'auth.signup.title': 'Создать родительский аккаунт',
+  'auth.signup.subtitle': 'Начните пользоваться семейным фитнес-приложением, соответствующим COPPA',
+  'auth.signup.displayName': 'Имя',
+  'auth.signup.namePlaceholder': 'Ваше имя',
+  'auth.signup.passwordHint': 'Не меньше 6 символов',
+  'auth.signup.agreePrefix': 'Я принимаю',
+  'auth.signup.terms': 'Условия использования',
+  'auth.signup.and': 'и',
+  'auth.signup.privacyPolicy': 'Политику конфиденциальности',
+  'auth.signup.agreeSuffix': '. Я понимаю, что это детское фитнес-приложение, соответствующее COPPA.',
+  'auth.signup.creating': 'Создаём аккаунт...',
+  'auth.signup.haveAccount': 'Уже есть аккаунт?',
+  'auth.signup.signIn': 'Войти',
+  'auth.signup.adultsOnly': 'Только для родителей и опекунов',
+  'auth.signup.adultsOnlyHint': 'Аккаунты создают только взрослые. После регистрации вы сможете добавлять профили детей и управлять ими с учётом согласия.',
+  'auth.signup.mustAgree': 'Нужно принять условия и политику конфиденциальности',
+  'auth.signup.confirmEmail': 'Аккаунт создан! Мы отправили ссылку для подтверждения на {email}. Перейдите по ней, чтобы войти.',
+  'auth.signup.success': 'Аккаунт создан! Теперь можно добавить детей.',
+
+  // Password reset
+  'auth.forgot.title': 'Сброс пароля',
+  'auth.forgot.subtitle': 'Мы пришлём на почту ссылку для нового пароля',
+  'auth.forgot.submit': 'Отправить ссылку',
+  'auth.forgot.back': 'Вернуться ко входу',
+  'auth.forgot.sent': 'Если для {email} есть аккаунт, ссылка для сброса уже в пути.',
+  'auth.reset.title': 'Придумайте новый пароль',
+  'auth.reset.for': 'Для {email}',
+  'auth.reset.newPassword': 'Новый пароль',
+  'auth.reset.submit': 'Сохранить пароль',
+
+  // Sign-in screen
+  'auth.brand.tagline': 'Фитнес по правилам COPPA',
+  'auth.brand.headline': 'Безопасный и весёлый фитнес для всей семьи',
+  'auth.brand.intro': 'Фитнес-приложение для детей, в котором приватность на первом месте: полный родительский контроль и соответствие COPPA.',
+  'auth.brand.coppa': 'Полное соблюдение законов о детской приватности. Никаких медицинских данных, полный родительский контроль.',
+  'auth.brand.familyTitle': 'Управление семьёй',
+  'auth.brand.family': 'Родители создают аккаунты и ведут профили детей, всё видя и контролируя.',
+  'auth.brand.adventuresTitle': 'Весёлые приключения',
+  'auth.brand.adventures': 'Упражнения в виде игры и сюжетных приключений: главное — удовольствие, а не результаты.',
+  'auth.brand.notTracked': 'Что мы не отслеживаем',
+  'auth.brand.noCalories': 'Никаких калорий и медицинских показателей',
+  'auth.brand.noBody': 'Никаких измерений тела и веса',
+  'auth.brand.noLocation': 'Никакой геолокации и личных данных',
+  'auth.brand.noSocial': 'Никаких социальных функций без защиты',
+  'auth.brand.mobileHeadline': 'Безопасный и весёлый фитнес для детей',
+  'auth.brand.mobileIntro': 'Фитнес-приложение с заботой о приватности и полным родительским контролем',
+  'auth.linkError': 'Ссылка не сработала ({reason}). Запросите новую ниже.',
+  'auth.kidsSignIn': 'Вход для детей',
+
+  // Child sign-in
+  'childLogin.picture.apple': 'Яблоко',
+  'childLogin.picture.ball': 'Мяч',
+  'childLogin.picture.star': 'Звезда',
+  'childLogin.picture.sun': 'Солнце',
+  'childLogin.picture.moon': 'Луна',
+  'childLogin.picture.fish': 'Рыбка',
+  'childLogin.picture.flower': 'Цветок',
+  'childLogin.picture.car': 'Машина',
+  'childLogin.picture.tree': 'Дерево',
+  'childSignIn.deviceRemoved': 'Это устройство больше не настроено. Попроси взрослого войти.',
+  'childSignIn.wrongCode': 'Неправильный код. Попробуй ещё раз!',
+  'childSignIn.tooManyAttempts': 'Слишком много попыток. Подожди пару минут.',
+  'childSignIn.failed': 'Не получилось войти. Попроси взрослого помочь.',
+  'childSignIn.tapPictures': 'Нажми свои картинки по порядку',
+  'childSignIn.enterCode': 'Введи свой код',
+  'childSignIn.erase': 'Стереть',
+  'childSignIn.whoIsExercising': 'Кто занимается?',
+  'childSignIn.tapYourPicture': 'Нажми на свою картинку',
+  'childSignIn.nobodyYet': 'Пока никого нет. Взрослый может включить вход для детей в своём профиле.',
+  'childSignIn.parentSignIn': 'Вход для родителей',
+
+  // Parent PIN
+  'pin.title': 'PIN родителя',
+  'pin.enterToLeave': 'Введите PIN, чтобы выйти из детского режима',
+  'pin.wrong': 'Неверный PIN',
+  'pin.checkFailed': 'Не удалось проверить PIN',
+  'pin.deleteDigit': 'Стереть цифру',
+  'pin.invalid': 'PIN должен состоять из 4–6 цифр',
+  'pin.mismatch': 'PIN-коды не совпадают',
+  'pin.setTitle': 'Задайте PIN родителя',
+  'pin.setSubtitle': 'Нужен для выхода из детского режима',
+  'pin.setHint': 'Детский режим скрывает настройки аккаунта, пока ребёнок играет. Выберите PIN, который ребёнок не знает.',
+  'pin.label': 'PIN',
+  'pin.digitsHint': 'От 4 до 6 цифр',
+  'pin.confirm': 'Повторите PIN',
+  'pin.saveAndStart': 'Сохранить и включить детский режим',
+
+  // Kid mode
+  'kid.adventures': 'Приключения',
+  'kid.workout': 'Тренировка',
+  'kid.trophies': 'Трофеи',
+  'kid.newTrophies': { one: '{count} новый!', few: '{count} новых!', many: '{count} новых!', other: '{count} новых!' },
+  'kid.greeting': 'Привет, {name}!',
+  'kid.signOut': 'Выйти',
+  'kid.pinRequired': 'Нужен PIN родителя',
+  'kid.forParents': 'Для родителей',
+  'kid.askGrownUp': 'Попроси взрослого открыть KidsFit.',
+
+  // Child sign-in settings
+  'childLogin.title': 'Вход для ребёнка',
+  'childLogin.defaultDeviceName': 'Семейный планшет',
+  'childLogin.loadFailed': 'Не удалось загрузить настройки входа',
+  'childLogin.pickPictures': { one: 'Выберите {count} картинку', few: 'Выберите {count} картинки', many: 'Выберите {count} картинок', other: 'Выберите {count} картинки' },
+  'childLogin.saved': 'Сохранено. Покажите {name} новый код, прежде чем передать устройство.',
+  'childLogin.intro': 'На семейном устройстве {name} выбирает свою аватарку и вводит код, чтобы войти самостоятельно. Так можно только записывать упражнения и прогресс.',
+  'childLogin.onWithPictures': 'Вход включён, код из картинок.',
+  'childLogin.onWithPin': 'Вход включён, код — PIN.',
+  'childLogin.off': 'Вход выключен.',
+  'childLogin.avatar': 'Аватар',
+  'childLogin.newCode': 'Новый код',
+  'childLogin.code': 'Код',
+  'childLogin.pictures': 'Картинки',
+  'childLogin.pictureHint': 'Нажмите {count} картинки по порядку. Картинки могут повторяться.',
+  'childLogin.turnedOff': 'Вход для ребёнка выключен.',
+  'childLogin.turnOff': 'Выключить',
+  'childLogin.devices': 'Семейные устройства',
+  'childLogin.thisDevice': '(это устройство)',
+  'childLogin.deviceRemoved': 'Устройство «{device}» удалено.',
+  'childLogin.removeDevice': 'Удалить устройство',
+  'childLogin.removeNamed': 'Удалить «{device}»',
+  'childLogin.otherMember': 'Это устройство настроил для входа детей другой член семьи.',
+  'childLogin.deviceName': 'Название устройства',
+  'childLogin.deviceReady': 'Теперь, когда никто не вошёл, на этом устройстве будут аватарки детей.',
+  'childLogin.useThisDevice': 'Использовать это устройство',
+
+  // Account settings
+  'settings.title': 'Настройки аккаунта',
+  'settings.open': 'Настройки аккаунта',
+  'settings.name': 'Ваше имя',
+  'settings.privacy': 'Приватность',
+  'settings.analytics': 'Статистика использования',
+  'settings.analyticsHint': 'Запоминать, какими экранами вы пользуетесь, чтобы улучшать KidsFit. Если выключить, записанное удалится.',
+  'settings.dataSharing': 'Делиться анонимной статистикой',
+  'settings.dataSharingHint': 'Разрешить учитывать активность вашей семьи в анонимной сводной статистике.',
+  'settings.marketing': 'Новости продукта',
+  'settings.marketingHint': 'Иногда получать письма о новых приключениях и функциях.',
+  'settings.privacyNote': 'Эти настройки относятся к вашему аккаунту. Активность детей никогда не используется для статистики и рекламы.',
+  'settings.save': 'Сохранить настройки',
+  'settings.saved': 'Настройки сохранены.',
+  'settings.email': 'Почта',
+  'settings.emailPending': 'Ждём подтверждения адреса {email}.',
+  'settings.newEmail': 'Новый адрес почты',
+  'settings.change': 'Изменить',
+  'settings.emailSent': 'Проверьте {email}: там ссылка для подтверждения. А пока входите с текущей почтой.',
+  'settings.currentPassword': 'Текущий пароль',
+  'settings.newPassword': 'Новый пароль',
+  'settings.confirmNewPassword': 'Повторите новый пароль',
+  'settings.noPasswordHint': 'Входили по ссылке и не задавали пароль? Выйдите и нажмите «Забыли пароль?», чтобы его создать.',
+  'settings.changePassword': 'Сменить пароль',
+  'settings.passwordChanged': 'Пароль изменён.',
+
+  // Parent dashboard
+  'dashboard.title': 'Панель родителя',
+  'dashboard.parentAccount': 'Аккаунт родителя',
+  'dashboard.coachMode': 'Режим тренера',
+  'dashboard.coach': 'Тренер',
+  'dashboard.backToDashboard': 'Назад к панели',
+  'dashboard.backToExercises': 'Назад к упражнениям',
+  'dashboard.exercisesFor': 'Упражнения для {name}',
+  'dashboard.view.catalog': 'Упражнения',
+  'dashboard.view.workout': 'Тренировка',
+  'dashboard.view.trophies': 'Трофеи',
+  'dashboard.view.adventures': 'Приключения',
+  'dashboard.view.paths': 'Пути',
+  'dashboard.view.analytics': 'Аналитика',
+  'dashboard.welcome': 'С возвращением, {name}!',
+  'dashboard.welcomeSubtitle': 'Следите за спортивными успехами детей и управляйте всем в одном месте.',
+  'dashboard.inviteAccepted': 'Приглашение принято. Ребёнок теперь в разделе «Мои дети».',
+  'dashboard.inviteFailed': 'Не удалось принять приглашение',
+  'dashboard.dismiss': 'Скрыть',
+  'dashboard.exerciseLocked': 'Упражнение «{name}» пока закрыто.',
+  'dashboard.myChildren': 'Мои дети',
+  'dashboard.addChild': 'Добавить ребёнка',
+  'dashboard.noChildren': 'Дети пока не добавлены',
+  'dashboard.noChildrenHint': 'Добавьте первого ребёнка, чтобы начать тренировки.',
+  'dashboard.addFirstChild': 'Добавить первого ребёнка',
+  'dashboard.guardians': 'Опекуны и тренеры',
+  'dashboard.guardiansFor': 'Опекуны и тренеры: {name}',
+  'dashboard.childSignIn': 'Вход ребёнка',
+  'dashboard.childSignInFor': 'Настройки входа: {name}',
+  'dashboard.export': 'Экспорт активности',
+  'dashboard.exportFor': 'Экспорт активности: {name}',
+  'dashboard.childData': 'Данные ребёнка',
+  'dashboard.childDataFor': 'Данные и приватность: {name}',
+  'dashboard.edit': 'Изменить или архивировать',
+  'dashboard.editFor': 'Изменить или архивировать: {name}',
+  'dashboard.age': { one: '{count} год', few: '{count} года', many: '{count} лет', other: '{count} года' },
+  'dashboard.youAre': 'Вы — {relationship}',
+  'dashboard.viewOnly': ' · только просмотр',
+  'dashboard.noDob': 'Дата рождения не указана',
+  'dashboard.coppaConsent': 'Согласие COPPA',
+  'dashboard.trophies': 'Трофеи',
+  'dashboard.startExercise': 'Упражнение',
+  'dashboard.startWorkout': 'Тренировка',
+  'dashboard.adventures': 'Приключения',
+  'dashboard.paths': 'Недельные пути',
+  'dashboard.analytics': 'Аналитика',
+  'dashboard.kidMode': 'Детский режим',
+  'dashboard.showArchived': 'Показать архив ({count})',
+  'dashboard.hideArchived': 'Скрыть архив ({count})',
+  'dashboard.archivedOn': 'В архиве с {date}',
+  'dashboard.restore': 'Восстановить',
+  'dashboard.restoring': 'Восстановление...',
+  'dashboard.familyStats': 'Статистика семьи',
+  'dashboard.totalChildren': 'Всего детей',
+  'dashboard.activeToday': 'Активны сегодня',
+  'dashboard.thisWeek': 'На этой неделе',
+  'dashboard.exerciseCount': { one: '{count} упражнение', few: '{count} упражнения', many: '{count} упражнений', other: '{count} упражнения' },
+  'dashboard.recentAchievements': 'Последние достижения',
+  'dashboard.noAchievements': 'Достижений пока нет',
+  'dashboard.noAchievementsHint': 'Достижения появятся здесь, когда дети начнут выполнять упражнения',
+  'dashboard.privacy.title': 'COPPA и приватность',
+  'dashboard.privacy.tracked': '✅ Что мы учитываем',
+  'dashboard.privacy.tracked1': 'Выполнение и длительность упражнений',
+  'dashboard.privacy.tracked2': 'Оценки веселья (1–5 звёзд)',
+  'dashboard.privacy.tracked3': 'Очки приключений и прогресс',
+  'dashboard.privacy.tracked4': 'Регулярность и серии',
+  'dashboard.privacy.notTracked': '❌ Что мы не учитываем',
+  'dashboard.privacy.notTracked1': 'Калории и показатели здоровья',
+  'dashboard.privacy.notTracked2': 'Параметры тела и вес',
+  'dashboard.privacy.notTracked3': 'Местоположение и личные данные',
+  'dashboard.privacy.notTracked4': 'Сравнение с другими детьми',
+  'dashboard.privacy.control': 'Вы полностью управляете данными детей: их можно посмотреть, изменить или удалить в любой момент. Детские аккаунты создаются только с вашего явного согласия и управляются через ваш аккаунт родителя.',
+  'dashboard.manageConsent': 'Управление согласием',
+  'dashboard.activityLog': 'Журнал действий',
+  'relationship.parent': 'Родитель',
+  'relationship.guardian': 'Опекун',
+  'relationship.coach': 'Тренер',
+  'accessLevel.full': 'Полный доступ',
+  'accessLevel.read_only': 'Только просмотр',
+
+  // Dashboard widgets
+  'sync.lastError': 'Последняя ошибка синхронизации: {error}',
+  'sync.offline': 'Занятия, записанные без сети',
+  'sync.syncing': 'Синхронизация...',
+  'sync.pending': 'Ожидают синхронизации: {count}',
+  'streak.keepGoing': 'Позанимайтесь сегодня, чтобы не прервать серию',
+  'streak.days': { one: '{count} день подряд', few: '{count} дня подряд', many: '{count} дней подряд', other: '{count} дня подряд' },
+  'streak.best': 'Рекорд: {count}',
+  'streak.freezes': 'Заморозки серии покрывают пропущенные дни',
+  'goals.thisWeek': 'Эта неделя',
+  'goals.thisMonth': 'Этот месяц',
+  'goals.minutesProgress': '{done} / {goal} мин',
+  'goals.exercisesProgress': '{done} / {goal} упражнений',
+  'goals.edit': 'Изменить цели',
+  'goals.editFor': 'Цели: {name}',
+
+  // Goals
+  'goals.weeklyRange': 'Недельная цель — от {min} до {max} минут',
+  'goals.monthlyRange': 'Месячная цель — от {min} до {max} упражнений',
+  'goals.title': 'Цели: {name}',
+  'goals.weekStart': 'Неделя начинается в понедельник по вашему часовому поясу',
+  'goals.weeklyMinutes': 'Активных минут в неделю',
+  'goals.weeklyMinutesHint': 'Считается по длительности выполненных упражнений',
+  'goals.monthlyExercises': 'Упражнений в месяц',
+  'goals.monthlyExercisesHint': 'Каждое выполненное упражнение считается один раз',
+  'goals.save': 'Сохранить цели',
+
+  // Child profiles
+  'child.nameRequired': 'Укажите имя ребёнка',
+  'child.nameTooLong': 'Имя ребёнка — не длиннее {maxLength} символов',
+  'child.dobRequired': 'Укажите дату рождения',
+  'child.ageRange': 'Возраст ребёнка — от {min} до {max} лет',
+  'child.name': 'Имя ребёнка',
+  'child.namePlaceholder': 'Введите имя ребёнка',
+  'child.nameHint': 'Только отображаемое имя — полное имя не нужно',
+  'child.age': 'Возраст ребёнка',
+  'child.selectAge': 'Выберите возраст',
+  'child.ageHint': 'Поддерживается возраст {min}–{max} лет',
+  'child.dob': 'Дата рождения',
+  'child.add.title': 'Новый профиль ребёнка',
+  'child.add.subtitle': 'Создание детского аккаунта по правилам COPPA',
+  'child.add.consentRequired': 'Для COPPA нужно согласие родителя',
+  'child.add.privacyRequired': 'Нужно подтвердить условия приватности',
+  'child.add.created': 'Профиль ребёнка создан!',
+  'child.add.consentTitle': 'Согласие родителя (COPPA)',
+  'child.add.consentText': 'Создавая профиль ребёнка, вы соглашаетесь на сбор и использование его данных согласно политике конфиденциальности. Приложение соответствует требованиям COPPA.',
+  'child.add.dataCollected': 'Какие данные мы собираем:',
+  'child.add.data1': 'Отображаемое имя и возраст ребёнка',
+  'child.add.data2': 'Упражнения и их длительность',
+  'child.add.data3': 'Оценки веселья и прогресс приключений',
+  'child.add.data4': 'Никаких данных о здоровье, местоположении и личной информации',
+  'child.add.consentStrong': 'Я даю согласие',
+  'child.add.consentLabel': ' как родитель или опекун на создание аккаунта и сбор описанных выше данных.',
+  'child.add.privacyLabel': 'Я понимаю, что могу в любой момент посмотреть, изменить или удалить данные ребёнка, а приложение ставит его приватность и безопасность на первое место.',
+  'child.add.creating': 'Создание...',
+  'child.add.submit': 'Создать профиль',
+  'child.add.technicalLabel': 'Технически:',
+  'child.add.technical': ' детские профили создаются с user_id = NULL и связываются с вашим аккаунтом через таблицу parent_child_relationships. Доступ к данным контролируется политиками Row Level Security.',
+  'child.edit.title': 'Профиль ребёнка',
+  'child.edit.save': 'Сохранить',
+  'child.edit.archiveTitle': 'Архивировать: {name}',
+  'child.edit.archiveText': 'Профиль пропадёт с панели. Весь прогресс сохранится, и его можно восстановить в любой момент.',
+  'child.edit.archiveConfirm': 'Нажмите ещё раз для архивации',
+  'child.edit.archive': 'Архивировать',
+
+  // Child data
+  'childData.table.profiles': 'Профиль',
+  'childData.table.parent_child_relationships': 'Связи с родителями и согласие',
+  'childData.table.consent_history': 'История согласий',
+  'childData.table.exercise_sessions': 'Занятия',
+  'childData.table.workouts': 'Тренировки',
+  'childData.table.user_progress': 'Итоги прогресса и серии',
+  'childData.table.user_rewards': 'Полученные награды',
+  'childData.table.user_adventures': 'Прогресс приключений',
+  'childData.table.user_path_progress': 'Прогресс недельных путей',
+  'childData.table.goal_achievements': 'Достигнутые цели',
+  'childData.title': 'Данные ребёнка',
+  'childData.typeToConfirm': 'Введите «{name}» для подтверждения',
+  'childData.everything': 'Всё, что приложение хранит о ребёнке {name}:',
+  'childData.preparing': 'Подготовка...',
+  'childData.downloadAgain': 'Скачать ещё раз',
+  'childData.download': 'Скачать все данные (JSON)',
+  'childData.deleteTitle': 'Удалить аккаунт: {name}',
+  'childData.deleteText': 'Удаляет профиль и все перечисленные данные. Это нельзя отменить.',
+  'childData.deleteCreatorOnly': 'Удалить аккаунт может только родитель, который добавил ребёнка ({name}).',
+  'childData.deleteAll': 'Удалить все данные',
+  'childData.exportedWarning': 'Экспорт скачан. Удаление навсегда сотрёт всё с наших серверов.',
+  'childData.exportFirstWarning': 'Сначала стоит скачать данные. Удаление навсегда сотрёт всё с наших серверов.',
+  'childData.typeLabelBefore': 'Введите ',
+  'childData.typeLabelAfter': ' для подтверждения',
+  'childData.password': 'Ваш пароль',
+  'childData.passwordHint': 'Мы спрашиваем ещё раз, чтобы убедиться, что это вы',
+  'childData.deleting': 'Удаление...',
+  'childData.deletePermanently': 'Удалить навсегда',
+  'childData.deleted': 'Данные ребёнка {name} удалены',
+  'childData.receipt': 'Квитанция',
+  'childData.deletedAt': 'Удалено',
+  'childData.receiptHint': 'Сохраните код квитанции. В нём нет информации о ребёнке.',
+
+  // Consent
+  'consent.loadFailed': 'Не удалось загрузить согласия',
+  'consent.confirmRequired': 'Подтвердите согласие, чтобы продолжить',
+  'consent.title': 'Согласие родителя',
+  'consent.subtitle': 'Отзовите или возобновите согласие для каждого ребёнка',
+  'consent.noChildren': 'К вашему аккаунту не привязаны дети',
+  'consent.given': 'Согласие дано {date}',
+  'consent.revoked': 'Согласие отозвано {date}',
+  'consent.active': 'Активно',
+  'consent.paused': 'Сбор данных приостановлен',
+  'consent.grantLabel': ' как родитель или опекун ребёнка {name} на возобновление записи занятий.',
+  'consent.revokeText': '{name} пропадёт с вашей панели, и новые занятия сохраняться не будут. Уже собранные данные хранятся, пока вы их не удалите.',
+  'consent.note': 'Комментарий (необязательно)',
+  'consent.grant': 'Дать согласие',
+  'consent.revoke': 'Отозвать согласие',
+  'consent.grantAgain': 'Снова дать согласие',
+  'consent.manageData': 'Экспорт или удаление данных',
+  'consent.history': 'История',
+  'consent.granted': 'Дано',
+  'consent.revokedEvent': 'Отозвано',
+
+  // Activity log
+  'audit.table.profiles': 'Профиль',
+  'audit.table.parent_child_relationships': 'Связь с родителем',
+  'audit.table.exercise_sessions': 'Занятие',
+  'audit.action.INSERT': '{table}: создание',
+  'audit.action.UPDATE': '{table}: изменение',
+  'audit.action.DELETE': '{table}: удаление',
+  'audit.loadFailed': 'Не удалось загрузить журнал',
+  'audit.yourAccount': 'Ваш аккаунт',
+  'audit.removedChild': 'Удалённый или неактивный ребёнок',
+  'audit.you': 'Вы',
+  'audit.familyMember': 'Другой член семьи',
+  'audit.system': 'Система',
+  'audit.title': 'Журнал действий',
+  'audit.subtitle': 'Все изменения профилей и занятий вашей семьи',
+  'audit.filter': 'Фильтр по человеку',
+  'audit.everyone': 'Все',
+  'audit.empty': 'Записей пока нет',
+  'audit.when': 'Когда',
+  'audit.who': 'Кто',
+  'audit.whose': 'Чьи данные',
+  'audit.what': 'Что',
+  'audit.loadMore': 'Загрузить более ранние',
+
+  // Activity export
+  'export.title': 'Экспорт активности',
+  'export.subtitle': 'Журнал тренировок: {name}',
+  'export.csvHint': 'Открывается в Excel, Numbers или Google Таблицах',
+  'export.jsonHint': 'Все данные, включая итоги за всё время',
+  'export.pdfHint': 'Сводка для печати — при печати выберите «Сохранить как PDF»',
+  'export.dateOrder': 'Дата начала не может быть позже даты окончания',
+  'export.from': 'С',
+  'export.to': 'По',
+  'export.format': 'Формат',
+  'export.submit': 'Экспортировать',
+  'report.title': 'Активность KidsFit — {name}',
+  'report.heading': 'Сводка активности: {name}',
+  'report.generated': 'создано {date}',
+  'report.sessions': 'занятий',
+  'report.minutes': 'минут',
+  'report.activeDays': 'активных дней',
+  'report.points': 'очков',
+  'report.totals': 'Итоги за всё время',
+  'report.noTotals': 'Итогов пока нет',
+  'report.exercisesCompleted': 'Выполнено упражнений',
+  'report.minutesExercised': 'Минут тренировок',
+  'report.pointsEarned': 'Заработано очков',
+  'report.currentStreak': 'Текущая серия (дней)',
+  'report.longestStreak': 'Лучшая серия (дней)',
+  'report.rewardsEarned': 'Получено наград',
+  'report.adventuresCompleted': 'Пройдено приключений',
+  'report.sessionsHeading': 'Занятия',
+  'report.date': 'Дата',
+  'report.exercise': 'Упражнение',
+  'report.category': 'Категория',
+  'report.minutesColumn': 'Минуты',
+  'report.fun': 'Веселье',
+  'report.effort': 'Усилие',
+  'report.pointsColumn': 'Очки',
+  'report.noSessions': 'За этот период занятий нет',
+
+  // Guardians
+  'guardians.loadFailed': 'Не удалось загрузить опекунов',
+  'guardians.inviteFailed': 'Не удалось создать приглашение',
+  'guardians.revokeFailed': 'Не удалось отозвать приглашение',
+  'guardians.removeFailed': 'Не удалось закрыть доступ',
+  'guardians.subtitle': 'Кто видит профиль: {name}',
+  'guardians.you': ' (вы)',
+  'guardians.remove': 'Убрать',
+  'guardians.invitedAs': 'Приглашён как {relationship} · {access} · до {date}',
+  'guardians.revoke': 'Отозвать',
+  'guardians.sendLink': 'Отправьте эту ссылку на {email}. Она одноразовая, работает только для этого адреса и действует 7 дней.',
+  'guardians.copy': 'Копировать ссылку',
+  'guardians.copyLabel': 'Копировать ссылку-приглашение',
+  'guardians.email': 'Отправить по почте',
+  'guardians.emailLabel': 'Отправить приглашение по почте',
+  'guardians.inviteTitle': 'Пригласить',
+  'guardians.emailAddress': 'Адрес почты',
+  'guardians.role': 'Роль',
+  'guardians.access': 'Доступ',
+  'guardians.accessHint': 'Просмотр показывает прогресс, трофеи и аналитику. Полный доступ позволяет ещё записывать занятия и менять профиль. Управлять согласием могут только родители и опекуны.',
+  'guardians.create': 'Создать приглашение',
+  'guardians.mailSubject': 'Присоединяйтесь к {name} в KidsFit',
+  'guardians.mailBody': 'Вас пригласили следить за активностью ребёнка {name} в KidsFit.\n\nВойдите или создайте аккаунт с этим адресом почты, затем откройте:\n{link}\n\nСсылка действует 7 дней.',
+
+  // Teams
+  'teams.joinFailed': 'Не удалось вступить в команду',
+  'teams.leaveFailed': 'Не удалось выйти из команды',
+  'teams.title': 'Команды',
+  'teams.leave': 'Выйти из команды',
+  'teams.leaveLabel': 'Убрать {child} из команды {team}',
+  'teams.team': 'команда',
+  'teams.joinHint': 'Есть код от тренера? Тренер увидит только имя ребёнка и его активность.',
+  'teams.code': 'Код команды',
+  'teams.child': 'Ребёнок',
+  'teams.join': 'Вступить',
+
+  // Coach mode
+  'coach.loadTeamsFailed': 'Не удалось загрузить команды',
+  'coach.loadBoardFailed': 'Не удалось загрузить таблицу команды',
+  'coach.createFailed': 'Не удалось создать команду',
+  'coach.removeFailed': 'Не удалось убрать ребёнка',
+  'coach.subtitle': 'Семьи вступают по коду команды. Вы видите только имя ребёнка и его активность.',
+  'coach.newTeam': 'Название новой команды',
+  'coach.createTeam': 'Создать команду',
+  'coach.noTeams': 'Команд пока нет',
+  'coach.noTeamsHint': 'Создайте команду и поделитесь её кодом с семьями вашей группы.',
+  'coach.team': 'Команда',
+  'coach.copyCode': 'Копировать код',
+  'coach.joinCode': 'Код для вступления',
+  'coach.range': { one: '{count} день', few: '{count} дня', many: '{count} дней', other: '{count} дня' },
+  'coach.noMembers': 'В команде пока нет детей. Родители добавляют ребёнка по коду.',
+  'coach.child': 'Ребёнок',
+  'coach.attendance': 'Посещаемость',
+  'coach.days': 'Дни',
+  'coach.sessions': 'Занятия',
+  'coach.minutes': 'Минуты',
+  'coach.points': 'Очки',
+  'coach.streak': 'Серия',
+  'coach.assignments': 'Задания',
+  'coach.lastActive': 'Последняя активность',
+  'coach.remove': 'Убрать из команды',
+  'coach.removeLabel': 'Убрать {name} из команды',
+
+  // Team assignments
+  'workout.phase.warmUp': 'Разминка',
+  'workout.phase.main': 'Основная часть',
+  'workout.phase.posture': 'Осанка',
+  'workout.phase.coolDown': 'Заминка',
+  'assignments.loadFailed': 'Не удалось загрузить задания',
+  'assignments.pickOne': 'Выберите хотя бы одно упражнение',
+  'assignments.assignFailed': 'Не удалось назначить тренировку',
+  'assignments.deleteFailed': 'Не удалось удалить задание',
+  'assignments.title': 'Назначенные тренировки',
+  'assignments.empty': 'Заданий пока нет. Каждый ребёнок в команде увидит новые задания на экране тренировки.',
+  'assignments.exerciseCount': { one: '{count} упражнение', few: '{count} упражнения', many: '{count} упражнений', other: '{count} упражнения' },
+  'assignments.due': ' · до {date}',
+  'assignments.done': 'выполнили {done}/{total}',
+  'assignments.delete': 'Удалить задание',
+  'assignments.deleteLabel': 'Удалить «{title}»',
+  'assignments.name': 'Название',
+  'assignments.dueDate': 'Срок (необязательно)',
+  'assignments.exercises': 'Упражнения ({count})',
+  'assignments.suggest': 'Подобрать',
+  'assignments.lockedFor': { one: 'Закрыто для {count} участника', few: 'Закрыто для {count} участников', many: 'Закрыто для {count} участников', other: 'Закрыто для {count} участника' },
+  'assignments.assigning': 'Назначение...',
+  'assignments.submit': 'Назначить всей команде',
+
+  // Workout builder
+  'exercises.loadFailed': 'Ошибка загрузки упражнений',
+  'workout.building': 'Собираем тренировку...',
+  'workout.title': 'Тренировка для {name}',
+  'workout.subtitle': 'Выбери упражнения для каждой части тренировки',
+  'workout.random': 'Случайная тренировка',
+  'workout.coachAssignments': 'Задания от тренера',
+  'workout.assignmentExercises': '{count} упр.',
+  'workout.due': ' · до {date}',
+  'workout.optional': 'по желанию',
+  'workout.plan': 'План тренировки',
+  'workout.emptyPlan': 'Пока не выбрано ни одного упражнения',
+  'workout.totalMinutes': '~{count} мин',
+  'workout.upToPoints': { one: 'до {count} очка', other: 'до {count} очков' },
+  'workout.missing': 'Нет упражнений: {phases}',
+  'workout.start': 'Начать тренировку',
+
+  // Workout player
+  'workout.preparing': 'Готовим тренировку...',
+  'workout.finished': 'Тренировка завершена!',
+  'workout.greatJob': '{name}, ты молодец!',
+  'workout.exercisesLabel': 'Упражнения:',
+  'workout.ofTotal': '{done} из {total}',
+  'workout.timeLabel': 'Время:',
+  'workout.pointsLabel': 'Очки:',
+  'workout.averageFun': 'Средний рейтинг веселья:',
+  'workout.skipped': 'пропущено',
+  'workout.backToExercises': 'Вернуться к упражнениям',
+  'workout.progress': 'Упражнение {current} из {total}',
+  'workout.stop': 'Закончить',
+  'workout.pointsCheer': { one: '+{count} очко! Так держать!', few: '+{count} очка! Так держать!', many: '+{count} очков! Так держать!', other: '+{count} очка! Так держать!' },
+  'workout.next': 'Дальше:',
+  'workout.skip': 'Пропустить',
+  'workout.go': 'Поехали!',
+
+  // Rewards
+  'reward.rarity.common': 'Обычная',
+  'reward.rarity.rare': 'Редкая',
+  'reward.rarity.epic': 'Эпическая',
+  'reward.rarity.legendary': 'Легендарная',
+  'reward.type.trophy': 'Кубки',
+  'reward.type.badge': 'Значки',
+  'reward.type.avatar': 'Аватары',
+  'reward.type.title': 'Звания',
+  'reward.type.power_up': 'Усилители',
+  'reward.new': { one: 'Новая награда!', other: 'Новые награды: {count}!' },
+  'trophies.loadFailed': 'Ошибка загрузки наград',
+  'trophies.loading': 'Открываем комнату трофеев...',
+  'trophies.title': 'Комната трофеев: {name}',
+  'trophies.collected': 'Собрано {earned} из {total} наград',
+  'trophies.new': 'Новая',
+  'trophies.earnedOn': 'Получено {date}',
+
+  // Unlocks
+  'unlock.keepTraining': 'Продолжай тренироваться, чтобы открыть',
+  'unlock.adventures': { one: 'Пройди ещё {count} приключение', few: 'Пройди ещё {count} приключения', many: 'Пройди ещё {count} приключений', other: 'Пройди ещё {count} приключения' },
+  'unlock.paths': { one: 'Пройди ещё {count} путь', few: 'Пройди ещё {count} пути', many: 'Пройди ещё {count} путей', other: 'Пройди ещё {count} пути' },
+  'unlock.remaining': 'Осталось {count} до открытия',
+
+  // Adventures
+  'adventure.status.not_started': 'Не начато',
+  'adventure.status.in_progress': 'В пути',
+  'adventure.status.paused': 'На паузе',
+  'adventure.status.completed': 'Пройдено!',
+  'adventure.loadFailed': 'Ошибка загрузки приключений',
+  'adventure.mapFailed': 'Ошибка загрузки карты',
+  'adventure.locked': 'Это приключение пока закрыто',
+  'adventure.startFailed': 'Не удалось начать приключение',
+  'adventure.loading': 'Загружаем приключения...',
+  'adventure.all': 'Все приключения',
+  'adventure.reward': { one: 'Награда за прохождение: {count} очко', few: 'Награда за прохождение: {count} очка', many: 'Награда за прохождение: {count} очков', other: 'Награда за прохождение: {count} очка' },
+  'adventure.continue': 'Продолжить приключение',
+  'adventure.start': 'Начать приключение',
+  'adventure.optional': 'по желанию',
+  'adventure.nextStop': 'Следующая остановка',
+  'adventure.go': 'Вперёд',
+  'adventure.title': 'Приключения {name}',
+  'adventure.subtitle': 'Выбери приключение и проходи упражнения одно за другим',
+  'adventure.closed': 'Закрыто',
+  'adventure.exercises': { one: '{count} упражнение', few: '{count} упражнения', many: '{count} упражнений', other: '{count} упражнения' },
+  'adventure.days': { one: '{count} день', few: '{count} дня', many: '{count} дней', other: '{count} дня' },
+
+  // Paths
+  'path.status.locked': 'Закрыто',
+  'path.status.available': 'Не начато',
+  'path.status.in_progress': 'В пути',
+  'path.status.completed': 'Пройдено!',
+  'path.loadFailed': 'Ошибка загрузки путей',
+  'path.weeksFailed': 'Ошибка загрузки пути',
+  'path.locked': 'Этот путь пока закрыт',
+  'path.startFailed': 'Не удалось начать путь',
+  'path.loading': 'Загружаем пути...',
+  'path.all': 'Все пути',
+  'path.weeks': '{count} нед.',
+  'path.week': 'Неделя {number}',
+  'path.start': 'Начать путь',
+  'path.title': 'Пути {name}',
+  'path.subtitle': 'Каждую неделю открываются новые упражнения',
+
+  // Exercise catalog
+  'difficulty.Easy': 'Легко',
+  'difficulty.Medium': 'Средне',
+  'difficulty.Hard': 'Сложно',
+  'difficulty.all': 'Все уровни',
+  'category.all': 'Все упражнения',
+  'category.warm-up': 'Разминка',
+  'category.main': 'Основная часть',
+  'category.cool-down': 'Заминка',
+  'category.posture': 'Осанка',
+  'category.general': 'Общее',
+  'catalog.loadFailed': 'Ошибка загрузки упражнений',
+  'catalog.loading': 'Загрузка упражнений...',
+  'catalog.title': 'Упражнения для детей',
+  'catalog.found': 'Найдено упражнений:',
+  'catalog.empty': 'Упражнения не найдены',
+  'catalog.emptyHint': 'Попробуйте изменить фильтры или поисковый запрос',
+  'catalog.locksLoading': 'Проверяем, какие упражнения открыты...',
+  'catalog.locksFailed': 'Не удалось проверить, какие упражнения открыты, поэтому начать упражнение пока нельзя.',
+  'filter.title': 'Фильтры',
+  'filter.clear': 'Очистить',
+  'filter.resetAll': 'Сбросить все',
+  'filter.search': 'Поиск упражнений',
+  'filter.searchPlaceholder': 'Найти упражнение...',
+  'filter.clearSearch': 'Очистить поиск',
+  'filter.adventure': 'Приключение',
+  'filter.category': 'Категория упражнений',
+  'filter.difficulty': 'Уровень сложности',
+  'filter.equipment': 'Оборудование',
+  'filter.anyEquipment': 'Любое оборудование',
+  'filter.active': 'Активные фильтры:',
+  'filter.searchTerm': 'Поиск: "{term}"',
+  'adventureSelector.all': 'Все приключения',
+  'adventureSelector.allHint': 'Показать все упражнения',
+  'exercise.balance': 'Упражнение на баланс',
+  'exercise.locked': 'Пока закрыто',
+  'exercise.prerequisite': { one: 'Сначала выполни «{name}» ещё {count} раз', few: 'Сначала выполни «{name}» ещё {count} раза', many: 'Сначала выполни «{name}» ещё {count} раз', other: 'Сначала выполни «{name}» ещё {count} раза' },
+  'exercise.minimumRating': ' (с оценкой от {rating}★)',
+  'exercise.primaryMuscles': 'Основные мышцы:',
+  'exercise.equipment': 'Оборудование:',
+  'exercise.closed': 'Закрыто',
+  'exercise.details': 'Подробнее',
+  'exercise.startLabel': 'Начать упражнение {name}',
+  'exercise.detailsLabel': 'Подробнее об упражнении {name}',
+  'exercise.summary': 'Упражнение {name}, категория {category}, сложность {difficulty}, продолжительность {minutes} минут, {points} очков приключений',
+
+  // Adventure levels
+  'level.Beginner': 'Новичок',
+  'level.Intermediate': 'Средний',
+  'level.Advanced': 'Продвинутый',
+
+  // Exercise sets
+  'set.upToReps': 'Можно до {count} повторений',
+  'set.removeRep': 'Убрать повторение',
+  'set.addRep': 'Добавить повторение',
+  'set.done': 'Подход выполнен',
+  'set.hold': 'Держи позицию!',
+  'set.keepMoving': 'Продолжай двигаться!',
+  'set.endEarly': 'Закончить подход раньше',
+  'set.markDistance': 'Отмечай каждую пройденную дистанцию',
+  'set.distance': 'Дистанция {number}',
+  'set.finish': 'Финиш!',
+  'set.allDone': 'Все подходы выполнены!',
+  'set.bonusPrompt': 'Хочешь сделать ещё один бонусный подход?',
+  'set.bonus': 'Бонусный подход',
+  'set.end': 'Закончить',
+  'set.progress': 'Подход {current} из {total}',
+  'set.rest': 'Отдых перед следующим подходом',
+  'set.ready': 'Я готов!',
+
+  // Exercise session
+  'session.loading': 'Загрузка упражнения...',
+  'session.loadFailed': 'Ошибка загрузки упражнения',
+  'session.saveFailed': 'Не удалось сохранить результат, но упражнение засчитано!',
+  'session.great': 'Отлично!',
+  'session.completed': 'Упражнение завершено!',
+  'session.time': 'Время:',
+  'session.points': 'Очки:',
+  'session.sets': 'Подходы:',
+  'session.reps': { one: ' • {count} повторение', few: ' • {count} повторения', many: ' • {count} повторений', other: ' • {count} повторения' },
+  'session.funRating': 'Рейтинг веселья:',
+  'session.savedOffline': 'Нет интернета — результат сохранён и отправится автоматически.',
+  'session.backToExercises': 'Вернуться к упражнениям',
+  'session.state.active': 'Выполняется',
+  'session.state.paused': 'Пауза',
+  'session.state.rating': 'Все подходы готовы',
+  'session.state.preparing': 'Готов к началу',
+  'session.noDescription': 'Описание упражнения',
+  'session.notSpecified': 'Не указано',
+  'session.ratePrompt': 'Насколько весело было упражнение?',
+  'session.rate.0': 'Оцени упражнение',
+  'session.rate.1': 'Не очень',
+  'session.rate.2': 'Нормально',
+  'session.rate.3': 'Хорошо',
+  'session.rate.4': 'Отлично',
+  'session.rate.5': 'Супер!',
+  'session.effortPrompt': 'Насколько было трудно?',
+  'session.effort.0': 'Оцени усилие',
+  'session.effort.1': 'Очень легко',
+  'session.effort.2': 'Легко',
+  'session.effort.3': 'В самый раз',
+  'session.effort.4': 'Трудно',
+  'session.effort.5': 'Очень трудно',
+  'session.start': 'Начать упражнение',
+  'session.pause': 'Пауза',
+  'session.finish': 'Завершить',
+  'session.resume': 'Продолжить',
+  'session.hint.preparing': 'Нажми "Начать упражнение" когда будешь готов',
+  'session.hint.active': 'Выполняй подходы по одному. Отдых между подходами начнётся сам!',
+  'session.hint.paused': 'Упражнение на паузе. Продолжи когда будешь готов',
+  'session.hint.rating': 'Оцени, насколько было весело и трудно, и заверши упражнение',
+
+  // Analytics
+  'analytics.range.7d': 'Последние 7 дней',
+  'analytics.range.30d': 'Последние 30 дней',
+  'analytics.range.90d': 'Последние 90 дней',
+  'analytics.other': 'Другое',
+  'analytics.loadFailed': 'Ошибка загрузки статистики',
+  'analytics.title': 'Активность: {name}',
+  'analytics.subtitle': 'По завершённым упражнениям',
+  'analytics.compareLabel': 'Сравнить с другим ребёнком',
+  'analytics.noComparison': 'Без сравнения',
+  'analytics.compareWith': 'Сравнить с {name}',
+  'analytics.sessions': { one: '{count} занятие', few: '{count} занятия', many: '{count} занятий', other: '{count} занятия' },
+  'analytics.activeDays': { one: '{count} активный день', few: '{count} активных дня', many: '{count} активных дней', other: '{count} активного дня' },
+  'analytics.avgFun': 'веселье: {value} в среднем',
+  'analytics.minutesPerDay': 'Минуты по дням',
+  'analytics.minutesPerWeek': 'Минуты по неделям',
+  'analytics.unitMinutes': 'мин',
+  'analytics.sessionsPerCategory': 'Занятия по категориям',
+  'analytics.unitSessions': 'занятий',
+  'analytics.noSessions': 'За этот период занятий нет',
+  'analytics.ratingsPerWeek': 'Средние оценки по неделям',
+  'analytics.fun': 'Веселье',
+  'analytics.effort': 'Усилие',
+  'analytics.seriesFun': '{name}: веселье',
+  'analytics.seriesEffort': '{name}: усилие',
+  'analytics.muscles': 'Тренированные группы мышц',
+  'analytics.musclesHint': 'Основные мышцы считаются за 1, вспомогательные — за ½ за занятие',
+  'analytics.unitPoints': 'балл.',
+  'analytics.noMuscles': 'За этот период нет данных о мышцах',
+};
+
+export default ru;
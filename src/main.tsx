@@ -1,8 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { capturePendingInvitation } from './lib/guardians';
 import './index.css';
 
+// Keep an invitation token from the URL until the invitee has signed in
+capturePendingInvitation();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
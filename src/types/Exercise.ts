@@ -1,3 +1,5 @@
+export type ExerciseType = 'reps' | 'duration' | 'distance' | 'hold';
+
 export interface Exercise {
   id: string;
   name_en: string;
@@ -29,4 +31,12 @@ export interface Exercise {
   adventure_points: number;
   estimated_duration_minutes: number;
   is_balance_focused: boolean;
-}
\ No newline at end of file
+  // Structured fields parsed from sets_reps_duration (see sparkling_beacon migration)
+  exercise_type?: ExerciseType | null;
+  min_sets?: number | null;
+  max_sets?: number | null;
+  min_reps?: number | null;
+  max_reps?: number | null;
+  min_duration_seconds?: number | null;
+  max_duration_seconds?: number | null;
+}
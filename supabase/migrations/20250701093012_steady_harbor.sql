@@ -0,0 +1,80 @@
+/*
+# Parent-Recorded Exercise Sessions
+
+## Overview
+Child profiles have no auth user (user_id = NULL), so a child's workout is always
+recorded from the parent's session. The existing "Users can manage own exercise
+sessions" policy only matches the caller's own profile, which rejected every
+structured session the parent tried to save for a child.
+
+## Changes
+1. New Policies
+   - "Parents can record children exercise sessions" (INSERT)
+   - "Parents can update children exercise sessions" (UPDATE)
+   - "Parents can delete children exercise sessions" (DELETE, used when a session is cancelled)
+2. Constraints
+   - sets_completed / reps_completed must be non-negative
+
+## Security
+- Access is limited to children linked through an active parent_child_relationships row
+- Uses public.get_current_user_profile_id() to avoid policy recursion
+*/
+
+DROP POLICY IF EXISTS "Parents can record children exercise sessions" ON exercise_sessions;
+DROP POLICY IF EXISTS "Parents can update children exercise sessions" ON exercise_sessions;
+DROP POLICY IF EXISTS "Parents can delete children exercise sessions" ON exercise_sessions;
+
+CREATE POLICY "Parents can record children exercise sessions"
+  ON exercise_sessions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  );
+
+CREATE POLICY "Parents can update children exercise sessions"
+  ON exercise_sessions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  )
+  WITH CHECK (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  );
+
+CREATE POLICY "Parents can delete children exercise sessions"
+  ON exercise_sessions
+  FOR DELETE
+  TO authenticated
+  USING (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  );
+
+ALTER TABLE exercise_sessions DROP CONSTRAINT IF EXISTS check_sets_completed_positive;
+ALTER TABLE exercise_sessions ADD CONSTRAINT check_sets_completed_positive
+  CHECK (sets_completed IS NULL OR sets_completed >= 0);
+
+ALTER TABLE exercise_sessions DROP CONSTRAINT IF EXISTS check_reps_completed_positive;
+ALTER TABLE exercise_sessions ADD CONSTRAINT check_reps_completed_positive
+  CHECK (reps_completed IS NULL OR reps_completed >= 0);
@@ -0,0 +1,75 @@
+/*
+# Multi-Exercise Workouts
+
+## Overview
+Groups several exercise sessions (warm-up → main → cool-down) into a single
+workout so the app can play a complete training in one go.
+
+## New Tables
+1. **workouts** - One row per played workout, owned by the child profile
+
+## Changes
+1. exercise_sessions.workout_id - Optional link from each session to its workout
+2. Index on exercise_sessions(workout_id)
+
+## Security
+- RLS enabled on workouts
+- Children (future child logins) can manage their own workouts
+- Parents can manage workouts of children linked through an active relationship
+*/
+
+CREATE TABLE IF NOT EXISTS workouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  status text CHECK (status IN ('in_progress', 'completed', 'abandoned')) DEFAULT 'in_progress',
+  planned_exercises integer DEFAULT 0,
+  exercises_completed integer DEFAULT 0,
+  total_duration_minutes decimal(6,2) DEFAULT 0,
+  total_points_earned integer DEFAULT 0,
+  started_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'exercise_sessions' AND column_name = 'workout_id'
+  ) THEN
+    ALTER TABLE exercise_sessions ADD COLUMN workout_id uuid REFERENCES workouts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_workouts_user_date ON workouts(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sessions_workout ON exercise_sessions(workout_id);
+
+ALTER TABLE workouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own workouts"
+  ON workouts
+  FOR ALL
+  TO authenticated
+  USING (user_id = public.get_current_user_profile_id())
+  WITH CHECK (user_id = public.get_current_user_profile_id());
+
+CREATE POLICY "Parents can manage children workouts"
+  ON workouts
+  FOR ALL
+  TO authenticated
+  USING (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  )
+  WITH CHECK (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  );
@@ -0,0 +1,253 @@
+/*
+# Reward Rule Engine
+
+## Overview
+rewards.unlock_criteria has been seeded since the first migrations, but nothing
+ever evaluated it, so user_rewards stayed empty. This migration adds the
+evaluator that the app calls after each completed exercise session.
+
+## Criteria Format
+A criteria object is satisfied when every key in it is satisfied (implicit AND):
+  {"exercises_completed": 10, "streak_days": 7}
+Combinators nest arbitrarily:
+  {"all": [{...}, {...}]}   every child criteria is met
+  {"any": [{...}, {...}]}   at least one child criteria is met
+Supported metrics (all "at least N"):
+  exercises_completed, unique_exercises, points_earned, streak_days,
+  balance_exercises, fun_ratings_given (5-star ratings), weekly_exercise_days,
+  adventures_completed, active_paths, unlocked_exercises,
+  completed_paths (count, or an array of path titles that must all be completed),
+  category_exercises ({"<category name_en>": N, ...})
+Unknown metrics never match, so a typo cannot hand out a reward.
+
+## New Functions
+1. `reward_criteria_met(uuid, jsonb)` - Recursive criteria check for one profile
+2. `evaluate_user_rewards(uuid, uuid)` - Awards every newly satisfied reward and returns it
+
+## Security
+- evaluate_user_rewards is SECURITY DEFINER because parents cannot insert into
+  user_rewards directly; it only runs for the caller's own profile or a child
+  linked through an active parent_child_relationships row
+- Counts are computed from exercise_sessions rather than trusted from the client
+- reward_criteria_met takes any profile id, so it is not callable by clients;
+  Supabase grants EXECUTE on new functions to anon and authenticated directly,
+  so revoking it from PUBLIC alone is not enough
+*/
+
+CREATE OR REPLACE FUNCTION public.reward_criteria_met(p_user_id uuid, p_criteria jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  criteria_key text;
+  criteria_value jsonb;
+  child_criteria jsonb;
+  required_count integer;
+  actual_count integer;
+BEGIN
+  IF p_criteria IS NULL OR jsonb_typeof(p_criteria) <> 'object' THEN
+    RETURN false;
+  END IF;
+
+  FOR criteria_key, criteria_value IN SELECT * FROM jsonb_each(p_criteria) LOOP
+    IF criteria_key = 'all' THEN
+      FOR child_criteria IN SELECT * FROM jsonb_array_elements(criteria_value) LOOP
+        IF NOT public.reward_criteria_met(p_user_id, child_criteria) THEN
+          RETURN false;
+        END IF;
+      END LOOP;
+      CONTINUE;
+    END IF;
+
+    IF criteria_key = 'any' THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(criteria_value) AS c(value)
+        WHERE public.reward_criteria_met(p_user_id, c.value)
+      ) THEN
+        RETURN false;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF criteria_key = 'category_exercises' THEN
+      IF jsonb_typeof(criteria_value) <> 'object' THEN
+        RETURN false;
+      END IF;
+      FOR child_criteria IN
+        SELECT jsonb_build_object('category', key, 'count', value) FROM jsonb_each(criteria_value)
+      LOOP
+        SELECT COUNT(*) INTO actual_count
+        FROM exercise_sessions es
+        JOIN exercises e ON e.id = es.exercise_id
+        JOIN exercise_categories ec ON ec.id = e.category_id
+        WHERE es.user_id = p_user_id
+          AND es.completed_at IS NOT NULL
+          AND ec.name_en = child_criteria->>'category';
+
+        IF actual_count < (child_criteria->>'count')::integer THEN
+          RETURN false;
+        END IF;
+      END LOOP;
+      CONTINUE;
+    END IF;
+
+    IF criteria_key = 'completed_paths' AND jsonb_typeof(criteria_value) = 'array' THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(criteria_value) AS t(title)
+        WHERE NOT EXISTS (
+          SELECT 1
+          FROM user_path_progress upp
+          JOIN adventure_paths ap ON ap.id = upp.path_id
+          WHERE upp.user_id = p_user_id
+            AND upp.status = 'completed'
+            AND ap.title = t.title
+        )
+      ) THEN
+        RETURN false;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF jsonb_typeof(criteria_value) <> 'number' THEN
+      RETURN false;
+    END IF;
+    required_count := criteria_value::text::numeric::integer;
+
+    actual_count := CASE criteria_key
+      WHEN 'exercises_completed' THEN (
+        SELECT COUNT(*) FROM exercise_sessions
+        WHERE user_id = p_user_id AND completed_at IS NOT NULL
+      )
+      WHEN 'unique_exercises' THEN (
+        SELECT COUNT(DISTINCT exercise_id) FROM exercise_sessions
+        WHERE user_id = p_user_id AND completed_at IS NOT NULL
+      )
+      WHEN 'points_earned' THEN (
+        SELECT COALESCE(SUM(points_earned), 0) FROM exercise_sessions
+        WHERE user_id = p_user_id AND completed_at IS NOT NULL
+      )
+      WHEN 'streak_days' THEN (
+        SELECT COALESCE(GREATEST(current_streak_days, longest_streak_days), 0)
+        FROM user_progress WHERE user_id = p_user_id
+      )
+      WHEN 'balance_exercises' THEN (
+        SELECT COUNT(*)
+        FROM exercise_sessions es
+        JOIN exercises e ON e.id = es.exercise_id
+        WHERE es.user_id = p_user_id AND es.completed_at IS NOT NULL AND e.is_balance_focused = true
+      )
+      WHEN 'fun_ratings_given' THEN (
+        SELECT COUNT(*) FROM exercise_sessions
+        WHERE user_id = p_user_id AND fun_rating = 5
+      )
+      WHEN 'weekly_exercise_days' THEN (
+        SELECT COUNT(DISTINCT completed_at::date) FROM exercise_sessions
+        WHERE user_id = p_user_id AND completed_at >= date_trunc('week', now())
+      )
+      WHEN 'adventures_completed' THEN (
+        SELECT COUNT(*) FROM user_adventures
+        WHERE user_id = p_user_id AND status = 'completed'
+      )
+      WHEN 'completed_paths' THEN (
+        SELECT COUNT(*) FROM user_path_progress
+        WHERE user_id = p_user_id AND status = 'completed'
+      )
+      WHEN 'active_paths' THEN (
+        SELECT COUNT(*) FROM user_path_progress
+        WHERE user_id = p_user_id AND status = 'in_progress'
+      )
+      WHEN 'unlocked_exercises' THEN (
+        -- Exercises with prerequisites where every prerequisite has been met
+        SELECT COUNT(DISTINCT ep.exercise_id)
+        FROM exercise_prerequisites ep
+        WHERE NOT EXISTS (
+          SELECT 1 FROM exercise_prerequisites req
+          WHERE req.exercise_id = ep.exercise_id
+            AND (
+              SELECT COUNT(*) FROM exercise_sessions es
+              WHERE es.user_id = p_user_id
+                AND es.exercise_id = req.prerequisite_exercise_id
+                AND es.completed_at IS NOT NULL
+                AND COALESCE(es.fun_rating, 0) >= COALESCE(req.minimum_rating, 0)
+            ) < COALESCE(req.minimum_completions, 1)
+        )
+      )
+      ELSE NULL
+    END;
+
+    IF actual_count IS NULL OR actual_count < required_count THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_user_rewards(
+  p_user_id uuid,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS SETOF rewards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_profile_id uuid;
+  candidate rewards%ROWTYPE;
+  awarded_count integer := 0;
+BEGIN
+  caller_profile_id := public.get_current_user_profile_id();
+
+  IF caller_profile_id IS NULL OR (
+    p_user_id <> caller_profile_id
+    AND NOT EXISTS (
+      SELECT 1 FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = caller_profile_id
+        AND pcr.child_id = p_user_id
+        AND pcr.active = true
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to evaluate rewards for this profile';
+  END IF;
+
+  FOR candidate IN
+    SELECT r.* FROM rewards r
+    WHERE r.is_active = true
+      AND NOT EXISTS (
+        SELECT 1 FROM user_rewards ur
+        WHERE ur.user_id = p_user_id AND ur.reward_id = r.id
+      )
+  LOOP
+    IF public.reward_criteria_met(p_user_id, candidate.unlock_criteria) THEN
+      INSERT INTO user_rewards (user_id, reward_id, earned_from_session_id, is_new)
+      VALUES (p_user_id, candidate.id, p_session_id, true)
+      ON CONFLICT (user_id, reward_id) DO NOTHING;
+
+      IF FOUND THEN
+        awarded_count := awarded_count + 1;
+        RETURN NEXT candidate;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF awarded_count > 0 THEN
+    UPDATE user_progress
+    SET achievements_earned = COALESCE(achievements_earned, 0) + awarded_count,
+        updated_at = now()
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reward_criteria_met(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_user_rewards(uuid, uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.evaluate_user_rewards(uuid, uuid) IS
+'Awards every active reward whose unlock_criteria the profile now satisfies and returns the newly earned rewards. Call after each completed exercise session.';
@@ -0,0 +1,295 @@
+/*
+# Trophy Room Support
+
+## Overview
+The trophy room shows locked rewards with progress toward their unlock_criteria
+and clears the is_new flag once a child has seen their new badges. Progress and
+the yes/no check must agree, so the metric logic from bright_medal moves into
+shared functions and reward_criteria_met becomes "progress reached 100%".
+
+## New Functions
+1. `reward_metric_value(uuid, text)` - Current value of one numeric metric
+2. `reward_extra_metric_value(uuid, text)` - Metrics added by later migrations,
+   each as its own `reward_metric_<name>(uuid)` function
+3. `reward_criteria_progress(uuid, jsonb)` - 0..1 progress toward a criteria object
+   - implicit AND / "all": the least complete part
+   - "any": the most complete option
+   - a requirement of 0 counts as met
+4. `get_reward_progress(uuid)` - Progress for every active reward of a profile
+5. `mark_rewards_seen(uuid)` - Clears is_new on a profile's earned rewards
+
+## Changes
+1. `reward_criteria_met(uuid, jsonb)` now delegates to reward_criteria_progress
+
+## Security
+- get_reward_progress and mark_rewards_seen are SECURITY DEFINER and only act on
+  profiles returned by get_accessible_profile_ids() (own profile + linked children)
+- Parents still have no direct UPDATE access to user_rewards
+- The metric and criteria helpers take any profile id and are not callable by
+  clients; Supabase grants EXECUTE to anon and authenticated directly, so they
+  are revoked from those roles as well as PUBLIC
+*/
+
+-- New metrics get a reward_metric_<name>(uuid) function instead of another
+-- copy of reward_metric_value; unknown names stay NULL like before
+CREATE OR REPLACE FUNCTION public.reward_extra_metric_value(p_user_id uuid, p_metric text)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  metric_value integer;
+BEGIN
+  IF p_metric !~ '^[a-z_]+$'
+    OR to_regprocedure(format('public.reward_metric_%s(uuid)', p_metric)) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  EXECUTE format('SELECT public.%I($1)', 'reward_metric_' || p_metric)
+  INTO metric_value
+  USING p_user_id;
+
+  RETURN metric_value;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reward_metric_value(p_user_id uuid, p_metric text)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN CASE p_metric
+    WHEN 'exercises_completed' THEN (
+      SELECT COUNT(*) FROM exercise_sessions
+      WHERE user_id = p_user_id AND completed_at IS NOT NULL
+    )
+    WHEN 'unique_exercises' THEN (
+      SELECT COUNT(DISTINCT exercise_id) FROM exercise_sessions
+      WHERE user_id = p_user_id AND completed_at IS NOT NULL
+    )
+    WHEN 'points_earned' THEN (
+      SELECT COALESCE(SUM(points_earned), 0) FROM exercise_sessions
+      WHERE user_id = p_user_id AND completed_at IS NOT NULL
+    )
+    WHEN 'streak_days' THEN (
+      SELECT COALESCE(MAX(GREATEST(current_streak_days, longest_streak_days)), 0)
+      FROM user_progress WHERE user_id = p_user_id
+    )
+    WHEN 'balance_exercises' THEN (
+      SELECT COUNT(*)
+      FROM exercise_sessions es
+      JOIN exercises e ON e.id = es.exercise_id
+      WHERE es.user_id = p_user_id AND es.completed_at IS NOT NULL AND e.is_balance_focused = true
+    )
+    WHEN 'fun_ratings_given' THEN (
+      SELECT COUNT(*) FROM exercise_sessions
+      WHERE user_id = p_user_id AND fun_rating = 5
+    )
+    WHEN 'weekly_exercise_days' THEN (
+      SELECT COUNT(DISTINCT completed_at::date) FROM exercise_sessions
+      WHERE user_id = p_user_id AND completed_at >= date_trunc('week', now())
+    )
+    WHEN 'adventures_completed' THEN (
+      SELECT COUNT(*) FROM user_adventures
+      WHERE user_id = p_user_id AND status = 'completed'
+    )
+    WHEN 'completed_paths' THEN (
+      SELECT COUNT(*) FROM user_path_progress
+      WHERE user_id = p_user_id AND status = 'completed'
+    )
+    WHEN 'active_paths' THEN (
+      SELECT COUNT(*) FROM user_path_progress
+      WHERE user_id = p_user_id AND status = 'in_progress'
+    )
+    WHEN 'unlocked_exercises' THEN (
+      -- Exercises with prerequisites where every prerequisite has been met
+      SELECT COUNT(DISTINCT ep.exercise_id)
+      FROM exercise_prerequisites ep
+      WHERE NOT EXISTS (
+        SELECT 1 FROM exercise_prerequisites req
+        WHERE req.exercise_id = ep.exercise_id
+          AND (
+            SELECT COUNT(*) FROM exercise_sessions es
+            WHERE es.user_id = p_user_id
+              AND es.exercise_id = req.prerequisite_exercise_id
+              AND es.completed_at IS NOT NULL
+              AND COALESCE(es.fun_rating, 0) >= COALESCE(req.minimum_rating, 0)
+          ) < COALESCE(req.minimum_completions, 1)
+      )
+    )
+    ELSE public.reward_extra_metric_value(p_user_id, p_metric)
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reward_criteria_progress(p_user_id uuid, p_criteria jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  criteria_key text;
+  criteria_value jsonb;
+  part_progress numeric;
+  overall numeric := 1;
+  required_count integer;
+  actual_count integer;
+BEGIN
+  IF p_criteria IS NULL OR jsonb_typeof(p_criteria) <> 'object' OR p_criteria = '{}'::jsonb THEN
+    RETURN 0;
+  END IF;
+
+  FOR criteria_key, criteria_value IN SELECT * FROM jsonb_each(p_criteria) LOOP
+    part_progress := 0;
+
+    IF criteria_key IN ('all', 'any') THEN
+      IF jsonb_typeof(criteria_value) = 'array' AND jsonb_array_length(criteria_value) > 0 THEN
+        SELECT CASE WHEN criteria_key = 'all' THEN MIN(p) ELSE MAX(p) END
+        INTO part_progress
+        FROM (
+          SELECT public.reward_criteria_progress(p_user_id, c.value) AS p
+          FROM jsonb_array_elements(criteria_value) AS c(value)
+        ) parts;
+      END IF;
+
+    ELSIF criteria_key = 'category_exercises' THEN
+      IF jsonb_typeof(criteria_value) = 'object' AND criteria_value <> '{}'::jsonb THEN
+        SELECT MIN(CASE
+          WHEN counts.required <= 0 THEN 1
+          ELSE LEAST(1, counts.actual::numeric / counts.required)
+        END)
+        INTO part_progress
+        FROM (
+          SELECT
+            (c.value)::text::numeric::integer AS required,
+            (
+              SELECT COUNT(*)
+              FROM exercise_sessions es
+              JOIN exercises e ON e.id = es.exercise_id
+              JOIN exercise_categories ec ON ec.id = e.category_id
+              WHERE es.user_id = p_user_id
+                AND es.completed_at IS NOT NULL
+                AND ec.name_en = c.key
+            ) AS actual
+          FROM jsonb_each(criteria_value) AS c(key, value)
+          WHERE jsonb_typeof(c.value) = 'number'
+        ) counts;
+      END IF;
+
+    ELSIF criteria_key = 'completed_paths' AND jsonb_typeof(criteria_value) = 'array' THEN
+      IF jsonb_array_length(criteria_value) > 0 THEN
+        SELECT COUNT(*)::numeric / jsonb_array_length(criteria_value)
+        INTO part_progress
+        FROM jsonb_array_elements_text(criteria_value) AS t(title)
+        WHERE EXISTS (
+          SELECT 1
+          FROM user_path_progress upp
+          JOIN adventure_paths ap ON ap.id = upp.path_id
+          WHERE upp.user_id = p_user_id
+            AND upp.status = 'completed'
+            AND ap.title = t.title
+        );
+      END IF;
+
+    ELSIF jsonb_typeof(criteria_value) = 'number' THEN
+      required_count := criteria_value::text::numeric::integer;
+      actual_count := public.reward_metric_value(p_user_id, criteria_key);
+      IF actual_count IS NOT NULL THEN
+        part_progress := CASE
+          WHEN required_count <= 0 THEN 1
+          ELSE LEAST(1, actual_count::numeric / required_count)
+        END;
+      END IF;
+    END IF;
+
+    overall := LEAST(overall, COALESCE(part_progress, 0));
+  END LOOP;
+
+  RETURN overall;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reward_criteria_met(p_user_id uuid, p_criteria jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.reward_criteria_progress(p_user_id, p_criteria) >= 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_reward_progress(p_user_id uuid)
+RETURNS TABLE (
+  reward_id uuid,
+  progress numeric,
+  current_value integer,
+  target_value integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to read reward progress for this profile';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    ROUND(public.reward_criteria_progress(p_user_id, r.unlock_criteria), 2),
+    -- Counters are only meaningful for single-metric criteria like {"streak_days": 7}
+    CASE WHEN single.metric IS NOT NULL
+      THEN public.reward_metric_value(p_user_id, single.metric)
+    END,
+    CASE WHEN single.metric IS NOT NULL
+      THEN (r.unlock_criteria->>single.metric)::numeric::integer
+    END
+  FROM rewards r
+  LEFT JOIN LATERAL (
+    SELECT k.key AS metric
+    FROM jsonb_each(r.unlock_criteria) AS k(key, value)
+    WHERE jsonb_typeof(k.value) = 'number'
+      AND (SELECT COUNT(*) FROM jsonb_object_keys(r.unlock_criteria)) = 1
+  ) single ON true
+  WHERE r.is_active = true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_rewards_seen(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cleared integer;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to update rewards for this profile';
+  END IF;
+
+  UPDATE user_rewards
+  SET is_new = false
+  WHERE user_id = p_user_id AND is_new = true;
+
+  GET DIAGNOSTICS cleared = ROW_COUNT;
+  RETURN cleared;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reward_extra_metric_value(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reward_metric_value(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reward_criteria_progress(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reward_criteria_met(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_reward_progress(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_rewards_seen(uuid) TO authenticated;
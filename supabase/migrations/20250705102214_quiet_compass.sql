@@ -0,0 +1,145 @@
+/*
+# Adventure Progression
+
+## Overview
+user_adventures has existed since the first migration but nothing ever wrote to
+it: adventures were only a catalog filter. Children can now start an adventure,
+and every completed exercise session advances the adventures that contain it.
+
+## New Functions
+1. `start_adventure(uuid, uuid)` - Enrolls a profile in an adventure, or resumes it
+2. `advance_user_adventures()` - Trigger function on exercise_sessions
+
+## Progression Rules
+- Only sessions completed after the adventure was started count toward it
+- Progress = distinct required adventure_exercises done / required exercises
+- total_points_earned sums adventure_exercises.points_reward of every exercise done
+- When all required exercises are done the adventure is completed once:
+  status = 'completed', adventures.reward_points is added to
+  user_progress.total_points_earned and user_progress.adventures_completed + 1
+
+## Security
+- start_adventure is SECURITY DEFINER and limited to get_accessible_profile_ids()
+  because parents only have SELECT on their children's user_adventures
+- The trigger runs as SECURITY DEFINER so parent-recorded sessions can advance it
+*/
+
+CREATE OR REPLACE FUNCTION public.start_adventure(p_user_id uuid, p_adventure_id uuid)
+RETURNS user_adventures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment user_adventures%ROWTYPE;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to start adventures for this profile';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM adventures WHERE id = p_adventure_id AND is_active = true) THEN
+    RAISE EXCEPTION 'Adventure not found or inactive';
+  END IF;
+
+  INSERT INTO user_adventures (user_id, adventure_id, status, started_at, last_activity_at)
+  VALUES (p_user_id, p_adventure_id, 'in_progress', now(), now())
+  ON CONFLICT (user_id, adventure_id) DO UPDATE
+  SET status = CASE
+        WHEN user_adventures.status = 'completed' THEN 'completed'
+        ELSE 'in_progress'
+      END,
+      started_at = COALESCE(user_adventures.started_at, now()),
+      last_activity_at = now()
+  RETURNING * INTO enrollment;
+
+  RETURN enrollment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.advance_user_adventures()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment record;
+  required_total integer;
+  required_done integer;
+  points_done integer;
+BEGIN
+  IF NEW.completed_at IS NULL OR NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Re-saving an already completed session must not advance anything twice
+  IF TG_OP = 'UPDATE' AND OLD.completed_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR enrollment IN
+    SELECT ua.id, ua.adventure_id, ua.started_at, a.reward_points
+    FROM user_adventures ua
+    JOIN adventures a ON a.id = ua.adventure_id
+    WHERE ua.user_id = NEW.user_id
+      AND ua.status = 'in_progress'
+      AND EXISTS (
+        SELECT 1 FROM adventure_exercises ae
+        WHERE ae.adventure_id = ua.adventure_id AND ae.exercise_id = NEW.exercise_id
+      )
+  LOOP
+    SELECT
+      COUNT(*) FILTER (WHERE ae.is_required),
+      COUNT(*) FILTER (WHERE ae.is_required AND done.exercise_id IS NOT NULL),
+      COALESCE(SUM(ae.points_reward) FILTER (WHERE done.exercise_id IS NOT NULL), 0)
+    INTO required_total, required_done, points_done
+    FROM adventure_exercises ae
+    LEFT JOIN LATERAL (
+      SELECT es.exercise_id
+      FROM exercise_sessions es
+      WHERE es.user_id = NEW.user_id
+        AND es.exercise_id = ae.exercise_id
+        AND es.completed_at IS NOT NULL
+        AND es.completed_at >= COALESCE(enrollment.started_at, '-infinity'::timestamptz)
+      LIMIT 1
+    ) done ON true
+    WHERE ae.adventure_id = enrollment.adventure_id;
+
+    UPDATE user_adventures
+    SET exercises_completed = required_done,
+        total_points_earned = points_done,
+        progress_percentage = CASE
+          WHEN required_total > 0 THEN ROUND((required_done::decimal / required_total) * 100, 2)
+          ELSE 0
+        END,
+        last_activity_at = now()
+    WHERE id = enrollment.id;
+
+    IF required_total > 0 AND required_done >= required_total THEN
+      UPDATE user_adventures
+      SET status = 'completed',
+          completed_at = now(),
+          progress_percentage = 100
+      WHERE id = enrollment.id AND status <> 'completed';
+
+      IF FOUND THEN
+        INSERT INTO user_progress (user_id, total_points_earned, adventures_completed)
+        VALUES (NEW.user_id, COALESCE(enrollment.reward_points, 0), 1)
+        ON CONFLICT (user_id) DO UPDATE
+        SET total_points_earned = COALESCE(user_progress.total_points_earned, 0) + COALESCE(enrollment.reward_points, 0),
+            adventures_completed = COALESCE(user_progress.adventures_completed, 0) + 1,
+            updated_at = now();
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS advance_user_adventures_trigger ON exercise_sessions;
+CREATE TRIGGER advance_user_adventures_trigger
+  AFTER INSERT OR UPDATE OF completed_at ON exercise_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.advance_user_adventures();
+
+GRANT EXECUTE ON FUNCTION public.start_adventure(uuid, uuid) TO authenticated;
@@ -0,0 +1,213 @@
+/*
+# Adventure and Path Unlock Gating
+
+## Overview
+adventures.unlock_criteria ({"completed_adventures": N}) and
+adventure_paths.unlock_criteria ({"completed_paths": N}) were stored but never
+checked, so every adventure and path could be started right away. Unlock state
+is now computed per child with the same criteria engine as rewards, and the
+server refuses to start anything that is still locked.
+
+## Changes
+1. Intermediate adventures now need 1 completed adventure and Advanced ones 2,
+   unless their unlock_criteria were already customized
+
+## New Functions
+1. `reward_metric_completed_adventures(uuid)` - The `completed_adventures`
+   metric used by adventures.unlock_criteria, an alias of `adventures_completed`
+2. `unlock_criteria_progress(uuid, jsonb)` - 0..1 progress; empty criteria are unlocked
+3. `get_unlock_status(uuid)` - Locked/unlocked state of every active adventure and path
+4. `start_path(uuid, uuid)` - Enrolls a profile in an adventure path, or resumes it
+5. `enforce_unlock_criteria()` - Trigger function on user_adventures and user_path_progress
+
+## Security
+- The triggers reject starting a locked item however the row is written
+  (start_adventure, start_path or a direct insert under the owner policy).
+  Any inserted row that is started, paused or has started_at set is checked,
+  so an update can only skip the check for a row that already passed it
+- Items already started or completed stay available if criteria change later
+- get_unlock_status and start_path are limited to get_accessible_profile_ids()
+- reward_metric_completed_adventures and unlock_criteria_progress take any
+  profile id, so EXECUTE is revoked from anon and authenticated, not just PUBLIC
+*/
+
+-- adventures.unlock_criteria count completed adventures under their own key
+CREATE OR REPLACE FUNCTION public.reward_metric_completed_adventures(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.reward_metric_value(p_user_id, 'adventures_completed');
+$$;
+
+CREATE OR REPLACE FUNCTION public.unlock_criteria_progress(p_user_id uuid, p_criteria jsonb)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Unlike rewards, content with no criteria is open from the start
+  SELECT CASE
+    WHEN p_criteria IS NULL OR p_criteria = '{}'::jsonb THEN 1
+    ELSE public.reward_criteria_progress(p_user_id, p_criteria)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_unlock_status(p_user_id uuid)
+RETURNS TABLE (
+  item_type text,
+  item_id uuid,
+  unlocked boolean,
+  progress numeric,
+  requirement text,
+  current_value integer,
+  target_value integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to read unlock status for this profile';
+  END IF;
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT 'adventure'::text AS kind, a.id, a.unlock_criteria,
+      EXISTS (
+        SELECT 1 FROM user_adventures ua
+        WHERE ua.user_id = p_user_id AND ua.adventure_id = a.id AND ua.started_at IS NOT NULL
+      ) AS started
+    FROM adventures a
+    WHERE a.is_active = true
+    UNION ALL
+    SELECT 'path'::text, ap.id, ap.unlock_criteria,
+      EXISTS (
+        SELECT 1 FROM user_path_progress upp
+        WHERE upp.user_id = p_user_id AND upp.path_id = ap.id AND upp.started_at IS NOT NULL
+      )
+    FROM adventure_paths ap
+    WHERE ap.is_active = true
+  ), scored AS (
+    SELECT items.*, public.unlock_criteria_progress(p_user_id, items.unlock_criteria) AS raw_progress
+    FROM items
+  )
+  SELECT
+    s.kind,
+    s.id,
+    s.started OR s.raw_progress >= 1,
+    CASE WHEN s.started THEN 1 ELSE ROUND(s.raw_progress, 2) END,
+    single.metric,
+    -- Counters are only meaningful for single-metric criteria like {"completed_paths": 2}
+    CASE WHEN single.metric IS NOT NULL
+      THEN public.reward_metric_value(p_user_id, single.metric)
+    END,
+    CASE WHEN single.metric IS NOT NULL
+      THEN (s.unlock_criteria->>single.metric)::numeric::integer
+    END
+  FROM scored s
+  LEFT JOIN LATERAL (
+    SELECT k.key AS metric
+    FROM jsonb_each(s.unlock_criteria) AS k(key, value)
+    WHERE jsonb_typeof(k.value) = 'number'
+      AND (SELECT COUNT(*) FROM jsonb_object_keys(s.unlock_criteria)) = 1
+  ) single ON true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_unlock_criteria()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  criteria jsonb;
+BEGIN
+  -- Rows that were never started give no access; not_started, locked and available stay unchecked
+  IF NEW.started_at IS NULL AND NEW.status NOT IN ('in_progress', 'paused', 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Resuming or re-saving something the child already started is always allowed:
+  -- the started row was checked when it was inserted or first updated into this state
+  IF TG_OP = 'UPDATE' AND (OLD.started_at IS NOT NULL OR OLD.status IN ('in_progress', 'paused', 'completed')) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'user_adventures' THEN
+    SELECT unlock_criteria INTO criteria FROM adventures WHERE id = NEW.adventure_id;
+  ELSE
+    SELECT unlock_criteria INTO criteria FROM adventure_paths WHERE id = NEW.path_id;
+  END IF;
+
+  IF public.unlock_criteria_progress(NEW.user_id, criteria) < 1 THEN
+    RAISE EXCEPTION 'This % is still locked', CASE WHEN TG_TABLE_NAME = 'user_adventures' THEN 'adventure' ELSE 'path' END
+      USING ERRCODE = 'check_violation', DETAIL = criteria::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_adventures_unlock_guard ON user_adventures;
+CREATE TRIGGER user_adventures_unlock_guard
+  BEFORE INSERT OR UPDATE OF status, started_at ON user_adventures
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_unlock_criteria();
+
+-- Named to sort after update_user_path_progress_trigger, which can flip status itself
+DROP TRIGGER IF EXISTS user_path_progress_unlock_guard ON user_path_progress;
+CREATE TRIGGER user_path_progress_unlock_guard
+  BEFORE INSERT OR UPDATE ON user_path_progress
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_unlock_criteria();
+
+CREATE OR REPLACE FUNCTION public.start_path(p_user_id uuid, p_path_id uuid)
+RETURNS user_path_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enrollment user_path_progress%ROWTYPE;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to start paths for this profile';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM adventure_paths WHERE id = p_path_id AND is_active = true) THEN
+    RAISE EXCEPTION 'Path not found or inactive';
+  END IF;
+
+  INSERT INTO user_path_progress (user_id, path_id, status, started_at, last_activity_at)
+  VALUES (p_user_id, p_path_id, 'in_progress', now(), now())
+  ON CONFLICT (user_id, path_id) DO UPDATE
+  SET status = CASE
+        WHEN user_path_progress.status = 'completed' THEN 'completed'
+        ELSE 'in_progress'
+      END,
+      started_at = COALESCE(user_path_progress.started_at, now()),
+      last_activity_at = now()
+  RETURNING * INTO enrollment;
+
+  RETURN enrollment;
+END;
+$$;
+
+-- Kids earn their way into harder adventures; custom criteria are left alone
+UPDATE adventures
+SET unlock_criteria = CASE difficulty_level
+    WHEN 'Intermediate' THEN '{"completed_adventures": 1}'::jsonb
+    ELSE '{"completed_adventures": 2}'::jsonb
+  END
+WHERE difficulty_level IN ('Intermediate', 'Advanced')
+  AND unlock_criteria = '{"completed_adventures": 0}'::jsonb;
+
+REVOKE EXECUTE ON FUNCTION public.reward_metric_completed_adventures(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unlock_criteria_progress(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_unlock_status(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_path(uuid, uuid) TO authenticated;
@@ -0,0 +1,125 @@
+/*
+# Weekly Adventure Path Progression
+
+## Overview
+user_path_progress is now driven by exercise sessions the same way
+user_adventures is. update_user_path_progress (the BEFORE UPDATE trigger from
+quiet_haze) still does the math; a new trigger on exercise_sessions touches
+the matching path rows so it runs whenever a path exercise is completed.
+
+## Changes
+1. `update_user_path_progress()` now
+   - only counts completed sessions since the path was started
+   - measures progress over required path_exercises only
+   - advances current_week to the first week with required exercises left
+   - sums path_exercises.points_reward into total_points_earned
+   - on completion adds adventure_paths.reward_points to user_progress once
+   - leaves rows that were never started alone (locked/available)
+
+## New Functions
+1. `touch_user_path_progress()` - Trigger function on exercise_sessions
+
+## Security
+- Both functions are SECURITY DEFINER so parent-recorded sessions can advance
+  a child's paths; parents still only have SELECT on user_path_progress
+*/
+
+CREATE OR REPLACE FUNCTION public.update_user_path_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  required_total integer;
+  required_done integer;
+  points_done integer;
+  next_week integer;
+  path_reward integer;
+BEGIN
+  IF NEW.started_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE pe.is_required),
+    COUNT(*) FILTER (WHERE pe.is_required AND done.exercise_id IS NOT NULL),
+    COALESCE(SUM(pe.points_reward) FILTER (WHERE done.exercise_id IS NOT NULL), 0),
+    MIN(pe.week_number) FILTER (WHERE pe.is_required AND done.exercise_id IS NULL)
+  INTO required_total, required_done, points_done, next_week
+  FROM path_exercises pe
+  LEFT JOIN LATERAL (
+    SELECT es.exercise_id
+    FROM exercise_sessions es
+    WHERE es.user_id = NEW.user_id
+      AND es.exercise_id = pe.exercise_id
+      AND es.completed_at IS NOT NULL
+      AND es.completed_at >= NEW.started_at
+    LIMIT 1
+  ) done ON true
+  WHERE pe.path_id = NEW.path_id;
+
+  NEW.exercises_completed := required_done;
+  NEW.total_points_earned := points_done;
+  NEW.progress_percentage := CASE
+    WHEN required_total > 0 THEN ROUND((required_done::decimal / required_total) * 100, 2)
+    ELSE 0
+  END;
+
+  IF next_week IS NOT NULL THEN
+    -- Never move a child back a week if exercises were re-ordered later
+    NEW.current_week := GREATEST(COALESCE(NEW.current_week, 1), next_week);
+  END IF;
+
+  IF required_total > 0 AND required_done >= required_total AND OLD.status <> 'completed' THEN
+    NEW.status := 'completed';
+    NEW.completed_at := now();
+    NEW.progress_percentage := 100;
+
+    SELECT reward_points INTO path_reward FROM adventure_paths WHERE id = NEW.path_id;
+
+    INSERT INTO user_progress (user_id, total_points_earned)
+    VALUES (NEW.user_id, COALESCE(path_reward, 0))
+    ON CONFLICT (user_id) DO UPDATE
+    SET total_points_earned = COALESCE(user_progress.total_points_earned, 0) + COALESCE(path_reward, 0),
+        updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.touch_user_path_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.completed_at IS NULL OR NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Re-saving an already completed session must not advance anything twice
+  IF TG_OP = 'UPDATE' AND OLD.completed_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- The BEFORE UPDATE trigger recalculates everything from the sessions
+  UPDATE user_path_progress upp
+  SET last_activity_at = now()
+  WHERE upp.user_id = NEW.user_id
+    AND upp.status = 'in_progress'
+    AND EXISTS (
+      SELECT 1 FROM path_exercises pe
+      WHERE pe.path_id = upp.path_id AND pe.exercise_id = NEW.exercise_id
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_user_path_progress_trigger ON exercise_sessions;
+CREATE TRIGGER touch_user_path_progress_trigger
+  AFTER INSERT OR UPDATE OF completed_at ON exercise_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_user_path_progress();
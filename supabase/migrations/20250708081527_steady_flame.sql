@@ -0,0 +1,228 @@
+/*
+# Timezone-Aware Streak Engine
+
+## Overview
+The app has always called an `update_user_progress` RPC after each completed
+session, but no migration ever defined it, so user_progress totals and streaks
+never moved. This migration defines it. Day boundaries follow the family's
+local timezone, so a session at 23:30 in Moscow counts for that evening rather
+than the next UTC day.
+
+## Schema Changes
+1. `profiles.timezone` - IANA name (e.g. 'Europe/Moscow'); children inherit their
+   parent's timezone when they have none of their own
+2. `user_progress.streak_freezes_available` - Freeze tokens that cover missed days
+3. `rewards.streak_freezes` - Freeze tokens granted when the reward is earned
+
+## New Functions
+1. `profile_timezone(uuid)` - Effective timezone of a profile, 'UTC' as fallback
+2. `update_user_progress(uuid, uuid, integer, integer, integer, timestamptz)`
+   Rolls one completed session into user_progress
+3. `get_streak(uuid)` - Current and best streak as of today in the family timezone
+4. `grant_reward_streak_freezes()` - Trigger on user_rewards
+
+## Streak Rules
+- Several sessions on the same local day count once
+- A session the day after the last active day extends the streak
+- A gap of N missed days is bridged if N freeze tokens are available; they are used up
+- Otherwise the streak restarts at 1
+- Sessions synced late for a day before last_exercise_date only update totals
+- At most 3 freeze tokens can be held at once
+
+## Security
+- update_user_progress and get_streak are SECURITY DEFINER and limited to
+  get_accessible_profile_ids(); parents only have SELECT on user_progress
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone text;
+ALTER TABLE user_progress ADD COLUMN IF NOT EXISTS streak_freezes_available integer NOT NULL DEFAULT 0;
+ALTER TABLE rewards ADD COLUMN IF NOT EXISTS streak_freezes integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.profile_timezone(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT tz.name
+      FROM (
+        SELECT p.timezone AS name, 0 AS priority
+        FROM profiles p
+        WHERE p.profile_id = p_user_id
+        UNION ALL
+        SELECT parent.timezone, 1
+        FROM parent_child_relationships pcr
+        JOIN profiles parent ON parent.profile_id = pcr.parent_id
+        WHERE pcr.child_id = p_user_id AND pcr.active = true
+      ) tz
+      -- Unknown names would make AT TIME ZONE fail, so only accept real zones
+      WHERE tz.name IN (SELECT name FROM pg_timezone_names)
+      ORDER BY tz.priority
+      LIMIT 1
+    ),
+    'UTC'
+  );
+$$;
+
+DROP FUNCTION IF EXISTS public.update_user_progress(uuid, uuid, integer, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.update_user_progress(
+  p_user_id uuid,
+  p_exercise_id uuid,
+  p_points_earned integer,
+  p_fun_rating integer,
+  p_duration_seconds integer,
+  p_completed_at timestamptz DEFAULT NULL
+)
+RETURNS user_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  progress user_progress%ROWTYPE;
+  activity_date date;
+  missed_days integer;
+  new_streak integer;
+  freezes integer;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to update progress for this profile';
+  END IF;
+
+  activity_date := (COALESCE(p_completed_at, now()) AT TIME ZONE public.profile_timezone(p_user_id))::date;
+
+  INSERT INTO user_progress (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO progress FROM user_progress WHERE user_id = p_user_id FOR UPDATE;
+
+  new_streak := COALESCE(progress.current_streak_days, 0);
+  freezes := COALESCE(progress.streak_freezes_available, 0);
+
+  IF progress.last_exercise_date IS NULL THEN
+    new_streak := 1;
+  ELSIF activity_date <= progress.last_exercise_date THEN
+    -- Same day, or a late-synced session for an earlier day
+    new_streak := GREATEST(new_streak, 1);
+  ELSE
+    missed_days := activity_date - progress.last_exercise_date - 1;
+    IF missed_days = 0 THEN
+      new_streak := new_streak + 1;
+    ELSIF missed_days <= freezes THEN
+      freezes := freezes - missed_days;
+      new_streak := new_streak + 1;
+    ELSE
+      new_streak := 1;
+    END IF;
+  END IF;
+
+  UPDATE user_progress
+  SET total_exercises_completed = COALESCE(total_exercises_completed, 0) + 1,
+      total_minutes_exercised = COALESCE(total_minutes_exercised, 0) + ROUND(GREATEST(p_duration_seconds, 0) / 60.0, 2),
+      total_points_earned = COALESCE(total_points_earned, 0) + GREATEST(COALESCE(p_points_earned, 0), 0),
+      current_streak_days = new_streak,
+      longest_streak_days = GREATEST(COALESCE(longest_streak_days, 0), new_streak),
+      last_exercise_date = GREATEST(last_exercise_date, activity_date),
+      streak_freezes_available = freezes,
+      favorite_exercise_id = (
+        SELECT es.exercise_id
+        FROM exercise_sessions es
+        WHERE es.user_id = p_user_id AND es.completed_at IS NOT NULL
+        GROUP BY es.exercise_id
+        ORDER BY COUNT(*) DESC, MAX(es.completed_at) DESC
+        LIMIT 1
+      ),
+      updated_at = now()
+  WHERE user_id = p_user_id
+  RETURNING * INTO progress;
+
+  RETURN progress;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_streak(p_user_id uuid)
+RETURNS TABLE (
+  current_streak_days integer,
+  longest_streak_days integer,
+  last_exercise_date date,
+  streak_freezes_available integer,
+  exercised_today boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  today date;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to read streaks for this profile';
+  END IF;
+
+  today := (now() AT TIME ZONE public.profile_timezone(p_user_id))::date;
+
+  RETURN QUERY
+  SELECT
+    -- The stored streak is only refreshed by sessions, so a lapse shows up here first
+    CASE
+      WHEN up.last_exercise_date IS NULL THEN 0
+      WHEN today - up.last_exercise_date - 1 <= COALESCE(up.streak_freezes_available, 0)
+        THEN COALESCE(up.current_streak_days, 0)
+      ELSE 0
+    END,
+    COALESCE(up.longest_streak_days, 0),
+    up.last_exercise_date,
+    COALESCE(up.streak_freezes_available, 0),
+    up.last_exercise_date IS NOT NULL AND up.last_exercise_date >= today
+  FROM (SELECT 1) one
+  LEFT JOIN user_progress up ON up.user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.grant_reward_streak_freezes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  granted integer;
+BEGIN
+  SELECT streak_freezes INTO granted FROM rewards WHERE id = NEW.reward_id;
+
+  IF COALESCE(granted, 0) > 0 THEN
+    INSERT INTO user_progress (user_id, streak_freezes_available)
+    VALUES (NEW.user_id, LEAST(granted, 3))
+    ON CONFLICT (user_id) DO UPDATE
+    SET streak_freezes_available = LEAST(COALESCE(user_progress.streak_freezes_available, 0) + granted, 3),
+        updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS grant_reward_streak_freezes_trigger ON user_rewards;
+CREATE TRIGGER grant_reward_streak_freezes_trigger
+  AFTER INSERT ON user_rewards
+  FOR EACH ROW EXECUTE FUNCTION public.grant_reward_streak_freezes();
+
+INSERT INTO rewards (title, title_ru, description, description_ru, reward_type, icon, rarity, unlock_criteria, points_value, streak_freezes)
+SELECT v.title, v.title_ru, v.description, v.description_ru, 'power_up', 'snowflake', v.rarity, v.criteria::jsonb, v.points, 1
+FROM (VALUES
+  ('Streak Shield', 'Ледяной щит', 'Keep a 5-day streak and earn a freeze for one missed day',
+   'Держи серию 5 дней и получи заморозку на один пропущенный день', 'rare', '{"streak_days": 5}', 40),
+  ('Streak Fortress', 'Ледяная крепость', 'Keep a 14-day streak and earn another freeze',
+   'Держи серию 14 дней и получи ещё одну заморозку', 'epic', '{"streak_days": 14}', 100)
+) AS v(title, title_ru, description, description_ru, rarity, criteria, points)
+WHERE NOT EXISTS (SELECT 1 FROM rewards r WHERE r.title = v.title);
+
+REVOKE EXECUTE ON FUNCTION public.profile_timezone(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_user_progress(uuid, uuid, integer, integer, integer, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_streak(uuid) TO authenticated;
@@ -0,0 +1,266 @@
+/*
+# Weekly and Monthly Goals
+
+## Overview
+user_progress.weekly_goal_minutes and monthly_goal_exercises have been stored
+since the first migration, but nothing read or changed them. Parents can now
+set them per child, progress is computed from exercise_sessions, and every
+week or month that reaches its goal is recorded once in goal_achievements so
+the reward engine can count it.
+
+## New Tables
+1. `goal_achievements` - One row per (profile, period) in which a goal was met
+   - period_type: 'week' (minutes goal) or 'month' (exercises goal)
+   - period_start: Monday / first of the month in the family timezone
+   - goal_value / achieved_value: the goal at the time and the value that met it
+
+## New Functions
+1. `set_user_goals(uuid, integer, integer)` - Updates a profile's goals
+2. `get_goal_progress(uuid)` - Progress toward this week's and this month's goals
+3. `record_goal_achievements()` - Trigger on exercise_sessions
+4. `reward_metric_weekly_goals_met(uuid)` and `reward_metric_monthly_goals_met(uuid)` -
+   The `weekly_goals_met` and `monthly_goals_met` reward metrics
+
+## Changes
+1. Two rewards for hitting the first weekly and monthly goal
+
+## Security
+- RLS on goal_achievements: own rows plus linked children, read-only
+- set_user_goals and get_goal_progress are SECURITY DEFINER and limited to
+  get_accessible_profile_ids(); parents only have SELECT on user_progress
+- Goals are bounded (10-1000 minutes a week, 1-200 exercises a month)
+- The goal metric functions are only for the reward engine and are revoked
+  from anon and authenticated
+*/
+
+CREATE TABLE IF NOT EXISTS goal_achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  period_type text NOT NULL CHECK (period_type IN ('week', 'month')),
+  period_start date NOT NULL,
+  goal_value integer NOT NULL,
+  achieved_value numeric(8,2) NOT NULL,
+  achieved_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, period_type, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_achievements_user ON goal_achievements(user_id, period_type, period_start DESC);
+
+ALTER TABLE goal_achievements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own goal achievements" ON goal_achievements;
+CREATE POLICY "Users can view own goal achievements"
+  ON goal_achievements
+  FOR SELECT
+  TO authenticated
+  USING (user_id = public.get_current_user_profile_id());
+
+DROP POLICY IF EXISTS "Parents can view children goal achievements" ON goal_achievements;
+CREATE POLICY "Parents can view children goal achievements"
+  ON goal_achievements
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.active = true
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.set_user_goals(
+  p_user_id uuid,
+  p_weekly_goal_minutes integer,
+  p_monthly_goal_exercises integer
+)
+RETURNS user_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  progress user_progress%ROWTYPE;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to set goals for this profile';
+  END IF;
+
+  IF p_weekly_goal_minutes IS NULL OR p_weekly_goal_minutes NOT BETWEEN 10 AND 1000 THEN
+    RAISE EXCEPTION 'Weekly goal must be between 10 and 1000 minutes';
+  END IF;
+
+  IF p_monthly_goal_exercises IS NULL OR p_monthly_goal_exercises NOT BETWEEN 1 AND 200 THEN
+    RAISE EXCEPTION 'Monthly goal must be between 1 and 200 exercises';
+  END IF;
+
+  INSERT INTO user_progress (user_id, weekly_goal_minutes, monthly_goal_exercises)
+  VALUES (p_user_id, p_weekly_goal_minutes, p_monthly_goal_exercises)
+  ON CONFLICT (user_id) DO UPDATE
+  SET weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+      monthly_goal_exercises = EXCLUDED.monthly_goal_exercises,
+      updated_at = now()
+  RETURNING * INTO progress;
+
+  RETURN progress;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_goal_progress(p_user_id uuid)
+RETURNS TABLE (
+  weekly_goal_minutes integer,
+  weekly_minutes numeric,
+  week_start date,
+  monthly_goal_exercises integer,
+  monthly_exercises integer,
+  month_start date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text;
+  local_today date;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to read goals for this profile';
+  END IF;
+
+  tz := public.profile_timezone(p_user_id);
+  local_today := (now() AT TIME ZONE tz)::date;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(up.weekly_goal_minutes, 150),
+    (
+      SELECT COALESCE(SUM(es.duration_minutes), 0)
+      FROM exercise_sessions es
+      WHERE es.user_id = p_user_id
+        AND es.completed_at IS NOT NULL
+        AND (es.completed_at AT TIME ZONE tz)::date >= date_trunc('week', local_today)::date
+    )::numeric,
+    date_trunc('week', local_today)::date,
+    COALESCE(up.monthly_goal_exercises, 20),
+    (
+      SELECT COUNT(*)
+      FROM exercise_sessions es
+      WHERE es.user_id = p_user_id
+        AND es.completed_at IS NOT NULL
+        AND (es.completed_at AT TIME ZONE tz)::date >= date_trunc('month', local_today)::date
+    )::integer,
+    date_trunc('month', local_today)::date
+  FROM (SELECT 1) one
+  LEFT JOIN user_progress up ON up.user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_goal_achievements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text;
+  local_day date;
+  period_week date;
+  period_month date;
+  weekly_goal integer;
+  monthly_goal integer;
+  week_minutes numeric;
+  month_exercises integer;
+BEGIN
+  IF NEW.completed_at IS NULL OR NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.completed_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  tz := public.profile_timezone(NEW.user_id);
+  local_day := (NEW.completed_at AT TIME ZONE tz)::date;
+  period_week := date_trunc('week', local_day)::date;
+  period_month := date_trunc('month', local_day)::date;
+
+  SELECT COALESCE(up.weekly_goal_minutes, 150), COALESCE(up.monthly_goal_exercises, 20)
+  INTO weekly_goal, monthly_goal
+  FROM (SELECT 1) one
+  LEFT JOIN user_progress up ON up.user_id = NEW.user_id;
+
+  SELECT COALESCE(SUM(es.duration_minutes), 0)
+  INTO week_minutes
+  FROM exercise_sessions es
+  WHERE es.user_id = NEW.user_id
+    AND es.completed_at IS NOT NULL
+    AND (es.completed_at AT TIME ZONE tz)::date >= period_week
+    AND (es.completed_at AT TIME ZONE tz)::date < period_week + 7;
+
+  IF week_minutes >= weekly_goal THEN
+    INSERT INTO goal_achievements (user_id, period_type, period_start, goal_value, achieved_value)
+    VALUES (NEW.user_id, 'week', period_week, weekly_goal, week_minutes)
+    ON CONFLICT (user_id, period_type, period_start) DO NOTHING;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO month_exercises
+  FROM exercise_sessions es
+  WHERE es.user_id = NEW.user_id
+    AND es.completed_at IS NOT NULL
+    AND (es.completed_at AT TIME ZONE tz)::date >= period_month
+    AND (es.completed_at AT TIME ZONE tz)::date < (period_month + INTERVAL '1 month')::date;
+
+  IF month_exercises >= monthly_goal THEN
+    INSERT INTO goal_achievements (user_id, period_type, period_start, goal_value, achieved_value)
+    VALUES (NEW.user_id, 'month', period_month, monthly_goal, month_exercises)
+    ON CONFLICT (user_id, period_type, period_start) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_goal_achievements_trigger ON exercise_sessions;
+CREATE TRIGGER record_goal_achievements_trigger
+  AFTER INSERT OR UPDATE OF completed_at ON exercise_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.record_goal_achievements();
+
+CREATE OR REPLACE FUNCTION public.reward_metric_weekly_goals_met(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer FROM goal_achievements
+  WHERE user_id = p_user_id AND period_type = 'week';
+$$;
+
+CREATE OR REPLACE FUNCTION public.reward_metric_monthly_goals_met(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer FROM goal_achievements
+  WHERE user_id = p_user_id AND period_type = 'month';
+$$;
+
+INSERT INTO rewards (title, title_ru, description, description_ru, reward_type, icon, rarity, unlock_criteria, points_value)
+SELECT v.title, v.title_ru, v.description, v.description_ru, v.reward_type, v.icon, v.rarity, v.criteria::jsonb, v.points
+FROM (VALUES
+  ('Goal Getter', 'Цель достигнута', 'Reach your weekly minutes goal',
+   'Выполни недельную цель по минутам', 'badge', 'target', 'common', '{"weekly_goals_met": 1}', 30),
+  ('Month Master', 'Мастер месяца', 'Reach your monthly exercise goal',
+   'Выполни месячную цель по упражнениям', 'trophy', 'calendar-check', 'rare', '{"monthly_goals_met": 1}', 100)
+) AS v(title, title_ru, description, description_ru, reward_type, icon, rarity, criteria, points)
+WHERE NOT EXISTS (SELECT 1 FROM rewards r WHERE r.title = v.title);
+
+REVOKE EXECUTE ON FUNCTION public.reward_metric_weekly_goals_met(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reward_metric_monthly_goals_met(uuid) FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON goal_achievements TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_goals(uuid, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_goal_progress(uuid) TO authenticated;
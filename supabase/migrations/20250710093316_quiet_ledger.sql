@@ -0,0 +1,190 @@
+/*
+# COPPA Data-Subject Tools
+
+## Overview
+docs/coppa-compliance.md promises that parents can review and delete everything
+stored about their child. Until now the client could only read a few tables
+through RLS, and nothing could remove a child. This migration adds one server
+function that exports all rows tied to a child profile and one that deletes
+them. The delete and its receipt are written in one transaction, so a parent
+always gets proof of what was removed.
+
+## New Tables
+1. `data_deletion_receipts` - One row per deleted child profile
+   - receipt_code: short human-readable reference shown to the parent
+   - requested_by: parent profile that asked for the deletion
+   - subject_profile_id: id of the deleted child (no FK, the row is gone)
+   - deleted_counts: rows removed per table
+   - No name, birth date or activity of the child is kept
+
+## New Functions
+1. `export_child_data(uuid)` - Every row tied to a child profile as one JSON document
+2. `delete_child_data(uuid, text)` - Deletes a child profile and all related rows
+   and returns the receipt
+
+## Security
+- Only a parent with an active relationship to the child may call either function
+- delete_child_data requires a sign-in within the last 5 minutes (re-authentication)
+  and the child's display name typed back as confirmation
+- Parents can read their own receipts; receipts cannot be changed from the client
+*/
+
+CREATE TABLE IF NOT EXISTS data_deletion_receipts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_code text NOT NULL UNIQUE,
+  requested_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  subject_profile_id uuid NOT NULL,
+  deleted_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  deleted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_deletion_receipts_requested_by ON data_deletion_receipts(requested_by, deleted_at DESC);
+
+ALTER TABLE data_deletion_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view own deletion receipts" ON data_deletion_receipts;
+CREATE POLICY "Parents can view own deletion receipts"
+  ON data_deletion_receipts
+  FOR SELECT
+  TO authenticated
+  USING (requested_by = public.get_current_user_profile_id());
+
+CREATE OR REPLACE FUNCTION public.assert_parent_of(p_child_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM parent_child_relationships pcr
+    WHERE pcr.parent_id = public.get_current_user_profile_id()
+      AND pcr.child_id = p_child_id
+      AND pcr.active = true
+  ) THEN
+    RAISE EXCEPTION 'Only a linked parent can manage this child''s data';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.export_child_data(p_child_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  RETURN jsonb_build_object(
+    'exported_at', now(),
+    'profile', (SELECT to_jsonb(p) FROM profiles p WHERE p.profile_id = p_child_id),
+    'parent_child_relationships', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pcr) ORDER BY pcr.created_at)
+      FROM parent_child_relationships pcr WHERE pcr.child_id = p_child_id
+    ), '[]'::jsonb),
+    'exercise_sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(es) ORDER BY es.created_at)
+      FROM exercise_sessions es WHERE es.user_id = p_child_id
+    ), '[]'::jsonb),
+    'workouts', COALESCE((
+      SELECT jsonb_agg(to_jsonb(w) ORDER BY w.started_at)
+      FROM workouts w WHERE w.user_id = p_child_id
+    ), '[]'::jsonb),
+    'user_progress', (SELECT to_jsonb(up) FROM user_progress up WHERE up.user_id = p_child_id),
+    'user_rewards', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ur) ORDER BY ur.earned_at)
+      FROM user_rewards ur WHERE ur.user_id = p_child_id
+    ), '[]'::jsonb),
+    'user_adventures', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ua) ORDER BY ua.started_at)
+      FROM user_adventures ua WHERE ua.user_id = p_child_id
+    ), '[]'::jsonb),
+    'user_path_progress', COALESCE((
+      SELECT jsonb_agg(to_jsonb(upp) ORDER BY upp.started_at)
+      FROM user_path_progress upp WHERE upp.user_id = p_child_id
+    ), '[]'::jsonb),
+    'goal_achievements', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ga) ORDER BY ga.period_start)
+      FROM goal_achievements ga WHERE ga.user_id = p_child_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_child_data(p_child_id uuid, p_confirm_name text)
+RETURNS data_deletion_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  child_name text;
+  last_sign_in timestamptz;
+  counts jsonb;
+  receipt data_deletion_receipts%ROWTYPE;
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  SELECT u.last_sign_in_at INTO last_sign_in FROM auth.users u WHERE u.id = auth.uid();
+  IF last_sign_in IS NULL OR last_sign_in < now() - interval '5 minutes' THEN
+    RAISE EXCEPTION 'Please confirm your password again before deleting a child''s data';
+  END IF;
+
+  SELECT p.display_name INTO child_name
+  FROM profiles p
+  WHERE p.profile_id = p_child_id AND p.is_child = true
+  FOR UPDATE;
+
+  IF child_name IS NULL THEN
+    RAISE EXCEPTION 'Child profile not found';
+  END IF;
+
+  IF lower(btrim(COALESCE(p_confirm_name, ''))) <> lower(btrim(child_name)) THEN
+    RAISE EXCEPTION 'Confirmation name does not match the child''s name';
+  END IF;
+
+  counts := jsonb_build_object(
+    'profiles', 1,
+    'parent_child_relationships', (SELECT COUNT(*) FROM parent_child_relationships WHERE child_id = p_child_id),
+    'exercise_sessions', (SELECT COUNT(*) FROM exercise_sessions WHERE user_id = p_child_id),
+    'workouts', (SELECT COUNT(*) FROM workouts WHERE user_id = p_child_id),
+    'user_progress', (SELECT COUNT(*) FROM user_progress WHERE user_id = p_child_id),
+    'user_rewards', (SELECT COUNT(*) FROM user_rewards WHERE user_id = p_child_id),
+    'user_adventures', (SELECT COUNT(*) FROM user_adventures WHERE user_id = p_child_id),
+    'user_path_progress', (SELECT COUNT(*) FROM user_path_progress WHERE user_id = p_child_id),
+    'goal_achievements', (SELECT COUNT(*) FROM goal_achievements WHERE user_id = p_child_id)
+  );
+
+  -- Explicit deletes rather than relying on ON DELETE CASCADE, so the receipt
+  -- stays accurate if a foreign key is ever changed. Rewards go first: their
+  -- earned_from_session_id points at exercise_sessions without ON DELETE
+  DELETE FROM user_rewards WHERE user_id = p_child_id;
+  DELETE FROM exercise_sessions WHERE user_id = p_child_id;
+  DELETE FROM workouts WHERE user_id = p_child_id;
+  DELETE FROM user_progress WHERE user_id = p_child_id;
+  DELETE FROM user_adventures WHERE user_id = p_child_id;
+  DELETE FROM user_path_progress WHERE user_id = p_child_id;
+  DELETE FROM goal_achievements WHERE user_id = p_child_id;
+  DELETE FROM parent_child_relationships WHERE child_id = p_child_id;
+  DELETE FROM profiles WHERE profile_id = p_child_id;
+
+  INSERT INTO data_deletion_receipts (receipt_code, requested_by, subject_profile_id, deleted_counts)
+  VALUES (
+    'DEL-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+    public.get_current_user_profile_id(),
+    p_child_id,
+    counts
+  )
+  RETURNING * INTO receipt;
+
+  RETURN receipt;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_parent_of(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.export_child_data(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_child_data(uuid, text) TO authenticated;
@@ -0,0 +1,346 @@
+/*
+# Consent Revocation and Re-Consent
+
+## Overview
+Consent was recorded once when a child was added and could never change.
+Parents can now revoke consent, which deactivates the relationship and freezes
+data collection for the child. They can also grant it again later. Every change
+is kept in consent_history.
+
+## New Tables
+1. `consent_history` - One row per consent decision
+   - action: 'granted' or 'revoked'
+   - reason: optional note from the parent
+   - Existing relationships are backfilled with their original grant
+
+## New Functions
+1. `profile_consent_active(uuid)` - False for child profiles without parental consent
+2. `set_child_consent(uuid, boolean, text)` - Revokes or re-grants consent
+3. `get_consent_overview()` - The caller's children including revoked ones
+4. `record_initial_consent()` - Trigger on parent_child_relationships
+
+## Changes
+1. Restrictive policies on exercise_sessions: inserts and updates for a child
+   whose consent is revoked are rejected, whoever makes them
+2. `assert_parent_of(uuid)` also accepts inactive relationships, so a parent who
+   revoked consent can still export or delete the child's data
+3. `export_child_data` and `delete_child_data` include consent_history
+
+## Security
+- RLS on consent_history: parents read rows of their own children, read-only
+- set_child_consent and get_consent_overview are SECURITY DEFINER and limited
+  to the caller's own relationships
+*/
+
+CREATE TABLE IF NOT EXISTS consent_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('granted', 'revoked')),
+  reason text CHECK (reason IS NULL OR length(reason) <= 500),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_history_child ON consent_history(child_id, created_at DESC);
+
+ALTER TABLE consent_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view children consent history" ON consent_history;
+CREATE POLICY "Parents can view children consent history"
+  ON consent_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    child_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+    )
+  );
+
+INSERT INTO consent_history (child_id, parent_id, action, reason, created_at)
+SELECT pcr.child_id, pcr.parent_id, 'granted', 'Consent given when the child was added',
+       COALESCE(pcr.consent_date, pcr.created_at, now())
+FROM parent_child_relationships pcr
+WHERE pcr.consent_given = true
+  AND NOT EXISTS (
+    SELECT 1 FROM consent_history ch
+    WHERE ch.child_id = pcr.child_id AND ch.parent_id = pcr.parent_id
+  );
+
+CREATE OR REPLACE FUNCTION public.record_initial_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.consent_given THEN
+    INSERT INTO consent_history (child_id, parent_id, action, reason, created_at)
+    VALUES (NEW.child_id, NEW.parent_id, 'granted', 'Consent given when the child was added',
+            COALESCE(NEW.consent_date, now()));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_initial_consent_trigger ON parent_child_relationships;
+CREATE TRIGGER record_initial_consent_trigger
+  AFTER INSERT ON parent_child_relationships
+  FOR EACH ROW EXECUTE FUNCTION public.record_initial_consent();
+
+CREATE OR REPLACE FUNCTION public.profile_consent_active(p_profile_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT NOT COALESCE(p.is_child, false) OR COALESCE(p.parent_consent_given, false)
+      FROM profiles p
+      WHERE p.profile_id = p_profile_id
+    ),
+    false
+  );
+$$;
+
+DROP POLICY IF EXISTS "Sessions require parental consent" ON exercise_sessions;
+CREATE POLICY "Sessions require parental consent"
+  ON exercise_sessions
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.profile_consent_active(user_id));
+
+DROP POLICY IF EXISTS "Session updates require parental consent" ON exercise_sessions;
+CREATE POLICY "Session updates require parental consent"
+  ON exercise_sessions
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (public.profile_consent_active(user_id))
+  WITH CHECK (public.profile_consent_active(user_id));
+
+CREATE OR REPLACE FUNCTION public.assert_parent_of(p_child_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Inactive links count too: revoking consent must not take away export or deletion
+  IF NOT EXISTS (
+    SELECT 1
+    FROM parent_child_relationships pcr
+    WHERE pcr.parent_id = public.get_current_user_profile_id()
+      AND pcr.child_id = p_child_id
+  ) THEN
+    RAISE EXCEPTION 'Only a linked parent can manage this child''s data';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_child_consent(
+  p_child_id uuid,
+  p_granted boolean,
+  p_reason text DEFAULT NULL
+)
+RETURNS consent_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_profile_id uuid;
+  current_consent boolean;
+  entry consent_history%ROWTYPE;
+BEGIN
+  parent_profile_id := public.get_current_user_profile_id();
+  PERFORM public.assert_parent_of(p_child_id);
+
+  SELECT COALESCE(pcr.consent_given, false) AND COALESCE(pcr.active, false) INTO current_consent
+  FROM parent_child_relationships pcr
+  WHERE pcr.parent_id = parent_profile_id AND pcr.child_id = p_child_id
+  FOR UPDATE;
+
+  IF current_consent = p_granted THEN
+    RAISE EXCEPTION 'Consent is already %', CASE WHEN p_granted THEN 'granted' ELSE 'revoked' END;
+  END IF;
+
+  UPDATE parent_child_relationships
+  SET consent_given = p_granted,
+      consent_date = now(),
+      active = p_granted
+  WHERE parent_id = parent_profile_id AND child_id = p_child_id;
+
+  UPDATE profiles
+  SET parent_consent_given = p_granted,
+      parent_consent_date = now(),
+      updated_at = now()
+  WHERE profile_id = p_child_id;
+
+  INSERT INTO consent_history (child_id, parent_id, action, reason)
+  VALUES (
+    p_child_id,
+    parent_profile_id,
+    CASE WHEN p_granted THEN 'granted' ELSE 'revoked' END,
+    NULLIF(btrim(COALESCE(p_reason, '')), '')
+  )
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_consent_overview()
+RETURNS TABLE (
+  child_id uuid,
+  display_name text,
+  date_of_birth date,
+  consent_given boolean,
+  consent_date timestamptz,
+  active boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.profile_id, p.display_name, p.date_of_birth,
+         COALESCE(pcr.consent_given, false), pcr.consent_date, COALESCE(pcr.active, false)
+  FROM parent_child_relationships pcr
+  JOIN profiles p ON p.profile_id = pcr.child_id
+  WHERE pcr.parent_id = public.get_current_user_profile_id()
+  ORDER BY p.display_name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.export_child_data(p_child_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  RETURN jsonb_build_object(
+    'exported_at', now(),
+    'profile', (SELECT to_jsonb(p) FROM profiles p WHERE p.profile_id = p_child_id),
+    'parent_child_relationships', COALESCE((
+      SELECT jsonb_agg(to_jsonb(pcr) ORDER BY pcr.created_at)
+      FROM parent_child_relationships pcr WHERE pcr.child_id = p_child_id
+    ), '[]'::jsonb),
+    'consent_history', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ch) ORDER BY ch.created_at)
+      FROM consent_history ch WHERE ch.child_id = p_child_id
+    ), '[]'::jsonb),
+    'exercise_sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(es) ORDER BY es.created_at)
+      FROM exercise_sessions es WHERE es.user_id = p_child_id
+    ), '[]'::jsonb),
+    'workouts', COALESCE((
+      SELECT jsonb_agg(to_jsonb(w) ORDER BY w.started_at)
+      FROM workouts w WHERE w.user_id = p_child_id
+    ), '[]'::jsonb),
+    'user_progress', (SELECT to_jsonb(up) FROM user_progress up WHERE up.user_id = p_child_id),
+    'user_rewards', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ur) ORDER BY ur.earned_at)
+      FROM user_rewards ur WHERE ur.user_id = p_child_id
+    ), '[]'::jsonb),
+    'user_adventures', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ua) ORDER BY ua.started_at)
+      FROM user_adventures ua WHERE ua.user_id = p_child_id
+    ), '[]'::jsonb),
+    'user_path_progress', COALESCE((
+      SELECT jsonb_agg(to_jsonb(upp) ORDER BY upp.started_at)
+      FROM user_path_progress upp WHERE upp.user_id = p_child_id
+    ), '[]'::jsonb),
+    'goal_achievements', COALESCE((
+      SELECT jsonb_agg(to_jsonb(ga) ORDER BY ga.period_start)
+      FROM goal_achievements ga WHERE ga.user_id = p_child_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_child_data(p_child_id uuid, p_confirm_name text)
+RETURNS data_deletion_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  child_name text;
+  last_sign_in timestamptz;
+  counts jsonb;
+  receipt data_deletion_receipts%ROWTYPE;
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  SELECT u.last_sign_in_at INTO last_sign_in FROM auth.users u WHERE u.id = auth.uid();
+  IF last_sign_in IS NULL OR last_sign_in < now() - interval '5 minutes' THEN
+    RAISE EXCEPTION 'Please confirm your password again before deleting a child''s data';
+  END IF;
+
+  SELECT p.display_name INTO child_name
+  FROM profiles p
+  WHERE p.profile_id = p_child_id AND p.is_child = true
+  FOR UPDATE;
+
+  IF child_name IS NULL THEN
+    RAISE EXCEPTION 'Child profile not found';
+  END IF;
+
+  IF lower(btrim(COALESCE(p_confirm_name, ''))) <> lower(btrim(child_name)) THEN
+    RAISE EXCEPTION 'Confirmation name does not match the child''s name';
+  END IF;
+
+  counts := jsonb_build_object(
+    'profiles', 1,
+    'parent_child_relationships', (SELECT COUNT(*) FROM parent_child_relationships WHERE child_id = p_child_id),
+    'consent_history', (SELECT COUNT(*) FROM consent_history WHERE child_id = p_child_id),
+    'exercise_sessions', (SELECT COUNT(*) FROM exercise_sessions WHERE user_id = p_child_id),
+    'workouts', (SELECT COUNT(*) FROM workouts WHERE user_id = p_child_id),
+    'user_progress', (SELECT COUNT(*) FROM user_progress WHERE user_id = p_child_id),
+    'user_rewards', (SELECT COUNT(*) FROM user_rewards WHERE user_id = p_child_id),
+    'user_adventures', (SELECT COUNT(*) FROM user_adventures WHERE user_id = p_child_id),
+    'user_path_progress', (SELECT COUNT(*) FROM user_path_progress WHERE user_id = p_child_id),
+    'goal_achievements', (SELECT COUNT(*) FROM goal_achievements WHERE user_id = p_child_id)
+  );
+
+  -- Explicit deletes rather than relying on ON DELETE CASCADE, so the receipt
+  -- stays accurate if a foreign key is ever changed. Rewards go first: their
+  -- earned_from_session_id points at exercise_sessions without ON DELETE
+  DELETE FROM user_rewards WHERE user_id = p_child_id;
+  DELETE FROM exercise_sessions WHERE user_id = p_child_id;
+  DELETE FROM workouts WHERE user_id = p_child_id;
+  DELETE FROM user_progress WHERE user_id = p_child_id;
+  DELETE FROM user_adventures WHERE user_id = p_child_id;
+  DELETE FROM user_path_progress WHERE user_id = p_child_id;
+  DELETE FROM goal_achievements WHERE user_id = p_child_id;
+  DELETE FROM consent_history WHERE child_id = p_child_id;
+  DELETE FROM parent_child_relationships WHERE child_id = p_child_id;
+  DELETE FROM profiles WHERE profile_id = p_child_id;
+
+  INSERT INTO data_deletion_receipts (receipt_code, requested_by, subject_profile_id, deleted_counts)
+  VALUES (
+    'DEL-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+    public.get_current_user_profile_id(),
+    p_child_id,
+    counts
+  )
+  RETURNING * INTO receipt;
+
+  RETURN receipt;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.profile_consent_active(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.profile_consent_active(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_child_consent(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_consent_overview() TO authenticated;
@@ -0,0 +1,139 @@
+/*
+# Audit Log for Child Data
+
+## Overview
+The COPPA guide promises an audit trail, but nothing recorded who changed a
+child's data. Row triggers on profiles, parent_child_relationships and
+exercise_sessions now write one entry per insert, update or delete to an
+append-only audit_events table. Parents can read their own family's entries.
+
+## New Tables
+1. `audit_events`
+   - actor_user_id / actor_profile_id: who made the change (NULL for system jobs)
+   - subject_profile_id: whose data it was (kept after the profile is deleted)
+   - table_name, record_id, action: what changed
+   - changed_fields: column names for updates; values are never copied, so the
+     log holds no more personal data than the tables themselves
+
+## New Functions
+1. `audit_row_change()` - Generic row trigger; TG_ARGV[0] names the subject column,
+   TG_ARGV[1] the record id column
+2. `prevent_audit_changes()` - Rejects UPDATE, DELETE and TRUNCATE on audit_events
+
+## Security
+- No INSERT, UPDATE or DELETE policies: only the SECURITY DEFINER trigger writes
+- Parents read entries about themselves, their children (including ones whose
+  consent was revoked) and entries they caused
+*/
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  actor_user_id uuid,
+  actor_profile_id uuid,
+  subject_profile_id uuid,
+  table_name text NOT NULL,
+  record_id uuid,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  changed_fields text[]
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_subject ON audit_events(subject_profile_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_profile_id, occurred_at DESC);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view family audit events" ON audit_events;
+CREATE POLICY "Parents can view family audit events"
+  ON audit_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    actor_profile_id = public.get_current_user_profile_id()
+    OR subject_profile_id = public.get_current_user_profile_id()
+    OR subject_profile_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  row_data jsonb;
+  old_data jsonb;
+  fields text[];
+BEGIN
+  row_data := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+
+  IF TG_OP = 'UPDATE' THEN
+    old_data := to_jsonb(OLD);
+    SELECT array_agg(n.key ORDER BY n.key) INTO fields
+    FROM jsonb_each(row_data) n
+    WHERE n.key NOT IN ('updated_at', 'last_activity_at')
+      AND n.value IS DISTINCT FROM old_data -> n.key;
+
+    -- Touch-only updates are not worth an entry
+    IF fields IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_events (
+    actor_user_id, actor_profile_id, subject_profile_id,
+    table_name, record_id, action, changed_fields
+  )
+  VALUES (
+    auth.uid(),
+    public.get_current_user_profile_id(),
+    (row_data ->> TG_ARGV[0])::uuid,
+    TG_TABLE_NAME,
+    (row_data ->> TG_ARGV[1])::uuid,
+    TG_OP,
+    fields
+  );
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_events_no_update ON audit_events;
+CREATE TRIGGER audit_events_no_update
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_changes();
+
+DROP TRIGGER IF EXISTS audit_events_no_truncate ON audit_events;
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_changes();
+
+DROP TRIGGER IF EXISTS audit_profiles ON profiles;
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('profile_id', 'profile_id');
+
+DROP TRIGGER IF EXISTS audit_parent_child_relationships ON parent_child_relationships;
+CREATE TRIGGER audit_parent_child_relationships
+  AFTER INSERT OR UPDATE OR DELETE ON parent_child_relationships
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('child_id', 'id');
+
+DROP TRIGGER IF EXISTS audit_exercise_sessions ON exercise_sessions;
+CREATE TRIGGER audit_exercise_sessions
+  AFTER INSERT OR UPDATE OR DELETE ON exercise_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('user_id', 'id');
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_events FROM authenticated, anon;
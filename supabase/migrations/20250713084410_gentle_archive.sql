@@ -0,0 +1,92 @@
+/*
+# Edit and Archive Child Profiles
+
+## Overview
+create_child_profile_and_link was the only way to write a child profile, so a
+typo in the name or a wrong birth date could not be fixed. Parents can now edit
+both, and archive a child who has left the programme. Archived children are
+hidden from the dashboard but keep all their data and can be restored.
+
+## Schema Changes
+1. `profiles.archived_at` - Set while a child is archived, NULL otherwise
+
+## New Functions
+1. `update_child_profile(uuid, text, date)` - Renames a child and corrects the birth date
+2. `set_child_archived(uuid, boolean)` - Archives or restores a child
+
+## Validation
+- Same age rule as create_child_profile_and_link: 5-17 years old
+- Display name is required and at most 50 characters
+
+## Security
+- Both functions are SECURITY DEFINER and limited to child profiles in
+  get_accessible_profile_ids(), so revoked consent also blocks edits
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.update_child_profile(
+  p_child_id uuid,
+  p_display_name text,
+  p_date_of_birth date
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  child_age integer;
+  clean_name text;
+BEGIN
+  IF NOT (p_child_id = ANY(public.get_accessible_profile_ids()))
+     OR NOT EXISTS (SELECT 1 FROM profiles WHERE profile_id = p_child_id AND is_child = true) THEN
+    RAISE EXCEPTION 'Not allowed to edit this child profile';
+  END IF;
+
+  clean_name := btrim(COALESCE(p_display_name, ''));
+  IF clean_name = '' THEN
+    RAISE EXCEPTION 'Child name is required';
+  END IF;
+  IF length(clean_name) > 50 THEN
+    RAISE EXCEPTION 'Child name must be at most 50 characters';
+  END IF;
+
+  IF p_date_of_birth IS NULL THEN
+    RAISE EXCEPTION 'Date of birth is required';
+  END IF;
+
+  child_age := EXTRACT(YEAR FROM AGE(p_date_of_birth));
+  IF child_age < 5 OR child_age > 17 THEN
+    RAISE EXCEPTION 'Child age must be between 5 and 17 years old';
+  END IF;
+
+  UPDATE profiles
+  SET display_name = clean_name,
+      date_of_birth = p_date_of_birth,
+      updated_at = now()
+  WHERE profile_id = p_child_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_child_archived(p_child_id uuid, p_archived boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (p_child_id = ANY(public.get_accessible_profile_ids()))
+     OR NOT EXISTS (SELECT 1 FROM profiles WHERE profile_id = p_child_id AND is_child = true) THEN
+    RAISE EXCEPTION 'Not allowed to archive this child profile';
+  END IF;
+
+  UPDATE profiles
+  SET archived_at = CASE WHEN p_archived THEN COALESCE(archived_at, now()) ELSE NULL END,
+      updated_at = now()
+  WHERE profile_id = p_child_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_child_profile(uuid, text, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_child_archived(uuid, boolean) TO authenticated;
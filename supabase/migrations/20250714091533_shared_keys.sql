@@ -0,0 +1,638 @@
+/*
+# Guardian and Coach Invitations
+
+## Overview
+Only the parent who created a child could ever see them. A parent can now invite
+a second guardian or a coach by email. The invitation carries a one-time token;
+whoever signs in with the invited address and opens the link is linked to the
+child with either full or read-only access. Access can be revoked at any time.
+
+## Schema Changes
+1. `parent_child_relationships.access_level` - 'full' (default) or 'read_only'
+2. `parent_child_relationships.invited_by` - Profile that sent the accepted
+   invitation, NULL for the parent who added the child
+3. `parent_child_relationships.relationship_type` also allows 'coach'
+
+## New Tables
+1. `guardian_invitations` - Pending, accepted and revoked invitations
+   - Only the SHA-256 hash of the token is stored; the token itself is returned
+     once to the inviting parent
+   - Invitations expire after 7 days
+
+## New Functions
+1. `get_writable_profile_ids(uuid)` - Like get_accessible_profile_ids, limited to
+   children the user has full access to
+2. `enforce_write_access()` - BEFORE trigger rejecting writes to a child's data
+   from read-only guardians and coaches, through RLS or any RPC
+3. `create_guardian_invitation(uuid, text, text, text)` - Returns the token
+4. `accept_guardian_invitation(text)` - Links the caller to the child
+5. `revoke_guardian_invitation(uuid)` - Cancels a pending invitation
+6. `remove_guardian_access(uuid, uuid)` - Removes an invited guardian or coach;
+   anyone invited can also remove themselves
+7. `get_child_guardians(uuid)` - Everyone linked to a child
+
+## Changes
+1. `assert_parent_of(uuid)` requires a parent or guardian with full access, so
+   coaches and read-only guardians cannot export a child's data or manage
+   invitations
+2. `assert_primary_parent_of(uuid)` requires the parent who added the child
+   (`invited_by IS NULL`). `delete_child_data` and `set_child_consent` use it,
+   so invited guardians cannot delete the child or change the family's consent
+3. `get_consent_overview` only lists children the caller added. The current
+   consent state also reads the child's profile flag
+4. `record_initial_consent()` skips links created from an invitation
+
+## Security
+- Client inserts and updates on parent_child_relationships are rejected: links
+  are only created by create_child_profile_and_link and
+  accept_guardian_invitation, so nobody can link a child to themselves or raise
+  their own access level
+- guardian_invitations is readable by the child's full-access guardians, and
+  only writable through the functions above
+- The accepting user's sign-in email must match the invited address
+*/
+
+-- ============================================================================
+-- ACCESS LEVELS
+-- ============================================================================
+
+ALTER TABLE parent_child_relationships
+  ADD COLUMN IF NOT EXISTS access_level text NOT NULL DEFAULT 'full'
+    CHECK (access_level IN ('full', 'read_only')),
+  ADD COLUMN IF NOT EXISTS invited_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL;
+
+ALTER TABLE parent_child_relationships
+  DROP CONSTRAINT IF EXISTS parent_child_relationships_relationship_type_check;
+ALTER TABLE parent_child_relationships
+  ADD CONSTRAINT parent_child_relationships_relationship_type_check
+    CHECK (relationship_type IN ('parent', 'guardian', 'coach'));
+
+CREATE OR REPLACE FUNCTION public.get_writable_profile_ids(check_user_id uuid DEFAULT auth.uid())
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Inactive links are included: revoked consent is enforced by its own policies
+  SELECT ARRAY(
+    SELECT profile_id FROM profiles WHERE user_id = check_user_id
+    UNION
+    SELECT pcr.child_id
+    FROM parent_child_relationships pcr
+    JOIN profiles p ON pcr.parent_id = p.profile_id
+    WHERE p.user_id = check_user_id AND pcr.access_level = 'full'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_write_access()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subject_id uuid;
+BEGIN
+  -- Migrations, cron jobs and the service role have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  subject_id := (to_jsonb(NEW) ->> TG_ARGV[0])::uuid;
+
+  IF subject_id IS NOT NULL AND NOT (subject_id = ANY(public.get_writable_profile_ids())) THEN
+    RAISE EXCEPTION 'Read-only access: you cannot change this child''s data';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_write_access_profiles ON profiles;
+CREATE TRIGGER enforce_write_access_profiles
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('profile_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_exercise_sessions ON exercise_sessions;
+CREATE TRIGGER enforce_write_access_exercise_sessions
+  BEFORE INSERT OR UPDATE ON exercise_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_workouts ON workouts;
+CREATE TRIGGER enforce_write_access_workouts
+  BEFORE INSERT OR UPDATE ON workouts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_user_progress ON user_progress;
+CREATE TRIGGER enforce_write_access_user_progress
+  BEFORE INSERT OR UPDATE ON user_progress
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_user_rewards ON user_rewards;
+CREATE TRIGGER enforce_write_access_user_rewards
+  BEFORE INSERT OR UPDATE ON user_rewards
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_user_adventures ON user_adventures;
+CREATE TRIGGER enforce_write_access_user_adventures
+  BEFORE INSERT OR UPDATE ON user_adventures
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_user_path_progress ON user_path_progress;
+CREATE TRIGGER enforce_write_access_user_path_progress
+  BEFORE INSERT OR UPDATE ON user_path_progress
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+DROP TRIGGER IF EXISTS enforce_write_access_goal_achievements ON goal_achievements;
+CREATE TRIGGER enforce_write_access_goal_achievements
+  BEFORE INSERT OR UPDATE ON goal_achievements
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_write_access('user_id');
+
+-- Links are only created and changed by SECURITY DEFINER functions
+DROP POLICY IF EXISTS "Relationships are created by server functions" ON parent_child_relationships;
+CREATE POLICY "Relationships are created by server functions"
+  ON parent_child_relationships
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (false);
+
+DROP POLICY IF EXISTS "Relationships are changed by server functions" ON parent_child_relationships;
+CREATE POLICY "Relationships are changed by server functions"
+  ON parent_child_relationships
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (false);
+
+-- ============================================================================
+-- INVITATIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS guardian_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  invited_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  email text NOT NULL CHECK (email = lower(email)),
+  relationship_type text NOT NULL CHECK (relationship_type IN ('guardian', 'coach')),
+  access_level text NOT NULL CHECK (access_level IN ('full', 'read_only')),
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guardian_invitations_child ON guardian_invitations(child_id, created_at DESC);
+
+ALTER TABLE guardian_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Guardians can view children invitations" ON guardian_invitations;
+CREATE POLICY "Guardians can view children invitations"
+  ON guardian_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    child_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+        AND pcr.access_level = 'full'
+        AND pcr.relationship_type <> 'coach'
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON guardian_invitations FROM authenticated, anon;
+
+CREATE OR REPLACE FUNCTION public.assert_parent_of(p_child_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Inactive links count too: revoking consent must not take away export or deletion
+  IF NOT EXISTS (
+    SELECT 1
+    FROM parent_child_relationships pcr
+    WHERE pcr.parent_id = public.get_current_user_profile_id()
+      AND pcr.child_id = p_child_id
+      AND pcr.access_level = 'full'
+      AND pcr.relationship_type <> 'coach'
+  ) THEN
+    RAISE EXCEPTION 'Only a parent or guardian with full access can manage this child''s data';
+  END IF;
+END;
+$$;
+
+-- Deleting the child and changing consent stay with the parent who added them
+CREATE OR REPLACE FUNCTION public.assert_primary_parent_of(p_child_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM parent_child_relationships pcr
+    WHERE pcr.parent_id = public.get_current_user_profile_id()
+      AND pcr.child_id = p_child_id
+      AND pcr.invited_by IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only the parent who added this child can do this';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_guardian_invitation(
+  p_child_id uuid,
+  p_email text,
+  p_relationship_type text DEFAULT 'guardian',
+  p_access_level text DEFAULT 'read_only'
+)
+RETURNS TABLE (invitation_id uuid, token text, expires_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inviter_id uuid;
+  clean_email text;
+  new_token text;
+  invitation guardian_invitations%ROWTYPE;
+BEGIN
+  inviter_id := public.get_current_user_profile_id();
+  PERFORM public.assert_parent_of(p_child_id);
+
+  clean_email := lower(btrim(COALESCE(p_email, '')));
+  IF clean_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Please enter a valid email address';
+  END IF;
+
+  IF clean_email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot invite yourself';
+  END IF;
+
+  IF p_relationship_type NOT IN ('guardian', 'coach') THEN
+    RAISE EXCEPTION 'Invitations are for guardians or coaches';
+  END IF;
+
+  IF p_access_level NOT IN ('full', 'read_only') THEN
+    RAISE EXCEPTION 'Access level must be full or read_only';
+  END IF;
+
+  -- A new invitation replaces any pending one for the same address
+  UPDATE guardian_invitations gi
+  SET revoked_at = now()
+  WHERE gi.child_id = p_child_id
+    AND gi.email = clean_email
+    AND gi.accepted_at IS NULL
+    AND gi.revoked_at IS NULL;
+
+  new_token := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO guardian_invitations (child_id, invited_by, email, relationship_type, access_level, token_hash)
+  VALUES (
+    p_child_id,
+    inviter_id,
+    clean_email,
+    p_relationship_type,
+    p_access_level,
+    encode(sha256(convert_to(new_token, 'UTF8')), 'hex')
+  )
+  RETURNING * INTO invitation;
+
+  RETURN QUERY SELECT invitation.id, new_token, invitation.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_guardian_invitation(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitee_id uuid;
+  invitation guardian_invitations%ROWTYPE;
+BEGIN
+  invitee_id := public.get_current_user_profile_id();
+  IF invitee_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM guardian_invitations
+  WHERE token_hash = encode(sha256(convert_to(COALESCE(p_token, ''), 'UTF8')), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND OR invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation is not valid';
+  END IF;
+
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been used';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+
+  IF invitation.email <> (SELECT lower(email) FROM auth.users WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM parent_child_relationships
+    WHERE parent_id = invitee_id AND child_id = invitation.child_id
+  ) THEN
+    RAISE EXCEPTION 'You already have access to this child';
+  END IF;
+
+  INSERT INTO parent_child_relationships (
+    parent_id, child_id, relationship_type, access_level, invited_by, consent_given, consent_date, active
+  )
+  VALUES (
+    invitee_id,
+    invitation.child_id,
+    invitation.relationship_type,
+    invitation.access_level,
+    invitation.invited_by,
+    false,
+    NULL,
+    true
+  );
+
+  UPDATE guardian_invitations
+  SET accepted_at = now(),
+      accepted_by = invitee_id
+  WHERE id = invitation.id;
+
+  RETURN invitation.child_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_guardian_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation_child_id uuid;
+BEGIN
+  SELECT child_id INTO invitation_child_id
+  FROM guardian_invitations
+  WHERE id = p_invitation_id AND accepted_at IS NULL AND revoked_at IS NULL;
+
+  IF invitation_child_id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found or no longer pending';
+  END IF;
+
+  PERFORM public.assert_parent_of(invitation_child_id);
+
+  UPDATE guardian_invitations
+  SET revoked_at = now()
+  WHERE id = p_invitation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_guardian_access(p_child_id uuid, p_guardian_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_guardian_id IS DISTINCT FROM public.get_current_user_profile_id() THEN
+    PERFORM public.assert_parent_of(p_child_id);
+  END IF;
+
+  -- The parent who added the child can only be removed by deleting the child
+  DELETE FROM parent_child_relationships
+  WHERE child_id = p_child_id
+    AND parent_id = p_guardian_id
+    AND invited_by IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only invited guardians and coaches can be removed';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_child_guardians(p_child_id uuid)
+RETURNS TABLE (
+  profile_id uuid,
+  display_name text,
+  relationship_type text,
+  access_level text,
+  invited_by uuid,
+  linked_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  RETURN QUERY
+  SELECT p.profile_id, p.display_name, pcr.relationship_type, pcr.access_level,
+         pcr.invited_by, pcr.created_at
+  FROM parent_child_relationships pcr
+  JOIN profiles p ON p.profile_id = pcr.parent_id
+  WHERE pcr.child_id = p_child_id
+  ORDER BY pcr.invited_by IS NOT NULL, pcr.created_at;
+END;
+$$;
+
+-- ============================================================================
+-- CONSENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_initial_consent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Invited guardians and coaches join a child whose consent was already given
+  IF NEW.consent_given AND NEW.invited_by IS NULL THEN
+    INSERT INTO consent_history (child_id, parent_id, action, reason, created_at)
+    VALUES (NEW.child_id, NEW.parent_id, 'granted', 'Consent given when the child was added',
+            COALESCE(NEW.consent_date, now()));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_child_consent(
+  p_child_id uuid,
+  p_granted boolean,
+  p_reason text DEFAULT NULL
+)
+RETURNS consent_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_profile_id uuid;
+  current_consent boolean;
+  entry consent_history%ROWTYPE;
+BEGIN
+  parent_profile_id := public.get_current_user_profile_id();
+  PERFORM public.assert_primary_parent_of(p_child_id);
+
+  SELECT COALESCE(pcr.active, false) AND COALESCE(p.parent_consent_given, false) INTO current_consent
+  FROM parent_child_relationships pcr
+  JOIN profiles p ON p.profile_id = pcr.child_id
+  WHERE pcr.parent_id = parent_profile_id AND pcr.child_id = p_child_id
+  FOR UPDATE OF pcr;
+
+  IF current_consent = p_granted THEN
+    RAISE EXCEPTION 'Consent is already %', CASE WHEN p_granted THEN 'granted' ELSE 'revoked' END;
+  END IF;
+
+  UPDATE parent_child_relationships
+  SET consent_given = p_granted,
+      consent_date = now(),
+      active = p_granted
+  WHERE parent_id = parent_profile_id AND child_id = p_child_id;
+
+  UPDATE profiles
+  SET parent_consent_given = p_granted,
+      parent_consent_date = now(),
+      updated_at = now()
+  WHERE profile_id = p_child_id;
+
+  INSERT INTO consent_history (child_id, parent_id, action, reason)
+  VALUES (
+    p_child_id,
+    parent_profile_id,
+    CASE WHEN p_granted THEN 'granted' ELSE 'revoked' END,
+    NULLIF(btrim(COALESCE(p_reason, '')), '')
+  )
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_consent_overview()
+RETURNS TABLE (
+  child_id uuid,
+  display_name text,
+  date_of_birth date,
+  consent_given boolean,
+  consent_date timestamptz,
+  active boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.profile_id, p.display_name, p.date_of_birth,
+         COALESCE(p.parent_consent_given, false), COALESCE(p.parent_consent_date, pcr.consent_date),
+         COALESCE(pcr.active, false)
+  FROM parent_child_relationships pcr
+  JOIN profiles p ON p.profile_id = pcr.child_id
+  WHERE pcr.parent_id = public.get_current_user_profile_id()
+    AND pcr.invited_by IS NULL
+  ORDER BY p.display_name;
+$$;
+
+-- ============================================================================
+-- DATA DELETION
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.delete_child_data(p_child_id uuid, p_confirm_name text)
+RETURNS data_deletion_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  child_name text;
+  last_sign_in timestamptz;
+  counts jsonb;
+  receipt data_deletion_receipts%ROWTYPE;
+BEGIN
+  PERFORM public.assert_primary_parent_of(p_child_id);
+
+  SELECT u.last_sign_in_at INTO last_sign_in FROM auth.users u WHERE u.id = auth.uid();
+  IF last_sign_in IS NULL OR last_sign_in < now() - interval '5 minutes' THEN
+    RAISE EXCEPTION 'Please confirm your password again before deleting a child''s data';
+  END IF;
+
+  SELECT p.display_name INTO child_name
+  FROM profiles p
+  WHERE p.profile_id = p_child_id AND p.is_child = true
+  FOR UPDATE;
+
+  IF child_name IS NULL THEN
+    RAISE EXCEPTION 'Child profile not found';
+  END IF;
+
+  IF lower(btrim(COALESCE(p_confirm_name, ''))) <> lower(btrim(child_name)) THEN
+    RAISE EXCEPTION 'Confirmation name does not match the child''s name';
+  END IF;
+
+  counts := jsonb_build_object(
+    'profiles', 1,
+    'parent_child_relationships', (SELECT COUNT(*) FROM parent_child_relationships WHERE child_id = p_child_id),
+    'consent_history', (SELECT COUNT(*) FROM consent_history WHERE child_id = p_child_id),
+    'exercise_sessions', (SELECT COUNT(*) FROM exercise_sessions WHERE user_id = p_child_id),
+    'workouts', (SELECT COUNT(*) FROM workouts WHERE user_id = p_child_id),
+    'user_progress', (SELECT COUNT(*) FROM user_progress WHERE user_id = p_child_id),
+    'user_rewards', (SELECT COUNT(*) FROM user_rewards WHERE user_id = p_child_id),
+    'user_adventures', (SELECT COUNT(*) FROM user_adventures WHERE user_id = p_child_id),
+    'user_path_progress', (SELECT COUNT(*) FROM user_path_progress WHERE user_id = p_child_id),
+    'goal_achievements', (SELECT COUNT(*) FROM goal_achievements WHERE user_id = p_child_id)
+  );
+
+  -- Explicit deletes rather than relying on ON DELETE CASCADE, so the receipt
+  -- stays accurate if a foreign key is ever changed. Rewards go first: their
+  -- earned_from_session_id points at exercise_sessions without ON DELETE
+  DELETE FROM user_rewards WHERE user_id = p_child_id;
+  DELETE FROM exercise_sessions WHERE user_id = p_child_id;
+  DELETE FROM workouts WHERE user_id = p_child_id;
+  DELETE FROM user_progress WHERE user_id = p_child_id;
+  DELETE FROM user_adventures WHERE user_id = p_child_id;
+  DELETE FROM user_path_progress WHERE user_id = p_child_id;
+  DELETE FROM goal_achievements WHERE user_id = p_child_id;
+  DELETE FROM consent_history WHERE child_id = p_child_id;
+  DELETE FROM parent_child_relationships WHERE child_id = p_child_id;
+  DELETE FROM profiles WHERE profile_id = p_child_id;
+
+  INSERT INTO data_deletion_receipts (receipt_code, requested_by, subject_profile_id, deleted_counts)
+  VALUES (
+    'DEL-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+    public.get_current_user_profile_id(),
+    p_child_id,
+    counts
+  )
+  RETURNING * INTO receipt;
+
+  RETURN receipt;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_primary_parent_of(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_writable_profile_ids(uuid) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.get_writable_profile_ids(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_guardian_invitation(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_guardian_invitation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_guardian_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_guardian_access(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_child_guardians(uuid) TO authenticated;
@@ -0,0 +1,398 @@
+/*
+# Coach Teams
+
+## Overview
+Group sessions have one coach and many children from different families. A
+coach creates a team and shares its join code; a parent approves by entering the
+code for their child. Coaches assign workouts to the whole team and follow an
+attendance and progress board. They only ever see each child's display_name:
+team membership gives no access to profiles or any child data table.
+
+## New Tables
+1. `teams` - name, coach and join code
+2. `team_members` - Children in a team and the parent who approved it
+3. `team_assignments` - Workouts a coach assigned to a team
+   - exercise_ids: the exercises to do, played in phase order
+
+## Schema Changes
+1. `workouts.assignment_id` - Set when the workout was started from an assignment
+
+## New Functions
+1. `create_team(text)` - Creates a team coached by the caller
+2. `join_team(text, uuid)` - A parent adds their child with the join code
+3. `leave_team(uuid, uuid)` - The parent or the coach removes a child
+4. `create_team_assignment(uuid, text, uuid[], date)` - Assigns a workout
+5. `get_team_board(uuid, date, date)` - display_name, attendance and progress per member
+6. `get_team_assignments(uuid)` - Assignments with completion counts
+
+## Security
+- Only the coach reads the board, through SECURITY DEFINER functions
+  that return display_name and aggregates, never birth dates or session rows
+- Children whose parental consent is revoked are left out of the board
+- Joining requires assert_parent_of(child): a parent or guardian with full access
+- Parents read the teams, memberships and assignments of their own children
+*/
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coach_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 60),
+  join_code text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  child_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  approved_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, child_id)
+);
+
+CREATE TABLE IF NOT EXISTS team_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(btrim(title)) BETWEEN 1 AND 80),
+  exercise_ids uuid[] NOT NULL CHECK (cardinality(exercise_ids) > 0),
+  due_date date,
+  created_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_teams_coach ON teams(coach_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_child ON team_members(child_id);
+CREATE INDEX IF NOT EXISTS idx_team_assignments_team ON team_assignments(team_id, created_at DESC);
+
+ALTER TABLE workouts ADD COLUMN IF NOT EXISTS assignment_id uuid REFERENCES team_assignments(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_workouts_assignment ON workouts(assignment_id);
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches can view their teams" ON teams;
+CREATE POLICY "Coaches can view their teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (coach_id = public.get_current_user_profile_id());
+
+DROP POLICY IF EXISTS "Parents can view children teams" ON teams;
+CREATE POLICY "Parents can view children teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT tm.team_id
+      FROM team_members tm
+      JOIN parent_child_relationships pcr ON pcr.child_id = tm.child_id
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Coaches can rename their teams" ON teams;
+CREATE POLICY "Coaches can rename their teams"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING (coach_id = public.get_current_user_profile_id())
+  WITH CHECK (coach_id = public.get_current_user_profile_id());
+
+DROP POLICY IF EXISTS "Coaches can delete their teams" ON teams;
+CREATE POLICY "Coaches can delete their teams"
+  ON teams
+  FOR DELETE
+  TO authenticated
+  USING (coach_id = public.get_current_user_profile_id());
+
+DROP POLICY IF EXISTS "Parents can view children memberships" ON team_members;
+CREATE POLICY "Parents can view children memberships"
+  ON team_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    child_id IN (
+      SELECT pcr.child_id
+      FROM parent_child_relationships pcr
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Coaches and parents can view assignments" ON team_assignments;
+CREATE POLICY "Coaches and parents can view assignments"
+  ON team_assignments
+  FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (
+      SELECT t.id FROM teams t WHERE t.coach_id = public.get_current_user_profile_id()
+    )
+    OR team_id IN (
+      SELECT tm.team_id
+      FROM team_members tm
+      JOIN parent_child_relationships pcr ON pcr.child_id = tm.child_id
+      WHERE pcr.parent_id = public.get_current_user_profile_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Coaches can delete their assignments" ON team_assignments;
+CREATE POLICY "Coaches can delete their assignments"
+  ON team_assignments
+  FOR DELETE
+  TO authenticated
+  USING (
+    team_id IN (
+      SELECT t.id FROM teams t WHERE t.coach_id = public.get_current_user_profile_id()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.assert_team_coach(p_team_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM teams
+    WHERE id = p_team_id AND coach_id = public.get_current_user_profile_id()
+  ) THEN
+    RAISE EXCEPTION 'Only the team''s coach can do this';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_team(p_name text)
+RETURNS teams
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coach_profile_id uuid;
+  clean_name text;
+  new_team teams%ROWTYPE;
+BEGIN
+  SELECT profile_id INTO coach_profile_id
+  FROM profiles
+  WHERE user_id = auth.uid() AND COALESCE(is_child, false) = false;
+
+  IF coach_profile_id IS NULL THEN
+    RAISE EXCEPTION 'Only adult accounts can coach a team';
+  END IF;
+
+  clean_name := btrim(COALESCE(p_name, ''));
+  IF clean_name = '' OR length(clean_name) > 60 THEN
+    RAISE EXCEPTION 'Team name must be 1 to 60 characters';
+  END IF;
+
+  INSERT INTO teams (coach_id, name, join_code)
+  VALUES (coach_profile_id, clean_name, upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)))
+  RETURNING * INTO new_team;
+
+  RETURN new_team;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_team(p_join_code text, p_child_id uuid)
+RETURNS teams
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  team teams%ROWTYPE;
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  SELECT * INTO team
+  FROM teams
+  WHERE join_code = upper(btrim(COALESCE(p_join_code, '')));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No team found with this code';
+  END IF;
+
+  INSERT INTO team_members (team_id, child_id, approved_by)
+  VALUES (team.id, p_child_id, public.get_current_user_profile_id())
+  ON CONFLICT (team_id, child_id) DO NOTHING;
+
+  RETURN team;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_team(p_team_id uuid, p_child_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM teams
+    WHERE id = p_team_id AND coach_id = public.get_current_user_profile_id()
+  ) THEN
+    PERFORM public.assert_parent_of(p_child_id);
+  END IF;
+
+  DELETE FROM team_members
+  WHERE team_id = p_team_id AND child_id = p_child_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_team_assignment(
+  p_team_id uuid,
+  p_title text,
+  p_exercise_ids uuid[],
+  p_due_date date DEFAULT NULL
+)
+RETURNS team_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_title text;
+  entry team_assignments%ROWTYPE;
+BEGIN
+  PERFORM public.assert_team_coach(p_team_id);
+
+  clean_title := btrim(COALESCE(p_title, ''));
+  IF clean_title = '' OR length(clean_title) > 80 THEN
+    RAISE EXCEPTION 'Assignment title must be 1 to 80 characters';
+  END IF;
+
+  IF COALESCE(cardinality(p_exercise_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one exercise';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_exercise_ids) AS picked(id)
+    WHERE NOT EXISTS (SELECT 1 FROM exercises e WHERE e.id = picked.id AND e.is_active = true)
+  ) THEN
+    RAISE EXCEPTION 'Assignment contains an unknown exercise';
+  END IF;
+
+  INSERT INTO team_assignments (team_id, title, exercise_ids, due_date, created_by)
+  VALUES (p_team_id, clean_title, p_exercise_ids, p_due_date, public.get_current_user_profile_id())
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_team_board(p_team_id uuid, p_from date, p_to date)
+RETURNS TABLE (
+  child_id uuid,
+  display_name text,
+  active_dates date[],
+  sessions integer,
+  minutes numeric,
+  points integer,
+  total_points integer,
+  current_streak_days integer,
+  assignments_completed integer,
+  last_active_date date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_team_coach(p_team_id);
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from OR p_to - p_from > 92 THEN
+    RAISE EXCEPTION 'Pick a date range of up to 3 months';
+  END IF;
+
+  RETURN QUERY
+  WITH members AS (
+    SELECT tm.child_id, p.display_name, public.profile_timezone(tm.child_id) AS tz
+    FROM team_members tm
+    JOIN profiles p ON p.profile_id = tm.child_id
+    WHERE tm.team_id = p_team_id
+      AND public.profile_consent_active(tm.child_id)
+  ),
+  local_sessions AS (
+    SELECT es.user_id, (es.completed_at AT TIME ZONE m.tz)::date AS local_date,
+           es.duration_minutes, es.points_earned
+    FROM exercise_sessions es
+    JOIN members m ON m.child_id = es.user_id
+    WHERE es.completed_at IS NOT NULL
+  )
+  SELECT
+    m.child_id,
+    m.display_name,
+    COALESCE((
+      SELECT array_agg(DISTINCT ls.local_date ORDER BY ls.local_date)
+      FROM local_sessions ls
+      WHERE ls.user_id = m.child_id AND ls.local_date BETWEEN p_from AND p_to
+    ), ARRAY[]::date[]),
+    (
+      SELECT COUNT(*) FROM local_sessions ls
+      WHERE ls.user_id = m.child_id AND ls.local_date BETWEEN p_from AND p_to
+    )::integer,
+    (
+      SELECT COALESCE(SUM(ls.duration_minutes), 0) FROM local_sessions ls
+      WHERE ls.user_id = m.child_id AND ls.local_date BETWEEN p_from AND p_to
+    )::numeric,
+    (
+      SELECT COALESCE(SUM(ls.points_earned), 0) FROM local_sessions ls
+      WHERE ls.user_id = m.child_id AND ls.local_date BETWEEN p_from AND p_to
+    )::integer,
+    COALESCE(up.total_points_earned, 0),
+    COALESCE(up.current_streak_days, 0),
+    (
+      SELECT COUNT(DISTINCT w.assignment_id)
+      FROM workouts w
+      JOIN team_assignments ta ON ta.id = w.assignment_id
+      WHERE w.user_id = m.child_id AND w.status = 'completed' AND ta.team_id = p_team_id
+    )::integer,
+    (SELECT MAX(ls.local_date) FROM local_sessions ls WHERE ls.user_id = m.child_id)
+  FROM members m
+  LEFT JOIN user_progress up ON up.user_id = m.child_id
+  ORDER BY m.display_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_team_assignments(p_team_id uuid)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  exercise_ids uuid[],
+  due_date date,
+  created_at timestamptz,
+  completed_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_team_coach(p_team_id);
+
+  RETURN QUERY
+  SELECT ta.id, ta.title, ta.exercise_ids, ta.due_date, ta.created_at,
+         (
+           SELECT COUNT(DISTINCT w.user_id)
+           FROM workouts w
+           JOIN team_members tm ON tm.child_id = w.user_id AND tm.team_id = ta.team_id
+           WHERE w.assignment_id = ta.id AND w.status = 'completed'
+         )::integer
+  FROM team_assignments ta
+  WHERE ta.team_id = p_team_id
+  ORDER BY ta.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assert_team_coach(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_team(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_team(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_team(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_team_assignment(uuid, text, uuid[], date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_team_board(uuid, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_team_assignments(uuid) TO authenticated;
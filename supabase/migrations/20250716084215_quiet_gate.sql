@@ -0,0 +1,155 @@
+/*
+# Parent PIN for Kid Mode
+
+## Overview
+Kid mode hands the device to a child while the parent stays signed in. Leaving
+kid mode asks for a PIN the parent sets once. The PIN is checked on the server
+so it never has to be kept in the browser.
+
+## New Tables
+1. `parent_pins` - One salted SHA-256 hash per adult profile, plus a counter of
+   failed attempts and a lockout time
+
+## New Functions
+1. `has_parent_pin()` - Whether the signed-in adult has set a PIN
+2. `set_parent_pin(text, text)` - Sets or changes the PIN; changing it requires
+   the current PIN. Returns false when the current PIN is wrong, so the failed
+   attempt still counts towards the lockout
+3. `verify_parent_pin(text)` - Checks a PIN. After 5 wrong attempts in a row
+   the PIN is locked for 5 minutes
+
+## Security
+- RLS is enabled on parent_pins with no policies: the hash is never readable
+  from the client, only through the functions above
+- PINs are 4 to 6 digits
+- Child profiles cannot set a PIN
+*/
+
+-- ============================================================================
+-- PARENT PINS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS parent_pins (
+  profile_id uuid PRIMARY KEY REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  pin_salt text NOT NULL,
+  pin_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE parent_pins ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.hash_parent_pin(p_pin text, p_salt text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(p_salt || ':' || p_pin, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_parent_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM parent_pins
+    WHERE profile_id = public.get_current_user_profile_id()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_parent_pin(p_pin text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid;
+  stored parent_pins%ROWTYPE;
+BEGIN
+  caller_id := public.get_current_user_profile_id();
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO stored FROM parent_pins WHERE profile_id = caller_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No PIN has been set';
+  END IF;
+
+  IF stored.locked_until IS NOT NULL AND stored.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many wrong attempts. Try again in a few minutes';
+  END IF;
+
+  IF public.hash_parent_pin(COALESCE(p_pin, ''), stored.pin_salt) = stored.pin_hash THEN
+    UPDATE parent_pins
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE profile_id = caller_id;
+    RETURN true;
+  END IF;
+
+  UPDATE parent_pins
+  SET failed_attempts = CASE WHEN stored.failed_attempts + 1 >= 5 THEN 0 ELSE stored.failed_attempts + 1 END,
+      locked_until = CASE WHEN stored.failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' ELSE NULL END
+  WHERE profile_id = caller_id;
+  RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_parent_pin(p_new_pin text, p_current_pin text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid;
+  new_salt text;
+BEGIN
+  caller_id := public.get_current_user_profile_id();
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE profile_id = caller_id AND is_child) THEN
+    RAISE EXCEPTION 'Only parents can set a PIN';
+  END IF;
+
+  IF COALESCE(p_new_pin, '') !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM parent_pins WHERE profile_id = caller_id)
+     AND NOT public.verify_parent_pin(p_current_pin) THEN
+    RETURN false;
+  END IF;
+
+  new_salt := replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO parent_pins (profile_id, pin_salt, pin_hash)
+  VALUES (caller_id, new_salt, public.hash_parent_pin(p_new_pin, new_salt))
+  ON CONFLICT (profile_id) DO UPDATE
+  SET pin_salt = EXCLUDED.pin_salt,
+      pin_hash = EXCLUDED.pin_hash,
+      failed_attempts = 0,
+      locked_until = NULL,
+      updated_at = now();
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hash_parent_pin(text, text) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.has_parent_pin() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_parent_pin(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_parent_pin(text, text) TO authenticated;
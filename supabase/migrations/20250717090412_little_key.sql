@@ -0,0 +1,683 @@
+/*
+# Child Sign-In on a Family Device
+
+## Overview
+Child profiles have no user_id, so a child could only exercise inside a
+parent's session. A parent can now register the family device and give each
+child an avatar and a picture code (4 taps on 9 pictures) or a PIN. On that
+device the child picks their avatar, enters the code and gets a session of
+their own.
+
+The session is a Supabase anonymous sign-in bound to one child through
+`child_sessions`. It can read that child's data and record exercise sessions,
+workouts and progress, but cannot change the profile, goals, consent or
+anything belonging to the parent.
+
+## New Tables
+1. `family_devices` - Devices a parent enabled child sign-in on. Only the
+   SHA-256 hash of the device token is stored
+2. `child_logins` - Avatar and salted hash of each child's picture code or PIN,
+   with a failed attempt counter and lockout
+3. `child_sessions` - Anonymous auth users bound to a child, valid 12 hours
+
+## New Functions
+1. `get_child_session_profile_id()` - The child the current session belongs to
+2. `register_family_device(text)` / `revoke_family_device(uuid)`
+3. `get_family_device_children(text)` - Avatars shown on the sign-in screen;
+   callable before sign-in with the device token
+4. `set_child_login(uuid, text, text, text)` / `get_child_login(uuid)` /
+   `disable_child_login(uuid)` - Parent management
+5. `start_child_session(text, uuid, text)` - Checks the code and binds the
+   anonymous session to the child. 5 wrong codes lock the child's sign-in for
+   5 minutes
+6. `get_child_session()` / `end_child_session()`
+
+## Changes
+1. `get_accessible_profile_ids()` includes the signed-in child, so the reward,
+   streak, goal, adventure and path RPCs work in a child session
+2. `enforce_write_access()` lets a child session write its own activity tables,
+   never `profiles`
+3. `evaluate_user_rewards` checks access with get_accessible_profile_ids()
+   like the other RPCs
+4. `set_user_goals` rejects child sessions
+
+## Security
+- New "Child sessions can ..." policies give SELECT on the child's rows, and
+  INSERT/UPDATE only on exercise_sessions, workouts, user_progress,
+  user_adventures and user_path_progress. Nothing can be deleted
+- Anonymous users cannot create profiles, so an anonymous sign-in without a
+  child code has no access at all
+- Changing or disabling a child's code, revoking the device or removing the
+  child ends their open sessions
+*/
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS family_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 40),
+  token_hash text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_devices_parent_id ON family_devices(parent_id);
+
+CREATE TABLE IF NOT EXISTS child_logins (
+  child_id uuid PRIMARY KEY REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  avatar text NOT NULL CHECK (avatar ~ '^[a-z_]{1,20}$'),
+  secret_kind text NOT NULL CHECK (secret_kind IN ('picture', 'pin')),
+  secret_salt text NOT NULL,
+  secret_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_by uuid REFERENCES profiles(profile_id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS child_sessions (
+  auth_user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  child_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  device_id uuid NOT NULL REFERENCES family_devices(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '12 hours',
+  ended_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_child_sessions_child_id ON child_sessions(child_id);
+
+-- Only readable through the functions below
+ALTER TABLE family_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE child_logins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE child_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view own devices" ON family_devices;
+CREATE POLICY "Parents can view own devices"
+  ON family_devices
+  FOR SELECT
+  TO authenticated
+  USING (parent_id = public.get_current_user_profile_id());
+
+-- ============================================================================
+-- ACCESS HELPERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_child_session_profile_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cs.child_id
+  FROM child_sessions cs
+  JOIN family_devices fd ON fd.id = cs.device_id
+  WHERE cs.auth_user_id = auth.uid()
+    AND cs.ended_at IS NULL
+    AND cs.expires_at > now()
+    AND fd.revoked_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_accessible_profile_ids(check_user_id uuid DEFAULT auth.uid())
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    accessible_ids uuid[];
+BEGIN
+    SELECT ARRAY(
+        -- User's own profile
+        SELECT profile_id FROM profiles WHERE user_id = check_user_id
+        UNION
+        -- Children's profiles
+        SELECT pcr.child_id
+        FROM parent_child_relationships pcr
+        JOIN profiles p ON pcr.parent_id = p.profile_id
+        WHERE p.user_id = check_user_id AND pcr.active = true
+        UNION
+        -- The child signed in on a family device
+        SELECT cs.child_id
+        FROM child_sessions cs
+        JOIN family_devices fd ON fd.id = cs.device_id
+        WHERE cs.auth_user_id = check_user_id
+          AND cs.ended_at IS NULL
+          AND cs.expires_at > now()
+          AND fd.revoked_at IS NULL
+    ) INTO accessible_ids;
+
+    RETURN accessible_ids;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_write_access()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subject_id uuid;
+BEGIN
+  -- Migrations, cron jobs and the service role have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  subject_id := (to_jsonb(NEW) ->> TG_ARGV[0])::uuid;
+
+  IF subject_id IS NULL OR subject_id = ANY(public.get_writable_profile_ids()) THEN
+    RETURN NEW;
+  END IF;
+
+  -- A signed-in child records their own activity but never edits their profile
+  IF TG_TABLE_NAME <> 'profiles' AND subject_id = public.get_child_session_profile_id() THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Read-only access: you cannot change this child''s data';
+END;
+$$;
+
+-- ============================================================================
+-- CHILD SESSION POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Anonymous users cannot create profiles" ON profiles;
+CREATE POLICY "Anonymous users cannot create profiles"
+  ON profiles
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) = false);
+
+DROP POLICY IF EXISTS "Child sessions can view own profile" ON profiles;
+CREATE POLICY "Child sessions can view own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (profile_id = public.get_child_session_profile_id());
+
+-- Activity the child records themselves
+DO $$
+DECLARE
+  activity_table text;
+BEGIN
+  FOREACH activity_table IN ARRAY ARRAY['exercise_sessions', 'workouts', 'user_progress', 'user_adventures', 'user_path_progress']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Child sessions can view own rows" ON %I', activity_table);
+    EXECUTE format(
+      'CREATE POLICY "Child sessions can view own rows" ON %I FOR SELECT TO authenticated
+         USING (user_id = public.get_child_session_profile_id())',
+      activity_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Child sessions can insert own rows" ON %I', activity_table);
+    EXECUTE format(
+      'CREATE POLICY "Child sessions can insert own rows" ON %I FOR INSERT TO authenticated
+         WITH CHECK (user_id = public.get_child_session_profile_id())',
+      activity_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Child sessions can update own rows" ON %I', activity_table);
+    EXECUTE format(
+      'CREATE POLICY "Child sessions can update own rows" ON %I FOR UPDATE TO authenticated
+         USING (user_id = public.get_child_session_profile_id())
+         WITH CHECK (user_id = public.get_child_session_profile_id())',
+      activity_table
+    );
+  END LOOP;
+END $$;
+
+-- Earned by the reward and goal functions, only read by the child
+DROP POLICY IF EXISTS "Child sessions can view own rewards" ON user_rewards;
+CREATE POLICY "Child sessions can view own rewards"
+  ON user_rewards
+  FOR SELECT
+  TO authenticated
+  USING (user_id = public.get_child_session_profile_id());
+
+DROP POLICY IF EXISTS "Child sessions can view own goal achievements" ON goal_achievements;
+CREATE POLICY "Child sessions can view own goal achievements"
+  ON goal_achievements
+  FOR SELECT
+  TO authenticated
+  USING (user_id = public.get_child_session_profile_id());
+
+-- Assignments from the child's teams show up in their workout screen
+DROP POLICY IF EXISTS "Child sessions can view own memberships" ON team_members;
+CREATE POLICY "Child sessions can view own memberships"
+  ON team_members
+  FOR SELECT
+  TO authenticated
+  USING (child_id = public.get_child_session_profile_id());
+
+DROP POLICY IF EXISTS "Child sessions can view own teams" ON teams;
+CREATE POLICY "Child sessions can view own teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (
+    id IN (SELECT tm.team_id FROM team_members tm WHERE tm.child_id = public.get_child_session_profile_id())
+  );
+
+DROP POLICY IF EXISTS "Child sessions can view own assignments" ON team_assignments;
+CREATE POLICY "Child sessions can view own assignments"
+  ON team_assignments
+  FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT tm.team_id FROM team_members tm WHERE tm.child_id = public.get_child_session_profile_id())
+  );
+
+-- ============================================================================
+-- FAMILY DEVICES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.register_family_device(p_label text)
+RETURNS TABLE (device_id uuid, token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id uuid;
+  clean_label text;
+  new_token text;
+  new_device_id uuid;
+BEGIN
+  SELECT profile_id INTO owner_id
+  FROM profiles
+  WHERE user_id = auth.uid() AND COALESCE(is_child, false) = false;
+
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Only parents can register a family device';
+  END IF;
+
+  clean_label := btrim(COALESCE(p_label, ''));
+  IF clean_label = '' OR length(clean_label) > 40 THEN
+    RAISE EXCEPTION 'Device name must be 1 to 40 characters';
+  END IF;
+
+  new_token := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO family_devices (parent_id, label, token_hash)
+  VALUES (owner_id, clean_label, encode(sha256(convert_to(new_token, 'UTF8')), 'hex'))
+  RETURNING id INTO new_device_id;
+
+  RETURN QUERY SELECT new_device_id, new_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_family_device(p_device_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE family_devices
+  SET revoked_at = COALESCE(revoked_at, now())
+  WHERE id = p_device_id
+    AND parent_id = public.get_current_user_profile_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  UPDATE child_sessions
+  SET ended_at = now()
+  WHERE device_id = p_device_id AND ended_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_family_device(p_device_token text)
+RETURNS family_devices
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM family_devices
+  WHERE token_hash = encode(sha256(convert_to(COALESCE(p_device_token, ''), 'UTF8')), 'hex')
+    AND revoked_at IS NULL;
+$$;
+
+-- Children the device owner fully manages, with sign-in set up and consent given
+CREATE OR REPLACE FUNCTION public.get_family_device_children(p_device_token text)
+RETURNS TABLE (child_id uuid, display_name text, avatar text, secret_kind text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device family_devices%ROWTYPE;
+BEGIN
+  device := public.find_family_device(p_device_token);
+  IF device.id IS NULL THEN
+    RAISE EXCEPTION 'This device is no longer set up for child sign-in';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.profile_id, p.display_name, cl.avatar, cl.secret_kind
+  FROM parent_child_relationships pcr
+  JOIN profiles p ON p.profile_id = pcr.child_id
+  JOIN child_logins cl ON cl.child_id = p.profile_id
+  WHERE pcr.parent_id = device.parent_id
+    AND pcr.active = true
+    AND pcr.access_level = 'full'
+    AND pcr.relationship_type <> 'coach'
+    AND p.archived_at IS NULL
+    AND public.profile_consent_active(p.profile_id)
+  ORDER BY p.display_name;
+END;
+$$;
+
+-- ============================================================================
+-- CHILD LOGINS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.hash_child_secret(p_secret text, p_salt text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(sha256(convert_to(p_salt || ':' || p_secret, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_child_login(
+  p_child_id uuid,
+  p_avatar text,
+  p_secret_kind text,
+  p_secret text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_salt text;
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  IF COALESCE(p_avatar, '') !~ '^[a-z_]{1,20}$' THEN
+    RAISE EXCEPTION 'Please choose an avatar';
+  END IF;
+
+  IF p_secret_kind = 'picture' THEN
+    IF COALESCE(p_secret, '') !~ '^[0-8]{4}$' THEN
+      RAISE EXCEPTION 'Picture code must be 4 pictures';
+    END IF;
+  ELSIF p_secret_kind = 'pin' THEN
+    IF COALESCE(p_secret, '') !~ '^[0-9]{4,6}$' THEN
+      RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Code type must be picture or pin';
+  END IF;
+
+  new_salt := replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO child_logins (child_id, avatar, secret_kind, secret_salt, secret_hash, updated_by)
+  VALUES (
+    p_child_id,
+    p_avatar,
+    p_secret_kind,
+    new_salt,
+    public.hash_child_secret(p_secret, new_salt),
+    public.get_current_user_profile_id()
+  )
+  ON CONFLICT (child_id) DO UPDATE
+  SET avatar = EXCLUDED.avatar,
+      secret_kind = EXCLUDED.secret_kind,
+      secret_salt = EXCLUDED.secret_salt,
+      secret_hash = EXCLUDED.secret_hash,
+      failed_attempts = 0,
+      locked_until = NULL,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = now();
+
+  -- A new code signs the child out everywhere
+  UPDATE child_sessions
+  SET ended_at = now()
+  WHERE child_id = p_child_id AND ended_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_child_login(p_child_id uuid)
+RETURNS TABLE (avatar text, secret_kind text, updated_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  RETURN QUERY
+  SELECT cl.avatar, cl.secret_kind, cl.updated_at
+  FROM child_logins cl
+  WHERE cl.child_id = p_child_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.disable_child_login(p_child_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_parent_of(p_child_id);
+
+  DELETE FROM child_logins WHERE child_id = p_child_id;
+
+  UPDATE child_sessions
+  SET ended_at = now()
+  WHERE child_id = p_child_id AND ended_at IS NULL;
+END;
+$$;
+
+-- ============================================================================
+-- CHILD SESSIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.start_child_session(
+  p_device_token text,
+  p_child_id uuid,
+  p_secret text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device family_devices%ROWTYPE;
+  login child_logins%ROWTYPE;
+BEGIN
+  -- Only a fresh anonymous sign-in can become a child session
+  IF auth.uid() IS NULL OR NOT COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) THEN
+    RAISE EXCEPTION 'Child sign-in needs a new device session';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.get_family_device_children(p_device_token) c WHERE c.child_id = p_child_id
+  ) THEN
+    RAISE EXCEPTION 'This child cannot sign in on this device';
+  END IF;
+
+  device := public.find_family_device(p_device_token);
+
+  SELECT * INTO login FROM child_logins WHERE child_id = p_child_id FOR UPDATE;
+
+  IF login.locked_until IS NOT NULL AND login.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many wrong attempts. Try again in a few minutes';
+  END IF;
+
+  IF public.hash_child_secret(COALESCE(p_secret, ''), login.secret_salt) <> login.secret_hash THEN
+    UPDATE child_logins
+    SET failed_attempts = CASE WHEN login.failed_attempts + 1 >= 5 THEN 0 ELSE login.failed_attempts + 1 END,
+        locked_until = CASE WHEN login.failed_attempts + 1 >= 5 THEN now() + interval '5 minutes' ELSE NULL END
+    WHERE child_id = p_child_id;
+    RETURN false;
+  END IF;
+
+  UPDATE child_logins
+  SET failed_attempts = 0, locked_until = NULL
+  WHERE child_id = p_child_id;
+
+  INSERT INTO child_sessions (auth_user_id, child_id, device_id)
+  VALUES (auth.uid(), p_child_id, device.id)
+  ON CONFLICT (auth_user_id) DO UPDATE
+  SET child_id = EXCLUDED.child_id,
+      device_id = EXCLUDED.device_id,
+      started_at = now(),
+      expires_at = now() + interval '12 hours',
+      ended_at = NULL;
+
+  UPDATE family_devices SET last_used_at = now() WHERE id = device.id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_child_session()
+RETURNS TABLE (child_id uuid, display_name text, avatar text, expires_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.profile_id, p.display_name, cl.avatar, cs.expires_at
+  FROM child_sessions cs
+  JOIN profiles p ON p.profile_id = cs.child_id
+  LEFT JOIN child_logins cl ON cl.child_id = cs.child_id
+  WHERE cs.auth_user_id = auth.uid()
+    AND cs.child_id = public.get_child_session_profile_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_child_session()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE child_sessions
+  SET ended_at = now()
+  WHERE auth_user_id = auth.uid() AND ended_at IS NULL;
+$$;
+
+-- ============================================================================
+-- EXISTING RPCS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.evaluate_user_rewards(
+  p_user_id uuid,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS SETOF rewards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  candidate rewards%ROWTYPE;
+  awarded_count integer := 0;
+BEGIN
+  IF NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to evaluate rewards for this profile';
+  END IF;
+
+  FOR candidate IN
+    SELECT r.* FROM rewards r
+    WHERE r.is_active = true
+      AND NOT EXISTS (
+        SELECT 1 FROM user_rewards ur
+        WHERE ur.user_id = p_user_id AND ur.reward_id = r.id
+      )
+  LOOP
+    IF public.reward_criteria_met(p_user_id, candidate.unlock_criteria) THEN
+      INSERT INTO user_rewards (user_id, reward_id, earned_from_session_id, is_new)
+      VALUES (p_user_id, candidate.id, p_session_id, true)
+      ON CONFLICT (user_id, reward_id) DO NOTHING;
+
+      IF FOUND THEN
+        awarded_count := awarded_count + 1;
+        RETURN NEXT candidate;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF awarded_count > 0 THEN
+    UPDATE user_progress
+    SET achievements_earned = COALESCE(achievements_earned, 0) + awarded_count,
+        updated_at = now()
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_goals(
+  p_user_id uuid,
+  p_weekly_goal_minutes integer,
+  p_monthly_goal_exercises integer
+)
+RETURNS user_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  progress user_progress%ROWTYPE;
+BEGIN
+  IF public.get_child_session_profile_id() IS NOT NULL
+     OR NOT (p_user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Not allowed to set goals for this profile';
+  END IF;
+
+  IF p_weekly_goal_minutes IS NULL OR p_weekly_goal_minutes NOT BETWEEN 10 AND 1000 THEN
+    RAISE EXCEPTION 'Weekly goal must be between 10 and 1000 minutes';
+  END IF;
+
+  IF p_monthly_goal_exercises IS NULL OR p_monthly_goal_exercises NOT BETWEEN 1 AND 200 THEN
+    RAISE EXCEPTION 'Monthly goal must be between 1 and 200 exercises';
+  END IF;
+
+  INSERT INTO user_progress (user_id, weekly_goal_minutes, monthly_goal_exercises)
+  VALUES (p_user_id, p_weekly_goal_minutes, p_monthly_goal_exercises)
+  ON CONFLICT (user_id) DO UPDATE
+  SET weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+      monthly_goal_exercises = EXCLUDED.monthly_goal_exercises,
+      updated_at = now()
+  RETURNING * INTO progress;
+
+  RETURN progress;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_child_session_profile_id() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.find_family_device(text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.hash_child_secret(text, text) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.get_child_session_profile_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.register_family_device(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_family_device(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_family_device_children(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_child_login(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_child_login(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.disable_child_login(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_child_session(text, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_child_session() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_child_session() TO authenticated;
@@ -0,0 +1,148 @@
+/*
+# Parent Account Settings
+
+## Overview
+Parents can change their name, language and privacy settings from the
+dashboard. The privacy settings now decide what the app does: usage analytics
+are only recorded while the parent has turned them on, and turning them off
+deletes what was recorded.
+
+## New Tables
+1. `app_events` - Usage events from a parent's own session: an event name and
+   a few descriptive properties. Children's sessions never record events
+
+## New Functions
+1. `update_account_settings(text, text, jsonb)` - Saves the display name,
+   preferred language and privacy settings of the signed-in adult
+2. `sync_profile_email()` - Trigger on auth.users copying a confirmed email
+   change to the profile
+
+## Security
+- app_events can only be inserted for the caller's own adult profile, and only
+  while `privacy_settings.analytics` is true. There is no SELECT policy, so
+  events are never read back from the client
+- Privacy settings must be exactly dataSharing, analytics and marketing, all
+  booleans
+*/
+
+-- ============================================================================
+-- APP EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS app_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES profiles(profile_id) ON DELETE CASCADE,
+  event_name text NOT NULL CHECK (event_name ~ '^[a-z_]{1,40}$'),
+  properties jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_events_profile ON app_events(profile_id, created_at);
+
+ALTER TABLE app_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents who allow analytics can record events" ON app_events;
+CREATE POLICY "Parents who allow analytics can record events"
+  ON app_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.profile_id = app_events.profile_id
+        AND profiles.user_id = auth.uid()
+        AND profiles.is_child IS NOT TRUE
+        AND COALESCE((profiles.privacy_settings ->> 'analytics')::boolean, false)
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_account_settings(
+  p_display_name text,
+  p_preferred_language text,
+  p_privacy_settings jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid;
+  clean_name text;
+BEGIN
+  SELECT profile_id INTO caller_id
+  FROM profiles
+  WHERE user_id = auth.uid() AND is_child IS NOT TRUE;
+
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Only parent accounts have settings';
+  END IF;
+
+  clean_name := btrim(COALESCE(p_display_name, ''));
+  IF clean_name = '' THEN
+    RAISE EXCEPTION 'Name is required';
+  END IF;
+  IF length(clean_name) > 50 THEN
+    RAISE EXCEPTION 'Name must be at most 50 characters';
+  END IF;
+
+  IF p_preferred_language IS NULL OR p_preferred_language NOT IN ('en', 'ru') THEN
+    RAISE EXCEPTION 'Language must be en or ru';
+  END IF;
+
+  IF p_privacy_settings IS NULL
+    OR jsonb_typeof(p_privacy_settings) <> 'object'
+    OR (SELECT array_agg(key ORDER BY key) FROM jsonb_object_keys(p_privacy_settings) AS key)
+       <> ARRAY['analytics', 'dataSharing', 'marketing']
+    OR EXISTS (
+      SELECT 1 FROM jsonb_each(p_privacy_settings) WHERE jsonb_typeof(value) <> 'boolean'
+    )
+  THEN
+    RAISE EXCEPTION 'Privacy settings must be dataSharing, analytics and marketing switches';
+  END IF;
+
+  UPDATE profiles
+  SET display_name = clean_name,
+      preferred_language = p_preferred_language,
+      privacy_settings = p_privacy_settings,
+      updated_at = now()
+  WHERE profile_id = caller_id;
+
+  -- Withdrawing analytics consent also removes what was collected under it
+  IF NOT (p_privacy_settings ->> 'analytics')::boolean THEN
+    DELETE FROM app_events WHERE profile_id = caller_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_profile_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE profiles
+  SET email = NEW.email,
+      updated_at = now()
+  WHERE user_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Supabase only changes auth.users.email once the new address is confirmed
+DROP TRIGGER IF EXISTS sync_profile_email ON auth.users;
+CREATE TRIGGER sync_profile_email
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.sync_profile_email();
+
+REVOKE EXECUTE ON FUNCTION public.sync_profile_email() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.update_account_settings(text, text, jsonb) TO authenticated;
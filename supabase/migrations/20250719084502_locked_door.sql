@@ -0,0 +1,161 @@
+/*
+# Exercise Prerequisites on the Server
+
+## Overview
+The catalog locks exercises until a child has met their prerequisites, but the
+lock only lived in the browser. A session for a locked exercise can now no
+longer be written at all, whichever screen or request tries to start it.
+
+## New Functions
+1. `exercise_unlocked_for(uuid, uuid)` - Whether a child has met every
+   prerequisite of an exercise: minimum_completions completed sessions of the
+   prerequisite exercise rated at least minimum_rating, the same rule the
+   catalog shows
+2. `enforce_exercise_prerequisites()` - BEFORE INSERT trigger on
+   exercise_sessions rejecting sessions for locked exercises
+3. `get_team_exercise_locks(uuid)` - For the coach: exercises still locked
+   for at least one team member, with how many members they are locked for
+
+## Changes
+1. `create_team_assignment(uuid, text, uuid[], date)` - Rejects exercises that
+   are still locked for any team member
+
+## Notes
+- Rejections use the check_violation error code, so the offline queue drops a
+  locked session instead of retrying it
+- Updates to existing sessions are not checked; a session that was allowed to
+  start can always be finished
+- Like the team board, the team checks only count members whose parental
+  consent is active, and the coach only learns exercise ids and counts
+*/
+
+-- ============================================================================
+-- PREREQUISITE CHECK
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.exercise_unlocked_for(p_child_id uuid, p_exercise_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM exercise_prerequisites ep
+    WHERE ep.exercise_id = p_exercise_id
+      AND (
+        SELECT COUNT(*)
+        FROM exercise_sessions es
+        WHERE es.user_id = p_child_id
+          AND es.exercise_id = ep.prerequisite_exercise_id
+          AND es.completed_at IS NOT NULL
+          AND COALESCE(es.fun_rating, 0) >= COALESCE(ep.minimum_rating, 0)
+      ) < COALESCE(ep.minimum_completions, 1)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_exercise_prerequisites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.exercise_unlocked_for(NEW.user_id, NEW.exercise_id) THEN
+    RAISE EXCEPTION 'This exercise is locked until its prerequisites are completed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_exercise_prerequisites ON exercise_sessions;
+CREATE TRIGGER enforce_exercise_prerequisites
+  BEFORE INSERT ON exercise_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_exercise_prerequisites();
+
+-- ============================================================================
+-- TEAM ASSIGNMENTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_team_exercise_locks(p_team_id uuid)
+RETURNS TABLE (exercise_id uuid, locked_members integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.assert_team_coach(p_team_id);
+
+  RETURN QUERY
+  SELECT e.id, COUNT(*)::integer
+  FROM exercises e
+  CROSS JOIN team_members tm
+  WHERE tm.team_id = p_team_id
+    AND e.is_active = true
+    AND public.profile_consent_active(tm.child_id)
+    AND EXISTS (SELECT 1 FROM exercise_prerequisites ep WHERE ep.exercise_id = e.id)
+    AND NOT public.exercise_unlocked_for(tm.child_id, e.id)
+  GROUP BY e.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_team_assignment(
+  p_team_id uuid,
+  p_title text,
+  p_exercise_ids uuid[],
+  p_due_date date DEFAULT NULL
+)
+RETURNS team_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  clean_title text;
+  entry team_assignments%ROWTYPE;
+BEGIN
+  PERFORM public.assert_team_coach(p_team_id);
+
+  clean_title := btrim(COALESCE(p_title, ''));
+  IF clean_title = '' OR length(clean_title) > 80 THEN
+    RAISE EXCEPTION 'Assignment title must be 1 to 80 characters';
+  END IF;
+
+  IF COALESCE(cardinality(p_exercise_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one exercise';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_exercise_ids) AS picked(id)
+    WHERE NOT EXISTS (SELECT 1 FROM exercises e WHERE e.id = picked.id AND e.is_active = true)
+  ) THEN
+    RAISE EXCEPTION 'Assignment contains an unknown exercise';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_exercise_ids) AS picked(id)
+    CROSS JOIN team_members tm
+    WHERE tm.team_id = p_team_id
+      AND public.profile_consent_active(tm.child_id)
+      AND NOT public.exercise_unlocked_for(tm.child_id, picked.id)
+  ) THEN
+    RAISE EXCEPTION 'Assignment contains an exercise that is locked for a team member'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO team_assignments (team_id, title, exercise_ids, due_date, created_by)
+  VALUES (p_team_id, clean_title, p_exercise_ids, p_due_date, public.get_current_user_profile_id())
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exercise_unlocked_for(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_team_exercise_locks(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_team_assignment(uuid, text, uuid[], date) TO authenticated;
@@ -0,0 +1,82 @@
+/*
+# Apply Session Progress Once
+
+## Overview
+update_user_progress adds one session to the totals each time it is called.
+The offline queue replays a session until it sees a success, so a response lost
+on a flaky connection counted the same session twice. Progress is now applied
+per exercise_sessions row, at most once, from the values stored on that row.
+
+## New Tables
+1. `session_progress_ledger` - Sessions already rolled into user_progress
+
+## New Functions
+1. `apply_session_progress(uuid)` - Rolls one finished session into
+   user_progress through update_user_progress; calling it again for the same
+   session returns the progress row unchanged
+
+## Security
+- apply_session_progress is SECURITY DEFINER and limited to sessions of
+  profiles in get_accessible_profile_ids()
+- The ledger has RLS enabled and no policies; only the function writes to it
+- update_user_progress is no longer callable by clients, so totals can only
+  move through apply_session_progress
+*/
+
+CREATE TABLE IF NOT EXISTS session_progress_ledger (
+  session_id uuid PRIMARY KEY REFERENCES exercise_sessions(id) ON DELETE CASCADE,
+  applied_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Not backfilled: older sessions are never applied again, and sessions still
+-- waiting in an offline queue have not been counted yet
+ALTER TABLE session_progress_ledger ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- APPLY PROGRESS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_session_progress(p_session_id uuid)
+RETURNS user_progress
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session exercise_sessions%ROWTYPE;
+  progress user_progress%ROWTYPE;
+BEGIN
+  SELECT * INTO session FROM exercise_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND OR NOT (session.user_id = ANY(public.get_accessible_profile_ids())) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF session.completed_at IS NULL THEN
+    RAISE EXCEPTION 'Session is not finished yet';
+  END IF;
+
+  INSERT INTO session_progress_ledger (session_id)
+  VALUES (p_session_id)
+  ON CONFLICT (session_id) DO NOTHING;
+
+  -- A replay after a lost response: the first call already counted it
+  IF NOT FOUND THEN
+    SELECT * INTO progress FROM user_progress WHERE user_id = session.user_id;
+    RETURN progress;
+  END IF;
+
+  RETURN public.update_user_progress(
+    session.user_id,
+    session.exercise_id,
+    session.points_earned,
+    session.fun_rating,
+    ROUND(COALESCE(session.duration_minutes, 0) * 60)::integer,
+    session.completed_at
+  );
+END;
+$$;
+
+REVOKE ALL ON session_progress_ledger FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_user_progress(uuid, uuid, integer, integer, integer, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_session_progress(uuid) TO authenticated;
@@ -7,7 +7,7 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
-  base: './',  // Use relative paths for better file:// protocol support
+  base: '/',  // Absolute asset paths, so deep links like /children/:id/catalog load after a reload
   server: {
     host: '127.0.0.1',    // Use IP address instead of localhost
     port: 5173,           // Default Vite port